@@ -8,6 +8,7 @@ import { DigitalImageEnhancer } from './components/DigitalImageEnhancer';
 import { PrivacyPolicy } from './components/PrivacyPolicy';
 import { TermsOfService } from './components/TermsOfService';
 import { Contact } from './components/Contact';
+import { ViewerPage } from './components/ViewerPage';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { SEOHeaders } from './components/SEOHeaders';
 import { StickyBottomAd } from './components/AdComponent';
@@ -440,6 +441,7 @@ function Layout({ children }: { children: React.ReactNode }) {
                 <Link to="/" className="text-gray-600 hover:text-gray-900">Home</Link>
                 <Link to="/image-tools" className="text-gray-600 hover:text-gray-900">Image Size Reduce </Link>
                 <Link to="/pdf-tools" className="text-gray-600 hover:text-gray-900">PDF Tools</Link>
+                <Link to="/viewer" className="text-gray-600 hover:text-gray-900">PDF Viewer</Link>
                 <Link to="/digital-enhancer" className="text-gray-600 hover:text-gray-900">Digital Enhancer</Link>
               </div>
             </div>
@@ -511,6 +513,13 @@ function Layout({ children }: { children: React.ReactNode }) {
               >
                 PDF Tools
               </Link>
+              <Link
+                to="/viewer"
+                className="block text-gray-600 hover:text-gray-900"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                PDF Viewer
+              </Link>
               <Link
                 to="/digital-enhancer"
                 className="block text-gray-600 hover:text-gray-900"
@@ -570,6 +579,7 @@ function Layout({ children }: { children: React.ReactNode }) {
                 <li><Link to="/" className="text-gray-400 hover:text-white">Home</Link></li>
                 <li><Link to="/image-tools" className="text-gray-400 hover:text-white">Image Size Reduce</Link></li>
                 <li><Link to="/pdf-tools" className="text-gray-400 hover:text-white">PDF Tools</Link></li>
+                <li><Link to="/viewer" className="text-gray-400 hover:text-white">PDF Viewer</Link></li>
                 <li><Link to="/digital-enhancer" className="text-gray-400 hover:text-white">Digital Enhancer</Link></li>
               </ul>
             </div>
@@ -606,6 +616,7 @@ function App() {
             <Route path="/" element={<HomePage />} />
             <Route path="/image-tools" element={<ImageTools />} />
             <Route path="/pdf-tools" element={<PDFTools />} />
+            <Route path="/viewer" element={<ViewerPage />} />
             <Route path="/html-to-pdf" element={<HTMLToPDF />} />
             <Route path="/digital-enhancer" element={<DigitalImageEnhancer />} />
             <Route path="/privacy" element={<PrivacyPolicy />} />
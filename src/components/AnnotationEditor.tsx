@@ -0,0 +1,438 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  ChevronLeft, ChevronRight, Circle, Highlighter, Loader2, Minus, PenLine, Square, StickyNote, Trash2, Type, Undo2,
+} from 'lucide-react';
+import { renderPagePreview, type PagePreview } from '../utils/pdfRender';
+import type { Point } from '../utils/pageStamp';
+import {
+  ANNOTATION_COLORS, ANNOTATION_TOOLS, createAnnotationId, getAnnotationLabel,
+  type AnnotationDraft, type AnnotationTool, type ExistingAnnotation,
+} from '../utils/pdfAnnotations';
+
+interface AnnotationEditorProps {
+  file: File;
+  drafts: AnnotationDraft[];
+  onChange: (drafts: AnnotationDraft[]) => void;
+  existing: ExistingAnnotation[];
+  removedIds: string[];
+  onRemovedChange: (ids: string[]) => void;
+}
+
+const TOOL_ICONS: Record<AnnotationTool, typeof Highlighter> = {
+  highlight: Highlighter,
+  note: StickyNote,
+  square: Square,
+  circle: Circle,
+  line: Minus,
+  ink: PenLine,
+  freetext: Type,
+};
+
+const inputClassName =
+  'block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+// Drags shorter than this fraction of the page are treated as stray clicks
+const MIN_DRAG_SIZE = 0.005;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const boundsOf = (points: Point[]) => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+};
+
+const percent = (value: number) => `${value * 100}%`;
+
+const boxStyle = ({ x, y, width, height }: { x: number; y: number; width: number; height: number }) => ({
+  left: percent(x),
+  top: percent(y),
+  width: percent(width),
+  height: percent(height),
+});
+
+export function AnnotationEditor({ file, drafts, onChange, existing, removedIds, onRemovedChange }: AnnotationEditorProps) {
+  const [pageNumber, setPageNumber] = useState(1);
+  const [preview, setPreview] = useState<PagePreview | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>('highlight');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [strokeWidth, setStrokeWidth] = useState(2);
+  const [fontSize, setFontSize] = useState(12);
+  // Points of the drag in progress: every point for ink, start and end otherwise
+  const [dragPoints, setDragPoints] = useState<Point[] | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const commentRefs = useRef(new Map<string, HTMLTextAreaElement>());
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const rendered = await renderPagePreview(await file.arrayBuffer(), pageNumber, 600);
+        if (!cancelled) setPreview(rendered);
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, pageNumber]);
+
+  // Notes and text boxes need their text typed in right after placing them
+  useEffect(() => {
+    if (!focusId) return;
+    commentRefs.current.get(focusId)?.focus();
+    setFocusId(null);
+  }, [focusId]);
+
+  // Pointer position as fractions of the overlay
+  const getPoint = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.target !== overlayRef.current) return;
+    const point = getPoint(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragPoints([point, point]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragPoints) return;
+    const point = getPoint(e);
+    setDragPoints(tool === 'ink' ? [...dragPoints, point] : [dragPoints[0], point]);
+  };
+
+  const handlePointerUp = () => {
+    if (!dragPoints || !preview) return;
+    const points = tool === 'ink' ? dragPoints.slice(1) : dragPoints;
+    const bounds = boundsOf(points);
+    setDragPoints(null);
+
+    const base = {
+      id: createAnnotationId(),
+      tool,
+      page: preview.pageNumber - 1,
+      strokes: [] as Point[][],
+      color,
+      strokeWidth,
+      contents: '',
+      fontSize,
+    };
+    let draft: AnnotationDraft;
+    if (tool === 'note') {
+      draft = { ...base, ...points[0], width: 0, height: 0 };
+    } else if (Math.max(bounds.width, bounds.height) < MIN_DRAG_SIZE) {
+      return;
+    } else if (tool === 'line' || tool === 'ink') {
+      draft = { ...base, ...bounds, strokes: [points] };
+    } else if (bounds.width < MIN_DRAG_SIZE || bounds.height < MIN_DRAG_SIZE) {
+      return;
+    } else {
+      draft = { ...base, ...bounds };
+    }
+
+    onChange([...drafts, draft]);
+    if (tool === 'note' || tool === 'freetext') setFocusId(draft.id);
+  };
+
+  const updateDraft = (id: string, contents: string) => {
+    onChange(drafts.map(draft => (draft.id === id ? { ...draft, contents } : draft)));
+  };
+
+  const toggleRemoved = (id: string) => {
+    onRemovedChange(removedIds.includes(id) ? removedIds.filter(removed => removed !== id) : [...removedIds, id]);
+  };
+
+  const renderDraft = (draft: AnnotationDraft) => {
+    const outline = hoveredId === draft.id ? 'outline outline-2 outline-indigo-500' : '';
+    switch (draft.tool) {
+      case 'highlight':
+        return (
+          <div
+            key={draft.id}
+            className={`absolute mix-blend-multiply opacity-50 ${outline}`}
+            style={{ ...boxStyle(draft), backgroundColor: draft.color }}
+          />
+        );
+      case 'note':
+        return (
+          <div
+            key={draft.id}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 ${outline}`}
+            style={{ left: percent(draft.x), top: percent(draft.y), color: draft.color }}
+          >
+            <StickyNote className="w-5 h-5 fill-current stroke-gray-700" />
+          </div>
+        );
+      case 'square':
+      case 'circle':
+        return (
+          <div
+            key={draft.id}
+            className={`absolute ${draft.tool === 'circle' ? 'rounded-[50%]' : ''} ${outline}`}
+            style={{ ...boxStyle(draft), border: `${draft.strokeWidth}px solid ${draft.color}` }}
+          />
+        );
+      case 'freetext':
+        return (
+          <div
+            key={draft.id}
+            className={`absolute overflow-hidden whitespace-pre-wrap break-words leading-tight p-0.5 border border-dashed border-gray-400 ${outline}`}
+            style={{ ...boxStyle(draft), color: draft.color, fontSize: draft.fontSize, fontFamily: 'Helvetica, Arial, sans-serif' }}
+          >
+            {draft.contents}
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  // Lines and ink are drawn in one SVG stretched over the page
+  const renderStroke = (id: string, points: Point[], strokeColor: string, width: number) => (
+    <polyline
+      key={id}
+      points={points.map(point => `${point.x * 100},${point.y * 100}`).join(' ')}
+      fill="none"
+      stroke={strokeColor}
+      strokeWidth={hoveredId === id ? width + 2 : width}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      vectorEffect="non-scaling-stroke"
+    />
+  );
+
+  const currentPage = preview ? preview.pageNumber - 1 : -1;
+  const pageDrafts = drafts.filter(draft => draft.page === currentPage);
+  const dragBounds = dragPoints && tool !== 'ink' && tool !== 'line' && tool !== 'note' ? boundsOf(dragPoints) : null;
+  const hoveredExisting = existing.find(annotation => annotation.id === hoveredId && annotation.page === currentPage);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+        <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+          {ANNOTATION_TOOLS.map(option => {
+            const Icon = TOOL_ICONS[option.value];
+            return (
+              <button
+                key={option.value}
+                onClick={() => setTool(option.value)}
+                className={`flex flex-col items-center gap-1 px-2 py-2 rounded-lg text-xs font-medium ${
+                  tool === option.value ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          <div className="flex items-center gap-2">
+            <span>Color</span>
+            {ANNOTATION_COLORS.map(option => (
+              <button
+                key={option}
+                onClick={() => setColor(option)}
+                className={`w-6 h-6 rounded-full border-2 ${color === option ? 'border-indigo-600' : 'border-white shadow'}`}
+                style={{ backgroundColor: option }}
+                aria-label={`Color ${option}`}
+              />
+            ))}
+          </div>
+          {(tool === 'square' || tool === 'circle' || tool === 'line' || tool === 'ink') && (
+            <label className="flex items-center gap-2">
+              Line width
+              <input
+                type="range"
+                min={1}
+                max={10}
+                value={strokeWidth}
+                onChange={(e) => setStrokeWidth(Number(e.target.value))}
+              />
+              <span className="w-8">{strokeWidth}pt</span>
+            </label>
+          )}
+          {tool === 'freetext' && (
+            <label className="flex items-center gap-2">
+              Font size
+              <input
+                type="number"
+                min={6}
+                max={72}
+                value={fontSize}
+                onChange={(e) => setFontSize(Math.min(Math.max(Number(e.target.value) || 12, 6), 72))}
+                className="w-20 rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      {!preview ? (
+        <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg text-gray-400">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-600 mb-2">
+            {tool === 'note' ? 'Click the page to pin a note.'
+              : tool === 'ink' ? 'Draw on the page with your mouse, finger or stylus.'
+              : tool === 'line' ? 'Drag to draw a line.'
+              : 'Drag to mark an area on the page.'}
+          </p>
+          <div className="relative mx-auto w-fit select-none touch-none">
+            <img
+              src={preview.dataUrl}
+              alt={`Page ${preview.pageNumber}`}
+              className="block max-w-full border border-gray-200 shadow-sm"
+              draggable={false}
+            />
+            <div
+              ref={overlayRef}
+              className="absolute inset-0 cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDragPoints(null)}
+            >
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                {pageDrafts.flatMap(draft => draft.strokes.map((points, i) => (
+                  renderStroke(i === 0 ? draft.id : `${draft.id}-${i}`, points, draft.color, draft.strokeWidth)
+                )))}
+                {dragPoints && (tool === 'ink' || tool === 'line') && (
+                  renderStroke('drag', tool === 'ink' ? dragPoints.slice(1) : dragPoints, color, strokeWidth)
+                )}
+              </svg>
+              <div className="absolute inset-0 pointer-events-none">
+                {pageDrafts.map(renderDraft)}
+                {hoveredExisting && (
+                  <div className="absolute outline outline-2 outline-indigo-500 bg-indigo-500/10" style={boxStyle(hoveredExisting.area)} />
+                )}
+                {dragBounds && (
+                  <div className="absolute border-2 border-dashed border-indigo-500 bg-indigo-500/10" style={boxStyle(dragBounds)} />
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center justify-center gap-4 mt-3 text-sm text-gray-600">
+            <button
+              onClick={() => setPageNumber(preview.pageNumber - 1)}
+              disabled={preview.pageNumber <= 1}
+              className="p-1 rounded hover:bg-gray-200 disabled:opacity-50"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span>
+              Page {preview.pageNumber} of {preview.pageCount}
+              {pageDrafts.length > 0 && ` · ${pageDrafts.length} new`}
+            </span>
+            <button
+              onClick={() => setPageNumber(preview.pageNumber + 1)}
+              disabled={preview.pageNumber >= preview.pageCount}
+              className="p-1 rounded hover:bg-gray-200 disabled:opacity-50"
+              aria-label="Next page"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {drafts.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">New annotations</h3>
+          <ul className="space-y-2">
+            {drafts.map(draft => (
+              <li
+                key={draft.id}
+                className="bg-white border border-gray-200 rounded-lg p-3"
+                onMouseEnter={() => setHoveredId(draft.id)}
+                onMouseLeave={() => setHoveredId(null)}
+              >
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <button onClick={() => setPageNumber(draft.page + 1)} className="flex items-center gap-2 text-gray-700 hover:text-indigo-600">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: draft.color }} />
+                    {ANNOTATION_TOOLS.find(option => option.value === draft.tool)!.label} · page {draft.page + 1}
+                  </button>
+                  <button
+                    onClick={() => onChange(drafts.filter(d => d.id !== draft.id))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label="Delete annotation"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <textarea
+                  ref={(element) => {
+                    if (element) commentRefs.current.set(draft.id, element);
+                    else commentRefs.current.delete(draft.id);
+                  }}
+                  value={draft.contents}
+                  onChange={(e) => updateDraft(draft.id, e.target.value)}
+                  rows={2}
+                  placeholder={draft.tool === 'freetext' ? 'Text shown in the box' : 'Comment (optional)'}
+                  className={`${inputClassName} mt-2 text-sm`}
+                />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {existing.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Existing annotations</h3>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+            {existing.map(annotation => {
+              const removed = removedIds.includes(annotation.id);
+              return (
+                <li
+                  key={annotation.id}
+                  className="flex items-start justify-between gap-3 p-3 text-sm"
+                  onMouseEnter={() => setHoveredId(annotation.id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                >
+                  <button
+                    onClick={() => setPageNumber(annotation.page + 1)}
+                    className={`text-left min-w-0 ${removed ? 'line-through text-gray-400' : 'text-gray-700'}`}
+                  >
+                    <span className="font-medium">{getAnnotationLabel(annotation.subtype)}</span>
+                    {' · '}page {annotation.page + 1}
+                    <span className="block text-xs text-gray-500">
+                      {annotation.author || 'Unknown author'}
+                      {annotation.modified && ` · ${annotation.modified.toLocaleString()}`}
+                    </span>
+                    {annotation.contents && <span className="block mt-1 break-words">{annotation.contents}</span>}
+                  </button>
+                  <button
+                    onClick={() => toggleRemoved(annotation.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 shrink-0"
+                    aria-label={removed ? 'Keep annotation' : 'Delete annotation'}
+                    title={removed ? 'Keep annotation' : 'Delete annotation'}
+                  >
+                    {removed ? <Undo2 className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
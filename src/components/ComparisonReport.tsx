@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import type { ComparisonResult, PageArea, PageComparison } from '../utils/pdfCompare';
+
+interface ComparisonReportProps {
+  result: ComparisonResult;
+}
+
+const areaStyle = (area: PageArea) => ({
+  left: `${area.x * 100}%`,
+  top: `${area.y * 100}%`,
+  width: `${area.width * 100}%`,
+  height: `${area.height * 100}%`,
+});
+
+const pageLabel = (page: PageComparison) => (
+  page.pageA === undefined ? `Added page ${page.pageB}`
+    : page.pageB === undefined ? `Removed page ${page.pageA}`
+    : page.pageA === page.pageB ? `Page ${page.pageA}`
+    : `Page ${page.pageA} → ${page.pageB}`
+);
+
+function PageImage({ src, areas, regions = [], overlay, highlightClassName }: {
+  src?: string;
+  areas: PageArea[];
+  // Changes found only in the rendered pixels, outlined
+  regions?: PageArea[];
+  overlay?: string;
+  highlightClassName: string;
+}) {
+  if (!src) {
+    return (
+      <div className="flex items-center justify-center h-full min-h-[200px] bg-gray-100 rounded text-sm text-gray-500">
+        No matching page
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative border border-gray-200 shadow-sm">
+      <img src={src} alt="" className="w-full block" />
+      {overlay && <img src={overlay} alt="" className="absolute inset-0 w-full h-full" />}
+      {areas.map((area, index) => (
+        <div key={index} className={`absolute ${highlightClassName}`} style={areaStyle(area)} />
+      ))}
+      {regions.map((region, index) => (
+        <div key={`region-${index}`} className="absolute border-2 border-red-500" style={areaStyle(region)} />
+      ))}
+    </div>
+  );
+}
+
+export function ComparisonReport({ result }: ComparisonReportProps) {
+  const [showPixels, setShowPixels] = useState(false);
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  const isChanged = (page: PageComparison) => (
+    page.pageA === undefined || page.pageB === undefined || page.changes.length > 0 || (page.visual?.regions.length ?? 0) > 0
+  );
+  const pages = changedOnly ? result.pages.filter(isChanged) : result.pages;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-50 p-4 rounded-lg">
+        <p className="text-sm text-gray-700">
+          <span className="font-medium text-green-700">{result.insertions} insertions</span>,{' '}
+          <span className="font-medium text-red-700">{result.deletions} deletions</span>,{' '}
+          {result.pages.filter(isChanged).length} of {result.pages.length} pages changed
+        </p>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={changedOnly}
+              onChange={(e) => setChangedOnly(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Changed pages only
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showPixels}
+              onChange={(e) => setShowPixels(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Show pixel differences
+          </label>
+        </div>
+      </div>
+
+      {pages.length === 0 && (
+        <p className="text-sm text-gray-600 text-center py-6">No differences found.</p>
+      )}
+
+      {pages.map((page, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex justify-between items-center mb-3">
+            <h4 className="font-medium text-gray-800">{pageLabel(page)}</h4>
+            {page.visual && (
+              <span className="text-xs text-gray-500">
+                {(page.visual.ratio * 100).toFixed(2)}% of pixels differ
+              </span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">Original</p>
+              <PageImage
+                src={page.imageA}
+                areas={page.changes.filter(change => change.type === 'delete').flatMap(change => change.areas)}
+                highlightClassName="bg-red-400/40 border-b-2 border-red-600"
+              />
+            </div>
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">Revised</p>
+              <PageImage
+                src={page.imageB}
+                areas={page.changes.filter(change => change.type === 'insert').flatMap(change => change.areas)}
+                regions={page.visual?.regions}
+                overlay={showPixels ? page.visual?.overlay : undefined}
+                highlightClassName="bg-green-400/40 border-b-2 border-green-600"
+              />
+            </div>
+          </div>
+
+          {page.changes.length > 0 && (
+            <ul className="mt-3 max-h-48 overflow-y-auto space-y-1 text-sm">
+              {page.changes.map((change, changeIndex) => (
+                <li
+                  key={changeIndex}
+                  className={change.type === 'insert' ? 'text-green-700' : 'text-red-700 line-through'}
+                >
+                  {change.type === 'insert' ? '+ ' : '− '}{change.text}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
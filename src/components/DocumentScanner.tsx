@@ -7,6 +7,7 @@ import { CachedOperation, CachedSettings } from '../types/cache';
 import { SEOHeaders } from './SEOHeaders';
 import { AdComponent } from './AdComponent';
 import { validateFile, ALLOWED_IMAGE_TYPES, createSecureDownloadLink } from '../utils/security';
+import { ocrImagesToPDF, OCR_LANGUAGES, type OcrPageReport, type OcrProgress } from '../utils/ocr';
 
 interface CapturedImage {
   dataUrl: string;
@@ -22,6 +23,10 @@ export function DocumentScanner() {
   const [error, setError] = useState<string | null>(null);
   const [cameraEnabled, setCameraEnabled] = useState(false);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
+  const [outputMode, setOutputMode] = useState<'images' | 'ocr-pdf'>('images');
+  const [ocrLanguage, setOcrLanguage] = useState<string>('eng');
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [ocrReport, setOcrReport] = useState<OcrPageReport[]>([]);
 
   useEffect(() => {
     // Check if the browser supports the MediaDevices API
@@ -109,12 +114,51 @@ export function DocumentScanner() {
     setImages(prev => prev.filter(img => img.timestamp !== timestamp));
   };
 
+  const createSearchablePDF = async () => {
+    setLoading(true);
+    setError(null);
+    setOcrReport([]);
+
+    try {
+      const blobs = await Promise.all(images.map(image => fetch(image.dataUrl).then(res => res.blob())));
+      const { bytes, report } = await ocrImagesToPDF(blobs, ocrLanguage, setOcrProgress);
+      const blob = new Blob([bytes], { type: 'application/pdf' });
+      setOcrReport(report);
+
+      const filename = `scanned-document-${new Date().toISOString()}.pdf`;
+      saveOperation({
+        type: 'document_scan_ocr',
+        metadata: {
+          filename,
+          fileSize: blob.size,
+          settings: { language: ocrLanguage, pageCount: report.length }
+        }
+      });
+
+      const link = createSecureDownloadLink(blob, filename);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err) {
+      setError('Error creating searchable PDF. Please try again.');
+      console.error(err);
+    } finally {
+      setOcrProgress(null);
+      setLoading(false);
+    }
+  };
+
   const processImages = async () => {
     if (images.length === 0) {
       setError('Please capture at least one image');
       return;
     }
 
+    if (outputMode === 'ocr-pdf') {
+      await createSearchablePDF();
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -249,6 +293,65 @@ export function DocumentScanner() {
                     ))}
                   </div>
 
+                  <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Output</label>
+                      <select
+                        value={outputMode}
+                        onChange={(e) => setOutputMode(e.target.value as 'images' | 'ocr-pdf')}
+                        disabled={loading}
+                        className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      >
+                        <option value="images">JPEG images</option>
+                        <option value="ocr-pdf">Searchable PDF (OCR)</option>
+                      </select>
+                    </div>
+                    {outputMode === 'ocr-pdf' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Document Language</label>
+                        <select
+                          value={ocrLanguage}
+                          onChange={(e) => setOcrLanguage(e.target.value)}
+                          disabled={loading}
+                          className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        >
+                          {OCR_LANGUAGES.map(language => (
+                            <option key={language.code} value={language.code}>{language.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+
+                  {ocrProgress && (
+                    <div className="mt-4">
+                      <div className="flex justify-between text-sm text-gray-600 mb-1">
+                        <span>Recognizing page {ocrProgress.page} of {ocrProgress.total}</span>
+                        <span>{Math.round(ocrProgress.progress * 100)}%</span>
+                      </div>
+                      <div className="w-full h-2 bg-gray-200 rounded-lg overflow-hidden">
+                        <div
+                          className="h-full bg-indigo-600 transition-all"
+                          style={{ width: `${((ocrProgress.page - 1 + ocrProgress.progress) / ocrProgress.total) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {ocrReport.length > 0 && (
+                    <div className="mt-4 bg-gray-50 p-4 rounded-lg">
+                      <p className="text-sm font-medium text-gray-700 mb-2">Recognition Confidence</p>
+                      <ul className="space-y-1">
+                        {ocrReport.map(page => (
+                          <li key={page.page} className="flex justify-between text-sm">
+                            <span className="text-gray-600">Page {page.page} ({page.wordCount} words)</span>
+                            <span className="font-medium">{page.confidence}%</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   <div className="mt-6 flex justify-center">
                     <button
                       onClick={processImages}
@@ -263,7 +366,7 @@ export function DocumentScanner() {
                       ) : (
                         <>
                           <Download className="w-5 h-5 mr-2" />
-                          Download All
+                          {outputMode === 'ocr-pdf' ? 'Download Searchable PDF' : 'Download All'}
                         </>
                       )}
                     </button>
@@ -0,0 +1,167 @@
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import type { FormField, FormFieldValue, FormValues } from '../utils/pdfForms';
+import type { PagePreview } from '../utils/pdfRender';
+
+interface FormFillerProps {
+  fields: FormField[];
+  values: FormValues;
+  onChange: (values: FormValues) => void;
+  preview: PagePreview | null;
+  onPageChange: (pageNumber: number) => void;
+}
+
+const inputClassName =
+  'block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-100';
+
+interface FieldInputProps {
+  field: FormField;
+  value: FormFieldValue | undefined;
+  onChange: (value: FormFieldValue) => void;
+}
+
+function FieldInput({ field, value, onChange }: FieldInputProps) {
+  switch (field.type) {
+    case 'text':
+      return field.multiline ? (
+        <textarea
+          value={String(value ?? '')}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={field.maxLength}
+          disabled={field.readOnly}
+          rows={3}
+          className={inputClassName}
+        />
+      ) : (
+        <input
+          type="text"
+          value={String(value ?? '')}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={field.maxLength}
+          disabled={field.readOnly}
+          className={inputClassName}
+        />
+      );
+
+    case 'checkbox':
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          disabled={field.readOnly}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+      );
+
+    case 'radio':
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {['', ...field.options].map(option => (
+            <label key={option} className="flex items-center text-sm text-gray-700">
+              <input
+                type="radio"
+                name={field.name}
+                checked={(value ?? '') === option}
+                onChange={() => onChange(option)}
+                disabled={field.readOnly}
+                className="mr-1 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {option || 'None'}
+            </label>
+          ))}
+        </div>
+      );
+
+    case 'dropdown':
+      return (
+        <select
+          value={String(value ?? '')}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={field.readOnly}
+          className={inputClassName}
+        >
+          <option value="">—</option>
+          {field.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+
+    case 'list':
+      return (
+        <select
+          multiple={field.multiSelect}
+          value={field.multiSelect ? (Array.isArray(value) ? value : []) : (Array.isArray(value) ? value[0] ?? '' : '')}
+          onChange={(e) => onChange(Array.from(e.target.selectedOptions, option => option.value).filter(Boolean))}
+          disabled={field.readOnly}
+          className={inputClassName}
+        >
+          {!field.multiSelect && <option value="">—</option>}
+          {field.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+  }
+}
+
+export function FormFiller({ fields, values, onChange, preview, onPageChange }: FormFillerProps) {
+  const handleFieldChange = (name: string, value: FormFieldValue) => {
+    onChange({ ...values, [name]: value });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-4 md:max-h-[32rem] md:overflow-y-auto md:pr-2">
+        {fields.map(field => (
+          <div key={field.name}>
+            <label className="block text-sm font-medium text-gray-700 mb-1 break-all">
+              {field.name}
+              {field.readOnly && <span className="ml-2 text-xs text-gray-400">(read only)</span>}
+            </label>
+            <FieldInput
+              field={field}
+              value={values[field.name]}
+              onChange={(value) => handleFieldChange(field.name, value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-gray-50 p-4 rounded-lg">
+        {preview ? (
+          <>
+            <img
+              src={preview.dataUrl}
+              alt={`Page ${preview.pageNumber} preview`}
+              className="mx-auto border border-gray-200 shadow-sm"
+            />
+            <div className="flex items-center justify-center gap-4 mt-3 text-sm text-gray-600">
+              <button
+                onClick={() => onPageChange(preview.pageNumber - 1)}
+                disabled={preview.pageNumber <= 1}
+                className="p-1 rounded hover:bg-gray-200 disabled:opacity-50"
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span>Page {preview.pageNumber} of {preview.pageCount}</span>
+              <button
+                onClick={() => onPageChange(preview.pageNumber + 1)}
+                disabled={preview.pageNumber >= preview.pageCount}
+                className="p-1 rounded hover:bg-gray-200 disabled:opacity-50"
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center justify-center h-64 text-gray-400">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
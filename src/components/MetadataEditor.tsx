@@ -0,0 +1,114 @@
+import { METADATA_FIELDS, type PDFDocumentInfo, type PDFMetadataFields } from '../utils/pdfMetadata';
+
+interface MetadataEditorProps {
+  info: PDFDocumentInfo;
+  fields: PDFMetadataFields;
+  onChange: (fields: PDFMetadataFields) => void;
+  xmp: string;
+  onXmpChange: (xmp: string) => void;
+  // The file was encrypted and has been decrypted on upload
+  unlocked: boolean;
+}
+
+const inputClassName =
+  'block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const formatBytes = (bytes: number) => (
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+);
+
+export function MetadataEditor({ info, fields, onChange, xmp, onXmpChange, unlocked }: MetadataEditorProps) {
+  const encryption = info.encrypted ? 'Encrypted'
+    : unlocked ? 'Encrypted (password removed on upload)'
+    : 'Not encrypted';
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          {METADATA_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <input
+                type={key === 'creationDate' || key === 'modificationDate' ? 'datetime-local' : 'text'}
+                value={fields[key]}
+                onChange={(e) => onChange({ ...fields, [key]: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-gray-50 p-4 rounded-lg text-sm space-y-4">
+          <dl className="grid grid-cols-2 gap-y-1">
+            <dt className="text-gray-600">PDF version</dt>
+            <dd className="font-medium text-gray-800">{info.version}</dd>
+            <dt className="text-gray-600">Pages</dt>
+            <dd className="font-medium text-gray-800">{info.pageCount}</dd>
+            <dt className="text-gray-600">Encryption</dt>
+            <dd className="font-medium text-gray-800">{encryption}</dd>
+          </dl>
+
+          <div>
+            <h4 className="font-medium text-gray-800 mb-1">Page sizes</h4>
+            <ul className="text-gray-600 space-y-0.5">
+              {info.pageSizes.map(size => (
+                <li key={`${size.width}x${size.height}`}>
+                  {size.width} × {size.height} pt
+                  {size.name && ` (${size.name})`}
+                  {info.pageSizes.length > 1 && ` — ${size.count} page${size.count === 1 ? '' : 's'}`}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-800 mb-1">Fonts ({info.fonts.length})</h4>
+            {info.fonts.length > 0 ? (
+              <ul className="text-gray-600 space-y-0.5 max-h-40 overflow-y-auto">
+                {info.fonts.map(font => (
+                  <li key={`${font.name}/${font.type}/${font.embedded}`} className="break-all">
+                    {font.name} <span className="text-gray-400">({font.type}, {font.embedded ? 'embedded' : 'not embedded'})</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">No fonts</p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-800 mb-1">Embedded files ({info.embeddedFiles.length})</h4>
+            {info.embeddedFiles.length > 0 ? (
+              <ul className="text-gray-600 space-y-0.5">
+                {info.embeddedFiles.map((file, index) => (
+                  <li key={index} className="break-all">
+                    {file.name}
+                    {file.size !== undefined && <span className="text-gray-400"> ({formatBytes(file.size)})</span>}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">None</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">XMP metadata</label>
+        <textarea
+          value={xmp}
+          onChange={(e) => onXmpChange(e.target.value)}
+          rows={6}
+          spellCheck={false}
+          placeholder="This PDF has no XMP metadata"
+          className={`${inputClassName} font-mono text-xs`}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Some readers show XMP values instead of the fields above, so keep them in sync when editing.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,9 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { PDFDocument } from 'pdf-lib';
-import { pdfjsLib } from '../utils/pdfjs';
+import { PDFDocument, StandardFonts, degrees } from 'pdf-lib';
 import JSZip from 'jszip';
-import ExcelJS from 'exceljs';
-import { Document, Packer, Paragraph } from 'docx';
-import { Upload, Download, Loader2, X, FileText, FilePlus, Split, Images, GripVertical } from 'lucide-react';
-import { useSearchParams } from 'react-router-dom';
+import { Upload, Download, Loader2, X, FileText, FilePlus, Split, Images, GripVertical, LayoutGrid, ScanText, Lock, Unlock, Droplets, Hash, FormInput, EyeOff, Search, CheckCircle, AlertTriangle, Info, Eraser, GitCompare, BookOpen, ChevronLeft, ChevronRight, Crop, PanelTop, PenTool, ShieldCheck, MessageSquare } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   DndContext,
   rectIntersection,
@@ -29,6 +26,118 @@ import { useOperationsCache } from '../utils/operationsCache';
 import type { CachedOperation } from '../types/cache';
 import { SEOHeaders } from './SEOHeaders';
 import { AdComponent } from './AdComponent';
+import { PageOrganizer, type OrganizerPage } from './PageOrganizer';
+import { FormFiller } from './FormFiller';
+import { RedactionEditor } from './RedactionEditor';
+import { MetadataEditor } from './MetadataEditor';
+import { ComparisonReport } from './ComparisonReport';
+import { SignatureEditor, type SignatureImage } from './SignatureEditor';
+import { AnnotationEditor } from './AnnotationEditor';
+import { PDFViewer } from './PDFViewer';
+import type { ViewerLocationState } from './ViewerPage';
+import { renderPagePreview, renderPageThumbnails, type PagePreview } from '../utils/pdfRender';
+import { compressPDF, getCompressionSettings, type CompressionSaving } from '../utils/pdfCompression';
+import { ocrPDF, OCR_LANGUAGES, type OcrPageReport, type OcrProgress } from '../utils/ocr';
+import { getImageExtension, IMAGE_FORMATS, MAX_IMAGE_DPI, MIN_IMAGE_DPI, type ImageExportOptions } from '../utils/pageImages';
+import { exportPageImages, type ImageExportProgress } from '../utils/pdfToImages';
+import { createAssetManifest, extractPDFAssets, type AssetManifest } from '../utils/pdfAssets';
+import {
+  imposePDF,
+  PAGES_PER_SHEET,
+  renderImpositionPreview,
+  SHEET_SIZES,
+  type ImpositionOptions,
+  type ImpositionPreview
+} from '../utils/imposition';
+import {
+  changePageSizes,
+  formatPageBox,
+  formatPageDimensions,
+  readPageBoxes,
+  renderPageSizePreview,
+  TARGET_PAGE_SIZES,
+  type Margins,
+  type PageBox,
+  type PageBoxInfo,
+  type PageSizeOptions,
+  type PageSizePreview
+} from '../utils/pageSize';
+import { comparePDFs, createComparisonPDF, type CompareOptions, type CompareProgress, type ComparisonResult } from '../utils/pdfCompare';
+import {
+  drawSignatureImages,
+  signPDF,
+  verifyPDFSignatures,
+  type PDFSignatureReport,
+  type SignatureDetails,
+  type SignaturePlacement
+} from '../utils/pdfSignature';
+import { readAnnotations, saveAnnotations, type AnnotationDraft, type ExistingAnnotation } from '../utils/pdfAnnotations';
+import { readPkcs12 } from '../utils/pkcs12';
+import {
+  decryptPDF,
+  encryptPDF,
+  isPDFEncrypted,
+  ENCRYPTION_ALGORITHMS,
+  type EncryptionOptions,
+  type PDFPermissions
+} from '../utils/pdfEncryption';
+import type { RejectedRange } from '../utils/pageRanges';
+import { DEFAULT_SPLIT_NAME_TEMPLATE, splitPDF, type SplitOptions } from '../utils/pdfSplit';
+import { mergePDFs, type MergeOptions } from '../utils/pdfMerge';
+import {
+  renderWatermarkPreview,
+  watermarkPDF,
+  WATERMARK_POSITIONS,
+  type WatermarkOptions,
+  type WatermarkPreview
+} from '../utils/watermark';
+import { MARGIN_POSITIONS, STAMP_FONTS } from '../utils/pageStamp';
+import {
+  addHeaderFooter,
+  DATE_FORMATS,
+  HEADER_FOOTER_TOKENS,
+  renderHeaderFooterPreview,
+  type HeaderFooterOptions,
+  type HeaderFooterPreview
+} from '../utils/headerFooter';
+import {
+  addPageNumbers,
+  formatBatesNumber,
+  getNumberedFileNames,
+  PAGE_NUMBER_FORMATS,
+  type NumberedDocument,
+  type PageNumberOptions
+} from '../utils/pageNumbers';
+import {
+  exportFormValuesFDF,
+  exportFormValuesJSON,
+  fillForm,
+  normalizeFormValues,
+  parseFormValuesFDF,
+  parseFormValuesJSON,
+  readFormFields,
+  type FormField,
+  type FormValues
+} from '../utils/pdfForms';
+import {
+  findTextMatches,
+  redactPDF,
+  type RedactionArea,
+  type RedactionCheck,
+  type RedactionTerm,
+  type TextSearchOptions
+} from '../utils/redaction';
+import {
+  readPDFInfo,
+  stripPDFMetadata,
+  updatePDFMetadata,
+  type PDFDocumentInfo,
+  type PDFMetadataFields
+} from '../utils/pdfMetadata';
+import { convertPDFToWord } from '../utils/pdfToWord';
+import { convertWordToPDF, isLegacyWordDocument } from '../utils/wordToPDF';
+import { convertExcelToPDF, listWorkbookSheets, type ExcelToPDFOptions } from '../utils/excelToPDF';
+import { convertPDFToExcel, type DateOrder, type ExcelExportOptions } from '../utils/pdfTables';
 import { 
   validateFile, 
   ALLOWED_PDF_TYPES, 
@@ -41,6 +150,10 @@ import {
 interface PDFFile {
   file: File;
   preview?: string;
+  // Decrypted copy of a password-protected upload
+  unlocked?: boolean;
+  // Pages to include when merging, e.g. "1-3"; empty for all
+  pages?: string;
 }
 
 interface ImageItem {
@@ -130,8 +243,24 @@ const tabs = [
   { id: 'create', label: 'Create PDF', icon: FileText },
   { id: 'merge', label: 'Merge PDFs', icon: FilePlus },
   { id: 'split', label: 'Split PDF', icon: Split },
+  { id: 'organize', label: 'Organize Pages', icon: LayoutGrid },
+  { id: 'watermark', label: 'Watermark', icon: Droplets },
+  { id: 'page-numbers', label: 'Page Numbers', icon: Hash },
+  { id: 'header-footer', label: 'Header & Footer', icon: PanelTop },
+  { id: 'page-size', label: 'Resize & Crop', icon: Crop },
+  { id: 'impose', label: 'N-up & Booklet', icon: BookOpen },
+  { id: 'fill-form', label: 'Fill Form', icon: FormInput },
+  { id: 'redact', label: 'Redact PDF', icon: EyeOff },
+  { id: 'sign', label: 'Sign PDF', icon: PenTool },
+  { id: 'verify', label: 'Verify Signatures', icon: ShieldCheck },
+  { id: 'annotate', label: 'Annotate PDF', icon: MessageSquare },
+  { id: 'metadata', label: 'Metadata', icon: Info },
+  { id: 'compare', label: 'Compare PDFs', icon: GitCompare },
   { id: 'to-images', label: 'PDF to Images', icon: Images },
   { id: 'compress', label: 'Compress PDF', icon: FileText },
+  { id: 'ocr', label: 'OCR PDF', icon: ScanText },
+  { id: 'protect', label: 'Protect PDF', icon: Lock },
+  { id: 'unlock', label: 'Remove Password', icon: Unlock },
   { id: 'to-excel', label: 'PDF to Excel', icon: FileText },
   { id: 'to-word', label: 'PDF to Word', icon: FileText },
   { id: 'word-to-pdf', label: 'Word to PDF', icon: FileText },
@@ -142,6 +271,7 @@ export function PDFTools() {
   const { saveOperation } = useOperationsCache();
   const [recentOperations] = useState<CachedOperation[]>([]);
   const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'create');
   const [files, setFiles] = useState<PDFFile[]>([]);
   const [images, setImages] = useState<ImageItem[]>([]);
@@ -149,12 +279,174 @@ export function PDFTools() {
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<string | null>(null);
   const [resultBlob, setResultBlob] = useState<Blob | null>(null);
-  const [splitPages, setSplitPages] = useState<string>('');
+  const [splitOptions, setSplitOptions] = useState<SplitOptions>({
+    mode: 'ranges',
+    ranges: '',
+    everyPages: 1,
+    maxSizeMB: 5,
+    nameTemplate: DEFAULT_SPLIT_NAME_TEMPLATE
+  });
+  const [mergeOptions, setMergeOptions] = useState<MergeOptions>({
+    bookmarks: true,
+    tableOfContents: false
+  });
+  const [splitRejected, setSplitRejected] = useState<RejectedRange[]>([]);
+  const [splitParts, setSplitParts] = useState<{ name: string; pageCount: number }[]>([]);
+  const [organizePages, setOrganizePages] = useState<OrganizerPage[]>([]);
   const [compressionLevel, setCompressionLevel] = useState<number>(80);
   const [previewSize, setPreviewSize] = useState<PreviewSizes>({
     original: null,
     compressed: null
   });
+  const [compressionSavings, setCompressionSavings] = useState<CompressionSaving[]>([]);
+  const [ocrLanguage, setOcrLanguage] = useState<string>('eng');
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [ocrReport, setOcrReport] = useState<OcrPageReport[]>([]);
+  const [compareOptions, setCompareOptions] = useState<CompareOptions>({ ignoreCase: false });
+  const [compareProgress, setCompareProgress] = useState<CompareProgress | null>(null);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  const [imageOptions, setImageOptions] = useState<ImageExportOptions>({
+    dpi: 150,
+    format: 'png',
+    quality: 0.92,
+    pages: '',
+    transparent: false,
+    grayscale: false,
+  });
+  const [imageMode, setImageMode] = useState<'render' | 'extract'>('render');
+  const [assetManifest, setAssetManifest] = useState<AssetManifest | null>(null);
+  const [imageProgress, setImageProgress] = useState<ImageExportProgress | null>(null);
+  const [pageImages, setPageImages] = useState<{ pageNumber: number; name: string; url: string; width: number; height: number }[]>([]);
+  const [protectOptions, setProtectOptions] = useState<EncryptionOptions>({
+    userPassword: '',
+    ownerPassword: '',
+    algorithm: 'aes-256',
+    permissions: { print: true, copy: false, modify: false, annotate: false }
+  });
+  const [watermarkOptions, setWatermarkOptions] = useState<WatermarkOptions>({
+    type: 'text',
+    text: 'CONFIDENTIAL',
+    font: StandardFonts.HelveticaBold,
+    fontSize: 60,
+    color: '#ff0000',
+    opacity: 0.3,
+    rotation: 45,
+    position: 'center',
+    tile: false,
+    imageScale: 0.4
+  });
+  const [watermarkImage, setWatermarkImage] = useState<File | null>(null);
+  const [watermarkPages, setWatermarkPages] = useState<string>('');
+  const [watermarkPreview, setWatermarkPreview] = useState<WatermarkPreview | null>(null);
+  const [pageNumberOptions, setPageNumberOptions] = useState<PageNumberOptions>({
+    mode: 'page',
+    format: 'Page {n} of {total}',
+    batesPrefix: '',
+    batesSuffix: '',
+    batesDigits: 6,
+    startAt: 1,
+    skipFirstPage: false,
+    continueAcrossFiles: true,
+    font: StandardFonts.Helvetica,
+    position: 'bottom-center',
+    margin: 24,
+    fontSize: 10,
+    color: '#000000'
+  });
+  const [impositionOptions, setImpositionOptions] = useState<ImpositionOptions>({
+    mode: 'n-up',
+    pagesPerSheet: 2,
+    sheetSize: 'A4',
+    orientation: 'auto',
+    order: 'across',
+    margin: 18,
+    gutter: 12,
+    border: false,
+  });
+  const [pageSizeOptions, setPageSizeOptions] = useState<PageSizeOptions>({
+    mode: 'resize',
+    targetSize: 'A4',
+    customWidth: 210,
+    customHeight: 297,
+    orientation: 'auto',
+    scaling: 'fit',
+    trim: { top: 36, right: 36, bottom: 36, left: 36 },
+    autoTrim: false,
+    autoTrimPadding: 12,
+    box: { left: 0, bottom: 0, right: 612, top: 792 },
+    applyToBox: 'crop',
+  });
+  const [pageSizePages, setPageSizePages] = useState('');
+  const [pageBoxes, setPageBoxes] = useState<PageBoxInfo[]>([]);
+  const [pageSizePreviewPage, setPageSizePreviewPage] = useState(1);
+  const [pageSizePreview, setPageSizePreview] = useState<PageSizePreview | null>(null);
+  const [impositionSheet, setImpositionSheet] = useState(1);
+  const [impositionPreview, setImpositionPreview] = useState<ImpositionPreview | null>(null);
+  const [headerFooterOptions, setHeaderFooterOptions] = useState<HeaderFooterOptions>({
+    slots: {
+      'top-left': '{title}',
+      'top-center': '',
+      'top-right': '{date}',
+      'bottom-left': '{filename}',
+      'bottom-center': '',
+      'bottom-right': 'Page {page} of {total}',
+    },
+    font: StandardFonts.Helvetica,
+    fontSize: 9,
+    color: '#333333',
+    margin: 24,
+    sideMargin: 36,
+    title: '',
+    dateFormat: 'iso',
+  });
+  const [headerFooterPages, setHeaderFooterPages] = useState('');
+  const [headerFooterPreview, setHeaderFooterPreview] = useState<HeaderFooterPreview | null>(null);
+  const [combineNumberedFiles, setCombineNumberedFiles] = useState(false);
+  const [numberedDocuments, setNumberedDocuments] = useState<(Omit<NumberedDocument, 'bytes'> & { name: string })[]>([]);
+  const [formFields, setFormFields] = useState<FormField[]>([]);
+  const [formValues, setFormValues] = useState<FormValues>({});
+  const [flattenForm, setFlattenForm] = useState(false);
+  const [formPreview, setFormPreview] = useState<PagePreview | null>(null);
+  const [formPreviewPage, setFormPreviewPage] = useState(1);
+  const [redactionAreas, setRedactionAreas] = useState<RedactionArea[]>([]);
+  const [redactionTerms, setRedactionTerms] = useState<RedactionTerm[]>([]);
+  const [redactionQuery, setRedactionQuery] = useState('');
+  const [redactionSearchOptions, setRedactionSearchOptions] = useState<TextSearchOptions>({
+    regex: false,
+    caseSensitive: false
+  });
+  const [redactionDpi, setRedactionDpi] = useState(150);
+  const [redactionChecks, setRedactionChecks] = useState<RedactionCheck[]>([]);
+  const [signatureImage, setSignatureImage] = useState<SignatureImage | null>(null);
+  const [signaturePlacements, setSignaturePlacements] = useState<SignaturePlacement[]>([]);
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [certificatePassword, setCertificatePassword] = useState('');
+  const [signatureDetails, setSignatureDetails] = useState<SignatureDetails>({ name: '', reason: '', location: '' });
+  const [signatureReports, setSignatureReports] = useState<PDFSignatureReport[] | null>(null);
+  const [annotationDrafts, setAnnotationDrafts] = useState<AnnotationDraft[]>([]);
+  const [existingAnnotations, setExistingAnnotations] = useState<ExistingAnnotation[]>([]);
+  const [removedAnnotationIds, setRemovedAnnotationIds] = useState<string[]>([]);
+  const [annotationAuthor, setAnnotationAuthor] = useState('');
+  const [pdfInfo, setPdfInfo] = useState<PDFDocumentInfo | null>(null);
+  const [metadataFields, setMetadataFields] = useState<PDFMetadataFields | null>(null);
+  const [metadataXmp, setMetadataXmp] = useState('');
+  const [excelOptions, setExcelOptions] = useState<ExcelExportOptions>({
+    sheetLayout: 'page',
+    mergeAcrossPages: true,
+    dateOrder: 'auto'
+  });
+  const [excelTableCount, setExcelTableCount] = useState<number | null>(null);
+  const [workbookSheets, setWorkbookSheets] = useState<string[]>([]);
+  const [excelPdfOptions, setExcelPdfOptions] = useState<ExcelToPDFOptions>({
+    sheets: [],
+    orientation: 'portrait',
+    fitToWidth: true,
+    headerRows: 1,
+    gridlines: true
+  });
+  const [lockedFiles, setLockedFiles] = useState<File[]>([]);
+  const [unlockPassword, setUnlockPassword] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
 
   const [createQualityLevel, setCreateQualityLevel] = useState<number>(80);
   const [createFileSizes, setCreateFileSizes] = useState<{
@@ -185,6 +477,161 @@ export function PDFTools() {
     })
   );
 
+  const loadOrganizerPages = useCallback(async (file: File) => {
+    setLoading(true);
+    try {
+      const thumbnails = await renderPageThumbnails(await file.arrayBuffer());
+      setOrganizePages(thumbnails.map((thumbnail, index) => ({
+        id: `page-${index}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        sourceIndex: index,
+        rotation: 0,
+        thumbnail: thumbnail.dataUrl,
+        width: thumbnail.width,
+        height: thumbnail.height,
+      })));
+    } catch (err) {
+      setError('Error reading PDF pages. Please try another file.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadFormFields = useCallback(async (file: File) => {
+    setLoading(true);
+    try {
+      const { fields, values } = await readFormFields(await file.arrayBuffer());
+      if (fields.length === 0) {
+        setError('This PDF has no fillable form fields.');
+      }
+      setFormFields(fields);
+      setFormValues(values);
+      setFormPreviewPage(1);
+    } catch (err) {
+      setError('Error reading form fields. Please try another file.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadMetadata = useCallback(async (file: File) => {
+    setLoading(true);
+    try {
+      const info = await readPDFInfo(await file.arrayBuffer());
+      setPdfInfo(info);
+      setMetadataFields(info.fields);
+      setMetadataXmp(info.xmp);
+    } catch (err) {
+      setError('Error reading PDF metadata. Please try another file.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // The first page's crop box prefills the values for setting boxes directly
+  const loadPageBoxes = useCallback(async (file: File) => {
+    setLoading(true);
+    try {
+      const boxes = await readPageBoxes(await file.arrayBuffer());
+      setPageBoxes(boxes);
+      if (boxes.length > 0) setPageSizeOptions(prev => ({ ...prev, box: boxes[0].cropBox }));
+    } catch (err) {
+      setError('Error reading page sizes. Please try another file.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadAnnotations = useCallback(async (file: File) => {
+    setLoading(true);
+    try {
+      setExistingAnnotations(await readAnnotations(await file.arrayBuffer()));
+      setRemovedAnnotationIds([]);
+    } catch (err) {
+      setError('Error reading annotations. Please try another file.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadWorkbookSheets = useCallback(async (file: File) => {
+    setLoading(true);
+    try {
+      const sheets = await listWorkbookSheets(await file.arrayBuffer());
+      setWorkbookSheets(sheets);
+      setExcelPdfOptions(prev => ({ ...prev, sheets }));
+    } catch (err) {
+      setError('Error reading the workbook. Only .xlsx files are supported.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const addFiles = useCallback((newFiles: File[], unlocked = false) => {
+    setFiles(prev => [...prev, ...newFiles.map(file => ({
+      file,
+      preview: createSecureObjectURL(file),
+      unlocked
+    }))]);
+
+    if (activeTab === 'compress' && newFiles.length === 1) {
+      setPreviewSize({
+        original: newFiles[0].size,
+        compressed: null
+      });
+    }
+
+    if (activeTab === 'organize') {
+      loadOrganizerPages(newFiles[0]);
+    }
+
+    if (activeTab === 'fill-form') {
+      loadFormFields(newFiles[0]);
+    }
+
+    if (activeTab === 'metadata') {
+      loadMetadata(newFiles[0]);
+    }
+
+    if (activeTab === 'page-size') {
+      loadPageBoxes(newFiles[0]);
+    }
+
+    if (activeTab === 'annotate') {
+      loadAnnotations(newFiles[0]);
+    }
+
+    if (activeTab === 'excel-to-pdf') {
+      loadWorkbookSheets(newFiles[0]);
+    }
+  }, [activeTab, loadOrganizerPages, loadFormFields, loadMetadata, loadPageBoxes, loadAnnotations, loadWorkbookSheets]);
+
+  // Encrypted PDFs are decrypted before any tool sees them. Files without an
+  // open password are unlocked right away; the rest wait for a password.
+  const addPDFFiles = useCallback(async (pdfFiles: File[]) => {
+    const encrypted = await Promise.all(pdfFiles.map(file =>
+      file.arrayBuffer().then(isPDFEncrypted).catch(() => false)
+    ));
+    const plainFiles = pdfFiles.filter((_, i) => !encrypted[i]);
+    if (plainFiles.length > 0) addFiles(plainFiles);
+
+    const needPassword: File[] = [];
+    for (const file of pdfFiles.filter((_, i) => encrypted[i])) {
+      try {
+        const bytes = await decryptPDF(await file.arrayBuffer(), '');
+        addFiles([new File([bytes], file.name, { type: 'application/pdf' })], true);
+      } catch {
+        needPassword.push(file);
+      }
+    }
+    setLockedFiles(prev => [...prev, ...needPassword]);
+  }, [addFiles]);
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const allowedTypes = activeTab === 'create' ? ALLOWED_IMAGE_TYPES : 
                     activeTab === 'word-to-pdf' ? [...Object.values({ 'application/msword': ['.doc', '.docx'], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'] })].flat() :
@@ -233,24 +680,234 @@ export function PDFTools() {
         });
         return updatedImages;
       });
+    } else if (activeTab === 'word-to-pdf' || activeTab === 'excel-to-pdf') {
+      addFiles(validFiles);
     } else {
-      const newFiles = validFiles.map(file => ({
-        file,
-        preview: createSecureObjectURL(file)
-      }));
-      setFiles(prev => [...prev, ...newFiles]);
-
-      if (activeTab === 'compress' && validFiles.length === 1) {
-        setPreviewSize({
-          original: validFiles[0].size,
-          compressed: null
-        });
-      }
+      addPDFFiles(validFiles);
     }
     setResult(null);
     setResultBlob(null);
     if (validFiles.length > 0) setError(null);
-  }, [activeTab, createQualityLevel]);
+  }, [activeTab, createQualityLevel, addFiles, addPDFFiles]);
+
+  const getWatermarkOptions = useCallback(async (): Promise<WatermarkOptions> => ({
+    ...watermarkOptions,
+    image: watermarkImage
+      ? { data: await watermarkImage.arrayBuffer(), type: watermarkImage.type }
+      : undefined
+  }), [watermarkOptions, watermarkImage]);
+
+  // Re-render the preview shortly after the options stop changing
+  const watermarkSource = activeTab === 'watermark' ? files[0]?.file : undefined;
+  useEffect(() => {
+    if (!watermarkSource) {
+      setWatermarkPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const preview = await renderWatermarkPreview(
+          await watermarkSource.arrayBuffer(),
+          await getWatermarkOptions(),
+          watermarkPages
+        );
+        if (!cancelled) setWatermarkPreview(preview);
+      } catch (err) {
+        // Incomplete options (no image yet, empty text) just leave the last preview
+        console.error(err);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [watermarkSource, getWatermarkOptions, watermarkPages]);
+
+  // Re-render the header and footer preview as the slots change
+  const headerFooterSource = activeTab === 'header-footer' ? files[0]?.file : undefined;
+  useEffect(() => {
+    if (!headerFooterSource) {
+      setHeaderFooterPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const preview = await renderHeaderFooterPreview(
+          await headerFooterSource.arrayBuffer(),
+          headerFooterOptions,
+          headerFooterPages,
+          headerFooterSource.name
+        );
+        if (!cancelled) setHeaderFooterPreview(preview);
+      } catch (err) {
+        // Empty slots or text the font can't show just leave the last preview
+        console.error(err);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [headerFooterSource, headerFooterOptions, headerFooterPages]);
+
+  // Preview one page before and after as the size options change
+  const pageSizeSource = activeTab === 'page-size' ? files[0]?.file : undefined;
+  useEffect(() => {
+    if (!pageSizeSource) {
+      setPageSizePreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const preview = await renderPageSizePreview(
+          await pageSizeSource.arrayBuffer(),
+          pageSizeOptions,
+          pageSizePages,
+          pageSizePreviewPage
+        );
+        if (!cancelled) setPageSizePreview(preview);
+      } catch (err) {
+        // Boxes without area or a bad page selection just leave the last preview
+        console.error(err);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pageSizeSource, pageSizeOptions, pageSizePages, pageSizePreviewPage]);
+
+  // Preview one imposed sheet as the layout options change
+  const impositionSource = activeTab === 'impose' ? files[0]?.file : undefined;
+  useEffect(() => {
+    if (!impositionSource) {
+      setImpositionPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const preview = await renderImpositionPreview(await impositionSource.arrayBuffer(), impositionOptions, impositionSheet);
+        if (!cancelled) setImpositionPreview(preview);
+      } catch (err) {
+        // Margins too wide for the sheet and the like just leave the last preview
+        console.error(err);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [impositionSource, impositionOptions, impositionSheet]);
+
+  // Preview the filled (not flattened) form as values change
+  const formSource = activeTab === 'fill-form' && formFields.length > 0 ? files[0]?.file : undefined;
+  useEffect(() => {
+    if (!formSource) {
+      setFormPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const filledBytes = await fillForm(await formSource.arrayBuffer(), formValues, false);
+        const preview = await renderPagePreview(filledBytes, formPreviewPage, 500);
+        if (!cancelled) setFormPreview(preview);
+      } catch (err) {
+        console.error(err);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formSource, formValues, formPreviewPage]);
+
+  const handleExportFormValues = (format: 'json' | 'fdf') => {
+    const baseName = files[0]?.file.name.replace(/\.pdf$/i, '') || 'form';
+    const blob = format === 'json'
+      ? new Blob([exportFormValuesJSON(formValues)], { type: 'application/json' })
+      : new Blob([exportFormValuesFDF(formFields, formValues)], { type: 'application/vnd.fdf' });
+    const link = createSecureDownloadLink(blob, `${baseName}-values.${format}`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleImportFormValues = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = file.name.toLowerCase().endsWith('.fdf')
+        ? parseFormValuesFDF(new Uint8Array(await file.arrayBuffer()))
+        : parseFormValuesJSON(await file.text());
+      const matched = normalizeFormValues(formFields, imported);
+      if (Object.keys(matched).length === 0) {
+        setError('None of the imported values match fields in this form.');
+        return;
+      }
+      setError(null);
+      setFormValues(prev => ({ ...prev, ...matched }));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error importing form values: ${message}`);
+      console.error(err);
+    }
+  };
+
+  const handleWatermarkImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const validation = validateFile(file, ['image/png', 'image/jpeg']);
+    if (!validation.isValid) {
+      setError(validation.error || 'Please choose a PNG or JPEG image');
+      return;
+    }
+    setError(null);
+    setWatermarkImage(file);
+  };
+
+  const handleUnlockFile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const [file] = lockedFiles;
+    if (!file) return;
+
+    setLoading(true);
+    setUnlockError(null);
+
+    try {
+      const bytes = await decryptPDF(await file.arrayBuffer(), unlockPassword);
+      addFiles([new File([bytes], file.name, { type: 'application/pdf' })], true);
+      setLockedFiles(prev => prev.slice(1));
+      setUnlockPassword('');
+    } catch (err) {
+      setUnlockError(err instanceof Error ? err.message : 'Could not unlock PDF.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSkipLockedFile = () => {
+    setLockedFiles(prev => prev.slice(1));
+    setUnlockPassword('');
+    setUnlockError(null);
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -264,7 +921,7 @@ export function PDFTools() {
               'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'] 
             } :
             { 'application/pdf': ['.pdf'] },
-    multiple: activeTab === 'create' || activeTab === 'merge',
+    multiple: activeTab === 'create' || activeTab === 'merge' || activeTab === 'page-numbers' || activeTab === 'compare',
     maxFiles: activeTab === 'create' ? 30 : undefined
   });
 
@@ -399,16 +1056,12 @@ export function PDFTools() {
     setError(null);
 
     try {
-      const mergedPdf = await PDFDocument.create();
-
-      for (const file of files) {
-        const pdfBytes = await file.file.arrayBuffer();
-        const pdf = await PDFDocument.load(pdfBytes);
-        const copiedPages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
-        copiedPages.forEach((page) => mergedPdf.addPage(page));
-      }
-
-      const mergedPdfBytes = await mergedPdf.save();
+      const inputs = await Promise.all(files.map(async file => ({
+        name: file.file.name,
+        data: await file.file.arrayBuffer(),
+        pages: file.pages ?? ''
+      })));
+      const { bytes: mergedPdfBytes, pageCount } = await mergePDFs(inputs, mergeOptions);
       const blob = new Blob([mergedPdfBytes], { type: 'application/pdf' });
 
       if (result) revokeBlobUrl(result);
@@ -421,12 +1074,13 @@ export function PDFTools() {
         metadata: {
           filename: 'merged.pdf',
           fileSize: mergedPdfBytes.length,
-          settings: { fileCount: files.length }
+          settings: { fileCount: files.length, pageCount, ...mergeOptions }
         },
         preview: createSecureObjectURL(blob)
       });
     } catch (err) {
-      setError('Error merging PDFs. Please try again.');
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error merging PDFs: ${message}`);
       console.error(err);
     } finally {
       setLoading(false);
@@ -441,143 +1095,113 @@ export function PDFTools() {
 
     setLoading(true);
     setError(null);
+    setSplitRejected([]);
+    setSplitParts([]);
 
     try {
-      const pdfBytes = await files[0].file.arrayBuffer();
-      const pdfDoc = await PDFDocument.load(pdfBytes);
-      const pageCount = pdfDoc.getPageCount();
-
-      const pageRanges = splitPages
-        .split(',')
-        .map(range => range.trim())
-        .map(range => {
-          const [start, end] = range.split('-').map(num => parseInt(num));
-          return end ? { start: start - 1, end } : { start: start - 1, end: start };
-        })
-        .filter(range => range.start >= 0 && range.end <= pageCount);
-
-      const splitPdfs = await Promise.all(pageRanges.map(async (range) => {
-        const newPdf = await PDFDocument.create();
-        const pages = await newPdf.copyPages(pdfDoc, Array.from(
-          { length: range.end - range.start },
-          (_, i) => range.start + i
-        ));
-        pages.forEach(page => newPdf.addPage(page));
-        return newPdf.save();
-      }));
+      const { parts, rejected } = await splitPDF(await files[0].file.arrayBuffer(), files[0].file.name, splitOptions);
+      setSplitRejected(rejected);
+      if (parts.length === 0) {
+        setError(rejected.length > 0 ? 'None of the page ranges could be used.' : 'Please enter the pages to split out.');
+        return;
+      }
 
-      const blobs = splitPdfs.map(pdfBytes => 
-        new Blob([pdfBytes], { type: 'application/pdf' })
-      );
+      // A single part downloads as a PDF; several are bundled in a ZIP
+      let blob: Blob;
+      if (parts.length === 1) {
+        blob = new Blob([parts[0].bytes], { type: 'application/pdf' });
+      } else {
+        const zip = new JSZip();
+        parts.forEach(part => zip.file(part.name, part.bytes));
+        blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+      }
 
       if (result) revokeBlobUrl(result);
-      const newResult = createSecureObjectURL(blobs[0]);
+      const newResult = createSecureObjectURL(blob);
       setResult(newResult);
-      setResultBlob(blobs[0]);
+      setResultBlob(blob);
+      setSplitParts(parts.map(part => ({ name: part.name, pageCount: part.pages.length })));
 
       saveOperation({
         type: 'split_pdf',
         metadata: {
           filename: files[0].file.name,
-          fileSize: blobs[0].size,
-          settings: { pageRanges }
+          fileSize: blob.size,
+          settings: { ...splitOptions, partCount: parts.length }
         },
-        preview: createSecureObjectURL(blobs[0])
+        preview: createSecureObjectURL(blob)
       });
     } catch (err) {
-      setError('Error splitting PDF. Please try again.');
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error splitting PDF: ${message}`);
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handlePDFToImages = async () => {
+  const handleOrganizePDF = async () => {
     if (files.length !== 1) {
       setError('Please select one PDF file');
       return;
     }
 
+    if (organizePages.length === 0) {
+      setError('The document needs at least one page');
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
     try {
-      const pdfFile = files[0].file;
-      if (!pdfFile.type.includes('pdf')) {
-        throw new Error('Invalid file type - only PDF files are supported');
-      }
-
-      const pdfData = await pdfFile.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({
-        data: pdfData,
-        verbosity: 0
-      }).promise;
-      const zip = new JSZip();
-      const imageBlobs: Blob[] = [];
-
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const viewport = page.getViewport({ scale: 2.0 });
-
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        if (!context) {
-          throw new Error(`Failed to get 2D context for page ${i}`);
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const pdfDoc = await PDFDocument.load(pdfBytes);
+      const organizedPdf = await PDFDocument.create();
+
+      const sourceIndices = organizePages
+        .map(page => page.sourceIndex)
+        .filter((index): index is number => index !== null);
+      const copiedPages = await organizedPdf.copyPages(pdfDoc, sourceIndices);
+
+      let copiedIndex = 0;
+      for (const organizerPage of organizePages) {
+        const page = organizerPage.sourceIndex === null
+          ? organizedPdf.addPage([organizerPage.width, organizerPage.height])
+          : organizedPdf.addPage(copiedPages[copiedIndex++]);
+
+        if (organizerPage.rotation !== 0) {
+          const currentRotation = page.getRotation().angle;
+          page.setRotation(degrees((currentRotation + organizerPage.rotation) % 360));
         }
-
-        canvas.width = viewport.width;
-        canvas.height = viewport.height;
-
-        await page.render({
-          canvasContext: context,
-          viewport: viewport,
-        }).promise;
-
-        const blob = await new Promise<Blob>((resolve, reject) => {
-          canvas.toBlob(
-            (b) => {
-              if (b) resolve(b);
-              else reject(new Error(`Failed to convert page ${i} to blob`));
-            },
-            'image/png',
-            1.0
-          );
-        });
-
-        imageBlobs.push(blob);
-        zip.file(`page-${i}.png`, blob);
       }
 
-      const zipBlob = await zip.generateAsync({
-        type: 'blob',
-        compression: 'DEFLATE',
-      });
+      const organizedBytes = await organizedPdf.save();
+      const blob = new Blob([organizedBytes], { type: 'application/pdf' });
 
       if (result) revokeBlobUrl(result);
-      const newResult = createSecureObjectURL(zipBlob);
+      const newResult = createSecureObjectURL(blob);
       setResult(newResult);
-      setResultBlob(zipBlob);
+      setResultBlob(blob);
 
-      if (imageBlobs.length > 0) {
-        saveOperation({
-          type: 'pdf_to_images',
-          metadata: {
-            filename: files[0].file.name,
-            fileSize: zipBlob.size,
-            settings: { pageCount: pdf.numPages },
-          },
-          preview: createSecureObjectURL(imageBlobs[0]),
-        });
-      }
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : 'Unknown error occurred during conversion';
-      setError(`PDF to images failed: ${message}`);
+      saveOperation({
+        type: 'organize_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: organizedBytes.length,
+          settings: { pageCount: organizePages.length }
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      setError('Error organizing PDF. Please try again.');
+      console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleCompressPDF = async () => {
+  const handleWatermarkPDF = async () => {
     if (files.length !== 1) {
       setError('Please select one PDF file');
       return;
@@ -588,52 +1212,37 @@ export function PDFTools() {
 
     try {
       const pdfBytes = await files[0].file.arrayBuffer();
-      const pdfDoc = await PDFDocument.load(pdfBytes);
-      const pageCount = pdfDoc.getPageCount();
-
-      const compressedPdf = await PDFDocument.create();
-
-      for (let i = 0; i < pageCount; i++) {
-        const page = pdfDoc.getPage(i);
-        const [copiedPage] = await compressedPdf.copyPages(pdfDoc, [i]);
-        compressedPdf.addPage(copiedPage);
-      }
-
-      const compressedBytes = await compressedPdf.save({
-        useObjectStreams: false,
-        addDefaultPage: false,
-      });
-
-      const blob = new Blob([compressedBytes], { type: 'application/pdf' });
+      const watermarkedBytes = await watermarkPDF(pdfBytes, await getWatermarkOptions(), watermarkPages);
+      const blob = new Blob([watermarkedBytes], { type: 'application/pdf' });
 
       if (result) revokeBlobUrl(result);
       const newResult = createSecureObjectURL(blob);
       setResult(newResult);
       setResultBlob(blob);
 
-      setPreviewSize(prev => ({
-        ...prev,
-        compressed: compressedBytes.length
-      }));
-
       saveOperation({
-        type: 'compress_pdf',
+        type: 'watermark_pdf',
         metadata: {
           filename: files[0].file.name,
-          fileSize: compressedBytes.length,
-          settings: { compressionLevel }
+          fileSize: watermarkedBytes.length,
+          settings: {
+            type: watermarkOptions.type,
+            pages: watermarkPages || 'all',
+            tile: watermarkOptions.tile
+          }
         },
         preview: createSecureObjectURL(blob)
       });
     } catch (err) {
-      setError('Error compressing PDF. Please try again.');
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error adding watermark: ${message}`);
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handlePDFToExcel = async () => {
+  const handleHeaderFooterPDF = async () => {
     if (files.length !== 1) {
       setError('Please select one PDF file');
       return;
@@ -643,23 +1252,9 @@ export function PDFTools() {
     setError(null);
 
     try {
-      const pdfFile = files[0].file;
-      const pdfData = await pdfFile.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: pdfData }).promise;
-      const workbook = new ExcelJS.Workbook();
-      const worksheet = workbook.addWorksheet('Sheet1');
-
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const textItems = textContent.items.map(item => 'text' in item ? item.text : '');
-        worksheet.addRow([`Page ${i}`]);
-        textItems.forEach(text => worksheet.addRow([text]));
-        worksheet.addRow([]); // Empty row between pages
-      }
-
-      const excelBuffer = await workbook.xlsx.writeBuffer();
-      const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const stampedBytes = await addHeaderFooter(pdfBytes, headerFooterOptions, headerFooterPages, files[0].file.name);
+      const blob = new Blob([stampedBytes], { type: 'application/pdf' });
 
       if (result) revokeBlobUrl(result);
       const newResult = createSecureObjectURL(blob);
@@ -667,23 +1262,27 @@ export function PDFTools() {
       setResultBlob(blob);
 
       saveOperation({
-        type: 'pdf_to_excel',
+        type: 'header_footer_pdf',
         metadata: {
-          filename: files[0].file.name.replace('.pdf', '.xlsx'),
-          fileSize: blob.size,
-          settings: { pageCount: pdf.numPages }
+          filename: files[0].file.name,
+          fileSize: stampedBytes.length,
+          settings: {
+            pages: headerFooterPages || 'all',
+            slots: MARGIN_POSITIONS.filter(position => headerFooterOptions.slots[position].trim())
+          }
         },
-        preview: undefined
+        preview: createSecureObjectURL(blob)
       });
     } catch (err) {
-      setError('Error converting PDF to Excel. Please try again.');
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error adding headers and footers: ${message}`);
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handlePDFToWord = async () => {
+  const handlePageSizePDF = async () => {
     if (files.length !== 1) {
       setError('Please select one PDF file');
       return;
@@ -693,28 +1292,9 @@ export function PDFTools() {
     setError(null);
 
     try {
-      const pdfFile = files[0].file;
-      const pdfData = await pdfFile.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: pdfData }).promise;
-      const doc = new Document({
-        sections: []
-      });
-      
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        const textItems = textContent.items.map(item => 'text' in item ? item.text : '');
-        doc.sections.push({
-          children: [
-            new Paragraph(`Page ${i}`),
-            ...textItems.map(text => new Paragraph(text)),
-            new Paragraph('')
-          ]
-        });
-      }
-
-      const docBuffer = await Packer.toBuffer(doc);
-      const blob = new Blob([docBuffer], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const resizedBytes = await changePageSizes(pdfBytes, pageSizeOptions, pageSizePages);
+      const blob = new Blob([resizedBytes], { type: 'application/pdf' });
 
       if (result) revokeBlobUrl(result);
       const newResult = createSecureObjectURL(blob);
@@ -722,25 +1302,34 @@ export function PDFTools() {
       setResultBlob(blob);
 
       saveOperation({
-        type: 'pdf_to_word',
+        type: 'page_size_pdf',
         metadata: {
-          filename: files[0].file.name.replace('.pdf', '.docx'),
-          fileSize: blob.size,
-          settings: { pageCount: pdf.numPages }
+          filename: files[0].file.name,
+          fileSize: resizedBytes.length,
+          settings: {
+            mode: pageSizeOptions.mode,
+            pages: pageSizePages || 'all',
+            ...(pageSizeOptions.mode === 'resize' && {
+              targetSize: pageSizeOptions.targetSize,
+              scaling: pageSizeOptions.scaling
+            }),
+            ...(pageSizeOptions.mode === 'trim' && { autoTrim: pageSizeOptions.autoTrim })
+          }
         },
-        preview: null
+        preview: createSecureObjectURL(blob)
       });
     } catch (err) {
-      setError('Error converting PDF to Word. Please try again.');
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error changing page sizes: ${message}`);
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleWordToPDF = async () => {
+  const handleImposePDF = async () => {
     if (files.length !== 1) {
-      setError('Please select one Word document');
+      setError('Please select one PDF file');
       return;
     }
 
@@ -748,49 +1337,104 @@ export function PDFTools() {
     setError(null);
 
     try {
-      const wordFile = files[0].file;
-      const text = await wordFile.text(); // Simplified; for .docx, you'd need a parser like mammoth
-      const pdfDoc = await PDFDocument.create();
-      const page = pdfDoc.addPage();
-      const { width, height } = page.getSize();
-      const fontSize = 12;
-
-      page.drawText(text, {
-        x: 50,
-        y: height - 50,
-        size: fontSize,
-        maxWidth: width - 100,
-        lineHeight: fontSize * 1.2
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const { bytes, sheetCount } = await imposePDF(pdfBytes, impositionOptions);
+      const blob = new Blob([bytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'impose_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: bytes.length,
+          settings: { ...impositionOptions, sheetCount }
+        },
+        preview: createSecureObjectURL(blob)
       });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error imposing pages: ${message}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const pdfBytes = await pdfDoc.save();
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+  const handlePageNumbersPDF = async () => {
+    if (files.length === 0) {
+      setError('Please select at least one PDF file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setNumberedDocuments([]);
+
+    try {
+      const documents = await Promise.all(files.map(file => file.file.arrayBuffer()));
+      const numbered = await addPageNumbers(documents, pageNumberOptions);
+      const names = getNumberedFileNames(files.map(file => file.file.name));
+
+      let blob: Blob;
+      if (numbered.length === 1) {
+        blob = new Blob([numbered[0].bytes], { type: 'application/pdf' });
+      } else if (combineNumberedFiles) {
+        const combinedPdf = await PDFDocument.create();
+        for (const { bytes } of numbered) {
+          const pdf = await PDFDocument.load(bytes);
+          const copiedPages = await combinedPdf.copyPages(pdf, pdf.getPageIndices());
+          copiedPages.forEach(page => combinedPdf.addPage(page));
+        }
+        blob = new Blob([await combinedPdf.save()], { type: 'application/pdf' });
+      } else {
+        const zip = new JSZip();
+        numbered.forEach(({ bytes }, index) => zip.file(names[index], bytes));
+        blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+      }
 
       if (result) revokeBlobUrl(result);
       const newResult = createSecureObjectURL(blob);
       setResult(newResult);
       setResultBlob(blob);
+      setNumberedDocuments(numbered.map(({ firstLabel, lastLabel }, index) => ({
+        name: names[index],
+        firstLabel,
+        lastLabel
+      })));
 
       saveOperation({
-        type: 'word_to_pdf',
+        type: 'page_numbers_pdf',
         metadata: {
-          filename: files[0].file.name.replace(/\.(doc|docx)$/, '.pdf'),
+          filename: files[0].file.name,
           fileSize: blob.size,
-          settings: {}
+          settings: {
+            mode: pageNumberOptions.mode,
+            fileCount: files.length,
+            startAt: pageNumberOptions.startAt
+          }
         },
         preview: createSecureObjectURL(blob)
       });
     } catch (err) {
-      setError('Error converting Word to PDF. Please try again.');
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error adding page numbers: ${message}`);
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleExcelToPDF = async () => {
+  const handleFillForm = async () => {
     if (files.length !== 1) {
-      setError('Please select one Excel file');
+      setError('Please select one PDF file');
+      return;
+    }
+    if (formFields.length === 0) {
+      setError('This PDF has no fillable form fields.');
       return;
     }
 
@@ -798,163 +1442,1020 @@ export function PDFTools() {
     setError(null);
 
     try {
-      const excelFile = files[0].file;
-      const workbook = new ExcelJS.Workbook();
-      await workbook.xlsx.load(await excelFile.arrayBuffer());
-      let textContent = '';
-
-      workbook.eachSheet((sheet) => {
-        textContent += `Sheet: ${sheet.name}\n`;
-        sheet.eachRow((row) => {
-          textContent += row.values?.filter(Boolean).join(' ') + '\n';
-        });
-        textContent += '\n';
-      });
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const filledBytes = await fillForm(pdfBytes, formValues, flattenForm);
+      const blob = new Blob([filledBytes], { type: 'application/pdf' });
 
-      const pdfDoc = await PDFDocument.create();
-      const page = pdfDoc.addPage();
-      const { width, height } = page.getSize();
-      const fontSize = 12;
-
-      page.drawText(textContent, {
-        x: 50,
-        y: height - 50,
-        size: fontSize,
-        maxWidth: width - 100,
-        lineHeight: fontSize * 1.2
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'fill_form_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: filledBytes.length,
+          settings: { fieldCount: formFields.length, flatten: flattenForm }
+        },
+        preview: createSecureObjectURL(blob)
       });
+    } catch (err) {
+      setError('Error filling PDF form. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const pdfBytes = await pdfDoc.save();
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+  // Mark every match of the search as a redaction area and remember the term
+  // so the output can be checked for it afterwards
+  const handleFindRedactionText = async () => {
+    const query = redactionQuery.trim();
+    if (files.length !== 1 || !query) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const matches = await findTextMatches(await files[0].file.arrayBuffer(), query, redactionSearchOptions);
+      if (matches.length === 0) {
+        setError(`No text matching "${query}" was found.`);
+        return;
+      }
+
+      setRedactionAreas(prev => [...prev, ...matches.map(match => match.area)]);
+      setRedactionTerms(prev => [...prev, { query, options: { ...redactionSearchOptions } }]);
+      setRedactionQuery('');
+    } catch (err) {
+      setError(err instanceof SyntaxError
+        ? 'The regular expression is not valid.'
+        : 'Error searching the PDF text. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRedactPDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+    if (redactionAreas.length === 0) {
+      setError('Mark at least one area or search for text to redact.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setRedactionChecks([]);
+
+    try {
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const { bytes, checks } = await redactPDF(pdfBytes, redactionAreas, redactionTerms, redactionDpi);
+      const blob = new Blob([bytes], { type: 'application/pdf' });
 
       if (result) revokeBlobUrl(result);
       const newResult = createSecureObjectURL(blob);
       setResult(newResult);
       setResultBlob(blob);
+      setRedactionChecks(checks);
 
       saveOperation({
-        type: 'excel_to_pdf',
+        type: 'redact_pdf',
         metadata: {
-          filename: files[0].file.name.replace(/\.(xls|xlsx)$/, '.pdf'),
-          fileSize: blob.size,
-          settings: {}
+          filename: files[0].file.name,
+          fileSize: bytes.length,
+          settings: {
+            areaCount: redactionAreas.length,
+            termCount: redactionTerms.length,
+            dpi: redactionDpi
+          }
         },
         preview: createSecureObjectURL(blob)
       });
     } catch (err) {
-      setError('Error converting Excel to PDF. Please try again.');
+      setError('Error redacting PDF. Please try again.');
       console.error(err);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleProcess = () => {
-    switch (activeTab) {
-      case 'create':
-        handleCreatePDF();
-        break;
-      case 'merge':
-        handleMergePDF();
-        break;
-      case 'split':
-        handleSplitPDF();
-        break;
-      case 'to-images':
-        handlePDFToImages();
-        break;
-      case 'compress':
-        handleCompressPDF();
-        break;
-      case 'to-excel':
-        handlePDFToExcel();
-        break;
-      case 'to-word':
-        handlePDFToWord();
-        break;
-      case 'word-to-pdf':
-        handleWordToPDF();
-        break;
-      case 'excel-to-pdf':
-        handleExcelToPDF();
-        break;
+  const handleSignPDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+    if (signaturePlacements.length === 0 && !certificateFile) {
+      setError('Place your signature on a page or choose a certificate to sign with.');
+      return;
     }
-  };
 
-  const handleDownload = async () => {
-    if (!resultBlob) return;
+    setLoading(true);
+    setError(null);
 
     try {
-      const filename = activeTab === 'to-images' ? 'pdf-images.zip' :
-                      activeTab === 'to-excel' ? `${files[0]?.file.name.replace('.pdf', '') || 'converted'}.xlsx` :
-                      activeTab === 'to-word' ? `${files[0]?.file.name.replace('.pdf', '') || 'converted'}.docx` :
-                      `processed-${activeTab}.pdf`;
-      const link = createSecureDownloadLink(resultBlob, filename);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      const pdfBytes = await files[0].file.arrayBuffer();
+      let signedBytes = new Uint8Array(pdfBytes);
+      if (signaturePlacements.length > 0) {
+        if (!signatureImage) throw new Error('Please create a signature to place');
+        const imageBytes = await fetch(signatureImage.dataUrl).then(res => res.arrayBuffer());
+        signedBytes = await drawSignatureImages(pdfBytes, new Uint8Array(imageBytes), signaturePlacements);
+      }
+      // The digital signature comes last so that it covers the placed images
+      if (certificateFile) {
+        const identity = await readPkcs12(await certificateFile.arrayBuffer(), certificatePassword);
+        signedBytes = await signPDF(signedBytes, identity, signatureDetails, signaturePlacements[0]?.page ?? 0);
+      }
+      const blob = new Blob([signedBytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'sign_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: signedBytes.length,
+          settings: {
+            placements: signaturePlacements.length,
+            digitallySigned: certificateFile !== null
+          }
+        },
+        preview: createSecureObjectURL(blob)
+      });
     } catch (err) {
-      console.error('Error downloading file:', err);
-      setError('Error downloading file. Please try again.');
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error signing PDF: ${message}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const resetFiles = useCallback(() => {
-    images.forEach(image => revokeBlobUrl(image.preview));
-    files.forEach(file => file.preview && revokeBlobUrl(file.preview));
-    if (result) revokeBlobUrl(result);
+  const handleAnnotatePDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+    if (annotationDrafts.length === 0 && removedAnnotationIds.length === 0) {
+      setError('Add an annotation or delete an existing one first.');
+      return;
+    }
 
-    setFiles([]);
-    setImages([]);
-    setResult(null);
-    setResultBlob(null);
+    setLoading(true);
     setError(null);
-    setPreviewSize({ original: null, compressed: null });
-    setCreateFileSizes({ original: null, estimated: null, final: null });
-  }, [images, files, result]);
 
-  const formatFileSize = (bytes: number | null) => {
-    if (bytes === null) return 'Unknown';
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+    try {
+      const annotatedBytes = await saveAnnotations(
+        await files[0].file.arrayBuffer(),
+        annotationDrafts,
+        removedAnnotationIds,
+        annotationAuthor.trim()
+      );
+      const blob = new Blob([annotatedBytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'annotate_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: annotatedBytes.length,
+          settings: {
+            added: annotationDrafts.length,
+            removed: removedAnnotationIds.length
+          }
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error annotating PDF: ${message}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const calculateReduction = () => {
-    if (!previewSize.original || !previewSize.compressed) return null;
-    const reduction = ((previewSize.original - previewSize.compressed) / previewSize.original) * 100;
-    return Math.round(reduction);
+  const handleVerifySignatures = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+    if (files[0].unlocked) {
+      setError('This PDF was decrypted when it was added, so its signatures can no longer be checked');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setSignatureReports(null);
+
+    try {
+      const reports = await verifyPDFSignatures(await files[0].file.arrayBuffer());
+      setSignatureReports(reports);
+
+      saveOperation({
+        type: 'verify_signatures',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: files[0].file.size,
+          settings: {
+            signatures: reports.length,
+            intact: reports.filter(report => report.status === 'valid').length
+          }
+        }
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error verifying signatures: ${message}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const calculateCreateReduction = () => {
-    if (!createFileSizes.original || !createFileSizes.final) return null;
-    const reduction = ((createFileSizes.original - createFileSizes.final) / createFileSizes.original) * 100;
-    return Math.round(reduction);
+  const saveMetadataResult = (bytes: Uint8Array, stripped: boolean) => {
+    const blob = new Blob([bytes], { type: 'application/pdf' });
+
+    if (result) revokeBlobUrl(result);
+    const newResult = createSecureObjectURL(blob);
+    setResult(newResult);
+    setResultBlob(blob);
+
+    saveOperation({
+      type: 'edit_metadata_pdf',
+      metadata: {
+        filename: files[0].file.name,
+        fileSize: bytes.length,
+        settings: { stripped }
+      },
+      preview: createSecureObjectURL(blob)
+    });
   };
 
-  const handleQualityChange = (newQuality: number) => {
-    setCreateQualityLevel(newQuality);
-    if (createFileSizes.original) {
-      const estimatedSize = createFileSizes.original * (newQuality / 100);
-      setCreateFileSizes(prev => ({
-        ...prev,
-        estimated: estimatedSize,
-      }));
+  const handleUpdateMetadata = async () => {
+    if (files.length !== 1 || !metadataFields) {
+      setError('Please select one PDF file');
+      return;
     }
-  };
 
-  const renderImageGrid = () => {
-    if (activeTab !== 'create' || images.length === 0) return null;
+    setLoading(true);
+    setError(null);
 
-    return (
-      <div className="mt-6">
-        <div className="flex justify-between items-center mb-4">
-          <h3 className="text-lg font-semibold text-gray-800">
-            Selected Images ({images.length}/30)
-          </h3>
-          <button
+    try {
+      const pdfBytes = await files[0].file.arrayBuffer();
+      saveMetadataResult(await updatePDFMetadata(pdfBytes, metadataFields, metadataXmp), false);
+    } catch (err) {
+      setError('Error updating PDF metadata. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStripMetadata = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const strippedBytes = await stripPDFMetadata(await files[0].file.arrayBuffer());
+      saveMetadataResult(strippedBytes, true);
+
+      // Show what is left so the result can be checked before downloading
+      const info = await readPDFInfo(strippedBytes.slice().buffer);
+      setPdfInfo(info);
+      setMetadataFields(info.fields);
+      setMetadataXmp(info.xmp);
+    } catch (err) {
+      setError('Error removing PDF metadata. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePDFToImages = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    pageImages.forEach(image => revokeBlobUrl(image.url));
+    setPageImages([]);
+
+    try {
+      const pdfFile = files[0].file;
+      if (!pdfFile.type.includes('pdf')) {
+        throw new Error('Invalid file type - only PDF files are supported');
+      }
+
+      const pdfData = await pdfFile.arrayBuffer();
+      const baseName = pdfFile.name.replace(/\.pdf$/i, '');
+      const rendered = await exportPageImages(
+        pdfData,
+        imageOptions,
+        image => setPageImages(prev => [...prev, {
+          pageNumber: image.pageNumber,
+          name: `${baseName}-page-${image.pageNumber}.${getImageExtension(image.blob)}`,
+          url: createSecureObjectURL(image.blob),
+          width: image.width,
+          height: image.height,
+        }]),
+        setImageProgress
+      );
+
+      const zip = new JSZip();
+      rendered.forEach(image => {
+        zip.file(`${baseName}-page-${image.pageNumber}.${getImageExtension(image.blob)}`, image.blob);
+      });
+      const zipBlob = await zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+      });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(zipBlob);
+      setResult(newResult);
+      setResultBlob(zipBlob);
+
+      if (rendered.length > 0) {
+        saveOperation({
+          type: 'pdf_to_images',
+          metadata: {
+            filename: files[0].file.name,
+            fileSize: zipBlob.size,
+            settings: {
+              pageCount: rendered.length,
+              dpi: imageOptions.dpi,
+              format: imageOptions.format,
+            },
+          },
+          preview: createSecureObjectURL(rendered[0].blob),
+        });
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred during conversion';
+      setError(`PDF to images failed: ${message}`);
+    } finally {
+      setImageProgress(null);
+      setLoading(false);
+    }
+  };
+
+  const handleExtractAssets = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setAssetManifest(null);
+
+    try {
+      const pdfFile = files[0].file;
+      const assets = await extractPDFAssets(await pdfFile.arrayBuffer());
+      if (assets.images.length === 0 && assets.fonts.every(font => !font.bytes) && assets.attachments.length === 0) {
+        throw new Error('No embedded images, fonts or attachments were found');
+      }
+
+      const zip = new JSZip();
+      assets.images.forEach(image => zip.file(image.fileName, image.bytes));
+      assets.fonts.forEach(font => font.fileName && font.bytes && zip.file(font.fileName, font.bytes));
+      assets.attachments.forEach(attachment => zip.file(attachment.fileName, attachment.bytes));
+      const manifest = createAssetManifest(assets, pdfFile.name);
+      zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+      const zipBlob = await zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+      });
+
+      if (result) revokeBlobUrl(result);
+      setResult(createSecureObjectURL(zipBlob));
+      setResultBlob(zipBlob);
+      setAssetManifest(manifest);
+
+      saveOperation({
+        type: 'pdf_to_images',
+        metadata: {
+          filename: pdfFile.name,
+          fileSize: zipBlob.size,
+          settings: {
+            mode: 'extract',
+            imageCount: assets.images.length,
+            fontCount: assets.fonts.length,
+            attachmentCount: assets.attachments.length,
+          },
+        },
+        preview: createSecureObjectURL(zipBlob),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error extracting assets: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCompressPDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const { bytes: compressedBytes, savings } = await compressPDF(pdfBytes, compressionLevel);
+
+      const blob = new Blob([compressedBytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      setPreviewSize(prev => ({
+        ...prev,
+        compressed: compressedBytes.length
+      }));
+      setCompressionSavings(savings);
+
+      saveOperation({
+        type: 'compress_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: compressedBytes.length,
+          settings: { compressionLevel }
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      setError('Error compressing PDF. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOCRPDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setOcrReport([]);
+
+    try {
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const { bytes, report } = await ocrPDF(pdfBytes, ocrLanguage, setOcrProgress);
+      const blob = new Blob([bytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+      setOcrReport(report);
+
+      saveOperation({
+        type: 'ocr_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: bytes.length,
+          settings: { language: ocrLanguage, pageCount: report.length }
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      setError('Error running OCR on PDF. Please try again.');
+      console.error(err);
+    } finally {
+      setOcrProgress(null);
+      setLoading(false);
+    }
+  };
+
+  const handleComparePDFs = async () => {
+    if (files.length !== 2) {
+      setError('Please select two PDF files: the original and the revised version');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setComparison(null);
+
+    try {
+      const [original, revised] = await Promise.all(files.map(f => f.file.arrayBuffer()));
+      const report = await comparePDFs(original, revised, compareOptions, setCompareProgress);
+      const annotatedBytes = await createComparisonPDF(revised, report);
+      const blob = new Blob([annotatedBytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+      setComparison(report);
+
+      saveOperation({
+        type: 'compare_pdfs',
+        metadata: {
+          filename: files[1].file.name,
+          fileSize: blob.size,
+          settings: {
+            original: files[0].file.name,
+            insertions: report.insertions,
+            deletions: report.deletions,
+            ...compareOptions
+          }
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error comparing PDFs: ${message}`);
+      console.error(err);
+    } finally {
+      setCompareProgress(null);
+      setLoading(false);
+    }
+  };
+
+  const handleProtectPDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+    if (!protectOptions.userPassword && !protectOptions.ownerPassword) {
+      setError('Please enter a password to open the document or an owner password to restrict it');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const pdfBytes = await files[0].file.arrayBuffer();
+      const encryptedBytes = await encryptPDF(pdfBytes, protectOptions);
+      const blob = new Blob([encryptedBytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'protect_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: encryptedBytes.length,
+          settings: {
+            algorithm: protectOptions.algorithm,
+            permissions: protectOptions.permissions
+          }
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error protecting PDF: ${message}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlockPDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+    if (!files[0].unlocked) {
+      setError('This PDF is not password protected');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // The file was decrypted when it was added, so it only needs handing back
+      const blob = new Blob([await files[0].file.arrayBuffer()], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'unlock_pdf',
+        metadata: {
+          filename: files[0].file.name,
+          fileSize: blob.size
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      setError('Error removing PDF password. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePDFToExcel = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const pdfFile = files[0].file;
+      const { buffer, pageCount, tableCount } = await convertPDFToExcel(await pdfFile.arrayBuffer(), excelOptions);
+      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      setExcelTableCount(tableCount);
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'pdf_to_excel',
+        metadata: {
+          filename: files[0].file.name.replace('.pdf', '.xlsx'),
+          fileSize: blob.size,
+          settings: { pageCount, tableCount, ...excelOptions }
+        },
+        preview: undefined
+      });
+    } catch (err) {
+      setError('Error converting PDF to Excel. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePDFToWord = async () => {
+    if (files.length !== 1) {
+      setError('Please select one PDF file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const pdfFile = files[0].file;
+      const { blob, pageCount } = await convertPDFToWord(await pdfFile.arrayBuffer());
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'pdf_to_word',
+        metadata: {
+          filename: files[0].file.name.replace('.pdf', '.docx'),
+          fileSize: blob.size,
+          settings: { pageCount }
+        },
+        preview: null
+      });
+    } catch (err) {
+      setError('Error converting PDF to Word. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWordToPDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one Word document');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await files[0].file.arrayBuffer();
+      if (isLegacyWordDocument(data)) {
+        setError('Legacy .doc files are not supported. Please save the document as .docx and try again.');
+        return;
+      }
+
+      const { bytes: pdfBytes, pageCount, warnings } = await convertWordToPDF(data);
+      if (warnings.length > 0) console.warn('Word conversion warnings:', warnings);
+      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'word_to_pdf',
+        metadata: {
+          filename: files[0].file.name.replace(/\.(doc|docx)$/, '.pdf'),
+          fileSize: blob.size,
+          settings: { pageCount }
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      setError('Error converting Word to PDF. Please try again.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExcelToPDF = async () => {
+    if (files.length !== 1) {
+      setError('Please select one Excel file');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { bytes: pdfBytes, pageCount, sheetCount } = await convertExcelToPDF(
+        await files[0].file.arrayBuffer(),
+        excelPdfOptions
+      );
+      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+
+      if (result) revokeBlobUrl(result);
+      const newResult = createSecureObjectURL(blob);
+      setResult(newResult);
+      setResultBlob(blob);
+
+      saveOperation({
+        type: 'excel_to_pdf',
+        metadata: {
+          filename: files[0].file.name.replace(/\.(xls|xlsx)$/, '.pdf'),
+          fileSize: blob.size,
+          settings: { pageCount, sheetCount, ...excelPdfOptions }
+        },
+        preview: createSecureObjectURL(blob)
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Error converting Excel to PDF: ${message}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleProcess = () => {
+    switch (activeTab) {
+      case 'create':
+        handleCreatePDF();
+        break;
+      case 'merge':
+        handleMergePDF();
+        break;
+      case 'split':
+        handleSplitPDF();
+        break;
+      case 'organize':
+        handleOrganizePDF();
+        break;
+      case 'watermark':
+        handleWatermarkPDF();
+        break;
+      case 'page-numbers':
+        handlePageNumbersPDF();
+        break;
+      case 'header-footer':
+        handleHeaderFooterPDF();
+        break;
+      case 'page-size':
+        handlePageSizePDF();
+        break;
+      case 'impose':
+        handleImposePDF();
+        break;
+      case 'fill-form':
+        handleFillForm();
+        break;
+      case 'redact':
+        handleRedactPDF();
+        break;
+      case 'sign':
+        handleSignPDF();
+        break;
+      case 'verify':
+        handleVerifySignatures();
+        break;
+      case 'annotate':
+        handleAnnotatePDF();
+        break;
+      case 'metadata':
+        handleUpdateMetadata();
+        break;
+      case 'compare':
+        handleComparePDFs();
+        break;
+      case 'to-images':
+        if (imageMode === 'extract') handleExtractAssets();
+        else handlePDFToImages();
+        break;
+      case 'compress':
+        handleCompressPDF();
+        break;
+      case 'ocr':
+        handleOCRPDF();
+        break;
+      case 'protect':
+        handleProtectPDF();
+        break;
+      case 'unlock':
+        handleUnlockPDF();
+        break;
+      case 'to-excel':
+        handlePDFToExcel();
+        break;
+      case 'to-word':
+        handlePDFToWord();
+        break;
+      case 'word-to-pdf':
+        handleWordToPDF();
+        break;
+      case 'excel-to-pdf':
+        handleExcelToPDF();
+        break;
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!resultBlob) return;
+
+    try {
+      const filename = activeTab === 'to-images' ? (imageMode === 'extract' ? 'pdf-assets.zip' : 'pdf-images.zip') :
+                      resultBlob.type === 'application/zip' ? `processed-${activeTab}.zip` :
+                      activeTab === 'to-excel' ? `${files[0]?.file.name.replace('.pdf', '') || 'converted'}.xlsx` :
+                      activeTab === 'to-word' ? `${files[0]?.file.name.replace('.pdf', '') || 'converted'}.docx` :
+                      activeTab === 'compare' ? `${files[1]?.file.name.replace('.pdf', '') || 'revised'}-changes.pdf` :
+                      activeTab === 'sign' ? `${files[0]?.file.name.replace('.pdf', '') || 'document'}-signed.pdf` :
+                      activeTab === 'annotate' ? `${files[0]?.file.name.replace('.pdf', '') || 'document'}-annotated.pdf` :
+                      `processed-${activeTab}.pdf`;
+      const link = createSecureDownloadLink(resultBlob, filename);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err) {
+      console.error('Error downloading file:', err);
+      setError('Error downloading file. Please try again.');
+    }
+  };
+
+  const resetFiles = useCallback(() => {
+    images.forEach(image => revokeBlobUrl(image.preview));
+    files.forEach(file => file.preview && revokeBlobUrl(file.preview));
+    pageImages.forEach(image => revokeBlobUrl(image.url));
+    if (result) revokeBlobUrl(result);
+
+    setFiles([]);
+    setImages([]);
+    setOrganizePages([]);
+    setResult(null);
+    setResultBlob(null);
+    setError(null);
+    setPreviewSize({ original: null, compressed: null });
+    setCompressionSavings([]);
+    setOcrReport([]);
+    setComparison(null);
+    setPageImages([]);
+    setAssetManifest(null);
+    setWatermarkPreview(null);
+    setHeaderFooterPreview(null);
+    setImpositionPreview(null);
+    setImpositionSheet(1);
+    setPageBoxes([]);
+    setPageSizePreview(null);
+    setPageSizePreviewPage(1);
+    setNumberedDocuments([]);
+    setSplitRejected([]);
+    setSplitParts([]);
+    setFormFields([]);
+    setFormValues({});
+    setFormPreview(null);
+    setRedactionAreas([]);
+    setRedactionTerms([]);
+    setRedactionChecks([]);
+    setSignatureImage(null);
+    setSignaturePlacements([]);
+    setCertificateFile(null);
+    setCertificatePassword('');
+    setSignatureReports(null);
+    setAnnotationDrafts([]);
+    setExistingAnnotations([]);
+    setRemovedAnnotationIds([]);
+    setPdfInfo(null);
+    setMetadataFields(null);
+    setMetadataXmp('');
+    setExcelTableCount(null);
+    setWorkbookSheets([]);
+    setLockedFiles([]);
+    setUnlockPassword('');
+    setUnlockError(null);
+    setCreateFileSizes({ original: null, estimated: null, final: null });
+  }, [images, files, pageImages, result]);
+
+  // Carry the current result over to the protect tab as its input
+  const handleProtectResult = () => {
+    if (!resultBlob) return;
+    const file = new File([resultBlob], `processed-${activeTab}.pdf`, { type: 'application/pdf' });
+    resetFiles();
+    setActiveTab('protect');
+    setFiles([{ file, preview: createSecureObjectURL(file) }]);
+  };
+
+  // Boxes of the page shown in the resize preview
+  const previewPageBoxes = pageBoxes[(pageSizePreview?.before.pageNumber ?? 1) - 1];
+
+  // Merged documents often mix page sizes, so offer to even them out
+  const handleResizeResult = () => {
+    if (!resultBlob) return;
+    const file = new File([resultBlob], `processed-${activeTab}.pdf`, { type: 'application/pdf' });
+    resetFiles();
+    setActiveTab('page-size');
+    setFiles([{ file, preview: createSecureObjectURL(file) }]);
+    loadPageBoxes(file);
+  };
+
+  const formatFileSize = (bytes: number | null) => {
+    if (bytes === null) return 'Unknown';
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const calculateReduction = () => {
+    if (!previewSize.original || !previewSize.compressed) return null;
+    const reduction = ((previewSize.original - previewSize.compressed) / previewSize.original) * 100;
+    return Math.round(reduction);
+  };
+
+  const calculateCreateReduction = () => {
+    if (!createFileSizes.original || !createFileSizes.final) return null;
+    const reduction = ((createFileSizes.original - createFileSizes.final) / createFileSizes.original) * 100;
+    return Math.round(reduction);
+  };
+
+  const handleQualityChange = (newQuality: number) => {
+    setCreateQualityLevel(newQuality);
+    if (createFileSizes.original) {
+      const estimatedSize = createFileSizes.original * (newQuality / 100);
+      setCreateFileSizes(prev => ({
+        ...prev,
+        estimated: estimatedSize,
+      }));
+    }
+  };
+
+  const renderImageGrid = () => {
+    if (activeTab !== 'create' || images.length === 0) return null;
+
+    return (
+      <div className="mt-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">
+            Selected Images ({images.length}/30)
+          </h3>
+          <button
             onClick={resetFiles}
             className="text-gray-500 hover:text-gray-700"
             title="Remove all images"
@@ -962,199 +2463,1895 @@ export function PDFTools() {
             <X className="w-5 h-5" />
           </button>
         </div>
-        <DndContext
-          sensors={sensors}
-          collisionDetection={rectIntersection}
-          onDragStart={handleDragStart}
-          onDragEnd={handleDragEnd}
-        >
-          <SortableContext
-            items={images.map(img => img.id)}
-            strategy={rectSortingStrategy}
+        <DndContext
+          sensors={sensors}
+          collisionDetection={rectIntersection}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+        >
+          <SortableContext
+            items={images.map(img => img.id)}
+            strategy={rectSortingStrategy}
+          >
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+              {images.map((image, idx) => (
+                <SortableImage
+                  key={image.id}
+                  id={image.id}
+                  preview={image.preview}
+                  onRemove={handleRemoveImage}
+                  index={idx}
+                />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <SEOHeaders 
+        title="Free Online PDF Tools - Merge, Split, Convert, Compress, Excel & Word"
+        description="Convert PDFs to Excel, Word, images, merge, split, compress, and convert Word/Excel to PDF online for free. No registration required."
+        keywords={[
+          'merge pdf files free',
+          'split pdf online',
+          'compress pdf size',
+          'convert pdf to jpg',
+          'pdf merger online',
+          'combine pdf files',
+          'pdf splitter free',
+          'rearrange pdf pages',
+          'add watermark to pdf',
+          'add page numbers to pdf',
+          'bates numbering online',
+          'fill pdf form online',
+          'flatten pdf form',
+          'redact pdf online',
+          'black out text in pdf',
+          'sign pdf online',
+          'verify pdf signature',
+          'annotate pdf online',
+          'highlight pdf',
+          'edit pdf metadata',
+          'remove pdf metadata',
+          'reduce pdf file size',
+          'pdf compression tool',
+          'ocr pdf online',
+          'searchable pdf converter',
+          'password protect pdf',
+          'encrypt pdf online',
+          'remove pdf password',
+          'unlock pdf',
+          'pdf to image converter',
+          'pdf to excel converter',
+          'pdf to word converter',
+          'word to pdf converter',
+          'excel to pdf converter'
+        ]}
+      />
+      <div className="max-w-4xl mx-auto px-4 py-6 sm:py-8">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6 sm:mb-8 text-center">
+          PDF Tools
+        </h1>
+
+        <AdComponent
+          slot="pdf-tools-top"
+          className="mb-6"
+          style={{ minHeight: '90px' }}
+        />
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => {
+                setActiveTab(tab.id);
+                resetFiles();
+              }}
+              className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors
+                ${activeTab === tab.id
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+            >
+              <tab.icon className="w-4 h-4 mr-2" />
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-4 sm:p-6">
+          <div
+            {...getRootProps()}
+            className={`border-2 border-dashed rounded-lg p-6 sm:p-8 text-center cursor-pointer transition-colors
+              ${isDragActive ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400'}`}
           >
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-              {images.map((image, idx) => (
-                <SortableImage
-                  key={image.id}
-                  id={image.id}
-                  preview={image.preview}
-                  onRemove={handleRemoveImage}
-                  index={idx}
+            <input {...getInputProps()} />
+            <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">
+              {isDragActive
+                ? 'Drop the files here'
+                : `Drag & drop ${activeTab === 'create' ? 'images' : 
+                   activeTab === 'merge' ? 'PDF files' : 
+                   activeTab === 'compare' ? 'the original and revised PDFs' :
+                   activeTab === 'word-to-pdf' ? 'Word documents' :
+                   activeTab === 'excel-to-pdf' ? 'Excel files' :
+                   'a file'} here, or tap to select`}
+            </p>
+            <p className="text-sm text-gray-500 mt-2">
+              {activeTab === 'create' ? 'Supports images (JPEG, PNG, WebP)' :
+               activeTab === 'word-to-pdf' ? 'Supports Word (.doc, .docx)' :
+               activeTab === 'excel-to-pdf' ? 'Supports Excel (.xls, .xlsx)' :
+               'Supports PDF files'}
+            </p>
+          </div>
+        </div>
+
+        {renderImageGrid()}
+
+        {activeTab === 'create' && images.length > 0 && (
+          <div className="mt-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Quality: {createQualityLevel}% (Higher quality = Larger file size)
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="100"
+                step="1"
+                value={createQualityLevel}
+                onChange={(e) => handleQualityChange(Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg cursor-pointer accent-indigo-600"
+              />
+            </div>
+
+            <div className="bg-gray-50 p-4 rounded-lg space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Original Size (Images):</span>
+                <span className="font-medium">{formatFileSize(createFileSizes.original)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Estimated PDF Size:</span>
+                <span className="font-medium">{formatFileSize(createFileSizes.estimated)}</span>
+              </div>
+              {createFileSizes.final !== null && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Final PDF Size:</span>
+                    <span className="font-medium">{formatFileSize(createFileSizes.final)}</span>
+                  </div>
+                  {calculateCreateReduction() !== null && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Reduction:</span>
+                      <span className="font-medium text-green-600">{calculateCreateReduction()}%</span>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab !== 'create' && files.length > 0 && (
+          <div className="mt-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-800">Selected Files</h3>
+              <button
+                onClick={resetFiles}
+                className="text-gray-500 hover:text-gray-700"
+                title="Remove all files"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="space-y-2">
+              {files.map((file, index) => (
+                <div key={index} className="flex items-center justify-between bg-gray-50 p-3 rounded-lg">
+                  <span className="flex items-center text-gray-700">
+                    {activeTab === 'compare' && index < 2 && (
+                      <span className={`mr-2 text-xs font-medium px-2 py-0.5 rounded ${index === 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                        {index === 0 ? 'Original' : 'Revised'}
+                      </span>
+                    )}
+                    {file.file.name}
+                    {file.unlocked && (
+                      <span className="ml-2 inline-flex items-center text-xs text-green-700 bg-green-50 px-2 py-0.5 rounded">
+                        <Unlock className="w-3 h-3 mr-1" />
+                        Unlocked
+                      </span>
+                    )}
+                  </span>
+                  {activeTab === 'merge' && (
+                    <input
+                      type="text"
+                      value={file.pages ?? ''}
+                      onChange={(e) => setFiles(files.map((f, i) => i === index ? { ...f, pages: e.target.value } : f))}
+                      placeholder="All pages"
+                      title="Pages to include, e.g. 1-3, 5"
+                      className="ml-auto mr-3 w-32 rounded-lg border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  )}
+                  <button
+                    onClick={() => {
+                      setFiles(files.filter((_, i) => i !== index));
+                      if (activeTab === 'organize') setOrganizePages([]);
+                      if (activeTab === 'fill-form') setFormFields([]);
+                      if (activeTab === 'redact') setRedactionAreas([]);
+                      if (activeTab === 'sign') setSignaturePlacements([]);
+                      if (activeTab === 'verify') setSignatureReports(null);
+                      if (activeTab === 'annotate') {
+                        setAnnotationDrafts([]);
+                        setExistingAnnotations([]);
+                        setRemovedAnnotationIds([]);
+                      }
+                      if (activeTab === 'metadata') setPdfInfo(null);
+                      if (activeTab === 'compare') setComparison(null);
+                    }}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {lockedFiles.length > 0 && (
+          <form onSubmit={handleUnlockFile} className="mt-6 bg-yellow-50 border border-yellow-200 p-4 rounded-lg space-y-3">
+            <p className="flex items-center text-sm font-medium text-gray-700">
+              <Lock className="w-4 h-4 mr-2" />
+              "{lockedFiles[0].name}" is password protected
+              {lockedFiles.length > 1 && ` (${lockedFiles.length - 1} more waiting)`}
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="password"
+                value={unlockPassword}
+                onChange={(e) => setUnlockPassword(e.target.value)}
+                placeholder="Enter password"
+                autoFocus
+                className="flex-1 rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={loading || !unlockPassword}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+              >
+                <Unlock className="w-4 h-4 mr-2" />
+                Unlock
+              </button>
+              <button
+                type="button"
+                onClick={handleSkipLockedFile}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Skip
+              </button>
+            </div>
+            {unlockError && <p className="text-sm text-red-600">{unlockError}</p>}
+          </form>
+        )}
+
+        {activeTab === 'watermark' && (
+          <div className="mt-6 space-y-4">
+            <div className="flex gap-2">
+              {(['text', 'image'] as const).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setWatermarkOptions(prev => ({ ...prev, type }))}
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors
+                    ${watermarkOptions.type === type
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                >
+                  {type === 'text' ? 'Text' : 'Image'}
+                </button>
+              ))}
+            </div>
+
+            {watermarkOptions.type === 'text' ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Text
+                  </label>
+                  <input
+                    type="text"
+                    value={watermarkOptions.text}
+                    onChange={(e) => setWatermarkOptions(prev => ({ ...prev, text: e.target.value }))}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Font
+                  </label>
+                  <select
+                    value={watermarkOptions.font}
+                    onChange={(e) => setWatermarkOptions(prev => ({ ...prev, font: e.target.value as StandardFonts }))}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    {STAMP_FONTS.map(font => (
+                      <option key={font.value} value={font.value}>{font.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-4">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Size
+                    </label>
+                    <input
+                      type="number"
+                      min="6"
+                      max="300"
+                      value={watermarkOptions.fontSize}
+                      onChange={(e) => setWatermarkOptions(prev => ({ ...prev, fontSize: Math.max(1, Number(e.target.value)) }))}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Color
+                    </label>
+                    <input
+                      type="color"
+                      value={watermarkOptions.color}
+                      onChange={(e) => setWatermarkOptions(prev => ({ ...prev, color: e.target.value }))}
+                      className="h-10 w-16 rounded-lg border border-gray-300"
+                    />
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Image (PNG or JPEG)
+                  </label>
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={handleWatermarkImage}
+                    className="block w-full text-sm text-gray-700"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Width: {Math.round(watermarkOptions.imageScale * 100)}% of page
+                  </label>
+                  <input
+                    type="range"
+                    min="5"
+                    max="100"
+                    value={Math.round(watermarkOptions.imageScale * 100)}
+                    onChange={(e) => setWatermarkOptions(prev => ({ ...prev, imageScale: Number(e.target.value) / 100 }))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Opacity: {Math.round(watermarkOptions.opacity * 100)}%
+                </label>
+                <input
+                  type="range"
+                  min="5"
+                  max="100"
+                  value={Math.round(watermarkOptions.opacity * 100)}
+                  onChange={(e) => setWatermarkOptions(prev => ({ ...prev, opacity: Number(e.target.value) / 100 }))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Rotation: {watermarkOptions.rotation}°
+                </label>
+                <input
+                  type="range"
+                  min="-180"
+                  max="180"
+                  step="5"
+                  value={watermarkOptions.rotation}
+                  onChange={(e) => setWatermarkOptions(prev => ({ ...prev, rotation: Number(e.target.value) }))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Position
+                </label>
+                <div className="grid grid-cols-3 gap-1 w-24">
+                  {WATERMARK_POSITIONS.map(position => (
+                    <button
+                      key={position}
+                      onClick={() => setWatermarkOptions(prev => ({ ...prev, position }))}
+                      disabled={watermarkOptions.tile}
+                      title={position.replace('-', ' ')}
+                      className={`h-7 rounded border transition-colors disabled:opacity-50
+                        ${watermarkOptions.position === position
+                          ? 'bg-indigo-600 border-indigo-600'
+                          : 'bg-gray-100 border-gray-300 hover:bg-gray-200'
+                        }`}
+                    />
+                  ))}
+                </div>
+                <label className="flex items-center mt-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={watermarkOptions.tile}
+                    onChange={(e) => setWatermarkOptions(prev => ({ ...prev, tile: e.target.checked }))}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Tile across page
+                </label>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pages (e.g., 1-3, 4, 5-7)
+                </label>
+                <input
+                  type="text"
+                  value={watermarkPages}
+                  onChange={(e) => setWatermarkPages(e.target.value)}
+                  placeholder="All pages"
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
+
+            {watermarkPreview && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-600 mb-2">Preview of page {watermarkPreview.pageNumber}</p>
+                <img
+                  src={watermarkPreview.dataUrl}
+                  alt="Watermark preview"
+                  className="mx-auto max-h-96 border border-gray-200 shadow-sm"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'header-footer' && (
+          <div className="mt-6 space-y-4">
+            {(['top', 'bottom'] as const).map(edge => (
+              <div key={edge}>
+                <p className="text-sm font-medium text-gray-700 mb-2">{edge === 'top' ? 'Header' : 'Footer'}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  {MARGIN_POSITIONS.filter(position => position.startsWith(edge)).map(position => (
+                    <input
+                      key={position}
+                      type="text"
+                      value={headerFooterOptions.slots[position]}
+                      onChange={(e) => setHeaderFooterOptions(prev => ({
+                        ...prev,
+                        slots: { ...prev.slots, [position]: e.target.value }
+                      }))}
+                      placeholder={`${edge === 'top' ? 'Header' : 'Footer'} ${position.split('-')[1]}`}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Available fields: {HEADER_FOOTER_TOKENS.join(', ')}
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Title
+                </label>
+                <input
+                  type="text"
+                  value={headerFooterOptions.title}
+                  onChange={(e) => setHeaderFooterOptions(prev => ({ ...prev, title: e.target.value }))}
+                  placeholder="Document title, or the file name"
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Date Format
+                </label>
+                <select
+                  value={headerFooterOptions.dateFormat}
+                  onChange={(e) => setHeaderFooterOptions(prev => ({ ...prev, dateFormat: e.target.value as HeaderFooterOptions['dateFormat'] }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  {DATE_FORMATS.map(format => (
+                    <option key={format.value} value={format.value}>{format.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Top/Bottom Margin (pt)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="144"
+                  value={headerFooterOptions.margin}
+                  onChange={(e) => setHeaderFooterOptions(prev => ({ ...prev, margin: Math.max(0, Number(e.target.value)) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Side Margin (pt)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="144"
+                  value={headerFooterOptions.sideMargin}
+                  onChange={(e) => setHeaderFooterOptions(prev => ({ ...prev, sideMargin: Math.max(0, Number(e.target.value)) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Size
+                </label>
+                <input
+                  type="number"
+                  min="4"
+                  max="72"
+                  value={headerFooterOptions.fontSize}
+                  onChange={(e) => setHeaderFooterOptions(prev => ({ ...prev, fontSize: Math.max(1, Number(e.target.value)) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Color
+                </label>
+                <input
+                  type="color"
+                  value={headerFooterOptions.color}
+                  onChange={(e) => setHeaderFooterOptions(prev => ({ ...prev, color: e.target.value }))}
+                  className="h-10 w-16 rounded-lg border border-gray-300"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Font
+                </label>
+                <select
+                  value={headerFooterOptions.font}
+                  onChange={(e) => setHeaderFooterOptions(prev => ({ ...prev, font: e.target.value as StandardFonts }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  {STAMP_FONTS.map(font => (
+                    <option key={font.value} value={font.value}>{font.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pages (e.g., 1-3, 4, 5-7)
+                </label>
+                <input
+                  type="text"
+                  value={headerFooterPages}
+                  onChange={(e) => setHeaderFooterPages(e.target.value)}
+                  placeholder="All pages"
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
+
+            {headerFooterPreview && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm text-gray-600 mb-2">Preview of page {headerFooterPreview.pageNumber}</p>
+                <img
+                  src={headerFooterPreview.dataUrl}
+                  alt="Header and footer preview"
+                  className="mx-auto max-h-96 border border-gray-200 shadow-sm"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'page-size' && (
+          <div className="mt-6 space-y-4">
+            <div className="flex gap-2">
+              {(['resize', 'trim', 'boxes'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setPageSizeOptions(prev => ({ ...prev, mode }))}
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors
+                    ${pageSizeOptions.mode === mode
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                >
+                  {mode === 'resize' ? 'Resize' : mode === 'trim' ? 'Trim Margins' : 'Page Boxes'}
+                </button>
+              ))}
+            </div>
+
+            {pageSizeOptions.mode === 'resize' && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Target Size
+                  </label>
+                  <select
+                    value={pageSizeOptions.targetSize}
+                    onChange={(e) => setPageSizeOptions(prev => ({ ...prev, targetSize: e.target.value as PageSizeOptions['targetSize'] }))}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    {TARGET_PAGE_SIZES.map(size => (
+                      <option key={size} value={size}>{size === 'custom' ? 'Custom' : size}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Orientation
+                  </label>
+                  <select
+                    value={pageSizeOptions.orientation}
+                    onChange={(e) => setPageSizeOptions(prev => ({ ...prev, orientation: e.target.value as PageSizeOptions['orientation'] }))}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="auto">Keep each page's</option>
+                    <option value="portrait">Portrait</option>
+                    <option value="landscape">Landscape</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Scaling
+                  </label>
+                  <select
+                    value={pageSizeOptions.scaling}
+                    onChange={(e) => setPageSizeOptions(prev => ({ ...prev, scaling: e.target.value as PageSizeOptions['scaling'] }))}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="fit">Fit (keep everything)</option>
+                    <option value="fill">Fill (crop overflow)</option>
+                    <option value="center">Center (no scaling)</option>
+                  </select>
+                </div>
+                {pageSizeOptions.targetSize === 'custom' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Width (mm)
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={pageSizeOptions.customWidth}
+                        onChange={(e) => setPageSizeOptions(prev => ({ ...prev, customWidth: Number(e.target.value) }))}
+                        className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Height (mm)
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={pageSizeOptions.customHeight}
+                        onChange={(e) => setPageSizeOptions(prev => ({ ...prev, customHeight: Number(e.target.value) }))}
+                        className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {pageSizeOptions.mode === 'trim' && (
+              <div className="space-y-4">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={pageSizeOptions.autoTrim}
+                    onChange={(e) => setPageSizeOptions(prev => ({ ...prev, autoTrim: e.target.checked }))}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Detect whitespace automatically
+                </label>
+                {pageSizeOptions.autoTrim ? (
+                  <div className="sm:w-1/3">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Padding around content (pt)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={pageSizeOptions.autoTrimPadding}
+                      onChange={(e) => setPageSizeOptions(prev => ({ ...prev, autoTrimPadding: Math.max(0, Number(e.target.value)) }))}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    {(['top', 'right', 'bottom', 'left'] as (keyof Margins)[]).map(edge => (
+                      <div key={edge}>
+                        <label className="block text-sm font-medium text-gray-700 mb-2 capitalize">
+                          {edge} (pt)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={pageSizeOptions.trim[edge]}
+                          onChange={(e) => setPageSizeOptions(prev => ({
+                            ...prev,
+                            trim: { ...prev.trim, [edge]: Math.max(0, Number(e.target.value)) }
+                          }))}
+                          className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">Trimming sets the crop box; the content outside it is hidden, not removed.</p>
+              </div>
+            )}
+
+            {pageSizeOptions.mode === 'boxes' && (
+              <div className="space-y-4">
+                <div className="sm:w-1/3">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Set
+                  </label>
+                  <select
+                    value={pageSizeOptions.applyToBox}
+                    onChange={(e) => setPageSizeOptions(prev => ({ ...prev, applyToBox: e.target.value as PageSizeOptions['applyToBox'] }))}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="crop">CropBox</option>
+                    <option value="media">MediaBox</option>
+                    <option value="both">CropBox and MediaBox</option>
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                  {(['left', 'bottom', 'right', 'top'] as (keyof PageBox)[]).map(edge => (
+                    <div key={edge}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2 capitalize">
+                        {edge} (pt)
+                      </label>
+                      <input
+                        type="number"
+                        value={pageSizeOptions.box[edge]}
+                        onChange={(e) => setPageSizeOptions(prev => ({
+                          ...prev,
+                          box: { ...prev.box, [edge]: Number(e.target.value) }
+                        }))}
+                        className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+                {previewPageBoxes && (
+                  <p className="text-xs text-gray-500">
+                    Page {pageSizePreview?.before.pageNumber ?? 1} currently has MediaBox [{formatPageBox(previewPageBoxes.mediaBox)}]
+                    and CropBox [{formatPageBox(previewPageBoxes.cropBox)}]
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="sm:w-1/2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Pages (e.g., 1-3, 4, 5-7)
+              </label>
+              <input
+                type="text"
+                value={pageSizePages}
+                onChange={(e) => setPageSizePages(e.target.value)}
+                placeholder="All pages"
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+
+            {pageSizePreview && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <div className="flex items-center justify-between mb-3">
+                  <button
+                    onClick={() => setPageSizePreviewPage(Math.max(1, pageSizePreview.before.pageNumber - 1))}
+                    disabled={pageSizePreview.before.pageNumber <= 1}
+                    className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Previous page"
+                  >
+                    <ChevronLeft className="w-5 h-5" />
+                  </button>
+                  <p className="text-sm text-gray-600">
+                    Page {pageSizePreview.before.pageNumber} of {pageSizePreview.before.pageCount}
+                  </p>
+                  <button
+                    onClick={() => setPageSizePreviewPage(Math.min(pageSizePreview.before.pageCount, pageSizePreview.before.pageNumber + 1))}
+                    disabled={pageSizePreview.before.pageNumber >= pageSizePreview.before.pageCount}
+                    className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Next page"
+                  >
+                    <ChevronRight className="w-5 h-5" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  {([
+                    ['Before', pageSizePreview.before.dataUrl, pageSizePreview.beforeSize],
+                    ['After', pageSizePreview.after.dataUrl, pageSizePreview.afterSize],
+                  ] as const).map(([label, dataUrl, size]) => (
+                    <div key={label} className="text-center">
+                      <p className="text-xs font-medium text-gray-500 mb-1">
+                        {label}: {formatPageDimensions(size)}
+                      </p>
+                      <img
+                        src={dataUrl}
+                        alt={`${label} preview`}
+                        className="mx-auto max-h-80 border border-gray-200 shadow-sm bg-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'impose' && (
+          <div className="mt-6 space-y-4">
+            <div className="flex gap-2">
+              {(['n-up', 'booklet'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => {
+                    setImpositionOptions(prev => ({ ...prev, mode }));
+                    setImpositionSheet(1);
+                  }}
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors
+                    ${impositionOptions.mode === mode
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                >
+                  {mode === 'n-up' ? 'Pages per Sheet' : 'Booklet'}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {impositionOptions.mode === 'n-up' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pages per Sheet
+                  </label>
+                  <select
+                    value={impositionOptions.pagesPerSheet}
+                    onChange={(e) => {
+                      setImpositionOptions(prev => ({ ...prev, pagesPerSheet: Number(e.target.value) }));
+                      setImpositionSheet(1);
+                    }}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    {PAGES_PER_SHEET.map(count => (
+                      <option key={count} value={count}>{count}-up</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Sheet Size
+                </label>
+                <select
+                  value={impositionOptions.sheetSize}
+                  onChange={(e) => setImpositionOptions(prev => ({ ...prev, sheetSize: e.target.value as ImpositionOptions['sheetSize'] }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  {SHEET_SIZES.map(size => (
+                    <option key={size} value={size}>
+                      {size === 'source' ? (impositionOptions.mode === 'booklet' ? 'Two source pages' : 'Same as source') : size}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {impositionOptions.mode === 'n-up' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Orientation
+                    </label>
+                    <select
+                      value={impositionOptions.orientation}
+                      onChange={(e) => setImpositionOptions(prev => ({ ...prev, orientation: e.target.value as ImpositionOptions['orientation'] }))}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    >
+                      <option value="auto">Best fit</option>
+                      <option value="portrait">Portrait</option>
+                      <option value="landscape">Landscape</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Page Order
+                    </label>
+                    <select
+                      value={impositionOptions.order}
+                      onChange={(e) => setImpositionOptions(prev => ({ ...prev, order: e.target.value as ImpositionOptions['order'] }))}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    >
+                      <option value="across">Across, then down</option>
+                      <option value="down">Down, then across</option>
+                    </select>
+                  </div>
+                </>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Margin (pt)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="144"
+                  value={impositionOptions.margin}
+                  onChange={(e) => setImpositionOptions(prev => ({ ...prev, margin: Math.max(0, Number(e.target.value)) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Gutter (pt)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="144"
+                  value={impositionOptions.gutter}
+                  onChange={(e) => setImpositionOptions(prev => ({ ...prev, gutter: Math.max(0, Number(e.target.value)) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={impositionOptions.border}
+                onChange={(e) => setImpositionOptions(prev => ({ ...prev, border: e.target.checked }))}
+                className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Draw a border around each page
+            </label>
+
+            {impositionOptions.mode === 'booklet' && (
+              <p className="text-sm text-gray-600">
+                Pages are reordered for saddle stitching and padded with blank pages to a multiple of four.
+                Print double-sided, flipping on the short edge, then fold the stack in half.
+              </p>
+            )}
+
+            {impositionPreview && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <button
+                    onClick={() => setImpositionSheet(Math.max(1, impositionPreview.sheetNumber - 1))}
+                    disabled={impositionPreview.sheetNumber <= 1}
+                    className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Previous sheet"
+                  >
+                    <ChevronLeft className="w-5 h-5" />
+                  </button>
+                  <p className="text-sm text-gray-600 text-center">
+                    {impositionOptions.mode === 'booklet'
+                      ? `Sheet ${Math.ceil(impositionPreview.sheetNumber / 2)} ${impositionPreview.sheetNumber % 2 === 1 ? 'front' : 'back'}`
+                      : `Sheet ${impositionPreview.sheetNumber} of ${impositionPreview.sheetCount}`}
+                    {' · pages '}
+                    {impositionPreview.pages.map(page => page ?? 'blank').join(', ')}
+                  </p>
+                  <button
+                    onClick={() => setImpositionSheet(Math.min(impositionPreview.sheetCount, impositionPreview.sheetNumber + 1))}
+                    disabled={impositionPreview.sheetNumber >= impositionPreview.sheetCount}
+                    className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                    title="Next sheet"
+                  >
+                    <ChevronRight className="w-5 h-5" />
+                  </button>
+                </div>
+                <img
+                  src={impositionPreview.dataUrl}
+                  alt="Imposed sheet preview"
+                  className="mx-auto max-h-96 border border-gray-200 shadow-sm bg-white"
                 />
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'page-numbers' && (
+          <div className="mt-6 space-y-4">
+            <div className="flex gap-2">
+              {(['page', 'bates'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setPageNumberOptions(prev => ({ ...prev, mode }))}
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors
+                    ${pageNumberOptions.mode === mode
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                >
+                  {mode === 'page' ? 'Page Numbers' : 'Bates Numbers'}
+                </button>
               ))}
             </div>
-          </SortableContext>
-        </DndContext>
-      </div>
-    );
-  };
 
-  return (
-    <>
-      <SEOHeaders 
-        title="Free Online PDF Tools - Merge, Split, Convert, Compress, Excel & Word"
-        description="Convert PDFs to Excel, Word, images, merge, split, compress, and convert Word/Excel to PDF online for free. No registration required."
-        keywords={[
-          'merge pdf files free',
-          'split pdf online',
-          'compress pdf size',
-          'convert pdf to jpg',
-          'pdf merger online',
-          'combine pdf files',
-          'pdf splitter free',
-          'reduce pdf file size',
-          'pdf compression tool',
-          'pdf to image converter',
-          'pdf to excel converter',
-          'pdf to word converter',
-          'word to pdf converter',
-          'excel to pdf converter'
-        ]}
-      />
-      <div className="max-w-4xl mx-auto px-4 py-6 sm:py-8">
-        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6 sm:mb-8 text-center">
-          PDF Tools
-        </h1>
+            {pageNumberOptions.mode === 'page' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Format ({'{n}'} = page number, {'{total}'} = last page number)
+                </label>
+                <input
+                  type="text"
+                  list="page-number-formats"
+                  value={pageNumberOptions.format}
+                  onChange={(e) => setPageNumberOptions(prev => ({ ...prev, format: e.target.value }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                <datalist id="page-number-formats">
+                  {PAGE_NUMBER_FORMATS.map(format => (
+                    <option key={format} value={format} />
+                  ))}
+                </datalist>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Prefix
+                  </label>
+                  <input
+                    type="text"
+                    value={pageNumberOptions.batesPrefix}
+                    onChange={(e) => setPageNumberOptions(prev => ({ ...prev, batesPrefix: e.target.value }))}
+                    placeholder="ABC"
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Digits
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="12"
+                    value={pageNumberOptions.batesDigits}
+                    onChange={(e) => setPageNumberOptions(prev => ({ ...prev, batesDigits: Math.min(12, Math.max(1, Number(e.target.value))) }))}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Suffix
+                  </label>
+                  <input
+                    type="text"
+                    value={pageNumberOptions.batesSuffix}
+                    onChange={(e) => setPageNumberOptions(prev => ({ ...prev, batesSuffix: e.target.value }))}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+                <p className="sm:col-span-3 text-sm text-gray-500">
+                  First number: {formatBatesNumber(pageNumberOptions.startAt, pageNumberOptions)}
+                </p>
+              </div>
+            )}
 
-        <AdComponent
-          slot="pdf-tools-top"
-          className="mb-6"
-          style={{ minHeight: '90px' }}
-        />
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Start At
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={pageNumberOptions.startAt}
+                  onChange={(e) => setPageNumberOptions(prev => ({ ...prev, startAt: Math.max(0, Math.floor(Number(e.target.value))) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Position
+                </label>
+                <select
+                  value={pageNumberOptions.position}
+                  onChange={(e) => setPageNumberOptions(prev => ({ ...prev, position: e.target.value as PageNumberOptions['position'] }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  {MARGIN_POSITIONS.map(position => (
+                    <option key={position} value={position}>
+                      {position.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Margin (pt)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="144"
+                  value={pageNumberOptions.margin}
+                  onChange={(e) => setPageNumberOptions(prev => ({ ...prev, margin: Math.max(0, Number(e.target.value)) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Size
+                </label>
+                <input
+                  type="number"
+                  min="4"
+                  max="72"
+                  value={pageNumberOptions.fontSize}
+                  onChange={(e) => setPageNumberOptions(prev => ({ ...prev, fontSize: Math.max(1, Number(e.target.value)) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
 
-        <div className="flex flex-wrap gap-2 mb-6">
-          {tabs.map(tab => (
-            <button
-              key={tab.id}
-              onClick={() => {
-                setActiveTab(tab.id);
-                resetFiles();
-              }}
-              className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors
-                ${activeTab === tab.id
-                  ? 'bg-indigo-600 text-white'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
-            >
-              <tab.icon className="w-4 h-4 mr-2" />
-              {tab.label}
-            </button>
-          ))}
-        </div>
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Font
+                </label>
+                <select
+                  value={pageNumberOptions.font}
+                  onChange={(e) => setPageNumberOptions(prev => ({ ...prev, font: e.target.value as StandardFonts }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  {STAMP_FONTS.map(font => (
+                    <option key={font.value} value={font.value}>{font.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Color
+                </label>
+                <input
+                  type="color"
+                  value={pageNumberOptions.color}
+                  onChange={(e) => setPageNumberOptions(prev => ({ ...prev, color: e.target.value }))}
+                  className="h-10 w-16 rounded-lg border border-gray-300"
+                />
+              </div>
+            </div>
 
-        <div className="bg-white rounded-xl shadow-lg p-4 sm:p-6">
-          <div
-            {...getRootProps()}
-            className={`border-2 border-dashed rounded-lg p-6 sm:p-8 text-center cursor-pointer transition-colors
-              ${isDragActive ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400'}`}
-          >
-            <input {...getInputProps()} />
-            <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-600">
-              {isDragActive
-                ? 'Drop the files here'
-                : `Drag & drop ${activeTab === 'create' ? 'images' : 
-                   activeTab === 'merge' ? 'PDF files' : 
-                   activeTab === 'word-to-pdf' ? 'Word documents' :
-                   activeTab === 'excel-to-pdf' ? 'Excel files' :
-                   'a file'} here, or tap to select`}
-            </p>
-            <p className="text-sm text-gray-500 mt-2">
-              {activeTab === 'create' ? 'Supports images (JPEG, PNG, WebP)' :
-               activeTab === 'word-to-pdf' ? 'Supports Word (.doc, .docx)' :
-               activeTab === 'excel-to-pdf' ? 'Supports Excel (.xls, .xlsx)' :
-               'Supports PDF files'}
+            <div className="space-y-2">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={pageNumberOptions.skipFirstPage}
+                  onChange={(e) => setPageNumberOptions(prev => ({ ...prev, skipFirstPage: e.target.checked }))}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Skip the first page of each file
+              </label>
+              {files.length > 1 && (
+                <>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={pageNumberOptions.continueAcrossFiles}
+                      onChange={(e) => setPageNumberOptions(prev => ({ ...prev, continueAcrossFiles: e.target.checked }))}
+                      className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Continue numbering from one file to the next
+                  </label>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={combineNumberedFiles}
+                      onChange={(e) => setCombineNumberedFiles(e.target.checked)}
+                      className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    Merge into a single PDF (otherwise download a ZIP)
+                  </label>
+                </>
+              )}
+            </div>
+
+            {numberedDocuments.length > 0 && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-2">Numbered Ranges</p>
+                <ul className="max-h-48 overflow-y-auto space-y-1">
+                  {numberedDocuments.map((doc, index) => (
+                    <li key={index} className="flex justify-between text-sm">
+                      <span className="text-gray-600 truncate mr-4">{doc.name}</span>
+                      <span className="font-medium text-gray-800 whitespace-nowrap">
+                        {doc.firstLabel === null ? 'No pages numbered' : `${doc.firstLabel} – ${doc.lastLabel}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'fill-form' && formFields.length > 0 && (
+          <div className="mt-6 space-y-4">
+            <FormFiller
+              fields={formFields}
+              values={formValues}
+              onChange={setFormValues}
+              preview={formPreview}
+              onPageChange={setFormPreviewPage}
+            />
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <label className="flex items-center text-sm text-gray-700 sm:mr-auto">
+                <input
+                  type="checkbox"
+                  checked={flattenForm}
+                  onChange={(e) => setFlattenForm(e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Flatten form (fields become static content)
+              </label>
+              <label className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm text-center cursor-pointer">
+                Import JSON / FDF
+                <input
+                  type="file"
+                  accept=".json,.fdf,application/json"
+                  onChange={handleImportFormValues}
+                  className="hidden"
+                />
+              </label>
+              <button
+                onClick={() => handleExportFormValues('json')}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+              >
+                Export JSON
+              </button>
+              <button
+                onClick={() => handleExportFormValues('fdf')}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+              >
+                Export FDF
+              </button>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'redact' && files.length === 1 && (
+          <div className="mt-6 space-y-4">
+            <RedactionEditor
+              key={files[0].preview}
+              file={files[0].file}
+              areas={redactionAreas}
+              onChange={setRedactionAreas}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Find text to redact
+              </label>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <input
+                  type="text"
+                  value={redactionQuery}
+                  onChange={(e) => setRedactionQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleFindRedactionText()}
+                  placeholder={redactionSearchOptions.regex ? 'e.g. \\d{4}-\\d{4}-\\d{4}' : 'e.g. John Smith'}
+                  className="flex-1 rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                <button
+                  onClick={handleFindRedactionText}
+                  disabled={loading || !redactionQuery.trim()}
+                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm flex items-center justify-center disabled:opacity-50"
+                >
+                  <Search className="w-4 h-4 mr-2" />
+                  Find &amp; Mark
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-4 mt-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={redactionSearchOptions.regex}
+                    onChange={(e) => setRedactionSearchOptions(prev => ({ ...prev, regex: e.target.checked }))}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Regular expression
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={redactionSearchOptions.caseSensitive}
+                    onChange={(e) => setRedactionSearchOptions(prev => ({ ...prev, caseSensitive: e.target.checked }))}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Match case
+                </label>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Redacted page resolution
+                </label>
+                <select
+                  value={redactionDpi}
+                  onChange={(e) => setRedactionDpi(Number(e.target.value))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  <option value={100}>100 DPI (smaller file)</option>
+                  <option value={150}>150 DPI</option>
+                  <option value={300}>300 DPI (sharper)</option>
+                </select>
+              </div>
+              <p className="text-sm text-gray-600 sm:flex-1">
+                {redactionAreas.length} area{redactionAreas.length === 1 ? '' : 's'} marked
+                on {new Set(redactionAreas.map(area => area.page)).size} page(s).
+                Pages with redactions are flattened to images so nothing underneath survives.
+              </p>
+              {(redactionAreas.length > 0 || redactionTerms.length > 0) && (
+                <button
+                  onClick={() => {
+                    setRedactionAreas([]);
+                    setRedactionTerms([]);
+                    setRedactionChecks([]);
+                  }}
+                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+                >
+                  Clear all
+                </button>
+              )}
+            </div>
+
+            {redactionChecks.length > 0 && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h4 className="font-medium text-gray-800 mb-2">Verification</h4>
+                <ul className="space-y-1 text-sm">
+                  {redactionChecks.map((check, index) => (
+                    <li key={index} className="flex items-start">
+                      {check.remainingPages.length === 0 ? (
+                        <>
+                          <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                          <span className="text-gray-700">"{check.term.query}" no longer appears in the text</span>
+                        </>
+                      ) : (
+                        <>
+                          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 text-yellow-600 flex-shrink-0" />
+                          <span className="text-yellow-800">
+                            "{check.term.query}" can still be found on page {check.remainingPages.join(', ')}.
+                            Mark those occurrences and redact again.
+                          </span>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'sign' && files.length === 1 && (
+          <div className="mt-6 space-y-4">
+            <SignatureEditor
+              key={files[0].preview}
+              file={files[0].file}
+              image={signatureImage}
+              onImageChange={setSignatureImage}
+              placements={signaturePlacements}
+              onChange={setSignaturePlacements}
+            />
+
+            <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+              <h4 className="font-medium text-gray-800">Digital signature (optional)</h4>
+              <p className="text-sm text-gray-600">
+                Sign with a .p12 or .pfx certificate so readers can check the document has not changed since you signed it.
+                The certificate and its password are only used in this browser.
+              </p>
+              {certificateFile ? (
+                <div className="flex items-center justify-between bg-white p-3 rounded-lg border border-gray-200">
+                  <span className="flex items-center text-sm text-gray-700">
+                    <ShieldCheck className="w-4 h-4 mr-2 text-indigo-600" />
+                    {certificateFile.name}
+                  </span>
+                  <button
+                    onClick={() => {
+                      setCertificateFile(null);
+                      setCertificatePassword('');
+                    }}
+                    className="text-gray-500 hover:text-gray-700"
+                    aria-label="Remove certificate"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <input
+                  type="file"
+                  accept=".p12,.pfx,application/x-pkcs12"
+                  onChange={(e) => setCertificateFile(e.target.files?.[0] ?? null)}
+                  className="block w-full text-sm text-gray-600 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+                />
+              )}
+              {certificateFile && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Certificate Password
+                    </label>
+                    <input
+                      type="password"
+                      value={certificatePassword}
+                      onChange={(e) => setCertificatePassword(e.target.value)}
+                      autoComplete="off"
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Signer Name
+                    </label>
+                    <input
+                      type="text"
+                      value={signatureDetails.name}
+                      onChange={(e) => setSignatureDetails(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="From the certificate"
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Reason
+                    </label>
+                    <input
+                      type="text"
+                      value={signatureDetails.reason}
+                      onChange={(e) => setSignatureDetails(prev => ({ ...prev, reason: e.target.value }))}
+                      placeholder="e.g. I approve this document"
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Location
+                    </label>
+                    <input
+                      type="text"
+                      value={signatureDetails.location}
+                      onChange={(e) => setSignatureDetails(prev => ({ ...prev, location: e.target.value }))}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                </div>
+              )}
+              {certificateFile && (
+                <p className="text-xs text-gray-500">
+                  Any later change to the signed PDF, including protecting it with a password, invalidates the digital signature.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'annotate' && files.length === 1 && (
+          <div className="mt-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Author
+              </label>
+              <input
+                type="text"
+                value={annotationAuthor}
+                onChange={(e) => setAnnotationAuthor(e.target.value)}
+                placeholder="Your name, shown with each comment"
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+            <AnnotationEditor
+              key={files[0].preview}
+              file={files[0].file}
+              drafts={annotationDrafts}
+              onChange={setAnnotationDrafts}
+              existing={existingAnnotations}
+              removedIds={removedAnnotationIds}
+              onRemovedChange={setRemovedAnnotationIds}
+            />
+          </div>
+        )}
+
+        {activeTab === 'verify' && (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              Checks that the signed parts of the PDF have not changed since signing. Certificates are not checked
+              against trusted authorities, so confirm who the signer is separately.
             </p>
+
+            {signatureReports && signatureReports.length === 0 && (
+              <div className="bg-gray-50 p-4 rounded-lg text-sm text-gray-600">
+                This PDF has no digital signatures.
+              </div>
+            )}
+
+            {signatureReports && signatureReports.length > 0 && (
+              <ul className="space-y-3">
+                {signatureReports.map((report, index) => (
+                  <li key={index} className="bg-gray-50 p-4 rounded-lg">
+                    <div className="flex items-start">
+                      {report.status === 'valid' ? (
+                        <CheckCircle className="w-5 h-5 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                      ) : report.status === 'unsupported' ? (
+                        <Info className="w-5 h-5 mr-2 mt-0.5 text-gray-500 flex-shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-5 h-5 mr-2 mt-0.5 text-red-600 flex-shrink-0" />
+                      )}
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-800">
+                          {report.signerName}
+                          <span className="ml-2 font-normal text-gray-500">{report.fieldName}</span>
+                        </p>
+                        <p className={report.status === 'valid' ? 'text-green-700' : report.status === 'unsupported' ? 'text-gray-600' : 'text-red-700'}>
+                          {report.message}
+                        </p>
+                        <dl className="mt-2 grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5 text-gray-600">
+                          {report.signingTime && (<><dt>Signed</dt><dd>{report.signingTime.toLocaleString()}</dd></>)}
+                          {report.reason && (<><dt>Reason</dt><dd>{report.reason}</dd></>)}
+                          {report.location && (<><dt>Location</dt><dd>{report.location}</dd></>)}
+                          {report.issuer && (<><dt>Issued by</dt><dd className="break-all">{report.issuer}</dd></>)}
+                          <dt>Format</dt><dd>{report.subFilter || 'Unknown'}</dd>
+                        </dl>
+                        {report.status === 'valid' && !report.coversWholeDocument && (
+                          <p className="mt-2 text-yellow-800">
+                            The PDF was changed or signed again after this signature. The version that was signed is intact.
+                          </p>
+                        )}
+                        {report.certificateValid === false && (
+                          <p className="mt-2 text-yellow-800">The certificate was not valid at the time of signing.</p>
+                        )}
+                        {report.selfSigned && (
+                          <p className="mt-2 text-yellow-800">The certificate is self-signed, so anyone could have created it.</p>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-        </div>
+        )}
 
-        {renderImageGrid()}
+        {activeTab === 'metadata' && pdfInfo && metadataFields && (
+          <div className="mt-6 space-y-4">
+            <MetadataEditor
+              info={pdfInfo}
+              fields={metadataFields}
+              onChange={setMetadataFields}
+              xmp={metadataXmp}
+              onXmpChange={setMetadataXmp}
+              unlocked={files[0]?.unlocked ?? false}
+            />
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <p className="text-sm text-gray-600 sm:mr-auto">
+                Process saves the edited fields. Stripping removes the document information,
+                all XMP packets and private application data.
+              </p>
+              <button
+                onClick={handleStripMetadata}
+                disabled={loading}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm flex items-center justify-center disabled:opacity-50"
+              >
+                <Eraser className="w-4 h-4 mr-2" />
+                Strip All Metadata
+              </button>
+            </div>
+          </div>
+        )}
 
-        {activeTab === 'create' && images.length > 0 && (
+        {activeTab === 'to-excel' && (
           <div className="mt-6 space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Quality: {createQualityLevel}% (Higher quality = Larger file size)
+                Worksheets
               </label>
+              <select
+                value={excelOptions.sheetLayout}
+                onChange={(e) => setExcelOptions(prev => ({ ...prev, sheetLayout: e.target.value as ExcelExportOptions['sheetLayout'] }))}
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                <option value="page">One sheet per page</option>
+                <option value="table">One sheet per detected table</option>
+              </select>
+            </div>
+            <label className="flex items-center text-sm text-gray-700">
               <input
-                type="range"
-                min="1"
-                max="100"
-                step="1"
-                value={createQualityLevel}
-                onChange={(e) => handleQualityChange(Number(e.target.value))}
-                className="w-full h-2 bg-gray-200 rounded-lg cursor-pointer accent-indigo-600"
+                type="checkbox"
+                checked={excelOptions.mergeAcrossPages}
+                onChange={(e) => setExcelOptions(prev => ({ ...prev, mergeAcrossPages: e.target.checked }))}
+                disabled={excelOptions.sheetLayout !== 'table'}
+                className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
               />
+              Merge tables that continue across pages
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Numeric Dates
+              </label>
+              <select
+                value={excelOptions.dateOrder}
+                onChange={(e) => setExcelOptions(prev => ({ ...prev, dateOrder: e.target.value as DateOrder }))}
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                <option value="auto">Detect from the document</option>
+                <option value="day-first">Day first (31/12/2024)</option>
+                <option value="month-first">Month first (12/31/2024)</option>
+              </select>
             </div>
+            <p className="text-sm text-gray-600">
+              Numbers, amounts and dates become real Excel values. Tables are found from
+              column alignment and from ruling lines when the PDF has them.
+            </p>
+            {excelTableCount !== null && (
+              <p className="text-sm text-gray-700">
+                {excelTableCount === 0
+                  ? 'No tables were detected, so each page was exported as its own sheet.'
+                  : `Found ${excelTableCount} table${excelTableCount === 1 ? '' : 's'}.`}
+              </p>
+            )}
+          </div>
+        )}
 
-            <div className="bg-gray-50 p-4 rounded-lg space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Original Size (Images):</span>
-                <span className="font-medium">{formatFileSize(createFileSizes.original)}</span>
+        {activeTab === 'excel-to-pdf' && workbookSheets.length > 0 && (
+          <div className="mt-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Worksheets
+              </label>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {workbookSheets.map(sheet => (
+                  <label key={sheet} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={excelPdfOptions.sheets.includes(sheet)}
+                      onChange={(e) => setExcelPdfOptions(prev => ({
+                        ...prev,
+                        sheets: workbookSheets.filter(name => name === sheet ? e.target.checked : prev.sheets.includes(name))
+                      }))}
+                      className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {sheet}
+                  </label>
+                ))}
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Estimated PDF Size:</span>
-                <span className="font-medium">{formatFileSize(createFileSizes.estimated)}</span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Orientation
+                </label>
+                <select
+                  value={excelPdfOptions.orientation}
+                  onChange={(e) => setExcelPdfOptions(prev => ({ ...prev, orientation: e.target.value as ExcelToPDFOptions['orientation'] }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Header rows to repeat on each page
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={20}
+                  value={excelPdfOptions.headerRows}
+                  onChange={(e) => setExcelPdfOptions(prev => ({ ...prev, headerRows: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
               </div>
-              {createFileSizes.final !== null && (
-                <>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Final PDF Size:</span>
-                    <span className="font-medium">{formatFileSize(createFileSizes.final)}</span>
-                  </div>
-                  {calculateCreateReduction() !== null && (
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Reduction:</span>
-                      <span className="font-medium text-green-600">{calculateCreateReduction()}%</span>
-                    </div>
-                  )}
-                </>
-              )}
             </div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={excelPdfOptions.fitToWidth}
+                onChange={(e) => setExcelPdfOptions(prev => ({ ...prev, fitToWidth: e.target.checked }))}
+                className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Fit all columns to the page width
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={excelPdfOptions.gridlines}
+                onChange={(e) => setExcelPdfOptions(prev => ({ ...prev, gridlines: e.target.checked }))}
+                className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Print gridlines
+            </label>
           </div>
         )}
 
-        {activeTab !== 'create' && files.length > 0 && (
-          <div className="mt-6">
-            <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-semibold text-gray-800">Selected Files</h3>
-              <button
-                onClick={resetFiles}
-                className="text-gray-500 hover:text-gray-700"
-                title="Remove all files"
+        {activeTab === 'merge' && (
+          <div className="mt-6 space-y-2">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={mergeOptions.bookmarks}
+                onChange={(e) => setMergeOptions(prev => ({ ...prev, bookmarks: e.target.checked }))}
+                className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Add a bookmark for each file and keep the files' own bookmarks
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={mergeOptions.tableOfContents}
+                onChange={(e) => setMergeOptions(prev => ({ ...prev, tableOfContents: e.target.checked }))}
+                className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Start with a table of contents page
+            </label>
+            <p className="text-sm text-gray-600">
+              Enter page ranges next to a file to merge only those pages.
+            </p>
+          </div>
+        )}
+
+        {activeTab === 'split' && (
+          <div className="mt-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Split Method
+              </label>
+              <select
+                value={splitOptions.mode}
+                onChange={(e) => setSplitOptions(prev => ({ ...prev, mode: e.target.value as SplitOptions['mode'] }))}
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
               >
-                <X className="w-5 h-5" />
-              </button>
+                <option value="ranges">One file per page range</option>
+                <option value="extract">Extract selected pages into one file</option>
+                <option value="every">Every N pages</option>
+                <option value="odd-even">Odd and even pages</option>
+                <option value="size">Files under a target size</option>
+                <option value="bookmarks">One file per top-level bookmark</option>
+              </select>
             </div>
-            <div className="space-y-2">
-              {files.map((file, index) => (
-                <div key={index} className="flex items-center justify-between bg-gray-50 p-3 rounded-lg">
-                  <span className="text-gray-700">{file.file.name}</span>
-                  <button
-                    onClick={() => setFiles(files.filter((_, i) => i !== index))}
-                    className="text-gray-500 hover:text-gray-700"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                </div>
-              ))}
+
+            {(splitOptions.mode === 'ranges' || splitOptions.mode === 'extract') && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Page Ranges (e.g., 1-3, 4, 5-7)
+                </label>
+                <input
+                  type="text"
+                  value={splitOptions.ranges}
+                  onChange={(e) => setSplitOptions(prev => ({ ...prev, ranges: e.target.value }))}
+                  placeholder="Enter page ranges"
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            )}
+
+            {splitOptions.mode === 'every' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pages per file
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={splitOptions.everyPages}
+                  onChange={(e) => setSplitOptions(prev => ({ ...prev, everyPages: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            )}
+
+            {splitOptions.mode === 'size' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Maximum size per file (MB)
+                </label>
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={splitOptions.maxSizeMB}
+                  onChange={(e) => setSplitOptions(prev => ({ ...prev, maxSizeMB: parseFloat(e.target.value) || 0 }))}
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  A single page larger than this is saved in a file of its own.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                File names
+              </label>
+              <input
+                type="text"
+                value={splitOptions.nameTemplate}
+                onChange={(e) => setSplitOptions(prev => ({ ...prev, nameTemplate: e.target.value }))}
+                placeholder={DEFAULT_SPLIT_NAME_TEMPLATE}
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Use {'{name}'} for the original name, {'{n}'} for the part number, {'{start}'} and {'{end}'} for
+                page numbers and {'{title}'} for the bookmark title.
+              </p>
             </div>
+
+            {splitRejected.length > 0 && (
+              <div className="bg-yellow-50 p-4 rounded-lg">
+                <ul className="space-y-1 text-sm">
+                  {splitRejected.map((rejected, index) => (
+                    <li key={index} className="flex items-start">
+                      <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 text-yellow-600 flex-shrink-0" />
+                      <span className="text-yellow-800">Skipped "{rejected.input}": {rejected.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {splitParts.length > 0 && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  {splitParts.length} file{splitParts.length === 1 ? '' : 's'}
+                </p>
+                <ul className="max-h-48 overflow-y-auto space-y-1">
+                  {splitParts.map((part, index) => (
+                    <li key={index} className="flex justify-between text-sm">
+                      <span className="text-gray-600 truncate mr-4">{part.name}</span>
+                      <span className="font-medium text-gray-800 whitespace-nowrap">
+                        {part.pageCount} page{part.pageCount === 1 ? '' : 's'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
 
-        {activeTab === 'split' && (
-          <div className="mt-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Page Ranges (e.g., 1-3, 4, 5-7)
-            </label>
-            <input
-              type="text"
-              value={splitPages}
-              onChange={(e) => setSplitPages(e.target.value)}
-              placeholder="Enter page ranges"
-              className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-            />
-          </div>
+        {activeTab === 'organize' && organizePages.length > 0 && (
+          <PageOrganizer pages={organizePages} onChange={setOrganizePages} />
         )}
 
         {activeTab === 'compress' && (
@@ -1171,6 +4368,10 @@ export function PDFTools() {
                 onChange={(e) => setCompressionLevel(Number(e.target.value))}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
               />
+              <p className="text-xs text-gray-500 mt-1">
+                Images are downsampled to {getCompressionSettings(compressionLevel).dpi} DPI at
+                {' '}{Math.round(getCompressionSettings(compressionLevel).quality * 100)}% JPEG quality
+              </p>
             </div>
 
             {previewSize.original && (
@@ -1189,11 +4390,395 @@ export function PDFTools() {
                     <span className="font-medium text-green-600">{calculateReduction()}%</span>
                   </div>
                 )}
+                {compressionSavings.length > 0 && (
+                  <div className="pt-2 mt-2 border-t border-gray-200">
+                    <p className="text-sm font-medium text-gray-700 mb-1">Where the bytes went</p>
+                    <ul className="max-h-48 overflow-y-auto space-y-1">
+                      {compressionSavings.map((saving, index) => (
+                        <li key={index} className="flex justify-between text-xs text-gray-600">
+                          <span className="truncate mr-2">{saving.label}</span>
+                          <span className="whitespace-nowrap">
+                            {formatFileSize(saving.originalSize)} → {formatFileSize(saving.compressedSize)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {previewSize.compressed !== null && compressionSavings.length === 0 && (
+                  <p className="text-xs text-gray-500">
+                    {previewSize.compressed === previewSize.original
+                      ? 'The PDF could not be made any smaller, so the original file is kept.'
+                      : 'No images or duplicate objects could be compressed further.'}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'to-images' && (
+          <div className="mt-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Output
+              </label>
+              <select
+                value={imageMode}
+                onChange={(e) => setImageMode(e.target.value as 'render' | 'extract')}
+                disabled={loading}
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                <option value="render">Render pages as images</option>
+                <option value="extract">Extract embedded images, fonts and attachments</option>
+              </select>
+            </div>
+
+            {imageMode === 'render' && (
+              <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Resolution: {imageOptions.dpi} DPI
+                  </label>
+                  <input
+                    type="range"
+                    min={MIN_IMAGE_DPI}
+                    max={MAX_IMAGE_DPI}
+                    step="6"
+                    value={imageOptions.dpi}
+                    onChange={(e) => setImageOptions(prev => ({ ...prev, dpi: Number(e.target.value) }))}
+                    disabled={loading}
+                    className="w-full h-2 bg-gray-200 rounded-lg cursor-pointer accent-indigo-600"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Format
+                  </label>
+                  <select
+                    value={imageOptions.format}
+                    onChange={(e) => setImageOptions(prev => ({ ...prev, format: e.target.value as ImageExportOptions['format'] }))}
+                    disabled={loading}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    {IMAGE_FORMATS.map(format => (
+                      <option key={format.value} value={format.value}>{format.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {imageOptions.format !== 'png' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Quality: {Math.round(imageOptions.quality * 100)}%
+                    </label>
+                    <input
+                      type="range"
+                      min="10"
+                      max="100"
+                      value={Math.round(imageOptions.quality * 100)}
+                      onChange={(e) => setImageOptions(prev => ({ ...prev, quality: Number(e.target.value) / 100 }))}
+                      disabled={loading}
+                      className="w-full h-2 bg-gray-200 rounded-lg cursor-pointer accent-indigo-600"
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pages (e.g., 1-3, 4, 5-7)
+                  </label>
+                  <input
+                    type="text"
+                    value={imageOptions.pages}
+                    onChange={(e) => setImageOptions(prev => ({ ...prev, pages: e.target.value }))}
+                    placeholder="All pages"
+                    disabled={loading}
+                    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={imageOptions.transparent && imageOptions.format !== 'jpeg'}
+                    onChange={(e) => setImageOptions(prev => ({ ...prev, transparent: e.target.checked }))}
+                    disabled={loading || imageOptions.format === 'jpeg'}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Transparent background {imageOptions.format === 'jpeg' && '(not available for JPEG)'}
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={imageOptions.grayscale}
+                    onChange={(e) => setImageOptions(prev => ({ ...prev, grayscale: e.target.checked }))}
+                    disabled={loading}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Grayscale
+                </label>
+              </div>
+
+              {imageProgress && imageProgress.total > 0 && (
+                <div>
+                  <div className="flex justify-between text-sm text-gray-600 mb-1">
+                    <span>Rendered {imageProgress.done} of {imageProgress.total} pages</span>
+                    <span>{Math.round((imageProgress.done / imageProgress.total) * 100)}%</span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded-lg overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-600 transition-all"
+                      style={{ width: `${(imageProgress.done / imageProgress.total) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {pageImages.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                  {pageImages.map(image => (
+                    <div key={image.pageNumber} className="bg-gray-50 p-2 rounded-lg">
+                      <img
+                        src={image.url}
+                        alt={`Page ${image.pageNumber}`}
+                        className="w-full h-40 object-contain bg-white border border-gray-200 rounded"
+                      />
+                      <div className="flex items-center justify-between mt-2 text-xs text-gray-600">
+                        <span>Page {image.pageNumber} · {image.width}×{image.height}</span>
+                        <a
+                          href={image.url}
+                          download={image.name}
+                          className="p-1 text-indigo-600 hover:text-indigo-800"
+                          title={`Download ${image.name}`}
+                        >
+                          <Download className="w-4 h-4" />
+                        </a>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              </>
+            )}
+
+            {imageMode === 'extract' && !assetManifest && (
+              <p className="text-sm text-gray-600">
+                Images are saved at their original resolution without re-rendering. JPEG images keep their original bytes; other images are saved as PNG.
+              </p>
+            )}
+
+            {imageMode === 'extract' && assetManifest && (
+              <div className="bg-gray-50 p-4 rounded-lg space-y-3 text-sm">
+                <p className="font-medium text-gray-700">
+                  {assetManifest.images.length} images, {assetManifest.fonts.filter(font => font.file).length} font files and {assetManifest.attachments.length} attachments
+                </p>
+                {assetManifest.fonts.length > 0 && (
+                  <div>
+                    <p className="font-medium text-gray-700 mb-1">Fonts</p>
+                    <ul className="max-h-48 overflow-y-auto space-y-1">
+                      {assetManifest.fonts.map(font => (
+                        <li key={`${font.name}-${font.type}-${font.pages.join(',')}`} className="flex justify-between">
+                          <span className="text-gray-600 truncate mr-2">
+                            {font.name} <span className="text-gray-400">({font.type}{font.subset ? ', subset' : ''})</span>
+                          </span>
+                          <span className={`whitespace-nowrap ${font.embedded ? 'text-green-600' : 'text-gray-500'}`}>
+                            {font.embedded ? (font.file ? 'Embedded' : 'Embedded, not saved') : 'Not embedded'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {assetManifest.attachments.length > 0 && (
+                  <div>
+                    <p className="font-medium text-gray-700 mb-1">Attachments</p>
+                    <ul className="space-y-1">
+                      {assetManifest.attachments.map(attachment => (
+                        <li key={attachment.file} className="flex justify-between text-gray-600">
+                          <span className="truncate mr-2">{attachment.name}</span>
+                          <span className="whitespace-nowrap">{formatFileSize(attachment.size)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {assetManifest.skipped.length > 0 && (
+                  <div className="flex items-start text-yellow-700">
+                    <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <ul className="space-y-1">
+                      {assetManifest.skipped.map(item => (
+                        <li key={item.label}>{item.label}: {item.reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'compare' && (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              The first file is treated as the original and the second as the revised version.
+              Inserted text is highlighted in the downloaded copy of the revised PDF and deletions are added as notes.
+            </p>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={compareOptions.ignoreCase}
+                onChange={(e) => setCompareOptions(prev => ({ ...prev, ignoreCase: e.target.checked }))}
+                disabled={loading}
+                className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Ignore case
+            </label>
+
+            {compareProgress && (
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>Reading page {compareProgress.done} of {compareProgress.total}</span>
+                  <span>{Math.round((compareProgress.done / compareProgress.total) * 100)}%</span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-lg overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-600 transition-all"
+                    style={{ width: `${(compareProgress.done / compareProgress.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {comparison && <ComparisonReport result={comparison} />}
+          </div>
+        )}
+
+        {activeTab === 'ocr' && (
+          <div className="mt-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Document Language
+              </label>
+              <select
+                value={ocrLanguage}
+                onChange={(e) => setOcrLanguage(e.target.value)}
+                disabled={loading}
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                {OCR_LANGUAGES.map(language => (
+                  <option key={language.code} value={language.code}>{language.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {ocrProgress && (
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>Recognizing page {ocrProgress.page} of {ocrProgress.total}</span>
+                  <span>{Math.round(ocrProgress.progress * 100)}%</span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-lg overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-600 transition-all"
+                    style={{ width: `${((ocrProgress.page - 1 + ocrProgress.progress) / ocrProgress.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {ocrReport.length > 0 && (
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-2">Recognition Confidence</p>
+                <ul className="max-h-48 overflow-y-auto space-y-1">
+                  {ocrReport.map(page => (
+                    <li key={page.page} className="flex justify-between text-sm">
+                      <span className="text-gray-600">Page {page.page} ({page.wordCount} words)</span>
+                      <span className={`font-medium ${page.confidence >= 80 ? 'text-green-600' : page.confidence >= 50 ? 'text-yellow-600' : 'text-red-600'}`}>
+                        {page.confidence}%
+                      </span>
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
           </div>
         )}
 
+        {activeTab === 'protect' && (
+          <div className="mt-6 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Open Password
+                </label>
+                <input
+                  type="password"
+                  value={protectOptions.userPassword}
+                  onChange={(e) => setProtectOptions(prev => ({ ...prev, userPassword: e.target.value }))}
+                  autoComplete="new-password"
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">Required to open the document</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Owner Password
+                </label>
+                <input
+                  type="password"
+                  value={protectOptions.ownerPassword}
+                  onChange={(e) => setProtectOptions(prev => ({ ...prev, ownerPassword: e.target.value }))}
+                  autoComplete="new-password"
+                  className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">Lifts the restrictions below; a random one is used if left empty</p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Encryption
+              </label>
+              <select
+                value={protectOptions.algorithm}
+                onChange={(e) => setProtectOptions(prev => ({ ...prev, algorithm: e.target.value as EncryptionOptions['algorithm'] }))}
+                className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                {ENCRYPTION_ALGORITHMS.map(algorithm => (
+                  <option key={algorithm.value} value={algorithm.value}>{algorithm.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">Allow</p>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {([
+                  ['print', 'Printing'],
+                  ['copy', 'Copying text'],
+                  ['modify', 'Editing'],
+                  ['annotate', 'Comments & forms']
+                ] as [keyof PDFPermissions, string][]).map(([key, label]) => (
+                  <label key={key} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={protectOptions.permissions[key]}
+                      onChange={(e) => setProtectOptions(prev => ({
+                        ...prev,
+                        permissions: { ...prev.permissions, [key]: e.target.checked }
+                      }))}
+                      className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {error && (
           <div className="mt-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
             {error}
@@ -1204,7 +4789,15 @@ export function PDFTools() {
           <button
             onClick={handleProcess}
             disabled={loading || (activeTab === 'create' ?
-              images.length === 0 : files.length === 0)}
+              images.length === 0 : files.length === 0) ||
+              (activeTab === 'organize' && organizePages.length === 0) ||
+              (activeTab === 'fill-form' && formFields.length === 0) ||
+              (activeTab === 'redact' && redactionAreas.length === 0) ||
+              (activeTab === 'sign' && signaturePlacements.length === 0 && !certificateFile) ||
+              (activeTab === 'annotate' && annotationDrafts.length === 0 && removedAnnotationIds.length === 0) ||
+              (activeTab === 'metadata' && !pdfInfo) ||
+              (activeTab === 'compare' && files.length !== 2) ||
+              (activeTab === 'excel-to-pdf' && excelPdfOptions.sheets.length === 0)}
             className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
           >
             {loading ? (
@@ -1226,13 +4819,51 @@ export function PDFTools() {
               className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center"
             >
               <Download className="w-5 h-5 mr-2" />
-              Download {activeTab === 'to-images' ? 'ZIP' : 
-                        activeTab === 'to-excel' ? 'CSV' :
-                        activeTab === 'to-word' ? 'TXT' : 'PDF'}
+              Download {activeTab === 'to-images' || resultBlob?.type === 'application/zip' ? 'ZIP' : 
+                        activeTab === 'to-excel' ? 'XLSX' :
+                        activeTab === 'to-word' ? 'DOCX' : 'PDF'}
+            </button>
+          )}
+
+          {/* Re-saving a digitally signed PDF would break its signature */}
+          {result && resultBlob?.type === 'application/pdf' && activeTab !== 'protect' && !(activeTab === 'sign' && certificateFile) && (
+            <button
+              onClick={handleProtectResult}
+              className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors flex items-center justify-center"
+            >
+              <Lock className="w-5 h-5 mr-2" />
+              Protect Result
+            </button>
+          )}
+
+          {result && activeTab === 'merge' && (
+            <button
+              onClick={handleResizeResult}
+              className="flex-1 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors flex items-center justify-center"
+            >
+              <Crop className="w-5 h-5 mr-2" />
+              Normalize Page Sizes
             </button>
           )}
         </div>
 
+        {result && resultBlob?.type === 'application/pdf' && (
+          <div className="mt-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold text-gray-800">Preview</h3>
+              <button
+                onClick={() => navigate('/viewer', {
+                  state: { file: resultBlob, name: `processed-${activeTab}.pdf` } satisfies ViewerLocationState,
+                })}
+                className="text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                Open in viewer
+              </button>
+            </div>
+            <PDFViewer file={resultBlob} className="h-[600px]" />
+          </div>
+        )}
+
         {result && (
           <AdComponent
             slot="pdf-tools-bottom"
@@ -0,0 +1,533 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Loader2, Maximize2, PanelLeft, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import { pdfjsLib } from '../utils/pdfjs';
+import { renderPageThumbnails, type PageThumbnail } from '../utils/pdfRender';
+import { readOutline, type OutlineNode } from '../utils/pdfOutline';
+import { findTextMatches, type TextMatch, type TextSearchOptions } from '../utils/redaction';
+
+interface PDFViewerProps {
+  file: Blob;
+  // Sets the viewer's height, e.g. "h-[600px]"
+  className?: string;
+}
+
+// Page size in CSS pixels at 100% zoom
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+interface PageViewProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  scale: number;
+  root: HTMLDivElement | null;
+  matches: TextMatch[];
+  activeMatch: TextMatch | null;
+  onMount: (pageNumber: number, element: HTMLDivElement | null) => void;
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const PAGE_GAP = 16;
+
+type TextLayerInstance = InstanceType<typeof pdfjsLib.TextLayer>;
+
+const isCancelled = (err: unknown) => err instanceof Error && err.name === 'RenderingCancelledException';
+
+// One page of the continuous view. The canvas and text layer are only drawn
+// while the page is near the visible part of the scroll area.
+function PageView({ pdf, pageNumber, size, scale, root, matches, activeMatch, onMount }: PageViewProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || !root) return;
+    const observer = new IntersectionObserver(
+      entries => setVisible(entries[0].isIntersecting),
+      { root, rootMargin: '100% 0px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [root]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = textLayerRef.current;
+    if (!canvas || !container) return;
+
+    // Free pages that have scrolled well out of view
+    if (!visible) {
+      canvas.width = 0;
+      canvas.height = 0;
+      container.replaceChildren();
+      return;
+    }
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayerInstance | null = null;
+
+    (async () => {
+      try {
+        const page = await pdf.getPage(pageNumber);
+        if (cancelled) return;
+        const viewport = page.getViewport({ scale });
+        const outputScale = window.devicePixelRatio || 1;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error(`Failed to get 2D context for page ${pageNumber}`);
+
+        canvas.width = Math.floor(viewport.width * outputScale);
+        canvas.height = Math.floor(viewport.height * outputScale);
+        renderTask = page.render({
+          canvasContext: context,
+          viewport,
+          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+        });
+        await renderTask.promise;
+        if (cancelled) return;
+
+        container.replaceChildren();
+        textLayer = new pdfjsLib.TextLayer({ textContentSource: page.streamTextContent(), container, viewport });
+        await textLayer.render();
+      } catch (err) {
+        if (!isCancelled(err)) console.error(err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, pageNumber, scale, visible]);
+
+  return (
+    <div
+      ref={element => {
+        containerRef.current = element;
+        onMount(pageNumber, element);
+      }}
+      className="relative mx-auto bg-white shadow"
+      style={{
+        width: size.width * scale,
+        height: size.height * scale,
+        marginBottom: PAGE_GAP,
+        '--total-scale-factor': scale,
+      } as React.CSSProperties}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      {matches.map((match, index) => (
+        <div
+          key={index}
+          className={`absolute pointer-events-none rounded-sm ${match === activeMatch ? 'bg-orange-400/60 ring-2 ring-orange-500' : 'bg-yellow-300/50'}`}
+          style={{
+            left: `${match.area.x * 100}%`,
+            top: `${match.area.y * 100}%`,
+            width: `${match.area.width * 100}%`,
+            height: `${match.area.height * 100}%`,
+          }}
+        />
+      ))}
+      <div ref={textLayerRef} className="textLayer" />
+    </div>
+  );
+}
+
+function OutlineItems({ nodes, onSelect }: { nodes: OutlineNode[]; onSelect: (pageIndex: number) => void }) {
+  return (
+    <ul className="space-y-1">
+      {nodes.map((node, index) => (
+        <li key={index}>
+          <button
+            onClick={() => node.pageIndex !== undefined && onSelect(node.pageIndex)}
+            disabled={node.pageIndex === undefined}
+            className="w-full text-left text-sm text-gray-700 hover:text-indigo-600 disabled:text-gray-400 truncate"
+            title={node.title}
+          >
+            {node.title}
+          </button>
+          {node.children.length > 0 && (
+            <div className="pl-3 mt-1">
+              <OutlineItems nodes={node.children} onSelect={onSelect} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Continuous-scroll PDF viewer with zoom, thumbnails, outline navigation,
+// text search and a selectable text layer
+export function PDFViewer({ file, className = 'h-[80vh]' }: PDFViewerProps) {
+  const [data, setData] = useState<ArrayBuffer | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [scale, setScale] = useState(1);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [sidebar, setSidebar] = useState<'thumbnails' | 'outline' | null>('thumbnails');
+  const [thumbnails, setThumbnails] = useState<PageThumbnail[]>([]);
+  const [outline, setOutline] = useState<OutlineNode[]>([]);
+  const [query, setQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<TextSearchOptions>({ regex: false, caseSensitive: false });
+  const [matches, setMatches] = useState<TextMatch[] | null>(null);
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [scrollElement, setScrollElement] = useState<HTMLDivElement | null>(null);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  // Scroll position as a fraction of the content, kept across zoom changes
+  const scrollRatio = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    setLoading(true);
+    setError(null);
+    setPdf(null);
+    setData(null);
+    setThumbnails([]);
+    setOutline([]);
+    setMatches(null);
+    setCurrentPage(1);
+
+    (async () => {
+      try {
+        const buffer = await file.arrayBuffer();
+        // pdf.js takes ownership of the buffer it's given
+        loaded = await pdfjsLib.getDocument({ data: buffer.slice(0), verbosity: 0 }).promise;
+        if (cancelled) return;
+
+        const sizes: PageSize[] = [];
+        for (let i = 1; i <= loaded.numPages; i++) {
+          const { width, height } = (await loaded.getPage(i)).getViewport({ scale: 1 });
+          sizes.push({ width, height });
+        }
+        if (cancelled) return;
+
+        setData(buffer);
+        setPdf(loaded);
+        setPageSizes(sizes);
+      } catch (err) {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        setError(`Error opening PDF: ${message}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  // Thumbnails and bookmarks load in the background once the document is open
+  useEffect(() => {
+    if (!data) return;
+    let cancelled = false;
+
+    renderPageThumbnails(data.slice(0), 120)
+      .then(rendered => !cancelled && setThumbnails(rendered))
+      .catch(console.error);
+    readOutline(data)
+      .then(nodes => !cancelled && setOutline(nodes))
+      .catch(console.error);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data]);
+
+  useEffect(() => {
+    setPageInput(String(currentPage));
+  }, [currentPage]);
+
+  useLayoutEffect(() => {
+    if (!scrollElement || scrollRatio.current === null) return;
+    scrollElement.scrollTop = scrollRatio.current * scrollElement.scrollHeight;
+    scrollRatio.current = null;
+  }, [scale, scrollElement]);
+
+  const registerPage = useCallback((pageNumber: number, element: HTMLDivElement | null) => {
+    pageRefs.current[pageNumber - 1] = element;
+  }, []);
+
+  const handleScroll = () => {
+    if (!scrollElement) return;
+    // The current page is the last one whose top is above a third of the way down
+    const threshold = scrollElement.scrollTop + scrollElement.clientHeight / 3;
+    let page = 1;
+    pageRefs.current.forEach((element, index) => {
+      if (element && element.offsetTop <= threshold) page = index + 1;
+    });
+    setCurrentPage(page);
+  };
+
+  const goToPage = useCallback((pageNumber: number) => {
+    const element = pageRefs.current[pageNumber - 1];
+    if (!scrollElement || !element) return;
+    scrollElement.scrollTop = element.offsetTop - PAGE_GAP;
+  }, [scrollElement]);
+
+  const changeScale = (next: number) => {
+    if (scrollElement) scrollRatio.current = scrollElement.scrollTop / scrollElement.scrollHeight;
+    setScale(Math.min(Math.max(next, ZOOM_LEVELS[0]), ZOOM_LEVELS[ZOOM_LEVELS.length - 1]));
+  };
+
+  const zoomIn = () => changeScale(ZOOM_LEVELS.find(level => level > scale + 0.01) ?? scale);
+  const zoomOut = () => changeScale([...ZOOM_LEVELS].reverse().find(level => level < scale - 0.01) ?? scale);
+
+  const fitWidth = () => {
+    if (!scrollElement || pageSizes.length === 0) return;
+    const widest = Math.max(...pageSizes.map(size => size.width));
+    changeScale((scrollElement.clientWidth - PAGE_GAP * 2) / widest);
+  };
+
+  // Centre the active search hit when it changes (the scroll area is only set once)
+  useEffect(() => {
+    const match = matches?.[activeMatch];
+    const element = match ? pageRefs.current[match.area.page] : null;
+    if (!match || !element || !scrollElement) return;
+    const top = element.offsetTop + (match.area.y + match.area.height / 2) * element.offsetHeight;
+    scrollElement.scrollTop = top - scrollElement.clientHeight / 2;
+  }, [matches, activeMatch, scrollElement]);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!data || !query.trim()) {
+      setMatches(null);
+      return;
+    }
+
+    setSearching(true);
+    setSearchError(null);
+    try {
+      setMatches(await findTextMatches(data.slice(0), query, searchOptions));
+      setActiveMatch(0);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setSearchError(`Search failed: ${message}`);
+      setMatches(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const stepMatch = (step: number) => {
+    if (!matches || matches.length === 0) return;
+    setActiveMatch(prev => (prev + step + matches.length) % matches.length);
+  };
+
+  const submitPageInput = (e: React.FormEvent) => {
+    e.preventDefault();
+    const page = Number(pageInput);
+    if (Number.isInteger(page) && page >= 1 && page <= pageSizes.length) goToPage(page);
+    else setPageInput(String(currentPage));
+  };
+
+  if (loading || error) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-100 rounded-lg ${className}`}>
+        {error ? (
+          <p className="text-red-700">{error}</p>
+        ) : (
+          <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+        )}
+      </div>
+    );
+  }
+
+  const current = matches?.[activeMatch] ?? null;
+
+  return (
+    <div className={`flex flex-col border border-gray-200 rounded-lg overflow-hidden ${className}`}>
+      <div className="flex flex-wrap items-center gap-2 p-2 bg-white border-b border-gray-200 text-sm">
+        <button
+          onClick={() => setSidebar(prev => (prev ? null : 'thumbnails'))}
+          className={`p-1.5 rounded hover:bg-gray-100 ${sidebar ? 'text-indigo-600' : 'text-gray-600'}`}
+          title="Toggle sidebar"
+        >
+          <PanelLeft className="w-4 h-4" />
+        </button>
+
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => goToPage(currentPage - 1)}
+            disabled={currentPage <= 1}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            title="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <form onSubmit={submitPageInput} className="flex items-center gap-1">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value)}
+              onBlur={() => setPageInput(String(currentPage))}
+              className="w-12 py-1 px-1 text-center rounded border-gray-300 text-sm"
+            />
+            <span className="text-gray-600">/ {pageSizes.length}</span>
+          </form>
+          <button
+            onClick={() => goToPage(currentPage + 1)}
+            disabled={currentPage >= pageSizes.length}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            title="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <button onClick={zoomOut} className="p-1.5 rounded text-gray-600 hover:bg-gray-100" title="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="w-12 text-center text-gray-600">{Math.round(scale * 100)}%</span>
+          <button onClick={zoomIn} className="p-1.5 rounded text-gray-600 hover:bg-gray-100" title="Zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={fitWidth} className="p-1.5 rounded text-gray-600 hover:bg-gray-100" title="Fit width">
+            <Maximize2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex items-center gap-1 ml-auto">
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search"
+              className="w-40 py-1 pl-7 pr-2 rounded border-gray-300 text-sm"
+            />
+          </div>
+          <label className="flex items-center text-xs text-gray-600" title="Match case">
+            <input
+              type="checkbox"
+              checked={searchOptions.caseSensitive}
+              onChange={(e) => setSearchOptions(prev => ({ ...prev, caseSensitive: e.target.checked }))}
+              className="mr-1 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Aa
+          </label>
+          <label className="flex items-center text-xs text-gray-600" title="Regular expression">
+            <input
+              type="checkbox"
+              checked={searchOptions.regex}
+              onChange={(e) => setSearchOptions(prev => ({ ...prev, regex: e.target.checked }))}
+              className="mr-1 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            .*
+          </label>
+          {searching && <Loader2 className="w-4 h-4 text-indigo-600 animate-spin" />}
+          {matches && !searching && (
+            <>
+              <span className="text-xs text-gray-600 whitespace-nowrap">
+                {matches.length === 0 ? 'No matches' : `${activeMatch + 1} of ${matches.length}`}
+              </span>
+              <button
+                type="button"
+                onClick={() => stepMatch(-1)}
+                disabled={matches.length === 0}
+                className="p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+                title="Previous match"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => stepMatch(1)}
+                disabled={matches.length === 0}
+                className="p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+                title="Next match"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </form>
+      </div>
+
+      {searchError && (
+        <div className="px-3 py-2 bg-red-50 border-b border-red-200 text-sm text-red-700">{searchError}</div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        {sidebar && (
+          <div className="w-44 flex-shrink-0 flex flex-col bg-gray-50 border-r border-gray-200">
+            <div className="flex border-b border-gray-200 text-xs">
+              <button
+                onClick={() => setSidebar('thumbnails')}
+                className={`flex-1 py-2 ${sidebar === 'thumbnails' ? 'text-indigo-600 font-medium' : 'text-gray-600'}`}
+              >
+                Pages
+              </button>
+              <button
+                onClick={() => setSidebar('outline')}
+                disabled={outline.length === 0}
+                className={`flex-1 py-2 disabled:text-gray-400 ${sidebar === 'outline' ? 'text-indigo-600 font-medium' : 'text-gray-600'}`}
+              >
+                Bookmarks
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-3">
+              {sidebar === 'outline' ? (
+                <OutlineItems nodes={outline} onSelect={pageIndex => goToPage(pageIndex + 1)} />
+              ) : thumbnails.length === 0 ? (
+                <Loader2 className="w-5 h-5 mx-auto text-indigo-600 animate-spin" />
+              ) : (
+                <div className="space-y-3">
+                  {thumbnails.map((thumbnail, index) => (
+                    <button key={index} onClick={() => goToPage(index + 1)} className="block w-full text-center">
+                      <img
+                        src={thumbnail.dataUrl}
+                        alt={`Page ${index + 1}`}
+                        className={`mx-auto border-2 ${currentPage === index + 1 ? 'border-indigo-500' : 'border-transparent'}`}
+                      />
+                      <span className="text-xs text-gray-600">{index + 1}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div
+          ref={setScrollElement}
+          onScroll={handleScroll}
+          className="relative flex-1 overflow-auto bg-gray-100"
+          style={{ padding: PAGE_GAP }}
+        >
+          {pdf && pageSizes.map((size, index) => (
+            <PageView
+              key={index}
+              pdf={pdf}
+              pageNumber={index + 1}
+              size={size}
+              scale={scale}
+              root={scrollElement}
+              matches={matches?.filter(match => match.area.page === index) ?? []}
+              activeMatch={current}
+              onMount={registerPage}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import React, { useCallback } from 'react';
+import { RotateCcw, RotateCw, Copy, Trash2, FilePlus, GripVertical } from 'lucide-react';
+import {
+  DndContext,
+  rectIntersection,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  rectSortingStrategy
+} from '@dnd-kit/sortable';
+
+export interface OrganizerPage {
+  id: string;
+  // Index into the source PDF, or null for an inserted blank page
+  sourceIndex: number | null;
+  // Extra clockwise rotation applied on top of the page's own /Rotate
+  rotation: number;
+  thumbnail: string | null;
+  width: number;
+  height: number;
+}
+
+interface PageOrganizerProps {
+  pages: OrganizerPage[];
+  onChange: (pages: OrganizerPage[]) => void;
+}
+
+interface SortablePageProps {
+  page: OrganizerPage;
+  index: number;
+  onRotate: (id: string, delta: number) => void;
+  onDuplicate: (id: string) => void;
+  onInsertBlank: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const createOrganizerPageId = () =>
+  `page-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+function SortablePage({ page, index, onRotate, onDuplicate, onInsertBlank, onRemove }: SortablePageProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging
+  } = useSortable({ id: page.id });
+
+  const style = {
+    transform: transform ? `translate3d(${transform.x}px, ${transform.y}px, 0)` : undefined,
+    transition,
+    zIndex: isDragging ? 10 : 0,
+    opacity: isDragging ? 0.7 : 1,
+  };
+
+  const handleAction = (action: () => void) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      className="relative bg-white rounded-lg shadow-md p-2 flex flex-col"
+      style={style}
+      {...attributes}
+    >
+      <div className="relative aspect-[3/4] bg-gray-50 rounded flex items-center justify-center overflow-hidden">
+        {page.thumbnail ? (
+          <img
+            src={page.thumbnail}
+            alt={`Page ${index + 1}`}
+            className="max-w-full max-h-full object-contain shadow transition-transform"
+            style={{ transform: `rotate(${page.rotation}deg)` }}
+            draggable={false}
+          />
+        ) : (
+          <div
+            className="bg-white border border-gray-300 shadow-sm flex items-center justify-center text-xs text-gray-400 transition-transform"
+            style={{
+              width: page.width >= page.height ? '80%' : `${80 * page.width / page.height}%`,
+              aspectRatio: `${page.width} / ${page.height}`,
+              transform: `rotate(${page.rotation}deg)`
+            }}
+          >
+            Blank
+          </div>
+        )}
+        <button
+          className="absolute left-1 top-1 bg-white rounded-full p-2 cursor-move z-20 pointer-events-auto hover:bg-gray-300 transition-colors touch-none"
+          {...listeners}
+          aria-label={`Drag to reorder page ${index + 1}`}
+        >
+          <GripVertical className="w-4 h-4 text-indigo-700" />
+        </button>
+      </div>
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs font-medium text-gray-600">{index + 1}</span>
+        <div className="flex gap-1" onPointerDown={(e) => e.stopPropagation()}>
+          <button
+            type="button"
+            onClick={handleAction(() => onRotate(page.id, -90))}
+            className="p-1 rounded hover:bg-gray-100 text-gray-600"
+            title="Rotate left"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={handleAction(() => onRotate(page.id, 90))}
+            className="p-1 rounded hover:bg-gray-100 text-gray-600"
+            title="Rotate right"
+          >
+            <RotateCw className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={handleAction(() => onDuplicate(page.id))}
+            className="p-1 rounded hover:bg-gray-100 text-gray-600"
+            title="Duplicate page"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={handleAction(() => onInsertBlank(page.id))}
+            className="p-1 rounded hover:bg-gray-100 text-gray-600"
+            title="Insert blank page after"
+          >
+            <FilePlus className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={handleAction(() => onRemove(page.id))}
+            className="p-1 rounded hover:bg-red-50 text-red-600"
+            title="Delete page"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function PageOrganizer({ pages, onChange }: PageOrganizerProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 0,
+        tolerance: 10,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = useCallback((event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const oldIndex = pages.findIndex(page => page.id === active.id);
+    const newIndex = pages.findIndex(page => page.id === over.id);
+    onChange(arrayMove(pages, oldIndex, newIndex));
+  }, [pages, onChange]);
+
+  const handleRotate = (id: string, delta: number) => {
+    onChange(pages.map(page =>
+      page.id === id ? { ...page, rotation: (page.rotation + delta + 360) % 360 } : page
+    ));
+  };
+
+  const handleRotateAll = (delta: number) => {
+    onChange(pages.map(page => ({ ...page, rotation: (page.rotation + delta + 360) % 360 })));
+  };
+
+  const handleDuplicate = (id: string) => {
+    const index = pages.findIndex(page => page.id === id);
+    if (index === -1) return;
+    const copy = { ...pages[index], id: createOrganizerPageId() };
+    onChange([...pages.slice(0, index + 1), copy, ...pages.slice(index + 1)]);
+  };
+
+  const handleInsertBlank = (id: string) => {
+    const index = pages.findIndex(page => page.id === id);
+    if (index === -1) return;
+    const reference = pages[index];
+    // Match the neighbouring page as it is shown, including any rotation added here
+    const turned = reference.rotation % 180 !== 0;
+    const blank: OrganizerPage = {
+      id: createOrganizerPageId(),
+      sourceIndex: null,
+      rotation: 0,
+      thumbnail: null,
+      width: turned ? reference.height : reference.width,
+      height: turned ? reference.width : reference.height,
+    };
+    onChange([...pages.slice(0, index + 1), blank, ...pages.slice(index + 1)]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(pages.filter(page => page.id !== id));
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">
+          Pages ({pages.length})
+        </h3>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => handleRotateAll(-90)}
+            className="flex items-center px-3 py-1.5 rounded-lg text-sm bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Rotate all left
+          </button>
+          <button
+            type="button"
+            onClick={() => handleRotateAll(90)}
+            className="flex items-center px-3 py-1.5 rounded-lg text-sm bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            <RotateCw className="w-4 h-4 mr-1" />
+            Rotate all right
+          </button>
+        </div>
+      </div>
+      <DndContext
+        sensors={sensors}
+        collisionDetection={rectIntersection}
+        onDragEnd={handleDragEnd}
+      >
+        <SortableContext
+          items={pages.map(page => page.id)}
+          strategy={rectSortingStrategy}
+        >
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {pages.map((page, idx) => (
+              <SortablePage
+                key={page.id}
+                page={page}
+                index={idx}
+                onRotate={handleRotate}
+                onDuplicate={handleDuplicate}
+                onInsertBlank={handleInsertBlank}
+                onRemove={handleRemove}
+              />
+            ))}
+          </div>
+        </SortableContext>
+      </DndContext>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { renderPagePreview, type PagePreview } from '../utils/pdfRender';
+import { createRedactionAreaId, type RedactionArea } from '../utils/redaction';
+
+interface RedactionEditorProps {
+  file: File;
+  areas: RedactionArea[];
+  onChange: (areas: RedactionArea[]) => void;
+}
+
+interface DragState {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+// Boxes smaller than this fraction of the page are treated as stray clicks
+const MIN_AREA_SIZE = 0.005;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const toRect = (drag: DragState) => ({
+  x: Math.min(drag.startX, drag.x),
+  y: Math.min(drag.startY, drag.y),
+  width: Math.abs(drag.x - drag.startX),
+  height: Math.abs(drag.y - drag.startY),
+});
+
+export function RedactionEditor({ file, areas, onChange }: RedactionEditorProps) {
+  const [pageNumber, setPageNumber] = useState(1);
+  const [preview, setPreview] = useState<PagePreview | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const rendered = await renderPagePreview(await file.arrayBuffer(), pageNumber, 600);
+        if (!cancelled) setPreview(rendered);
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, pageNumber]);
+
+  // Pointer position as fractions of the overlay
+  const getPoint = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.target !== overlayRef.current) return;
+    const { x, y } = getPoint(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ startX: x, startY: y, x, y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { x, y } = getPoint(e);
+    setDrag({ ...drag, x, y });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag || !preview) return;
+    const rect = toRect(drag);
+    setDrag(null);
+    if (rect.width < MIN_AREA_SIZE || rect.height < MIN_AREA_SIZE) return;
+
+    onChange([...areas, {
+      id: createRedactionAreaId(),
+      page: preview.pageNumber - 1,
+      ...rect,
+    }]);
+  };
+
+  const pageAreas = preview ? areas.filter(area => area.page === preview.pageNumber - 1) : [];
+  const dragRect = drag && toRect(drag);
+
+  if (!preview) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg text-gray-400">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <p className="text-sm text-gray-600 mb-2">
+        Drag to mark an area for redaction. Click a marked area to remove it.
+      </p>
+      <div className="relative mx-auto w-fit select-none touch-none">
+        <img
+          src={preview.dataUrl}
+          alt={`Page ${preview.pageNumber}`}
+          className="block max-w-full border border-gray-200 shadow-sm"
+          draggable={false}
+        />
+        <div
+          ref={overlayRef}
+          className="absolute inset-0 cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
+          {pageAreas.map(area => (
+            <button
+              key={area.id}
+              onClick={() => onChange(areas.filter(a => a.id !== area.id))}
+              className="absolute bg-black/80 hover:bg-red-600/70 cursor-pointer"
+              style={{
+                left: `${area.x * 100}%`,
+                top: `${area.y * 100}%`,
+                width: `${area.width * 100}%`,
+                height: `${area.height * 100}%`,
+              }}
+              title="Remove this redaction"
+            />
+          ))}
+          {dragRect && (
+            <div
+              className="absolute border-2 border-red-500 bg-black/40 pointer-events-none"
+              style={{
+                left: `${dragRect.x * 100}%`,
+                top: `${dragRect.y * 100}%`,
+                width: `${dragRect.width * 100}%`,
+                height: `${dragRect.height * 100}%`,
+              }}
+            />
+          )}
+        </div>
+      </div>
+      <div className="flex items-center justify-center gap-4 mt-3 text-sm text-gray-600">
+        <button
+          onClick={() => setPageNumber(preview.pageNumber - 1)}
+          disabled={preview.pageNumber <= 1}
+          className="p-1 rounded hover:bg-gray-200 disabled:opacity-50"
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span>
+          Page {preview.pageNumber} of {preview.pageCount}
+          {pageAreas.length > 0 && ` · ${pageAreas.length} marked`}
+        </span>
+        <button
+          onClick={() => setPageNumber(preview.pageNumber + 1)}
+          disabled={preview.pageNumber >= preview.pageCount}
+          className="p-1 rounded hover:bg-gray-200 disabled:opacity-50"
+          aria-label="Next page"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
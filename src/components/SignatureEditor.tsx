@@ -0,0 +1,401 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { renderPagePreview, type PagePreview } from '../utils/pdfRender';
+import { createSignaturePlacementId, type SignaturePlacement } from '../utils/pdfSignature';
+
+// A signature as a trimmed PNG, with its pixel size for keeping the aspect ratio
+export interface SignatureImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+type SignatureMode = 'draw' | 'type' | 'upload';
+
+interface SignatureEditorProps {
+  file: File;
+  image: SignatureImage | null;
+  onImageChange: (image: SignatureImage | null) => void;
+  placements: SignaturePlacement[];
+  onChange: (placements: SignaturePlacement[]) => void;
+}
+
+const inputClassName =
+  'block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+// CSS font shorthands for typed signatures
+const SIGNATURE_FONTS = [
+  { label: 'Brush Script', value: '96px "Brush Script MT", "Segoe Script", cursive' },
+  { label: 'Handwriting', value: '96px "Lucida Handwriting", "Comic Sans MS", cursive' },
+  { label: 'Italic serif', value: 'italic 96px Georgia, "Times New Roman", serif' },
+];
+
+const INK_COLORS = [
+  { label: 'Black', value: '#111827' },
+  { label: 'Blue', value: '#1e3a8a' },
+];
+
+// Drawing canvas size in CSS pixels; it is rendered at twice that
+const PAD_WIDTH = 500;
+const PAD_HEIGHT = 160;
+
+// Crop a canvas to its non-transparent pixels
+const trimCanvas = (canvas: HTMLCanvasElement): SignatureImage | null => {
+  const ctx = canvas.getContext('2d')!;
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+    }
+  }
+  if (right < 0) return null;
+
+  const trimmed = document.createElement('canvas');
+  trimmed.width = right - left + 1;
+  trimmed.height = bottom - top + 1;
+  trimmed.getContext('2d')!.drawImage(canvas, left, top, trimmed.width, trimmed.height, 0, 0, trimmed.width, trimmed.height);
+  return { dataUrl: trimmed.toDataURL('image/png'), width: trimmed.width, height: trimmed.height };
+};
+
+const renderTypedSignature = (text: string, font: string, color: string) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + 48;
+  canvas.height = 160;
+  // Resizing the canvas resets its state
+  ctx.font = font;
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, 24, 80);
+  return trimCanvas(canvas);
+};
+
+const loadUploadedSignature = (upload: File) => new Promise<SignatureImage>((resolve, reject) => {
+  const url = URL.createObjectURL(upload);
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')!.drawImage(img, 0, 0);
+    URL.revokeObjectURL(url);
+    resolve({ dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height });
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('The image could not be read'));
+  };
+  img.src = url;
+});
+
+export function SignatureEditor({ file, image, onImageChange, placements, onChange }: SignatureEditorProps) {
+  const [mode, setMode] = useState<SignatureMode>('draw');
+  const [color, setColor] = useState(INK_COLORS[0].value);
+  const [typedName, setTypedName] = useState('');
+  const [typedFont, setTypedFont] = useState(SIGNATURE_FONTS[0].value);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Width of placed signatures as a fraction of the page width
+  const [size, setSize] = useState(0.25);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [preview, setPreview] = useState<PagePreview | null>(null);
+  const padRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const rendered = await renderPagePreview(await file.arrayBuffer(), pageNumber, 600);
+        if (!cancelled) setPreview(rendered);
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, pageNumber]);
+
+  useEffect(() => {
+    if (mode !== 'type') return;
+    onImageChange(typedName.trim() ? renderTypedSignature(typedName.trim(), typedFont, color) : null);
+  }, [mode, typedName, typedFont, color, onImageChange]);
+
+  const getPadPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width),
+      y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height),
+    };
+  };
+
+  const handlePadDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = getPadPoint(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    // A dot for taps that never move
+    ctx.lineTo(x + 0.1, y);
+    ctx.stroke();
+  };
+
+  const handlePadMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = getPadPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePadUp = () => {
+    if (!drawingRef.current || !padRef.current) return;
+    drawingRef.current = false;
+    onImageChange(trimCanvas(padRef.current));
+  };
+
+  const clearPad = () => {
+    const canvas = padRef.current;
+    canvas?.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onImageChange(null);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = e.target.files?.[0];
+    e.target.value = '';
+    if (!upload) return;
+    if (!['image/png', 'image/jpeg'].includes(upload.type)) {
+      setUploadError('Please choose a PNG or JPEG image');
+      return;
+    }
+    try {
+      setUploadError(null);
+      onImageChange(await loadUploadedSignature(upload));
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const switchMode = (next: SignatureMode) => {
+    setMode(next);
+    setUploadError(null);
+    onImageChange(null);
+  };
+
+  // Height of a signature of the given width, both as fractions of the page
+  const getHeight = (width: number) => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    return rect && image ? width * (rect.width / rect.height) * (image.height / image.width) : 0;
+  };
+
+  const handlePlace = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!image || !preview || e.target !== overlayRef.current) return;
+    const rect = overlayRef.current.getBoundingClientRect();
+    const height = getHeight(size);
+    // Center the signature on the click, kept within the page
+    const x = Math.min(Math.max((e.clientX - rect.left) / rect.width - size / 2, 0), 1 - size);
+    const y = Math.min(Math.max((e.clientY - rect.top) / rect.height - height / 2, 0), Math.max(1 - height, 0));
+    onChange([...placements, { id: createSignaturePlacementId(), page: preview.pageNumber - 1, x, y, width: size }]);
+  };
+
+  const handleSizeChange = (value: number) => {
+    setSize(value);
+    // Resize placed signatures around their centers
+    onChange(placements.map(placement => ({
+      ...placement,
+      width: value,
+      x: Math.min(Math.max(placement.x + (placement.width - value) / 2, 0), 1 - value),
+      y: Math.max(placement.y + (getHeight(placement.width) - getHeight(value)) / 2, 0),
+    })));
+  };
+
+  const pagePlacements = preview ? placements.filter(placement => placement.page === preview.pageNumber - 1) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+        <div className="flex gap-2">
+          {(['draw', 'type', 'upload'] as SignatureMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => switchMode(option)}
+              className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium ${
+                mode === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'draw' ? 'Draw' : option === 'type' ? 'Type' : 'Upload image'}
+            </button>
+          ))}
+        </div>
+
+        {mode !== 'upload' && (
+          <div className="flex items-center gap-3 text-sm text-gray-700">
+            <span>Ink</span>
+            {INK_COLORS.map(ink => (
+              <label key={ink.value} className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="signature-ink"
+                  checked={color === ink.value}
+                  onChange={() => setColor(ink.value)}
+                  className="text-indigo-600 focus:ring-indigo-500"
+                />
+                {ink.label}
+              </label>
+            ))}
+          </div>
+        )}
+
+        {mode === 'draw' && (
+          <div>
+            <canvas
+              ref={padRef}
+              width={PAD_WIDTH * 2}
+              height={PAD_HEIGHT * 2}
+              className="w-full max-w-[500px] aspect-[25/8] bg-white border border-dashed border-gray-300 rounded-lg cursor-crosshair touch-none"
+              onPointerDown={handlePadDown}
+              onPointerMove={handlePadMove}
+              onPointerUp={handlePadUp}
+              onPointerCancel={handlePadUp}
+            />
+            <div className="flex justify-between items-center mt-1 max-w-[500px]">
+              <p className="text-xs text-gray-500">Sign with your mouse, finger or stylus.</p>
+              <button onClick={clearPad} className="text-sm text-indigo-600 hover:text-indigo-800">
+                Clear
+              </button>
+            </div>
+          </div>
+        )}
+
+        {mode === 'type' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={typedName}
+              onChange={(e) => setTypedName(e.target.value)}
+              placeholder="Your name"
+              className={inputClassName}
+            />
+            <select value={typedFont} onChange={(e) => setTypedFont(e.target.value)} className={inputClassName}>
+              {SIGNATURE_FONTS.map(font => (
+                <option key={font.label} value={font.value}>{font.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {mode === 'upload' && (
+          <div>
+            <input
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={handleUpload}
+              className="block w-full text-sm text-gray-600 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+            />
+            <p className="text-xs text-gray-500 mt-1">A PNG with a transparent background looks best.</p>
+            {uploadError && <p className="text-sm text-red-600 mt-1">{uploadError}</p>}
+          </div>
+        )}
+
+        {image && (
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-600">Signature:</span>
+            <img src={image.dataUrl} alt="Signature" className="h-12 max-w-[200px] object-contain bg-white border border-gray-200 rounded p-1" />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Signature width ({Math.round(size * 100)}% of the page)
+        </label>
+        <input
+          type="range"
+          min={0.05}
+          max={0.6}
+          step={0.01}
+          value={size}
+          onChange={(e) => handleSizeChange(Number(e.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      {!preview ? (
+        <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg text-gray-400">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <p className="text-sm text-gray-600 mb-2">
+            {image ? 'Click the page to place your signature. Click a placed signature to remove it.'
+              : 'Create a signature above, then click the page to place it.'}
+          </p>
+          <div className="relative mx-auto w-fit select-none">
+            <img
+              src={preview.dataUrl}
+              alt={`Page ${preview.pageNumber}`}
+              className="block max-w-full border border-gray-200 shadow-sm"
+              draggable={false}
+            />
+            <div
+              ref={overlayRef}
+              className={`absolute inset-0 ${image ? 'cursor-copy' : ''}`}
+              onClick={handlePlace}
+            >
+              {image && pagePlacements.map(placement => (
+                <button
+                  key={placement.id}
+                  onClick={() => onChange(placements.filter(p => p.id !== placement.id))}
+                  className="absolute outline outline-1 outline-indigo-400 hover:outline-red-500 hover:bg-red-500/10"
+                  style={{
+                    left: `${placement.x * 100}%`,
+                    top: `${placement.y * 100}%`,
+                    width: `${placement.width * 100}%`,
+                  }}
+                  title="Remove this signature"
+                >
+                  <img src={image.dataUrl} alt="" className="block w-full h-auto" draggable={false} />
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-center gap-4 mt-3 text-sm text-gray-600">
+            <button
+              onClick={() => setPageNumber(preview.pageNumber - 1)}
+              disabled={preview.pageNumber <= 1}
+              className="p-1 rounded hover:bg-gray-200 disabled:opacity-50"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span>
+              Page {preview.pageNumber} of {preview.pageCount}
+              {pagePlacements.length > 0 && ` · ${pagePlacements.length} placed`}
+            </span>
+            <button
+              onClick={() => setPageNumber(preview.pageNumber + 1)}
+              disabled={preview.pageNumber >= preview.pageCount}
+              className="p-1 rounded hover:bg-gray-200 disabled:opacity-50"
+              aria-label="Next page"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { useLocation } from 'react-router-dom';
+import { FileText, Upload } from 'lucide-react';
+import { SEOHeaders } from './SEOHeaders';
+import { PDFViewer } from './PDFViewer';
+import { ALLOWED_PDF_TYPES, validateFile } from '../utils/security';
+
+// PDFTools passes its result through router state when opening it here
+export interface ViewerLocationState {
+  file: Blob;
+  name: string;
+}
+
+export function ViewerPage() {
+  const location = useLocation();
+  const initial = location.state as ViewerLocationState | null;
+  const [file, setFile] = useState<Blob | null>(initial?.file ?? null);
+  const [name, setName] = useState(initial?.name ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    const [dropped] = acceptedFiles;
+    if (!dropped) return;
+
+    const validation = validateFile(dropped, ALLOWED_PDF_TYPES);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid file type');
+      return;
+    }
+    setError(null);
+    setFile(dropped);
+    setName(dropped.name);
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
+    onDrop,
+    accept: { 'application/pdf': ['.pdf'] },
+    multiple: false,
+    noClick: file !== null,
+    noKeyboard: file !== null,
+  });
+
+  return (
+    <>
+      <SEOHeaders
+        title="Free Online PDF Viewer - Search, Zoom and Browse PDFs"
+        description="View PDF files in your browser with text search, zoom, page thumbnails and bookmarks. Files never leave your device."
+        keywords={[
+          'pdf viewer online',
+          'view pdf in browser',
+          'search text in pdf',
+          'pdf reader free'
+        ]}
+      />
+      <div className="max-w-6xl mx-auto px-4 py-6 sm:py-8" {...(file ? getRootProps() : {})}>
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-6 sm:mb-8 text-center">
+          PDF Viewer
+        </h1>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {file ? (
+          <div className="bg-white rounded-xl shadow-lg p-4 sm:p-6">
+            <input {...getInputProps()} />
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center min-w-0">
+                <FileText className="w-5 h-5 text-indigo-600 mr-2 flex-shrink-0" />
+                <span className="text-sm text-gray-700 truncate">{name || 'Document'}</span>
+              </div>
+              <button
+                onClick={open}
+                className="text-sm text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+              >
+                Open another file
+              </button>
+            </div>
+            <PDFViewer file={file} className="h-[80vh]" />
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-lg p-4 sm:p-6">
+            <div
+              {...getRootProps()}
+              className={`border-2 border-dashed rounded-lg p-6 sm:p-8 text-center cursor-pointer transition-colors
+                ${isDragActive ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400'}`}
+            >
+              <input {...getInputProps()} />
+              <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">
+                {isDragActive ? 'Drop the file here' : 'Drag & drop a PDF here, or tap to select'}
+              </p>
+              <p className="text-sm text-gray-500 mt-2">Supports PDF files</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,210 @@
+import { concatBytes } from './pdfCrypto';
+
+// Just enough ASN.1 to read and write certificates, PKCS#12 files and CMS
+// signatures. Reading accepts BER (indefinite lengths, constructed strings),
+// which some .pfx exporters still produce; writing always produces DER.
+
+export const ASN1_TAGS = {
+  boolean: 0x01,
+  integer: 0x02,
+  bitString: 0x03,
+  octetString: 0x04,
+  null: 0x05,
+  oid: 0x06,
+  utf8String: 0x0c,
+  printableString: 0x13,
+  t61String: 0x14,
+  ia5String: 0x16,
+  utcTime: 0x17,
+  generalizedTime: 0x18,
+  bmpString: 0x1e,
+  sequence: 0x30,
+  set: 0x31,
+} as const;
+
+export interface Asn1Node {
+  // The identifier octet; high tag numbers are not supported
+  tag: number;
+  constructed: boolean;
+  // The whole element, header included
+  raw: Uint8Array;
+  contents: Uint8Array;
+  children: Asn1Node[];
+}
+
+const readNode = (bytes: Uint8Array, offset: number): { node: Asn1Node; end: number } => {
+  if (offset + 2 > bytes.length) throw new Error('Truncated ASN.1 data');
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) throw new Error('Unsupported ASN.1 tag');
+  const constructed = (tag & 0x20) !== 0;
+
+  let position = offset + 1;
+  let length = bytes[position++];
+  let indefinite = false;
+  if (length === 0x80) {
+    indefinite = true;
+  } else if (length > 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes > 4) throw new Error('ASN.1 element too long');
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) length = length * 256 + bytes[position++];
+  }
+
+  const children: Asn1Node[] = [];
+  let end: number;
+  if (indefinite) {
+    if (!constructed) throw new Error('Indefinite length on a primitive ASN.1 element');
+    let childOffset = position;
+    while (bytes[childOffset] !== 0 || bytes[childOffset + 1] !== 0) {
+      const child = readNode(bytes, childOffset);
+      children.push(child.node);
+      childOffset = child.end;
+    }
+    end = childOffset + 2;
+    return {
+      node: { tag, constructed, raw: bytes.subarray(offset, end), contents: bytes.subarray(position, childOffset), children },
+      end,
+    };
+  }
+
+  end = position + length;
+  if (end > bytes.length) throw new Error('Truncated ASN.1 data');
+  if (constructed) {
+    for (let childOffset = position; childOffset < end;) {
+      const child = readNode(bytes, childOffset);
+      children.push(child.node);
+      childOffset = child.end;
+    }
+  }
+  return { node: { tag, constructed, raw: bytes.subarray(offset, end), contents: bytes.subarray(position, end), children }, end };
+};
+
+// Parse the first element; anything after it (such as the zero padding in a
+// PDF signature's Contents) is ignored
+export function parseAsn1(bytes: Uint8Array): Asn1Node {
+  return readNode(bytes, 0).node;
+}
+
+// Context-specific tags: [n] constructed (explicit, or implicit SET/SEQUENCE)
+// and [n] primitive (implicit OCTET STRING and the like)
+export const contextTag = (n: number, constructed = true) => 0x80 | (constructed ? 0x20 : 0) | n;
+
+export const findChild = (node: Asn1Node, tag: number) => node.children.find(child => child.tag === tag);
+
+export function readOid(node: Asn1Node): string {
+  const values: number[] = [];
+  let value = 0;
+  for (const byte of node.contents) {
+    value = value * 128 + (byte & 0x7f);
+    if (byte & 0x80) continue;
+    if (values.length === 0) {
+      const first = value < 80 ? Math.floor(value / 40) : 2;
+      values.push(first, value - first * 40);
+    } else {
+      values.push(value);
+    }
+    value = 0;
+  }
+  return values.join('.');
+}
+
+export function readNumber(node: Asn1Node): number {
+  return node.contents.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+// OCTET and BIT STRING contents, joining the segments of constructed ones.
+// The unused-bits octet of a BIT STRING is dropped.
+export function readBytes(node: Asn1Node): Uint8Array {
+  if (node.constructed) return concatBytes(...node.children.map(readBytes));
+  return node.tag === ASN1_TAGS.bitString ? node.contents.subarray(1) : node.contents;
+}
+
+export function readString(node: Asn1Node): string {
+  if (node.tag === ASN1_TAGS.bmpString) {
+    let text = '';
+    for (let i = 0; i + 1 < node.contents.length; i += 2) text += String.fromCharCode((node.contents[i] << 8) | node.contents[i + 1]);
+    return text;
+  }
+  return new TextDecoder(node.tag === ASN1_TAGS.utf8String ? 'utf-8' : 'latin1').decode(node.contents);
+}
+
+export function readTime(node: Asn1Node): Date {
+  const text = new TextDecoder('latin1').decode(node.contents);
+  const match = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/.exec(text);
+  if (!match) throw new Error(`Unsupported time format: ${text}`);
+  let year = Number(match[1]);
+  // UTCTime has two-digit years: 50-99 are 19xx, 00-49 are 20xx
+  if (match[1].length === 2) year += year < 50 ? 2000 : 1900;
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] ?? 0)));
+}
+
+// Encoding
+
+const encodeLength = (length: number) => {
+  if (length < 0x80) return Uint8Array.of(length);
+  const bytes: number[] = [];
+  for (let value = length; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+};
+
+export const encodeTlv = (tag: number, contents: Uint8Array) => concatBytes(Uint8Array.of(tag), encodeLength(contents.length), contents);
+
+export const encodeSequence = (...children: Uint8Array[]) => encodeTlv(ASN1_TAGS.sequence, concatBytes(...children));
+
+// DER orders the members of a SET OF by their encodings
+const compareBytes = (a: Uint8Array, b: Uint8Array) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+export const encodeSet = (...children: Uint8Array[]) => encodeTlv(ASN1_TAGS.set, concatBytes(...[...children].sort(compareBytes)));
+
+export const encodeExplicit = (n: number, child: Uint8Array) => encodeTlv(contextTag(n), child);
+
+export const encodeNull = () => Uint8Array.of(ASN1_TAGS.null, 0);
+
+export const encodeOctetString = (bytes: Uint8Array) => encodeTlv(ASN1_TAGS.octetString, bytes);
+
+export const encodeUtf8String = (text: string) => encodeTlv(ASN1_TAGS.utf8String, new TextEncoder().encode(text));
+
+// Unsigned big-endian integer bytes, or a small non-negative number
+export function encodeInteger(value: number | Uint8Array): Uint8Array {
+  let bytes: Uint8Array;
+  if (typeof value === 'number') {
+    const digits: number[] = [];
+    for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) digits.unshift(rest & 0xff);
+    bytes = Uint8Array.from(digits.length > 0 ? digits : [0]);
+  } else {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) start++;
+    bytes = value.subarray(start);
+  }
+  // A leading 1 bit would make the value negative
+  return encodeTlv(ASN1_TAGS.integer, bytes[0] & 0x80 ? concatBytes(Uint8Array.of(0), bytes) : bytes);
+}
+
+export function encodeOid(oid: string): Uint8Array {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+  const bytes: number[] = [];
+  for (const value of [first * 40 + second, ...rest]) {
+    const chunk = [value & 0x7f];
+    for (let remaining = Math.floor(value / 128); remaining > 0; remaining = Math.floor(remaining / 128)) {
+      chunk.unshift((remaining & 0x7f) | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+  return encodeTlv(ASN1_TAGS.oid, Uint8Array.from(bytes));
+}
+
+export function encodeUtcTime(date: Date): Uint8Array {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const text = `${pad(date.getUTCFullYear() % 100)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  return encodeTlv(ASN1_TAGS.utcTime, new TextEncoder().encode(text));
+}
+
+// AlgorithmIdentifier with NULL parameters unless others are given
+export const encodeAlgorithm = (oid: string, parameters: Uint8Array | null = encodeNull()) => (
+  parameters ? encodeSequence(encodeOid(oid), parameters) : encodeSequence(encodeOid(oid))
+);
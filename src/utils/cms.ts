@@ -0,0 +1,168 @@
+import { concatBytes, sha } from './pdfCrypto';
+import {
+  ASN1_TAGS, contextTag, encodeAlgorithm, encodeInteger, encodeOctetString, encodeOid, encodeSequence, encodeSet,
+  encodeTlv, encodeUtcTime, findChild, parseAsn1, readBytes, readOid, readTime, type Asn1Node,
+} from './asn1';
+import {
+  ecdsaDerToRaw, getHashName, getVerifyAlgorithm, isSameIssuerAndSerial, OIDS, parseCertificate,
+  type Certificate, type HashName,
+} from './x509';
+import type { SigningIdentity } from './pkcs12';
+
+// Detached CMS (PKCS#7) SignedData as PDF signatures use it: the signed bytes
+// are not embedded, only their digest in the signed attributes.
+
+const CMS_OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+};
+
+const encodeAttribute = (oid: string, value: Uint8Array) => encodeSequence(encodeOid(oid), encodeSet(value));
+
+// WebCrypto's ECDSA signatures are r and s concatenated; CMS wants a SEQUENCE
+const ecdsaRawToDer = (signature: Uint8Array) => {
+  const half = signature.length / 2;
+  return encodeSequence(encodeInteger(signature.subarray(0, half)), encodeInteger(signature.subarray(half)));
+};
+
+// Sign the given bytes with SHA-256 and return the DER-encoded ContentInfo
+export async function createDetachedSignature(content: Uint8Array, identity: SigningIdentity, signingTime = new Date()): Promise<Uint8Array> {
+  const { certificate, chain, privateKey } = identity;
+  const digest = await sha('SHA-256', content);
+  const digestAlgorithm = encodeAlgorithm(OIDS.sha256);
+
+  const signedAttributes = encodeSet(
+    encodeAttribute(CMS_OIDS.contentType, encodeOid(CMS_OIDS.data)),
+    encodeAttribute(CMS_OIDS.signingTime, encodeUtcTime(signingTime)),
+    encodeAttribute(CMS_OIDS.messageDigest, encodeOctetString(digest)),
+  );
+
+  // The attributes are signed as a SET but stored as [0] IMPLICIT
+  const ecdsa = certificate.keyType === 'EC';
+  const signature = new Uint8Array(await crypto.subtle.sign(
+    ecdsa ? { name: 'ECDSA', hash: 'SHA-256' } : { name: 'RSASSA-PKCS1-v1_5' },
+    privateKey,
+    signedAttributes
+  ));
+
+  const signerInfo = encodeSequence(
+    encodeInteger(1),
+    encodeSequence(certificate.issuerRaw, certificate.serialRaw),
+    digestAlgorithm,
+    concatBytes(Uint8Array.of(contextTag(0)), signedAttributes.subarray(1)),
+    ecdsa ? encodeAlgorithm(OIDS.ecdsaWithSha256, null) : encodeAlgorithm(OIDS.sha256WithRsa),
+    encodeOctetString(ecdsa ? ecdsaRawToDer(signature) : signature),
+  );
+
+  const signedData = encodeSequence(
+    encodeInteger(1),
+    encodeSet(digestAlgorithm),
+    encodeSequence(encodeOid(CMS_OIDS.data)),
+    encodeTlv(contextTag(0), concatBytes(certificate.raw, ...chain.map(({ raw }) => raw))),
+    encodeSet(signerInfo),
+  );
+
+  return encodeSequence(encodeOid(CMS_OIDS.signedData), encodeTlv(contextTag(0), signedData));
+}
+
+export type SignatureCheck = 'valid' | 'modified' | 'invalid' | 'unsupported';
+
+export interface SignatureVerification {
+  status: SignatureCheck;
+  message: string;
+  signer?: Certificate;
+  // From the signed attributes, when present
+  signingTime?: Date;
+  // Content carried inside the signature, as the adbe.pkcs7.sha1 format does
+  encapsulatedContent?: Uint8Array;
+}
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const getAttribute = (attributes: Asn1Node | undefined, oid: string) => (
+  attributes?.children.find(attribute => readOid(attribute.children[0]) === oid)?.children[1].children[0]
+);
+
+const parseCertificates = (certificates: Asn1Node | undefined) => (certificates?.children ?? []).flatMap(node => {
+  try {
+    return node.tag === ASN1_TAGS.sequence ? [parseCertificate(node.raw)] : [];
+  } catch {
+    return [];
+  }
+});
+
+// Check a signature made over `content`, or over the content it carries when
+// it is not detached. Only the first signer is checked; certificates are not
+// checked against any trust store.
+export async function verifySignedData(der: Uint8Array, content: Uint8Array): Promise<SignatureVerification> {
+  let signerInfo: Asn1Node;
+  let certificates: Certificate[];
+  let encapsulatedContent: Uint8Array | undefined;
+  try {
+    const contentInfo = parseAsn1(der);
+    if (readOid(contentInfo.children[0]) !== CMS_OIDS.signedData) {
+      return { status: 'unsupported', message: 'The signature is not CMS SignedData' };
+    }
+    const signedData = contentInfo.children[1].children[0];
+    const eContent = findChild(signedData.children[2], contextTag(0));
+    encapsulatedContent = eContent ? readBytes(eContent.children[0]) : undefined;
+    certificates = parseCertificates(findChild(signedData, contextTag(0)));
+    const signerInfos = signedData.children[signedData.children.length - 1];
+    if (signerInfos.tag !== ASN1_TAGS.set || signerInfos.children.length === 0) {
+      return { status: 'invalid', message: 'The signature has no signer' };
+    }
+    signerInfo = signerInfos.children[0];
+  } catch {
+    return { status: 'invalid', message: 'The signature data is malformed' };
+  }
+
+  const [, sid, digestAlgorithm, ...rest] = signerInfo.children;
+  const signedAttributes = rest[0].tag === contextTag(0) ? rest[0] : undefined;
+  const [signatureAlgorithm, signatureNode] = signedAttributes ? rest.slice(1) : rest;
+  const signer = sid.tag === ASN1_TAGS.sequence
+    ? certificates.find(certificate => isSameIssuerAndSerial(certificate, sid.children[0], sid.children[1]))
+    : undefined;
+  if (!signer) return { status: 'unsupported', message: 'The signer\'s certificate is not included in the signature' };
+
+  const signingTimeNode = getAttribute(signedAttributes, CMS_OIDS.signingTime);
+  const result = {
+    signer,
+    signingTime: signingTimeNode ? readTime(signingTimeNode) : undefined,
+    encapsulatedContent,
+  };
+
+  let hash: HashName;
+  try {
+    hash = getHashName(readOid(digestAlgorithm.children[0]));
+  } catch {
+    return { ...result, status: 'unsupported', message: 'The signature uses an unsupported digest algorithm' };
+  }
+
+  const signedContent = encapsulatedContent ?? content;
+  const digest = await sha(hash, signedContent);
+  let signedBytes = signedContent;
+  if (signedAttributes) {
+    const messageDigest = getAttribute(signedAttributes, CMS_OIDS.messageDigest);
+    if (!messageDigest || !sameBytes(readBytes(messageDigest), digest)) {
+      return { ...result, status: 'modified', message: 'The document has been modified since it was signed' };
+    }
+    // The attributes were signed with their universal SET tag
+    signedBytes = concatBytes(Uint8Array.of(ASN1_TAGS.set), signedAttributes.raw.subarray(1));
+  }
+
+  try {
+    const { importParams, verifyParams } = getVerifyAlgorithm(signer, signatureAlgorithm, hash);
+    const key = await crypto.subtle.importKey('spki', signer.publicKeyInfo, importParams, false, ['verify']);
+    let signature = readBytes(signatureNode);
+    if (signer.keyType === 'EC' && signer.curve) signature = ecdsaDerToRaw(signature, signer.curve.size);
+    const valid = await crypto.subtle.verify(verifyParams, key, signature, signedBytes);
+    if (!valid) return { ...result, status: 'invalid', message: 'The signature does not match the signer\'s certificate' };
+  } catch {
+    return { ...result, status: 'unsupported', message: 'The signature uses an unsupported algorithm' };
+  }
+
+  return { ...result, status: 'valid', message: 'The signature is intact' };
+}
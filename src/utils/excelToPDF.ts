@@ -0,0 +1,736 @@
+import ExcelJS from 'exceljs';
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  clip,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  type RGB,
+} from 'pdf-lib';
+import { replaceUnencodable } from './pageStamp';
+
+export interface ExcelToPDFOptions {
+  // Worksheet names to include, in workbook order; empty for all visible sheets
+  sheets: string[];
+  orientation: 'portrait' | 'landscape';
+  // Scale each sheet down so all its columns fit across one page. Otherwise
+  // wide sheets continue on further pages, down then over like Excel.
+  fitToWidth: boolean;
+  // Leading rows repeated at the top of every page of a sheet
+  headerRows: number;
+  gridlines: boolean;
+}
+
+export interface ExcelToPDFConversion {
+  bytes: Uint8Array;
+  pageCount: number;
+  sheetCount: number;
+}
+
+// A4 in points
+const PAGE_SIZE: [number, number] = [595.28, 841.89];
+const MARGIN = 36;
+const TITLE_HEIGHT = 16;
+const CELL_PADDING = 2;
+const DEFAULT_FONT_SIZE = 11;
+const DEFAULT_ROW_HEIGHT = 15;
+const DEFAULT_COLUMN_WIDTH = 8.43;
+const GRIDLINE_COLOR = rgb(0.85, 0.85, 0.85);
+const TEXT_COLOR = rgb(0, 0, 0);
+
+// Default Office theme, in the order Excel indexes theme colours
+const THEME_COLORS = [
+  'FFFFFF', '000000', 'E7E6E6', '44546A', '4472C4', 'ED7D31', 'A5A5A5', 'FFC000', '5B9BD5', '70AD47',
+];
+
+const BORDER_WIDTHS: Record<string, number> = {
+  hair: 0.25, thin: 0.5, dotted: 0.5, dashed: 0.5, dashDot: 0.5, dashDotDot: 0.5,
+  medium: 1, mediumDashed: 1, mediumDashDot: 1, mediumDashDotDot: 1, slantDashDot: 1,
+  thick: 1.5, double: 1.5,
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface MergeRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+interface SheetFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+}
+
+interface SheetLayout {
+  sheet: ExcelJS.Worksheet;
+  // 1-based; index 0 is unused so rows and columns match Excel numbering
+  columnWidths: number[];
+  rowHeights: number[];
+  merges: Map<string, MergeRange>;
+  lastRow: number;
+  lastColumn: number;
+}
+
+// Excel column widths are in characters of the default font; this is the
+// usual conversion to pixels, then to points
+const columnWidthToPoints = (width: number) => (Math.trunc(width * 7 + 5) * 3) / 4;
+
+const columnNumber = (letters: string) => (
+  letters.toUpperCase().split('').reduce((sum, char) => sum * 26 + char.charCodeAt(0) - 64, 0)
+);
+
+const parseRange = (range: string): MergeRange | undefined => {
+  const match = range.match(/^\$?([A-Z]+)\$?(\d+):\$?([A-Z]+)\$?(\d+)$/i);
+  if (!match) return undefined;
+  return {
+    left: columnNumber(match[1]),
+    top: parseInt(match[2], 10),
+    right: columnNumber(match[3]),
+    bottom: parseInt(match[4], 10),
+  };
+};
+
+const parseColor = (color: Partial<ExcelJS.Color> | undefined): RGB | undefined => {
+  if (!color) return undefined;
+  const hex = color.argb ? color.argb.slice(-6) : color.theme !== undefined ? THEME_COLORS[color.theme] : undefined;
+  if (!hex || !/^[0-9a-f]{6}$/i.test(hex)) return undefined;
+
+  // Theme colours are lightened or darkened by a tint between -1 and 1
+  const tint = (color as { tint?: number }).tint ?? 0;
+  const [r, g, b] = [0, 2, 4].map(index => {
+    const value = parseInt(hex.slice(index, index + 2), 16);
+    return (tint < 0 ? value * (1 + tint) : value + (255 - value) * tint) / 255;
+  });
+  return rgb(r, g, b);
+};
+
+// Resolve formulas, rich text and hyperlinks to the value Excel displays
+const resolveValue = (value: ExcelJS.CellValue): string | number | boolean | Date | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object' || value instanceof Date) return value;
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('hyperlink' in value) return resolveValue(value.text as ExcelJS.CellValue);
+  if ('error' in value) return value.error;
+  if ('result' in value) return resolveValue(value.result as ExcelJS.CellValue);
+  return null;
+};
+
+interface FormatChar {
+  char: string;
+  literal: boolean;
+}
+
+// Split a format section into characters, marking quoted text, escapes and
+// currency symbols as literal. Colours, conditions, padding (_) and fill (*)
+// are dropped.
+const tokenizeFormat = (section: string) => {
+  const chars: FormatChar[] = [];
+  const pushLiteral = (text: string) => Array.from(text).forEach(char => chars.push({ char, literal: true }));
+
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i];
+    if (char === '"') {
+      const end = section.indexOf('"', i + 1);
+      const stop = end === -1 ? section.length : end;
+      pushLiteral(section.slice(i + 1, stop));
+      i = stop;
+    } else if (char === '\\') {
+      pushLiteral(section[i + 1] ?? '');
+      i++;
+    } else if (char === '_') {
+      pushLiteral(' ');
+      i++;
+    } else if (char === '*') {
+      i++;
+    } else if (char === '[') {
+      const end = section.indexOf(']', i);
+      const currency = section.slice(i + 1, end === -1 ? undefined : end).match(/^\$([^-]*)/);
+      if (currency) pushLiteral(currency[1]);
+      i = end === -1 ? section.length : end;
+    } else {
+      chars.push({ char, literal: false });
+    }
+  }
+
+  return chars;
+};
+
+const splitSections = (format: string) => {
+  const sections: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of format) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      sections.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  sections.push(current);
+  return sections;
+};
+
+const isDateFormat = (chars: FormatChar[]) => chars.some(({ char, literal }) => !literal && /[ydmhs]/i.test(char));
+
+const formatGeneral = (value: number) => {
+  if (Number.isInteger(value) && Math.abs(value) < 1e11) return String(value);
+  if (Math.abs(value) >= 1e11 || (value !== 0 && Math.abs(value) < 1e-9)) {
+    return value.toExponential(5).replace(/\.?0+e/, 'E').replace(/E([+-])(\d)$/, 'E$10$2');
+  }
+  return String(parseFloat(value.toPrecision(10)));
+};
+
+const formatDate = (date: Date, chars: FormatChar[]) => {
+  const codes = chars.map(({ char, literal }) => (literal ? '' : char.toLowerCase()));
+  const hour12 = chars.some((_, index) => /^a(m\/pm|\/p)/.test(codes.slice(index, index + 5).join('')));
+  const hours = date.getUTCHours();
+  let output = '';
+  let lastCode = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const { char, literal } = chars[i];
+    if (literal) {
+      output += char;
+      continue;
+    }
+
+    const code = codes[i];
+    if (code === 'a') {
+      const ampm = codes.slice(i, i + 5).join('') === 'am/pm';
+      output += ampm ? (hours < 12 ? 'AM' : 'PM') : (hours < 12 ? 'A' : 'P');
+      i += ampm ? 4 : 2;
+      continue;
+    }
+    if (!/[ydmhs]/.test(code)) {
+      output += char;
+      continue;
+    }
+
+    let length = 1;
+    while (codes[i + length] === code) length++;
+    i += length - 1;
+
+    // "m" means minutes right after hours or right before seconds
+    const nextCode = codes.slice(i + 1).find(next => /[ydmhs]/.test(next));
+    const minutes = code === 'm' && length <= 2 && (lastCode === 'h' || nextCode === 's');
+    const pad = (value: number) => String(value).padStart(length >= 2 ? 2 : 1, '0');
+
+    switch (code) {
+      case 'y':
+        output += length <= 2 ? String(date.getUTCFullYear()).slice(-2) : String(date.getUTCFullYear());
+        break;
+      case 'm':
+        output += minutes ? pad(date.getUTCMinutes())
+          : length <= 2 ? pad(date.getUTCMonth() + 1)
+          : length === 3 ? MONTHS[date.getUTCMonth()].slice(0, 3)
+          : length === 5 ? MONTHS[date.getUTCMonth()][0]
+          : MONTHS[date.getUTCMonth()];
+        break;
+      case 'd':
+        output += length <= 2 ? pad(date.getUTCDate())
+          : length === 3 ? WEEKDAYS[date.getUTCDay()].slice(0, 3)
+          : WEEKDAYS[date.getUTCDay()];
+        break;
+      case 'h':
+        output += pad(hour12 ? hours % 12 || 12 : hours);
+        break;
+      case 's':
+        output += pad(date.getUTCSeconds());
+        break;
+    }
+    lastCode = code;
+  }
+
+  return output;
+};
+
+const addThousands = (digits: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+
+// Format a number with one section of an Excel number format. Digit
+// placeholders (0 # ?), thousands separators, scaling commas, percentages
+// and scientific notation are supported; fractions are shown as decimals.
+const formatNumber = (value: number, chars: FormatChar[]) => {
+  const isCode = (index: number, pattern: RegExp) => chars[index] && !chars[index].literal && pattern.test(chars[index].char);
+
+  let start = chars.findIndex((_, index) => isCode(index, /[0#?]/));
+  if (start === -1) return chars.map(({ char }) => char).join('');
+  if (isCode(start - 1, /\./)) start--;
+  let end = start;
+  while (isCode(end, /[0#?,.]/)) end++;
+  const exponentStart = end;
+  if (isCode(end, /e/i) && isCode(end + 1, /[+-]/)) {
+    end += 2;
+    while (isCode(end, /[0#]/)) end++;
+  }
+
+  const percent = chars.filter(({ char, literal }) => !literal && char === '%').length;
+  const pattern = chars.slice(start, exponentStart).map(({ char }) => char).join('');
+  const [intPattern, decimalPattern = ''] = pattern.split('.');
+  const scaleCommas = intPattern.match(/,+$/)?.[0].length ?? 0;
+  const intCodes = intPattern.replace(/,+$/, '');
+  const decimals = decimalPattern.replace(/[^0#?]/g, '').length;
+  const minDecimals = decimalPattern.replace(/[^0?]/g, '').length;
+  const minInteger = intCodes.replace(/[^0]/g, '').length;
+  // ? placeholders pad with spaces rather than zeros
+  const padInteger = minInteger + intCodes.replace(/[^?]/g, '').length;
+  const scaled = Math.abs(value) * 100 ** percent / 1000 ** scaleCommas;
+
+  let number: string;
+  if (end > exponentStart) {
+    const exponentDigits = end - exponentStart - 2;
+    const [mantissa, exponent] = scaled.toExponential(decimals).split('e');
+    const sign = exponent.startsWith('-') ? '-' : chars[exponentStart + 1].char === '+' ? '+' : '';
+    number = `${mantissa}E${sign}${exponent.replace(/^[+-]/, '').padStart(exponentDigits, '0')}`;
+  } else {
+    const [intDigits, decimalDigits = ''] = scaled.toFixed(decimals).split('.');
+    let fraction = decimalDigits;
+    while (fraction.length > minDecimals && fraction.endsWith('0')) fraction = fraction.slice(0, -1);
+    let integer = intDigits === '0' && minInteger === 0 ? '' : intDigits.padStart(minInteger, '0');
+    integer = integer.padStart(padInteger, ' ');
+    if (intCodes.includes(',')) integer = addThousands(integer);
+    number = fraction ? `${integer}.${fraction}` : integer;
+  }
+
+  const text = (slice: FormatChar[]) => slice.map(({ char }) => char).join('');
+  return text(chars.slice(0, start)) + number + text(chars.slice(end));
+};
+
+// The text Excel shows for a cell, given its value and number format
+const formatCellValue = (value: ReturnType<typeof resolveValue>, numFmt: string | undefined) => {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'string') return value;
+
+  const format = numFmt && !/^general$/i.test(numFmt) ? numFmt : '';
+  if (value instanceof Date) {
+    const chars = tokenizeFormat(splitSections(format)[0]);
+    return formatDate(value, isDateFormat(chars) ? chars : tokenizeFormat('yyyy-mm-dd'));
+  }
+  if (!format) return formatGeneral(value);
+
+  const sections = splitSections(format);
+  const section = value > 0 ? sections[0]
+    : value < 0 ? sections[1] ?? sections[0]
+    : sections[2] ?? sections[0];
+  // A single section formats negatives with a leading minus
+  const sign = value < 0 && sections.length === 1 ? '-' : '';
+  const chars = tokenizeFormat(section.replace(/general/i, '\0'));
+  if (chars.some(({ char, literal }) => !literal && char === '\0')) {
+    return sign + chars.map(({ char }) => (char === '\0' ? formatGeneral(Math.abs(value)) : char)).join('');
+  }
+
+  if (isDateFormat(chars) && !chars.some(({ char, literal }) => !literal && /[0#?]/.test(char))) {
+    // Excel serial dates count days from 1899-12-30
+    return formatDate(new Date(Math.round((value - 25569) * 86400000)), chars);
+  }
+  return sign + formatNumber(value, chars);
+};
+
+const getFont = (fonts: SheetFonts, font: Partial<ExcelJS.Font> | undefined) => (
+  font?.bold && font?.italic ? fonts.boldItalic
+    : font?.bold ? fonts.bold
+    : font?.italic ? fonts.italic
+    : fonts.regular
+);
+
+const wrapText = (text: string, font: PDFFont, size: number, width: number) => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+interface CellContent {
+  lines: string[];
+  font: PDFFont;
+  size: number;
+  color: RGB;
+  numeric: boolean;
+  underline: boolean;
+  strike: boolean;
+}
+
+const getCellContent = (cell: ExcelJS.Cell, fonts: SheetFonts, width: number): CellContent | undefined => {
+  const value = resolveValue(cell.value);
+  const text = formatCellValue(value, cell.numFmt);
+  if (!text) return undefined;
+
+  const font = getFont(fonts, cell.font);
+  const size = cell.font?.size ?? DEFAULT_FONT_SIZE;
+  const clean = replaceUnencodable(font, text.replace(/\t/g, ' '));
+  const innerWidth = Math.max(1, width - CELL_PADDING * 2);
+  return {
+    lines: cell.alignment?.wrapText ? wrapText(clean, font, size, innerWidth) : [clean.replace(/\n/g, ' ')],
+    font,
+    size,
+    color: parseColor(cell.font?.color) ?? TEXT_COLOR,
+    numeric: typeof value === 'number' || value instanceof Date,
+    underline: Boolean(cell.font?.underline) && cell.font?.underline !== 'none',
+    strike: Boolean(cell.font?.strike),
+  };
+};
+
+// Measure a worksheet: the used range, column widths, merged ranges and row
+// heights, with rows that have no fixed height grown to fit wrapped text
+const measureSheet = (sheet: ExcelJS.Worksheet, fonts: SheetFonts): SheetLayout => {
+  const merges = new Map<string, MergeRange>();
+  let lastRow = 0;
+  let lastColumn = 0;
+
+  for (const range of sheet.model.merges ?? []) {
+    const merge = parseRange(range);
+    if (!merge) continue;
+    for (let row = merge.top; row <= merge.bottom; row++) {
+      for (let col = merge.left; col <= merge.right; col++) merges.set(`${row}:${col}`, merge);
+    }
+    lastRow = Math.max(lastRow, merge.bottom);
+    lastColumn = Math.max(lastColumn, merge.right);
+  }
+
+  sheet.eachRow(row => {
+    row.eachCell((cell, col) => {
+      if (resolveValue(cell.value) === null && !cell.fill && !cell.border) return;
+      lastRow = Math.max(lastRow, row.number);
+      lastColumn = Math.max(lastColumn, col);
+    });
+  });
+
+  const defaultWidth = sheet.properties.defaultColWidth ?? DEFAULT_COLUMN_WIDTH;
+  const columnWidths = [0];
+  for (let col = 1; col <= lastColumn; col++) {
+    const column = sheet.getColumn(col);
+    columnWidths.push(column.hidden ? 0 : columnWidthToPoints(column.width ?? defaultWidth));
+  }
+
+  const defaultHeight = sheet.properties.defaultRowHeight || DEFAULT_ROW_HEIGHT;
+  const rowHeights = [0];
+  for (let r = 1; r <= lastRow; r++) {
+    const row = sheet.getRow(r);
+    if (row.hidden) {
+      rowHeights.push(0);
+      continue;
+    }
+    if (row.height) {
+      rowHeights.push(row.height);
+      continue;
+    }
+
+    let height = defaultHeight;
+    row.eachCell((cell, col) => {
+      if (col > lastColumn || merges.has(`${r}:${col}`)) return;
+      const content = getCellContent(cell, fonts, columnWidths[col]);
+      if (content) height = Math.max(height, content.lines.length * content.size * 1.2 + CELL_PADDING * 2);
+    });
+    rowHeights.push(height);
+  }
+
+  return { sheet, columnWidths, rowHeights, merges, lastRow, lastColumn };
+};
+
+// Split the columns into groups that each fit the printable width
+const getColumnBands = (layout: SheetLayout, width: number) => {
+  const bands: number[][] = [];
+  let band: number[] = [];
+  let used = 0;
+  for (let col = 1; col <= layout.lastColumn; col++) {
+    const columnWidth = layout.columnWidths[col];
+    if (band.length > 0 && used + columnWidth > width) {
+      bands.push(band);
+      band = [];
+      used = 0;
+    }
+    band.push(col);
+    used += columnWidth;
+  }
+  if (band.length > 0) bands.push(band);
+  return bands;
+};
+
+// Split the body rows into pages below the repeated header rows
+const getRowPages = (layout: SheetLayout, headerRows: number, height: number) => {
+  const headers = Array.from({ length: headerRows }, (_, index) => index + 1);
+  const headerHeight = headers.reduce((sum, row) => sum + layout.rowHeights[row], 0);
+  // Header rows that would crowd out the body are printed once instead
+  const repeat = headerHeight <= height / 2;
+  const pages: number[][] = [];
+  let rows: number[] = [...headers];
+  let used = headerHeight;
+  // Header rows on the current page: always on the first, then only if repeated
+  let pageHeaders = headers.length;
+
+  for (let row = headerRows + 1; row <= layout.lastRow; row++) {
+    const rowHeight = layout.rowHeights[row];
+    if (rows.length > pageHeaders && used + rowHeight > height) {
+      pages.push(rows);
+      rows = repeat ? [...headers] : [];
+      used = repeat ? headerHeight : 0;
+      pageHeaders = repeat ? headers.length : 0;
+    }
+    rows.push(row);
+    used += rowHeight;
+  }
+  if (rows.length > 0) pages.push(rows);
+  return pages;
+};
+
+const drawBorder = (page: PDFPage, border: Partial<ExcelJS.Border> | undefined, start: [number, number], end: [number, number], scale: number) => {
+  if (!border?.style) return;
+  page.drawLine({
+    start: { x: start[0], y: start[1] },
+    end: { x: end[0], y: end[1] },
+    thickness: (BORDER_WIDTHS[border.style] ?? 0.5) * Math.max(scale, 0.5),
+    color: parseColor(border.color) ?? TEXT_COLOR,
+    dashArray: /dash/i.test(border.style) ? [3, 2] : border.style === 'dotted' ? [1, 1] : undefined,
+  });
+};
+
+// Draw one page of a sheet: the given rows and columns, scaled, with the
+// sheet's top-left corner at (left, top) in page coordinates
+const drawSheetPage = (
+  page: PDFPage,
+  layout: SheetLayout,
+  rows: number[],
+  columns: number[],
+  fonts: SheetFonts,
+  options: { left: number; top: number; scale: number; gridlines: boolean },
+) => {
+  const { left, top, scale } = options;
+  const rowTops = new Map<number, number>();
+  let y = top;
+  for (const row of rows) {
+    rowTops.set(row, y);
+    y -= layout.rowHeights[row] * scale;
+  }
+  const colLefts = new Map<number, number>();
+  let x = left;
+  for (const col of columns) {
+    colLefts.set(col, x);
+    x += layout.columnWidths[col] * scale;
+  }
+  const right = x;
+  const bottom = y;
+
+  if (options.gridlines) {
+    for (const row of [...rows, undefined]) {
+      const lineY = row === undefined ? bottom : rowTops.get(row)!;
+      page.drawLine({ start: { x: left, y: lineY }, end: { x: right, y: lineY }, thickness: 0.25, color: GRIDLINE_COLOR });
+    }
+    for (const col of [...columns, undefined]) {
+      const lineX = col === undefined ? right : colLefts.get(col)!;
+      page.drawLine({ start: { x: lineX, y: top }, end: { x: lineX, y: bottom }, thickness: 0.25, color: GRIDLINE_COLOR });
+    }
+  }
+
+  // Each cell, or each merged range clipped to this page, becomes one box
+  const drawn = new Set<MergeRange>();
+  const boxes: { row: number; col: number; x: number; y: number; width: number; height: number; lastCol: number }[] = [];
+  for (const row of rows) {
+    for (const col of columns) {
+      const merge = layout.merges.get(`${row}:${col}`);
+      if (merge) {
+        if (drawn.has(merge)) continue;
+        drawn.add(merge);
+        const mergeRows = rows.filter(r => r >= merge.top && r <= merge.bottom);
+        const mergeCols = columns.filter(c => c >= merge.left && c <= merge.right);
+        const boxTop = rowTops.get(mergeRows[0])!;
+        const lastRow = mergeRows[mergeRows.length - 1];
+        const lastCol = mergeCols[mergeCols.length - 1];
+        boxes.push({
+          row: merge.top,
+          col: merge.left,
+          x: colLefts.get(mergeCols[0])!,
+          y: boxTop,
+          width: colLefts.get(lastCol)! + layout.columnWidths[lastCol] * scale - colLefts.get(mergeCols[0])!,
+          height: boxTop - (rowTops.get(lastRow)! - layout.rowHeights[lastRow] * scale),
+          lastCol,
+        });
+      } else {
+        boxes.push({
+          row,
+          col,
+          x: colLefts.get(col)!,
+          y: rowTops.get(row)!,
+          width: layout.columnWidths[col] * scale,
+          height: layout.rowHeights[row] * scale,
+          lastCol: col,
+        });
+      }
+    }
+  }
+
+  const isEmpty = (row: number, col: number) => (
+    !layout.merges.has(`${row}:${col}`) && resolveValue(layout.sheet.getCell(row, col).value) === null
+  );
+
+  // Fills go first so neighbouring borders and overflowing text stay visible
+  for (const box of boxes) {
+    const fill = layout.sheet.getCell(box.row, box.col).fill;
+    if (fill?.type !== 'pattern' || fill.pattern === 'none') continue;
+    const color = parseColor(fill.pattern === 'solid' ? fill.fgColor : fill.bgColor ?? fill.fgColor);
+    if (color && box.width > 0 && box.height > 0) {
+      page.drawRectangle({ x: box.x, y: box.y - box.height, width: box.width, height: box.height, color });
+    }
+  }
+
+  for (const box of boxes) {
+    if (box.width <= 0 || box.height <= 0) continue;
+    const cell = layout.sheet.getCell(box.row, box.col);
+    const content = getCellContent(cell, fonts, box.width / scale);
+    if (!content) continue;
+
+    const size = content.size * scale;
+    const padding = CELL_PADDING * scale;
+    const horizontal = cell.alignment?.horizontal ?? (content.numeric ? 'right' : 'left');
+    const indent = (cell.alignment?.indent ?? 0) * 9 * scale;
+    let lines = content.lines;
+    let clipRight = box.x + box.width;
+
+    // Numbers that don't fit show as #, like Excel
+    const widest = Math.max(...lines.map(line => content.font.widthOfTextAtSize(line, size)));
+    if (content.numeric && widest > box.width - padding * 2) {
+      const hashWidth = content.font.widthOfTextAtSize('#', size);
+      lines = ['#'.repeat(Math.max(1, Math.floor((box.width - padding * 2) / hashWidth)))];
+    } else if (!cell.alignment?.wrapText && horizontal === 'left') {
+      // Left-aligned text runs on over empty cells to its right
+      const index = columns.indexOf(box.lastCol);
+      for (const col of columns.slice(index + 1)) {
+        if (!isEmpty(box.row, col) || box.x + widest + padding * 2 <= clipRight) break;
+        clipRight += layout.columnWidths[col] * scale;
+      }
+    }
+
+    const lineHeight = size * 1.2;
+    const blockHeight = lines.length * lineHeight;
+    const vertical = cell.alignment?.vertical ?? 'bottom';
+    const firstBaseline = vertical === 'top' ? box.y - padding - size
+      : vertical === 'middle' ? box.y - (box.height - blockHeight) / 2 - size
+      : box.y - box.height + padding + size * 0.25 + (lines.length - 1) * lineHeight;
+
+    page.pushOperators(
+      pushGraphicsState(),
+      rectangle(box.x, box.y - box.height, clipRight - box.x, box.height),
+      clip(),
+      endPath(),
+    );
+    lines.forEach((line, index) => {
+      const lineWidth = content.font.widthOfTextAtSize(line, size);
+      const textX = horizontal === 'right' ? box.x + box.width - padding - lineWidth - indent
+        : horizontal === 'center' || horizontal === 'centerContinuous' ? box.x + (box.width - lineWidth) / 2
+        : box.x + padding + indent;
+      const baseline = firstBaseline - index * lineHeight;
+      page.drawText(line, { x: textX, y: baseline, size, font: content.font, color: content.color });
+      if (content.underline) {
+        page.drawLine({ start: { x: textX, y: baseline - size * 0.12 }, end: { x: textX + lineWidth, y: baseline - size * 0.12 }, thickness: size * 0.05, color: content.color });
+      }
+      if (content.strike) {
+        page.drawLine({ start: { x: textX, y: baseline + size * 0.3 }, end: { x: textX + lineWidth, y: baseline + size * 0.3 }, thickness: size * 0.05, color: content.color });
+      }
+    });
+    page.pushOperators(popGraphicsState());
+  }
+
+  // Borders come last. A merged range uses its edge cells' borders.
+  for (const box of boxes) {
+    const merge = layout.merges.get(`${box.row}:${box.col}`);
+    const topLeft = layout.sheet.getCell(box.row, box.col).border;
+    const bottomRight = merge ? layout.sheet.getCell(merge.bottom, merge.right).border : topLeft;
+    const x2 = box.x + box.width;
+    const y2 = box.y - box.height;
+    drawBorder(page, topLeft?.top, [box.x, box.y], [x2, box.y], scale);
+    drawBorder(page, topLeft?.left, [box.x, box.y], [box.x, y2], scale);
+    drawBorder(page, bottomRight?.bottom, [box.x, y2], [x2, y2], scale);
+    drawBorder(page, bottomRight?.right, [x2, box.y], [x2, y2], scale);
+  }
+};
+
+// Names of the worksheets a user can pick from; hidden sheets are left out
+export async function listWorkbookSheets(data: ArrayBuffer): Promise<string[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  return workbook.worksheets.filter(sheet => sheet.state === 'visible').map(sheet => sheet.name);
+}
+
+// Render worksheets as paginated grid tables: column widths, row heights,
+// merged cells, number formats, fills, fonts and borders come from the
+// workbook. Each page is titled with its sheet name.
+export async function convertExcelToPDF(data: ArrayBuffer, options: ExcelToPDFOptions): Promise<ExcelToPDFConversion> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  const sheets = workbook.worksheets.filter(sheet => (
+    options.sheets.length > 0 ? options.sheets.includes(sheet.name) : sheet.state === 'visible'
+  ));
+
+  const pdfDoc = await PDFDocument.create();
+  const fonts: SheetFonts = {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdfDoc.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await pdfDoc.embedFont(StandardFonts.HelveticaBoldOblique),
+  };
+  const [pageWidth, pageHeight] = options.orientation === 'landscape' ? [PAGE_SIZE[1], PAGE_SIZE[0]] : PAGE_SIZE;
+  const printableWidth = pageWidth - MARGIN * 2;
+  const printableHeight = pageHeight - MARGIN * 2 - TITLE_HEIGHT;
+  let sheetCount = 0;
+
+  for (const sheet of sheets) {
+    const layout = measureSheet(sheet, fonts);
+    if (layout.lastRow === 0 || layout.lastColumn === 0) continue;
+    sheetCount++;
+
+    const totalWidth = layout.columnWidths.reduce((sum, width) => sum + width, 0);
+    const scale = options.fitToWidth ? Math.min(1, printableWidth / totalWidth) : 1;
+    const bands = options.fitToWidth
+      ? [Array.from({ length: layout.lastColumn }, (_, index) => index + 1)]
+      : getColumnBands(layout, printableWidth);
+    const rowPages = getRowPages(layout, Math.min(Math.max(0, options.headerRows), layout.lastRow), printableHeight / scale);
+
+    for (const columns of bands) {
+      for (const rows of rowPages) {
+        const page = pdfDoc.addPage([pageWidth, pageHeight]);
+        page.drawText(replaceUnencodable(fonts.bold, sheet.name), {
+          x: MARGIN,
+          y: pageHeight - MARGIN - 10,
+          size: 10,
+          font: fonts.bold,
+          color: rgb(0.3, 0.3, 0.3),
+        });
+        drawSheetPage(page, layout, rows, columns, fonts, {
+          left: MARGIN,
+          top: pageHeight - MARGIN - TITLE_HEIGHT,
+          scale,
+          gridlines: options.gridlines,
+        });
+      }
+    }
+  }
+
+  if (pdfDoc.getPageCount() === 0) {
+    throw new Error('The selected worksheets are empty');
+  }
+
+  return { bytes: await pdfDoc.save(), pageCount: pdfDoc.getPageCount(), sheetCount };
+}
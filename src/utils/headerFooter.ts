@@ -0,0 +1,118 @@
+import { PDFDocument, StandardFonts, type PDFPage } from 'pdf-lib';
+import { parsePageSelection } from './pageRanges';
+import { renderPagePreview } from './pdfRender';
+import { canEncodeText, drawMarginText, MARGIN_POSITIONS, type MarginPosition, type MarginTextStyle } from './pageStamp';
+
+export type HeaderFooterDateFormat = 'iso' | 'short' | 'long';
+
+export interface HeaderFooterOptions extends Omit<MarginTextStyle, 'position'> {
+  // Template per slot; empty slots are left out
+  slots: Record<MarginPosition, string>;
+  font: StandardFonts;
+  // Replaces {title}; the document's own title is used when empty
+  title: string;
+  dateFormat: HeaderFooterDateFormat;
+}
+
+export interface HeaderFooterFields {
+  filename: string;
+  title: string;
+  date: string;
+  page: number;
+  total: number;
+}
+
+export const HEADER_FOOTER_TOKENS = ['{filename}', '{title}', '{date}', '{page}', '{total}'];
+
+export const DATE_FORMATS: { value: HeaderFooterDateFormat; label: string }[] = [
+  { value: 'iso', label: '2024-03-31' },
+  { value: 'short', label: 'Local short date' },
+  { value: 'long', label: 'March 31, 2024' },
+];
+
+export const formatStampDate = (date: Date, format: HeaderFooterDateFormat) => {
+  if (format === 'iso') {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+  return new Intl.DateTimeFormat(undefined, { dateStyle: format === 'short' ? 'short' : 'long' }).format(date);
+};
+
+export const formatHeaderFooterText = (template: string, fields: HeaderFooterFields) => (
+  template.replace(/\{(filename|title|date|page|total)\}/g, (_, token: keyof HeaderFooterFields) => String(fields[token]))
+);
+
+const getSelectedPages = (pdfDoc: PDFDocument, pageSelection: string) => {
+  const pageIndices = parsePageSelection(pageSelection, pdfDoc.getPageCount());
+  if (pageIndices.length === 0) throw new Error('The page selection does not match any pages');
+  return pageIndices;
+};
+
+// Stamp the filled-in slot templates onto pages, each with the number it has
+// in the source document
+async function stampPages(
+  pdfDoc: PDFDocument,
+  pages: { page: PDFPage; pageNumber: number }[],
+  options: HeaderFooterOptions,
+  fields: Omit<HeaderFooterFields, 'page'>
+) {
+  const slots = MARGIN_POSITIONS.filter(position => options.slots[position].trim());
+  if (slots.length === 0) throw new Error('Please enter text for at least one header or footer slot');
+
+  const font = await pdfDoc.embedFont(options.font);
+  for (const { page, pageNumber } of pages) {
+    for (const position of slots) {
+      const text = formatHeaderFooterText(options.slots[position], { ...fields, page: pageNumber });
+      if (!canEncodeText(font, text)) {
+        throw new Error(`The ${position.replace('-', ' ')} text contains characters the selected font cannot display`);
+      }
+      drawMarginText(page, font, text, { ...options, position });
+    }
+  }
+}
+
+const getFields = (pdfDoc: PDFDocument, options: HeaderFooterOptions, filename: string) => ({
+  filename,
+  title: options.title.trim() || pdfDoc.getTitle() || filename.replace(/\.pdf$/i, ''),
+  date: formatStampDate(new Date(), options.dateFormat),
+  total: pdfDoc.getPageCount(),
+});
+
+// Add headers and footers to the selected pages; an empty selection means all
+// pages. {page} and {total} count pages of the whole document, not of the selection.
+export async function addHeaderFooter(
+  data: ArrayBuffer,
+  options: HeaderFooterOptions,
+  pageSelection: string,
+  filename: string
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data);
+  const pages = getSelectedPages(pdfDoc, pageSelection).map(index => ({ page: pdfDoc.getPage(index), pageNumber: index + 1 }));
+  await stampPages(pdfDoc, pages, options, getFields(pdfDoc, options, filename));
+  return pdfDoc.save();
+}
+
+export interface HeaderFooterPreview {
+  dataUrl: string;
+  pageNumber: number;
+}
+
+// Render the first selected page with its header and footer
+export async function renderHeaderFooterPreview(
+  data: ArrayBuffer,
+  options: HeaderFooterOptions,
+  pageSelection: string,
+  filename: string,
+  maxWidth = 400
+): Promise<HeaderFooterPreview> {
+  const source = await PDFDocument.load(data);
+  const [pageIndex] = getSelectedPages(source, pageSelection);
+  const fields = getFields(source, options, filename);
+
+  const previewDoc = await PDFDocument.create();
+  const [page] = await previewDoc.copyPages(source, [pageIndex]);
+  previewDoc.addPage(page);
+  await stampPages(previewDoc, [{ page, pageNumber: pageIndex + 1 }], options, fields);
+
+  const { dataUrl } = await renderPagePreview(await previewDoc.save(), 1, maxWidth);
+  return { dataUrl, pageNumber: pageIndex + 1 };
+}
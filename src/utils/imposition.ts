@@ -0,0 +1,241 @@
+import { PDFDocument, PageSizes, degrees, rgb, type PDFEmbeddedPage, type PDFPage } from 'pdf-lib';
+import { renderPagePreview } from './pdfRender';
+
+export type ImpositionMode = 'n-up' | 'booklet';
+export type SheetSize = 'source' | 'A4' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
+export type SheetOrientation = 'auto' | 'portrait' | 'landscape';
+
+export interface ImpositionOptions {
+  mode: ImpositionMode;
+  // Source pages per sheet in n-up mode; booklets always place two
+  pagesPerSheet: number;
+  sheetSize: SheetSize;
+  // Booklet sheets are always landscape
+  orientation: SheetOrientation;
+  // Fill the grid row by row, or column by column
+  order: 'across' | 'down';
+  // Points kept clear around the edge of the sheet
+  margin: number;
+  // Points between neighbouring pages
+  gutter: number;
+  // Draw a thin frame around each placed page
+  border: boolean;
+}
+
+export const PAGES_PER_SHEET = [2, 4, 6, 9];
+export const SHEET_SIZES: SheetSize[] = ['source', 'A4', 'A3', 'Letter', 'Legal', 'Tabloid'];
+
+// The source pages on one side of an output sheet, in grid order; null cells
+// are left blank (booklet padding or the end of the document)
+export interface ImposedSheet {
+  pages: (number | null)[];
+}
+
+export interface ImpositionPlan {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  sheets: ImposedSheet[];
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Size of a page as displayed, with its rotation applied
+const getDisplaySize = (page: PDFPage): Size => {
+  const { width, height } = page.getCropBox();
+  return page.getRotation().angle % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+// Columns and rows for a portrait sheet; landscape sheets swap them
+const PORTRAIT_GRIDS: Record<number, [number, number]> = {
+  2: [1, 2],
+  4: [2, 2],
+  6: [2, 3],
+  9: [3, 3],
+};
+
+// How large a page of the given size can be drawn in each cell of the grid
+const getFitScale = (sheet: Size, columns: number, rows: number, page: Size, options: ImpositionOptions) => {
+  const cellWidth = (sheet.width - options.margin * 2 - options.gutter * (columns - 1)) / columns;
+  const cellHeight = (sheet.height - options.margin * 2 - options.gutter * (rows - 1)) / rows;
+  return Math.min(cellWidth / page.width, cellHeight / page.height);
+};
+
+// Pages for each side of a saddle-stitched booklet. Pages are padded to a
+// multiple of four; each sheet's front carries the last and first remaining
+// pages, its back the second and second-to-last.
+const getBookletSheets = (pageCount: number): ImposedSheet[] => {
+  const padded = Math.ceil(pageCount / 4) * 4;
+  const page = (index: number) => (index < pageCount ? index : null);
+  const sheets: ImposedSheet[] = [];
+  for (let i = 0; i < padded / 2; i += 2) {
+    sheets.push({ pages: [page(padded - 1 - i), page(i)] });
+    sheets.push({ pages: [page(i + 1), page(padded - 2 - i)] });
+  }
+  return sheets;
+};
+
+const getGridSheets = (pageCount: number, perSheet: number): ImposedSheet[] => {
+  const sheets: ImposedSheet[] = [];
+  for (let start = 0; start < pageCount; start += perSheet) {
+    sheets.push({
+      pages: Array.from({ length: perSheet }, (_, i) => (start + i < pageCount ? start + i : null)),
+    });
+  }
+  return sheets;
+};
+
+// Work out the sheet size, grid and page order. The first page's size stands
+// in for the document when picking the sheet size and orientation.
+export function planImposition(pageCount: number, pageSize: Size, options: ImpositionOptions): ImpositionPlan {
+  const booklet = options.mode === 'booklet';
+  const perSheet = booklet ? 2 : options.pagesPerSheet;
+  const grid = PORTRAIT_GRIDS[perSheet];
+  if (!grid) throw new Error(`Unsupported number of pages per sheet: ${perSheet}`);
+
+  const [shortSide, longSide] = (() => {
+    if (options.sheetSize !== 'source') {
+      const [a, b] = PageSizes[options.sheetSize];
+      return [Math.min(a, b), Math.max(a, b)];
+    }
+    // A booklet sheet folds to the source page size
+    const width = booklet ? pageSize.width * 2 : pageSize.width;
+    return [Math.min(width, pageSize.height), Math.max(width, pageSize.height)];
+  })();
+  const portrait = { width: shortSide, height: longSide };
+  const landscape = { width: longSide, height: shortSide };
+
+  const orientation = booklet ? 'landscape'
+    : options.orientation !== 'auto' ? options.orientation
+    : getFitScale(portrait, grid[0], grid[1], pageSize, options) >= getFitScale(landscape, grid[1], grid[0], pageSize, options)
+      ? 'portrait' : 'landscape';
+  const sheet = orientation === 'portrait' ? portrait : landscape;
+  const [columns, rows] = orientation === 'portrait' ? grid : [grid[1], grid[0]];
+
+  if (getFitScale(sheet, columns, rows, pageSize, options) <= 0) {
+    throw new Error('The margins and gutters leave no room for the pages');
+  }
+
+  return {
+    ...sheet,
+    columns,
+    rows,
+    sheets: booklet ? getBookletSheets(pageCount) : getGridSheets(pageCount, perSheet),
+  };
+}
+
+// Grid position of the nth cell
+const getCell = (index: number, plan: ImpositionPlan, options: ImpositionOptions) => (
+  options.order === 'down' && options.mode === 'n-up'
+    ? { column: Math.floor(index / plan.rows), row: index % plan.rows }
+    : { column: index % plan.columns, row: Math.floor(index / plan.columns) }
+);
+
+// Draw an embedded page into a box on the sheet, scaled to fit, centered and
+// turned the way the source page is displayed
+const drawFitted = (sheet: PDFPage, embedded: PDFEmbeddedPage, rotation: number, box: Size & { x: number; y: number }, border: boolean) => {
+  const turned = rotation % 180 !== 0;
+  const display = turned ? { width: embedded.height, height: embedded.width } : embedded;
+  const scale = Math.min(box.width / display.width, box.height / display.height);
+  const width = display.width * scale;
+  const height = display.height * scale;
+  const x = box.x + (box.width - width) / 2;
+  const y = box.y + (box.height - height) / 2;
+
+  // pdf-lib rotates around the drawing origin, so start from the corner that
+  // ends up bottom-left once turned clockwise
+  const origin = rotation === 90 ? { x, y: y + height }
+    : rotation === 180 ? { x: x + width, y: y + height }
+    : rotation === 270 ? { x: x + width, y }
+    : { x, y };
+
+  sheet.drawPage(embedded, {
+    x: origin.x,
+    y: origin.y,
+    xScale: scale,
+    yScale: scale,
+    rotate: degrees(-rotation),
+  });
+
+  if (border) {
+    sheet.drawRectangle({ x, y, width, height, borderColor: rgb(0.6, 0.6, 0.6), borderWidth: 0.5 });
+  }
+};
+
+const imposeSheets = async (source: PDFDocument, plan: ImpositionPlan, sheets: ImposedSheet[], options: ImpositionOptions) => {
+  const output = await PDFDocument.create();
+  const used = [...new Set(sheets.flatMap(sheet => sheet.pages).filter((index): index is number => index !== null))];
+  const sourcePages = used.map(index => source.getPage(index));
+  const embedded = await output.embedPages(sourcePages, sourcePages.map(page => {
+    const { x, y, width, height } = page.getCropBox();
+    return { left: x, bottom: y, right: x + width, top: y + height };
+  }));
+  const embeddedByIndex = new Map(used.map((index, i) => [index, { page: embedded[i], rotation: ((sourcePages[i].getRotation().angle % 360) + 360) % 360 }]));
+
+  const cellWidth = (plan.width - options.margin * 2 - options.gutter * (plan.columns - 1)) / plan.columns;
+  const cellHeight = (plan.height - options.margin * 2 - options.gutter * (plan.rows - 1)) / plan.rows;
+
+  for (const { pages } of sheets) {
+    const sheet = output.addPage([plan.width, plan.height]);
+    pages.forEach((pageIndex, cellIndex) => {
+      const placed = pageIndex === null ? undefined : embeddedByIndex.get(pageIndex);
+      if (!placed) return;
+      const { column, row } = getCell(cellIndex, plan, options);
+      drawFitted(sheet, placed.page, placed.rotation, {
+        x: options.margin + column * (cellWidth + options.gutter),
+        // Rows count down from the top of the sheet
+        y: plan.height - options.margin - (row + 1) * cellHeight - row * options.gutter,
+        width: cellWidth,
+        height: cellHeight,
+      }, options.border);
+    });
+  }
+
+  return output.save();
+};
+
+const loadPlan = async (data: ArrayBuffer, options: ImpositionOptions) => {
+  const source = await PDFDocument.load(data);
+  if (source.getPageCount() === 0) throw new Error('The PDF has no pages');
+  return { source, plan: planImposition(source.getPageCount(), getDisplaySize(source.getPage(0)), options) };
+};
+
+// Place several source pages on each output sheet, or lay the document out
+// as a saddle-stitched booklet to be printed double-sided and folded
+export async function imposePDF(data: ArrayBuffer, options: ImpositionOptions): Promise<{ bytes: Uint8Array; sheetCount: number }> {
+  const { source, plan } = await loadPlan(data, options);
+  return { bytes: await imposeSheets(source, plan, plan.sheets, options), sheetCount: plan.sheets.length };
+}
+
+export interface ImpositionPreview {
+  dataUrl: string;
+  // One-based index of the previewed sheet side and the number of them
+  sheetNumber: number;
+  sheetCount: number;
+  // One-based source page numbers in grid order, null for blanks
+  pages: (number | null)[];
+}
+
+// Render a single imposed sheet so the layout can be checked before the
+// whole document is generated
+export async function renderImpositionPreview(
+  data: ArrayBuffer,
+  options: ImpositionOptions,
+  sheetNumber: number,
+  maxWidth = 500
+): Promise<ImpositionPreview> {
+  const { source, plan } = await loadPlan(data, options);
+  const index = Math.min(Math.max(sheetNumber, 1), plan.sheets.length) - 1;
+  const sheet = plan.sheets[index];
+  const { dataUrl } = await renderPagePreview(await imposeSheets(source, plan, [sheet], options), 1, maxWidth);
+  return {
+    dataUrl,
+    sheetNumber: index + 1,
+    sheetCount: plan.sheets.length,
+    pages: sheet.pages.map(page => (page === null ? null : page + 1)),
+  };
+}
@@ -0,0 +1,256 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib';
+import { replaceUnencodable } from './pageStamp';
+import { pdfjsLib } from './pdfjs';
+import { renderPageToCanvas } from './pdfRender';
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OcrPageResult {
+  words: OcrWord[];
+  confidence: number;
+}
+
+export interface OcrPageReport {
+  page: number;
+  confidence: number;
+  wordCount: number;
+}
+
+export interface OcrProgress {
+  page: number;
+  total: number;
+  // Progress of the current page, 0-1
+  progress: number;
+}
+
+export interface OcrOutput {
+  bytes: Uint8Array;
+  report: OcrPageReport[];
+}
+
+// The invisible text layer is drawn with Helvetica (WinAnsi), so only
+// Latin-script languages are offered.
+export const OCR_LANGUAGES = [
+  { code: 'eng', label: 'English' },
+  { code: 'deu', label: 'German' },
+  { code: 'fra', label: 'French' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'nld', label: 'Dutch' },
+  { code: 'swe', label: 'Swedish' },
+  { code: 'dan', label: 'Danish' },
+  { code: 'nor', label: 'Norwegian' },
+];
+
+// Tesseract works best around 300 DPI; cap the canvas so huge pages stay in memory
+const OCR_DPI = 300;
+const MAX_OCR_DIMENSION = 4000;
+
+type WorkerMessage =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: OcrPageResult }
+  | { id: number; type: 'error'; error: string };
+
+export interface OcrEngine {
+  recognize: (canvas: HTMLCanvasElement, onProgress?: (progress: number) => void) => Promise<OcrPageResult>;
+  terminate: () => void;
+}
+
+// Start a Tesseract worker for one language; pages are recognised one at a time
+export function createOcrEngine(language: string): OcrEngine {
+  const worker = new Worker(new URL('../workers/ocr.worker.js', import.meta.url));
+  let nextId = 0;
+
+  const recognize = (canvas: HTMLCanvasElement, onProgress?: (progress: number) => void) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Failed to get canvas context'));
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const id = nextId++;
+
+    return new Promise<OcrPageResult>((resolve, reject) => {
+      const handleMessage = (e: MessageEvent<WorkerMessage>) => {
+        if (e.data.id !== id) return;
+        if (e.data.type === 'progress') {
+          onProgress?.(e.data.progress);
+          return;
+        }
+        worker.removeEventListener('message', handleMessage);
+        if (e.data.type === 'result') resolve(e.data.result);
+        else reject(new Error(e.data.error));
+      };
+      worker.addEventListener('message', handleMessage);
+      worker.postMessage(
+        { id, language, image: { data, width, height } },
+        [data.buffer]
+      );
+    });
+  };
+
+  return {
+    recognize,
+    terminate: () => worker.terminate(),
+  };
+}
+
+const toPdfPoint = (viewport: { convertToPdfPoint: (x: number, y: number) => number[] }, x: number, y: number) => {
+  const [px, py] = viewport.convertToPdfPoint(x, y);
+  return { x: px, y: py };
+};
+
+// Write recognised words as invisible (render mode 3) text positioned over
+// their image so the page becomes searchable and selectable. `toPdf` maps
+// OCR pixel coordinates into the page's user space.
+export function addInvisibleTextLayer(
+  page: PDFPage,
+  font: PDFFont,
+  words: OcrWord[],
+  toPdf: (x: number, y: number) => { x: number; y: number }
+) {
+  const fontKey = page.node.newFontDictionary(font.name, font.ref);
+
+  for (const word of words) {
+    // Characters the font can't encode are dropped rather than marked
+    const text = replaceUnencodable(font, word.text, '');
+    if (!text) continue;
+
+    const { x0, y0, x1, y1 } = word.bbox;
+    const origin = toPdf(x0, y1);
+    const baselineEnd = toPdf(x1, y1);
+    const top = toPdf(x0, y0);
+
+    const width = Math.hypot(baselineEnd.x - origin.x, baselineEnd.y - origin.y);
+    const height = Math.hypot(top.x - origin.x, top.y - origin.y);
+    if (width <= 0 || height <= 0) continue;
+
+    const angle = Math.atan2(baselineEnd.y - origin.y, baselineEnd.x - origin.x);
+    const naturalWidth = font.widthOfTextAtSize(text, height);
+    const squeeze = naturalWidth > 0 ? (width / naturalWidth) * 100 : 100;
+
+    page.pushOperators(
+      pushGraphicsState(),
+      beginText(),
+      setFontAndSize(fontKey, height),
+      setTextRenderingMode(TextRenderingMode.Invisible),
+      setCharacterSqueeze(squeeze),
+      setTextMatrix(Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), origin.x, origin.y),
+      showText(font.encodeText(text)),
+      endText(),
+      popGraphicsState(),
+    );
+  }
+}
+
+// Rasterize each page with pdf.js, OCR it and overlay the text on the original page
+export async function ocrPDF(
+  data: ArrayBuffer,
+  language: string,
+  onProgress?: (progress: OcrProgress) => void
+): Promise<OcrOutput> {
+  const pdfDoc = await PDFDocument.load(data.slice(0));
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(data.slice(0)), verbosity: 0 }).promise;
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const engine = createOcrEngine(language);
+  const report: OcrPageReport[] = [];
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      onProgress?.({ page: i, total: pdf.numPages, progress: 0 });
+
+      const page = await pdf.getPage(i);
+      const base = page.getViewport({ scale: 1 });
+      const scale = Math.min(OCR_DPI / 72, MAX_OCR_DIMENSION / Math.max(base.width, base.height));
+      const viewport = page.getViewport({ scale });
+      const canvas = await renderPageToCanvas(page, scale);
+
+      const result = await engine.recognize(canvas, progress =>
+        onProgress?.({ page: i, total: pdf.numPages, progress })
+      );
+      page.cleanup();
+
+      addInvisibleTextLayer(pdfDoc.getPage(i - 1), font, result.words, (x, y) => toPdfPoint(viewport, x, y));
+      report.push({ page: i, confidence: result.confidence, wordCount: result.words.length });
+    }
+  } finally {
+    engine.terminate();
+    await pdf.destroy();
+  }
+
+  return { bytes: await pdfDoc.save(), report };
+}
+
+// Build a PDF from scanned images, one page per image, each with a text layer
+export async function ocrImagesToPDF(
+  images: Blob[],
+  language: string,
+  onProgress?: (progress: OcrProgress) => void
+): Promise<OcrOutput> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const engine = createOcrEngine(language);
+  const report: OcrPageReport[] = [];
+
+  try {
+    for (let i = 0; i < images.length; i++) {
+      onProgress?.({ page: i + 1, total: images.length, progress: 0 });
+
+      const bitmap = await createImageBitmap(images[i]);
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Failed to get canvas context');
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+
+      const jpegBytes = await new Promise<ArrayBuffer>((resolve, reject) => {
+        canvas.toBlob(
+          (b) => (b ? b.arrayBuffer().then(resolve, reject) : reject(new Error(`Failed to encode image ${i + 1}`))),
+          'image/jpeg',
+          0.9
+        );
+      });
+      const pdfImage = await pdfDoc.embedJpg(jpegBytes);
+
+      // One image pixel maps to one point at 72 DPI; scale down to fit A4 width
+      const pageScale = Math.min(1, 595.28 / canvas.width);
+      const pageWidth = canvas.width * pageScale;
+      const pageHeight = canvas.height * pageScale;
+      const page = pdfDoc.addPage([pageWidth, pageHeight]);
+      page.drawImage(pdfImage, { x: 0, y: 0, width: pageWidth, height: pageHeight });
+
+      const result = await engine.recognize(canvas, progress =>
+        onProgress?.({ page: i + 1, total: images.length, progress })
+      );
+
+      addInvisibleTextLayer(page, font, result.words, (x, y) => ({
+        x: x * pageScale,
+        y: pageHeight - y * pageScale,
+      }));
+      report.push({ page: i + 1, confidence: result.confidence, wordCount: result.words.length });
+    }
+  } finally {
+    engine.terminate();
+  }
+
+  return { bytes: await pdfDoc.save(), report };
+}
@@ -0,0 +1,144 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { validatePageRanges } from './pageRanges';
+
+// Rendering shared by the PDF to images worker and its main-thread fallback.
+// Nothing here touches the DOM, so it runs in both.
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string; mimeType: string }[] = [
+  { value: 'png', label: 'PNG', mimeType: 'image/png' },
+  { value: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg' },
+  { value: 'webp', label: 'WebP', mimeType: 'image/webp' },
+];
+
+export const MIN_IMAGE_DPI = 72;
+export const MAX_IMAGE_DPI = 600;
+
+export interface ImageExportOptions {
+  dpi: number;
+  format: ImageFormat;
+  // 0-1, for JPEG and WebP
+  quality: number;
+  // Page selection such as "1-3, 7"; empty for every page
+  pages: string;
+  // Keep the page background transparent (not available for JPEG)
+  transparent: boolean;
+  grayscale: boolean;
+}
+
+export interface RenderedPageImage {
+  pageNumber: number;
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export type ImageWorkerRequest = {
+  data: ArrayBuffer;
+  options: ImageExportOptions;
+};
+
+export type ImageWorkerMessage =
+  | { type: 'start'; total: number }
+  | { type: 'page'; image: RenderedPageImage }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Mime type to file extension, following what the browser actually encoded.
+// Browsers without a WebP encoder fall back to PNG.
+export const getImageExtension = (blob: Blob) => (
+  blob.type === 'image/jpeg' ? 'jpg' : blob.type === 'image/webp' ? 'webp' : 'png'
+);
+
+// One-based page numbers for a selection, in document order. Ranges that
+// can't be used fail the export rather than being skipped silently.
+export const getSelectedPages = (selection: string, pageCount: number) => {
+  if (!selection.trim()) return Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  const { ranges, rejected } = validatePageRanges(selection, pageCount);
+  if (rejected.length > 0) {
+    throw new Error(`Page range "${rejected[0].input}" can't be used: ${rejected[0].reason}`);
+  }
+  const pages = new Set<number>();
+  for (const range of ranges) {
+    for (let i = range.start; i < range.end; i++) pages.add(i + 1);
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+// Luminance-weighted grayscale, keeping alpha
+const applyGrayscale = (context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, width: number, height: number) => {
+  const imageData = context.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+    data[i] = data[i + 1] = data[i + 2] = gray;
+  }
+  context.putImageData(imageData, 0, 0);
+};
+
+const encodeCanvas = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+};
+
+// Render one page at the requested DPI and encode it. The canvas is reused
+// between pages.
+export async function renderPageImage(page: PDFPageProxy, options: ImageExportOptions, canvas: AnyCanvas): Promise<RenderedPageImage> {
+  const viewport = page.getViewport({ scale: options.dpi / 72 });
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new Error(`Failed to get 2D context for page ${page.pageNumber}`);
+  context.clearRect(0, 0, canvas.width, canvas.height);
+
+  const transparent = options.transparent && options.format !== 'jpeg';
+  await page.render({
+    // pdf.js draws onto offscreen canvases the same way
+    canvasContext: context as CanvasRenderingContext2D,
+    viewport,
+    background: transparent ? 'rgba(0, 0, 0, 0)' : 'white',
+  }).promise;
+
+  if (options.grayscale) applyGrayscale(context, canvas.width, canvas.height);
+
+  const mimeType = IMAGE_FORMATS.find(format => format.value === options.format)?.mimeType ?? 'image/png';
+  return {
+    pageNumber: page.pageNumber,
+    blob: await encodeCanvas(canvas, mimeType, options.quality),
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
+
+// Render the selected pages of an open document, reporting each page as it
+// is done
+export async function renderSelectedPages(
+  pdf: PDFDocumentProxy,
+  options: ImageExportOptions,
+  canvas: AnyCanvas,
+  post: (message: ImageWorkerMessage) => void
+): Promise<void> {
+  const pages = getSelectedPages(options.pages, pdf.numPages);
+  post({ type: 'start', total: pages.length });
+
+  for (const pageNumber of pages) {
+    const page = await pdf.getPage(pageNumber);
+    try {
+      post({ type: 'page', image: await renderPageImage(page, options, canvas) });
+    } finally {
+      page.cleanup();
+    }
+  }
+
+  // Release the last page's pixels
+  canvas.width = 0;
+  canvas.height = 0;
+  post({ type: 'done' });
+}
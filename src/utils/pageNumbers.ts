@@ -0,0 +1,86 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { canEncodeText, drawMarginText, type MarginTextStyle } from './pageStamp';
+
+export interface PageNumberOptions extends MarginTextStyle {
+  mode: 'page' | 'bates';
+  // Template for page mode; {n} is the page number and {total} the last number
+  format: string;
+  batesPrefix: string;
+  batesSuffix: string;
+  batesDigits: number;
+  startAt: number;
+  // The first page of each file is left unnumbered and not counted
+  skipFirstPage: boolean;
+  // Keep counting from one file into the next instead of restarting
+  continueAcrossFiles: boolean;
+  font: StandardFonts;
+}
+
+export interface NumberedDocument {
+  bytes: Uint8Array;
+  // Labels on the first and last numbered page, null when nothing was numbered
+  firstLabel: string | null;
+  lastLabel: string | null;
+}
+
+export const PAGE_NUMBER_FORMATS = ['{n}', 'Page {n}', 'Page {n} of {total}', '{n} / {total}', '- {n} -'];
+
+export const formatBatesNumber = (value: number, options: Pick<PageNumberOptions, 'batesPrefix' | 'batesSuffix' | 'batesDigits'>) =>
+  `${options.batesPrefix}${String(value).padStart(options.batesDigits, '0')}${options.batesSuffix}`;
+
+// Names for the numbered files in a ZIP. Inputs from different folders can
+// share a name, so later ones get a " (2)" suffix instead of overwriting.
+export const getNumberedFileNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map(name => {
+    const dot = name.lastIndexOf('.');
+    const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    let unique = name;
+    for (let copy = 2; used.has(unique.toLowerCase()); copy++) unique = `${base} (${copy})${extension}`;
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+};
+
+const formatLabel = (value: number, total: number, options: PageNumberOptions) =>
+  options.mode === 'bates'
+    ? formatBatesNumber(value, options)
+    : options.format.replace(/\{n\}/g, String(value)).replace(/\{total\}/g, String(total));
+
+// Number the pages of one or more PDFs in order. With continueAcrossFiles the
+// batch is treated as one production, as Bates numbering requires.
+export async function addPageNumbers(documents: ArrayBuffer[], options: PageNumberOptions): Promise<NumberedDocument[]> {
+  const pdfDocs = await Promise.all(documents.map(data => PDFDocument.load(data)));
+  const numberedPages = (pdfDoc: PDFDocument) => Math.max(0, pdfDoc.getPageCount() - (options.skipFirstPage ? 1 : 0));
+  const batchTotal = pdfDocs.reduce((sum, pdfDoc) => sum + numberedPages(pdfDoc), 0);
+
+  const results: NumberedDocument[] = [];
+  let counter = options.startAt;
+
+  for (const pdfDoc of pdfDocs) {
+    if (!options.continueAcrossFiles) counter = options.startAt;
+    const total = options.startAt - 1 + (options.continueAcrossFiles ? batchTotal : numberedPages(pdfDoc));
+    const font = await pdfDoc.embedFont(options.font);
+
+    let firstLabel: string | null = null;
+    let lastLabel: string | null = null;
+
+    pdfDoc.getPages().forEach((page, index) => {
+      if (options.skipFirstPage && index === 0) return;
+
+      const label = formatLabel(counter, total, options);
+      if (!canEncodeText(font, label)) {
+        throw new Error('The numbering text contains characters the selected font cannot display');
+      }
+      drawMarginText(page, font, label, options);
+
+      if (firstLabel === null) firstLabel = label;
+      lastLabel = label;
+      counter++;
+    });
+
+    results.push({ bytes: await pdfDoc.save(), firstLabel, lastLabel });
+  }
+
+  return results;
+}
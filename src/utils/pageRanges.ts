@@ -0,0 +1,66 @@
+export interface PageRange {
+  // Zero-based first page
+  start: number;
+  // Exclusive end, so `end - start` is the number of pages
+  end: number;
+}
+
+export interface RejectedRange {
+  // The range as typed
+  input: string;
+  reason: string;
+}
+
+export interface PageRangeValidation {
+  ranges: PageRange[];
+  rejected: RejectedRange[];
+}
+
+// Parse a selection like "1-3, 4, 5-7" into zero-based ranges, reporting
+// each part that can't be used and why
+export function validatePageRanges(input: string, pageCount: number): PageRangeValidation {
+  const ranges: PageRange[] = [];
+  const rejected: RejectedRange[] = [];
+
+  for (const part of input.split(',').map(range => range.trim()).filter(range => range.length > 0)) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) {
+      rejected.push({ input: part, reason: 'not a page number or range' });
+      continue;
+    }
+
+    const first = parseInt(match[1], 10);
+    const last = match[2] === undefined ? first : parseInt(match[2], 10);
+    if (first < 1 || last < 1) {
+      rejected.push({ input: part, reason: 'pages are numbered from 1' });
+    } else if (first > last) {
+      rejected.push({ input: part, reason: 'the first page comes after the last' });
+    } else if (last > pageCount) {
+      rejected.push({ input: part, reason: `the document has ${pageCount} page${pageCount === 1 ? '' : 's'}` });
+    } else {
+      ranges.push({ start: first - 1, end: last });
+    }
+  }
+
+  return { ranges, rejected };
+}
+
+// Parse a selection like "1-3, 4, 5-7" into zero-based ranges. Ranges that
+// can't be used are dropped.
+export function parsePageRanges(input: string, pageCount: number): PageRange[] {
+  return validatePageRanges(input, pageCount).ranges;
+}
+
+// Zero-based page indices covered by a selection, in document order. An empty
+// selection means every page.
+export function parsePageSelection(input: string, pageCount: number): number[] {
+  if (!input.trim()) {
+    return Array.from({ length: pageCount }, (_, i) => i);
+  }
+
+  const indices = new Set<number>();
+  for (const range of parsePageRanges(input, pageCount)) {
+    for (let i = range.start; i < range.end; i++) indices.add(i);
+  }
+  return Array.from(indices).sort((a, b) => a - b);
+}
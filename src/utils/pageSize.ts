@@ -0,0 +1,306 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PageSizes, type PDFPage } from 'pdf-lib';
+import { pdfjsLib } from './pdfjs';
+import { parsePageSelection } from './pageRanges';
+import { renderPagePreview, renderPageToCanvas, type PagePreview } from './pdfRender';
+import { getPageView, type Point } from './pageStamp';
+
+export type PageSizeMode = 'resize' | 'trim' | 'boxes';
+export type TargetPageSize = 'A4' | 'A3' | 'A5' | 'Letter' | 'Legal' | 'custom';
+
+export interface Margins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// A page box in PDF user space, in points
+export interface PageBox {
+  left: number;
+  bottom: number;
+  right: number;
+  top: number;
+}
+
+export interface PageSizeOptions {
+  mode: PageSizeMode;
+  targetSize: TargetPageSize;
+  // Custom target size in millimetres
+  customWidth: number;
+  customHeight: number;
+  // 'auto' keeps each page's own orientation
+  orientation: 'auto' | 'portrait' | 'landscape';
+  // fit scales the page to fit inside the target, fill to cover it (cropping
+  // the overflow) and center keeps the content at its original size
+  scaling: 'fit' | 'fill' | 'center';
+  // Fixed amounts to trim from each edge as displayed, in points
+  trim: Margins;
+  // Trim to the rendered content instead of by fixed amounts
+  autoTrim: boolean;
+  // Whitespace left around the detected content, in points
+  autoTrimPadding: number;
+  // Box values written as-is in boxes mode
+  box: PageBox;
+  applyToBox: 'crop' | 'media' | 'both';
+}
+
+export interface PageBoxInfo {
+  mediaBox: PageBox;
+  cropBox: PageBox;
+  rotation: number;
+}
+
+export const TARGET_PAGE_SIZES: TargetPageSize[] = ['A4', 'A3', 'A5', 'Letter', 'Legal', 'custom'];
+
+const MM_TO_POINTS = 72 / 25.4;
+
+// Rendered pixels lighter than this on every channel count as whitespace
+const WHITE_THRESHOLD = 245;
+
+export const formatPageDimensions = ({ width, height }: { width: number; height: number }) => (
+  `${Math.round(width / MM_TO_POINTS)} × ${Math.round(height / MM_TO_POINTS)} mm`
+);
+
+export const formatPageBox = (box: PageBox) => (
+  [box.left, box.bottom, box.right, box.top].map(value => Math.round(value * 100) / 100).join(' ')
+);
+
+const toPageBox = ({ x, y, width, height }: { x: number; y: number; width: number; height: number }): PageBox => ({
+  left: x,
+  bottom: y,
+  right: x + width,
+  top: y + height,
+});
+
+const setBox = (page: PDFPage, name: 'crop' | 'media', box: PageBox) => {
+  const width = box.right - box.left;
+  const height = box.top - box.bottom;
+  if (width <= 0 || height <= 0) throw new Error('The new page box has no area');
+  if (name === 'crop') page.setCropBox(box.left, box.bottom, width, height);
+  else page.setMediaBox(box.left, box.bottom, width, height);
+};
+
+// Bounding box of view-space points in user space
+const userSpaceBox = (page: PDFPage, corners: Point[]): PageBox => {
+  const view = getPageView(page);
+  const points = corners.map(view.toUserSpace);
+  return {
+    left: Math.min(...points.map(point => point.x)),
+    bottom: Math.min(...points.map(point => point.y)),
+    right: Math.max(...points.map(point => point.x)),
+    top: Math.max(...points.map(point => point.y)),
+  };
+};
+
+// Move every coordinate pair in a page dictionary array through x' = sx + tx,
+// y' = sy + ty
+const transformPointArray = (array: PDFArray, scale: number, tx: number, ty: number) => {
+  for (let i = 0; i + 1 < array.size(); i += 2) {
+    const x = array.lookup(i);
+    const y = array.lookup(i + 1);
+    if (!(x instanceof PDFNumber) || !(y instanceof PDFNumber)) continue;
+    array.set(i, PDFNumber.of(x.asNumber() * scale + tx));
+    array.set(i + 1, PDFNumber.of(y.asNumber() * scale + ty));
+  }
+};
+
+// Keep annotations and the remaining page boxes where the content moved to
+const transformPageExtras = (page: PDFPage, scale: number, tx: number, ty: number) => {
+  for (const name of ['BleedBox', 'TrimBox', 'ArtBox']) {
+    const box = page.node.lookupMaybe(PDFName.of(name), PDFArray);
+    if (box) transformPointArray(box, scale, tx, ty);
+  }
+
+  const annots = page.node.Annots();
+  for (let i = 0; i < (annots?.size() ?? 0); i++) {
+    const annot = annots!.lookup(i);
+    if (!(annot instanceof PDFDict)) continue;
+    for (const name of ['Rect', 'QuadPoints', 'Vertices', 'L', 'CL']) {
+      const points = annot.lookupMaybe(PDFName.of(name), PDFArray);
+      if (points) transformPointArray(points, scale, tx, ty);
+    }
+    const inkList = annot.lookupMaybe(PDFName.of('InkList'), PDFArray);
+    for (let j = 0; j < (inkList?.size() ?? 0); j++) {
+      const stroke = inkList!.lookup(j);
+      if (stroke instanceof PDFArray) transformPointArray(stroke, scale, tx, ty);
+    }
+    // RD holds distances rather than positions
+    const differences = annot.lookupMaybe(PDFName.of('RD'), PDFArray);
+    if (differences) transformPointArray(differences, scale, 0, 0);
+  }
+};
+
+// Target size as displayed, turned to match the page in 'auto' orientation
+const getTargetSize = (page: PDFPage, options: PageSizeOptions) => {
+  const [a, b] = options.targetSize === 'custom'
+    ? [options.customWidth * MM_TO_POINTS, options.customHeight * MM_TO_POINTS]
+    : PageSizes[options.targetSize];
+  if (!(a > 0) || !(b > 0)) throw new Error('Please enter a page size greater than zero');
+
+  const view = getPageView(page);
+  const landscape = options.orientation === 'auto' ? view.width > view.height : options.orientation === 'landscape';
+  return landscape ? { width: Math.max(a, b), height: Math.min(a, b) } : { width: Math.min(a, b), height: Math.max(a, b) };
+};
+
+// Scale and center the visible page onto a new page of the target size. The
+// rotation is kept, so the target is turned back into unrotated user space.
+const resizePage = (page: PDFPage, options: PageSizeOptions) => {
+  const target = getTargetSize(page, options);
+  const { x, y, width, height } = page.getCropBox();
+  const turned = getPageView(page).rotation % 180 !== 0;
+  const newWidth = turned ? target.height : target.width;
+  const newHeight = turned ? target.width : target.height;
+
+  const scale = options.scaling === 'center' ? 1
+    : options.scaling === 'fill' ? Math.max(newWidth / width, newHeight / height)
+    : Math.min(newWidth / width, newHeight / height);
+  const tx = (newWidth - width * scale) / 2 - x * scale;
+  const ty = (newHeight - height * scale) / 2 - y * scale;
+
+  // pdf-lib wraps the content once per call, so the translation applies after the scale
+  if (scale !== 1) page.scaleContent(scale, scale);
+  page.translateContent(tx, ty);
+  transformPageExtras(page, scale, tx, ty);
+  page.setMediaBox(0, 0, newWidth, newHeight);
+  page.setCropBox(0, 0, newWidth, newHeight);
+};
+
+// Trim the given amounts from the edges of the page as displayed
+const trimPage = (page: PDFPage, trim: Margins) => {
+  const view = getPageView(page);
+  setBox(page, 'crop', userSpaceBox(page, [
+    { x: trim.left, y: trim.bottom },
+    { x: view.width - trim.right, y: view.height - trim.top },
+  ]));
+};
+
+// Whitespace around the rendered content of each page, as displayed and in
+// points. Blank pages have no entry.
+async function detectWhitespace(data: ArrayBuffer, pageIndices: number[]): Promise<Map<number, Margins>> {
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  const margins = new Map<number, Margins>();
+
+  try {
+    for (const index of pageIndices) {
+      const page = await pdf.getPage(index + 1);
+      // One pixel per point is precise enough for margins
+      const canvas = await renderPageToCanvas(page, 1);
+      const { width, height } = canvas;
+      const pixels = canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+      page.cleanup();
+
+      let [left, top, right, bottom] = [width, height, -1, -1];
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = (y * width + x) * 4;
+          const ink = pixels[i + 3] > 0 &&
+            (pixels[i] < WHITE_THRESHOLD || pixels[i + 1] < WHITE_THRESHOLD || pixels[i + 2] < WHITE_THRESHOLD);
+          if (!ink) continue;
+          left = Math.min(left, x);
+          right = Math.max(right, x);
+          top = Math.min(top, y);
+          bottom = Math.max(bottom, y);
+        }
+      }
+      canvas.width = 0;
+      canvas.height = 0;
+
+      if (right < 0) continue;
+      margins.set(index, { top, left, right: width - right - 1, bottom: height - bottom - 1 });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return margins;
+}
+
+const autoTrimMargins = (whitespace: Margins, padding: number): Margins => ({
+  top: Math.max(0, whitespace.top - padding),
+  right: Math.max(0, whitespace.right - padding),
+  bottom: Math.max(0, whitespace.bottom - padding),
+  left: Math.max(0, whitespace.left - padding),
+});
+
+const applyPageSize = (page: PDFPage, options: PageSizeOptions, whitespace?: Margins) => {
+  if (options.mode === 'resize') {
+    resizePage(page, options);
+  } else if (options.mode === 'trim') {
+    if (!options.autoTrim) trimPage(page, options.trim);
+    else if (whitespace) trimPage(page, autoTrimMargins(whitespace, options.autoTrimPadding));
+  } else {
+    if (options.applyToBox !== 'crop') setBox(page, 'media', options.box);
+    if (options.applyToBox !== 'media') setBox(page, 'crop', options.box);
+  }
+};
+
+// Resize, trim or set the boxes of the selected pages; an empty selection
+// means all pages
+export async function changePageSizes(data: ArrayBuffer, options: PageSizeOptions, pageSelection: string): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data);
+  const pageIndices = parsePageSelection(pageSelection, pdfDoc.getPageCount());
+  if (pageIndices.length === 0) throw new Error('The page selection does not match any pages');
+
+  const whitespace = options.mode === 'trim' && options.autoTrim
+    ? await detectWhitespace(data.slice(0), pageIndices)
+    : new Map<number, Margins>();
+  pageIndices.forEach(index => applyPageSize(pdfDoc.getPage(index), options, whitespace.get(index)));
+  return pdfDoc.save();
+}
+
+// Media and crop boxes of every page, for showing and prefilling the box values
+export async function readPageBoxes(data: ArrayBuffer): Promise<PageBoxInfo[]> {
+  const pdfDoc = await PDFDocument.load(data);
+  return pdfDoc.getPages().map(page => ({
+    mediaBox: toPageBox(page.getMediaBox()),
+    cropBox: toPageBox(page.getCropBox()),
+    rotation: getPageView(page).rotation,
+  }));
+}
+
+export interface PageSizePreview {
+  before: PagePreview;
+  after: PagePreview;
+  // Displayed sizes in points
+  beforeSize: { width: number; height: number };
+  afterSize: { width: number; height: number };
+}
+
+// Render one page before and after the change. Pages outside the selection
+// are shown unchanged.
+export async function renderPageSizePreview(
+  data: ArrayBuffer,
+  options: PageSizeOptions,
+  pageSelection: string,
+  pageNumber: number,
+  maxWidth = 300
+): Promise<PageSizePreview> {
+  const source = await PDFDocument.load(data);
+  const pageIndex = Math.min(Math.max(pageNumber, 1), source.getPageCount()) - 1;
+  const selected = parsePageSelection(pageSelection, source.getPageCount()).includes(pageIndex);
+
+  const previewDoc = await PDFDocument.create();
+  const [page] = await previewDoc.copyPages(source, [pageIndex]);
+  previewDoc.addPage(page);
+  const beforeView = getPageView(page);
+  const beforeSize = { width: beforeView.width, height: beforeView.height };
+
+  if (selected) {
+    const whitespace = options.mode === 'trim' && options.autoTrim
+      ? (await detectWhitespace(data.slice(0), [pageIndex])).get(pageIndex)
+      : undefined;
+    applyPageSize(page, options, whitespace);
+  }
+  const afterView = getPageView(page);
+
+  const [before, after] = await Promise.all([
+    renderPagePreview(data.slice(0), pageIndex + 1, maxWidth),
+    renderPagePreview(await previewDoc.save(), 1, maxWidth),
+  ]);
+  return {
+    before,
+    after: { ...after, pageNumber: before.pageNumber, pageCount: before.pageCount },
+    beforeSize,
+    afterSize: { width: afterView.width, height: afterView.height },
+  };
+}
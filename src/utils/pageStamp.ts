@@ -0,0 +1,134 @@
+import { PDFFont, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+
+// Shared helpers for drawing marks (watermarks, page numbers, headers) onto existing pages
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const STAMP_FONTS = [
+  { value: StandardFonts.Helvetica, label: 'Helvetica' },
+  { value: StandardFonts.HelveticaBold, label: 'Helvetica Bold' },
+  { value: StandardFonts.TimesRoman, label: 'Times' },
+  { value: StandardFonts.TimesRomanBold, label: 'Times Bold' },
+  { value: StandardFonts.Courier, label: 'Courier' },
+  { value: StandardFonts.CourierBold, label: 'Courier Bold' },
+];
+
+export type MarginPosition =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export const MARGIN_POSITIONS: MarginPosition[] = [
+  'top-left', 'top-center', 'top-right',
+  'bottom-left', 'bottom-center', 'bottom-right',
+];
+
+export interface MarginTextStyle {
+  position: MarginPosition;
+  // Distance from the page edge in points
+  margin: number;
+  // Distance from the left and right edges when it differs from margin
+  sideMargin?: number;
+  fontSize: number;
+  // Hex color such as #000000
+  color: string;
+}
+
+export const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+};
+
+const charsets = new WeakMap<PDFFont, Set<number>>();
+
+const getCharset = (font: PDFFont) => {
+  let charset = charsets.get(font);
+  if (!charset) {
+    charset = new Set(font.getCharacterSet());
+    charsets.set(font, charset);
+  }
+  return charset;
+};
+
+// Standard fonts use WinAnsi encoding and throw on anything outside it
+export const canEncodeText = (font: PDFFont, text: string) => {
+  const charset = getCharset(font);
+  return Array.from(text).every(char => charset.has(char.codePointAt(0)!));
+};
+
+// Swap characters the font can't encode for `replacement`. Line breaks are
+// kept for callers that split text into lines.
+export const replaceUnencodable = (font: PDFFont, text: string, replacement = '?') => {
+  const charset = getCharset(font);
+  return Array.from(text)
+    .map(char => (char === '\n' || charset.has(char.codePointAt(0)!) ? char : replacement))
+    .join('');
+};
+
+export const rotatePoint = ({ x, y }: Point, angle: number): Point => {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    x: x * Math.cos(radians) - y * Math.sin(radians),
+    y: x * Math.sin(radians) + y * Math.cos(radians),
+  };
+};
+
+// Pages can carry a /Rotate entry. Work in the orientation the reader sees and
+// map back to user space so marks always appear upright.
+export const getPageView = (page: PDFPage) => {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const swapped = rotation === 90 || rotation === 270;
+
+  const toUserSpace = ({ x: vx, y: vy }: Point): Point => {
+    switch (rotation) {
+      case 90: return { x: x + width - vy, y: y + vx };
+      case 180: return { x: x + width - vx, y: y + height - vy };
+      case 270: return { x: x + vy, y: y + height - vx };
+      default: return { x: x + vx, y: y + vy };
+    }
+  };
+
+  const fromUserSpace = ({ x: ux, y: uy }: Point): Point => {
+    switch (rotation) {
+      case 90: return { x: uy - y, y: x + width - ux };
+      case 180: return { x: x + width - ux, y: y + height - uy };
+      case 270: return { x: y + height - uy, y: ux - x };
+      default: return { x: ux - x, y: uy - y };
+    }
+  };
+
+  return {
+    width: swapped ? height : width,
+    height: swapped ? width : height,
+    rotation,
+    toUserSpace,
+    fromUserSpace,
+  };
+};
+
+// Draw a single line of text in a page corner or along the top/bottom margin
+export function drawMarginText(page: PDFPage, font: PDFFont, text: string, style: MarginTextStyle) {
+  const view = getPageView(page);
+  const [vertical, horizontal] = style.position.split('-');
+  const width = font.widthOfTextAtSize(text, style.fontSize);
+  const height = font.heightAtSize(style.fontSize, { descender: false });
+
+  const sideMargin = style.sideMargin ?? style.margin;
+  const x = horizontal === 'left' ? sideMargin
+    : horizontal === 'right' ? view.width - sideMargin - width
+    : (view.width - width) / 2;
+  const y = vertical === 'top' ? view.height - style.margin - height : style.margin;
+  const origin = view.toUserSpace({ x, y });
+
+  page.drawText(text, {
+    x: origin.x,
+    y: origin.y,
+    size: style.fontSize,
+    font,
+    color: hexToRgb(style.color),
+    rotate: degrees(view.rotation),
+  });
+}
@@ -0,0 +1,369 @@
+import {
+  PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef, PDFString, StandardFonts,
+  type PDFFont, type PDFObject, type PDFPage,
+} from 'pdf-lib';
+import { canEncodeText, getPageView, hexToRgb, type Point } from './pageStamp';
+import type { PageArea } from './pdfCompare';
+
+// Markup annotations (the comments reviewers leave) read from and written back
+// to a PDF. Positions are fractions (0-1) of the page as displayed, measured
+// from the top-left corner, like redaction areas.
+
+export type AnnotationTool = 'highlight' | 'note' | 'square' | 'circle' | 'line' | 'ink' | 'freetext';
+
+export const ANNOTATION_TOOLS: { value: AnnotationTool; label: string; subtype: string }[] = [
+  { value: 'highlight', label: 'Highlight', subtype: 'Highlight' },
+  { value: 'note', label: 'Sticky note', subtype: 'Text' },
+  { value: 'square', label: 'Rectangle', subtype: 'Square' },
+  { value: 'circle', label: 'Ellipse', subtype: 'Circle' },
+  { value: 'line', label: 'Line', subtype: 'Line' },
+  { value: 'ink', label: 'Freehand', subtype: 'Ink' },
+  { value: 'freetext', label: 'Text box', subtype: 'FreeText' },
+];
+
+export const ANNOTATION_COLORS = ['#facc15', '#ef4444', '#22c55e', '#3b82f6', '#111827'];
+
+// An annotation added in the editor and not yet saved
+export interface AnnotationDraft extends PageArea {
+  id: string;
+  tool: AnnotationTool;
+  // Zero-based page index
+  page: number;
+  // Line end points or freehand strokes; empty for the other tools. Notes are
+  // pinned at (x, y) and have no size.
+  strokes: Point[][];
+  // Hex color such as #facc15
+  color: string;
+  // Border width in points for shapes, lines and ink
+  strokeWidth: number;
+  // The comment, or the text shown by a text box
+  contents: string;
+  fontSize: number;
+}
+
+// An annotation already in the document
+export interface ExistingAnnotation {
+  id: string;
+  page: number;
+  subtype: string;
+  author: string;
+  modified?: Date;
+  contents: string;
+  area: PageArea;
+}
+
+export const createAnnotationId = () => `annotation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const getAnnotationLabel = (subtype: string) => (
+  ANNOTATION_TOOLS.find(tool => tool.subtype === subtype)?.label ?? subtype
+);
+
+// Links, form widgets and popups are not comments
+const IGNORED_SUBTYPES = ['Link', 'Widget', 'Popup'];
+
+// Annotations are identified by their object number, or by position when
+// they are stored directly in the page's /Annots array
+const getAnnotationId = (entry: unknown, pageIndex: number, index: number) => (
+  entry instanceof PDFRef ? `${entry.objectNumber}-${entry.generationNumber}` : `${pageIndex}:${index}`
+);
+
+const readText = (dict: PDFDict, key: string) => (
+  dict.lookupMaybe(PDFName.of(key), PDFString, PDFHexString)?.decodeText() ?? ''
+);
+
+const readDate = (dict: PDFDict, key: string) => {
+  try {
+    return dict.lookupMaybe(PDFName.of(key), PDFString, PDFHexString)?.decodeDate();
+  } catch {
+    // Plenty of writers produce dates that don't follow the spec
+    return undefined;
+  }
+};
+
+const readRect = (dict: PDFDict) => {
+  const rect = dict.lookupMaybe(PDFName.of('Rect'), PDFArray);
+  if (!rect || rect.size() !== 4) return undefined;
+  const values = rect.asArray().map(value => (value instanceof PDFNumber ? value.asNumber() : 0));
+  return [
+    { x: Math.min(values[0], values[2]), y: Math.min(values[1], values[3]) },
+    { x: Math.max(values[0], values[2]), y: Math.max(values[1], values[3]) },
+  ];
+};
+
+// The area a user-space rectangle covers on the page as displayed
+const toPageArea = (page: PDFPage, corners: Point[]): PageArea => {
+  const view = getPageView(page);
+  const points = corners.map(corner => view.fromUserSpace(corner));
+  const xs = points.map(point => point.x / view.width);
+  const ys = points.map(point => 1 - point.y / view.height);
+  return {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+};
+
+export async function readAnnotations(data: ArrayBuffer): Promise<ExistingAnnotation[]> {
+  const pdfDoc = await PDFDocument.load(data);
+  return pdfDoc.getPages().flatMap((page, pageIndex) => {
+    const annots = page.node.Annots()?.asArray() ?? [];
+    return annots.flatMap((entry, index) => {
+      const dict = pdfDoc.context.lookupMaybe(entry, PDFDict);
+      const subtype = dict?.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+      const rect = dict && readRect(dict);
+      if (!dict || !subtype || !rect || IGNORED_SUBTYPES.includes(subtype)) return [];
+      return [{
+        id: getAnnotationId(entry, pageIndex, index),
+        page: pageIndex,
+        subtype,
+        author: readText(dict, 'T'),
+        modified: readDate(dict, 'M') ?? readDate(dict, 'CreationDate'),
+        contents: readText(dict, 'Contents'),
+        area: toPageArea(page, [rect[0], { x: rect[0].x, y: rect[1].y }, rect[1], { x: rect[1].x, y: rect[0].y }]),
+      }];
+    });
+  });
+}
+
+// Content stream operands, without exponents or long fractions
+const num = (value: number) => Number(value.toFixed(3)).toString();
+const pt = ({ x, y }: Point) => `${num(x)} ${num(y)}`;
+
+const getColorComponents = (hex: string) => {
+  const { red, green, blue } = hexToRgb(hex);
+  return [red, green, blue];
+};
+
+const boundingRect = (points: Point[], padding = 0) => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return [Math.min(...xs) - padding, Math.min(...ys) - padding, Math.max(...xs) + padding, Math.max(...ys) + padding];
+};
+
+// Greedy word wrap; words longer than the width get a line of their own
+const wrapText = (text: string, font: PDFFont, fontSize: number, maxWidth: number) => text.split('\n').flatMap(paragraph => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of paragraph.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, fontSize) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  return [...lines, line];
+});
+
+// Four cubic Béziers approximating an ellipse inside a rectangle
+const ellipsePath = (left: number, bottom: number, right: number, top: number) => {
+  const k = 0.5523;
+  const cx = (left + right) / 2;
+  const cy = (bottom + top) / 2;
+  const rx = (right - left) / 2;
+  const ry = (top - bottom) / 2;
+  return [
+    `${num(cx + rx)} ${num(cy)} m`,
+    `${num(cx + rx)} ${num(cy + ry * k)} ${num(cx + rx * k)} ${num(cy + ry)} ${num(cx)} ${num(cy + ry)} c`,
+    `${num(cx - rx * k)} ${num(cy + ry)} ${num(cx - rx)} ${num(cy + ry * k)} ${num(cx - rx)} ${num(cy)} c`,
+    `${num(cx - rx)} ${num(cy - ry * k)} ${num(cx - rx * k)} ${num(cy - ry)} ${num(cx)} ${num(cy - ry)} c`,
+    `${num(cx + rx * k)} ${num(cy - ry)} ${num(cx + rx)} ${num(cy - ry * k)} ${num(cx + rx)} ${num(cy)} c`,
+  ].join('\n');
+};
+
+interface AnnotationContext {
+  pdfDoc: PDFDocument;
+  page: PDFPage;
+  author: string;
+  date: Date;
+  // Embedded on first use by text boxes
+  getFont: () => Promise<PDFFont>;
+}
+
+// The appearance is drawn in user space: with the bounding box set to the
+// annotation's rectangle the form maps onto the page unchanged.
+const createAppearance = (pdfDoc: PDFDocument, rect: number[], content: string, resources?: PDFDict) => (
+  pdfDoc.context.register(pdfDoc.context.stream(content, {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: rect,
+    Resources: resources,
+  }))
+);
+
+async function createAnnotation(draft: AnnotationDraft, { pdfDoc, page, author, date, getFont }: AnnotationContext) {
+  const { context } = pdfDoc;
+  const view = getPageView(page);
+  const toUser = ({ x, y }: Point) => view.toUserSpace({ x: x * view.width, y: (1 - y) * view.height });
+  const corners = [
+    toUser({ x: draft.x, y: draft.y }),
+    toUser({ x: draft.x + draft.width, y: draft.y }),
+    toUser({ x: draft.x, y: draft.y + draft.height }),
+    toUser({ x: draft.x + draft.width, y: draft.y + draft.height }),
+  ];
+  const color = getColorComponents(draft.color);
+  const fill = `${color.map(num).join(' ')} rg`;
+  const stroke = `${color.map(num).join(' ')} RG`;
+  const width = draft.strokeWidth;
+  const strokes = draft.strokes.map(points => points.map(toUser));
+  // A `cm` operator for drawing upright in the orientation the reader sees,
+  // with the origin at the given user-space point
+  const base = view.toUserSpace({ x: 0, y: 0 });
+  const xAxis = view.toUserSpace({ x: 1, y: 0 });
+  const yAxis = view.toUserSpace({ x: 0, y: 1 });
+  const uprightAt = ({ x, y }: Point) => (
+    `${[xAxis.x - base.x, xAxis.y - base.y, yAxis.x - base.x, yAxis.y - base.y, x, y].map(num).join(' ')} cm`
+  );
+
+  let rect: number[];
+  let appearance: string;
+  let resources: PDFDict | undefined;
+  const entries: Record<string, PDFObject> = {};
+
+  switch (draft.tool) {
+    case 'highlight': {
+      // Multiply keeps the text underneath readable
+      const [topLeft, topRight, bottomLeft, bottomRight] = corners;
+      rect = boundingRect(corners);
+      entries.QuadPoints = context.obj(corners.flatMap(point => [point.x, point.y]));
+      resources = context.obj({ ExtGState: { GS0: { Type: 'ExtGState', BM: 'Multiply' } } });
+      appearance = `/GS0 gs ${fill}\n${pt(topLeft)} m ${pt(topRight)} l ${pt(bottomRight)} l ${pt(bottomLeft)} l h f`;
+      break;
+    }
+    case 'note': {
+      const { x, y } = corners[0];
+      rect = [x - 10, y - 10, x + 10, y + 10];
+      entries.Name = PDFName.of('Comment');
+      entries.Open = context.obj(false);
+      // A speech bubble with three lines of "text", centered on the point
+      appearance = [
+        `q ${uprightAt(corners[0])} ${fill} 0.25 G 1 w`,
+        '-9 -5 m -6 -5 l -6 -9 l -2 -5 l 9 -5 l 9 9 l -9 9 l h B',
+        ...[5, 2, -1].map(offset => `-6 ${offset} m 6 ${offset} l S`),
+        'Q',
+      ].join('\n');
+      break;
+    }
+    case 'square':
+    case 'circle': {
+      rect = boundingRect(corners);
+      const [left, bottom, right, top] = [rect[0] + width / 2, rect[1] + width / 2, rect[2] - width / 2, rect[3] - width / 2];
+      entries.BS = context.obj({ W: width });
+      appearance = draft.tool === 'square'
+        ? `${num(width)} w ${stroke}\n${num(left)} ${num(bottom)} ${num(right - left)} ${num(top - bottom)} re S`
+        : `${num(width)} w ${stroke}\n${ellipsePath(left, bottom, right, top)}\nS`;
+      break;
+    }
+    case 'line': {
+      const [start, end] = strokes[0];
+      rect = boundingRect([start, end], width + 2);
+      entries.L = context.obj([start.x, start.y, end.x, end.y]);
+      entries.BS = context.obj({ W: width });
+      appearance = `${num(width)} w 1 J ${stroke}\n${pt(start)} m ${pt(end)} l S`;
+      break;
+    }
+    case 'ink': {
+      rect = boundingRect(strokes.flat(), width + 2);
+      entries.InkList = context.obj(strokes.map(points => points.flatMap(point => [point.x, point.y])));
+      entries.BS = context.obj({ W: width });
+      appearance = [
+        `${num(width)} w 1 J 1 j ${stroke}`,
+        ...strokes.map(points => `${points.map((point, i) => `${pt(point)} ${i === 0 ? 'm' : 'l'}`).join(' ')} S`),
+      ].join('\n');
+      break;
+    }
+    case 'freetext': {
+      const font = await getFont();
+      if (!canEncodeText(font, draft.contents.replace(/\r?\n/g, ''))) {
+        throw new Error('Text boxes can only use characters the Helvetica font supports');
+      }
+      rect = boundingRect(corners);
+      entries.DA = PDFString.of(`/Helv ${num(draft.fontSize)} Tf ${fill}`);
+      entries.BS = context.obj({ W: 0 });
+      resources = context.obj({ Font: { Helv: font.ref } });
+
+      // Lay the text out in the box as displayed, then map that onto the page
+      const boxWidth = draft.width * view.width;
+      const boxHeight = draft.height * view.height;
+      const padding = 2;
+      const lineHeight = draft.fontSize * 1.2;
+      const lines = wrapText(draft.contents, font, draft.fontSize, boxWidth - padding * 2);
+      appearance = [
+        `q ${uprightAt(corners[2])}`,
+        `0 0 ${num(boxWidth)} ${num(boxHeight)} re W n`,
+        `BT /Helv ${num(draft.fontSize)} Tf ${fill}`,
+        ...lines.map((line, i) => (
+          `1 0 0 1 ${num(padding)} ${num(boxHeight - padding - draft.fontSize - i * lineHeight)} Tm ${font.encodeText(line).toString()} Tj`
+        )),
+        'ET Q',
+      ].join('\n');
+      break;
+    }
+  }
+
+  const subtype = ANNOTATION_TOOLS.find(tool => tool.value === draft.tool)!.subtype;
+  const annotation = context.obj({
+    Type: 'Annot',
+    Subtype: subtype,
+    Rect: rect,
+    // Print
+    F: 4,
+    P: page.ref,
+    NM: PDFHexString.fromText(draft.id),
+    T: PDFHexString.fromText(author),
+    Contents: PDFHexString.fromText(draft.contents),
+    M: PDFString.fromDate(date),
+    CreationDate: PDFString.fromDate(date),
+    C: color,
+    AP: { N: createAppearance(pdfDoc, rect, appearance, resources) },
+    ...entries,
+  });
+  page.node.addAnnot(context.register(annotation));
+}
+
+// Remove the annotations with the given ids and add the drafts, each with an
+// appearance stream so every reader shows them the same way
+export async function saveAnnotations(
+  data: ArrayBuffer,
+  drafts: AnnotationDraft[],
+  removedIds: string[],
+  author: string
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data);
+  const pages = pdfDoc.getPages();
+
+  if (removedIds.length > 0) {
+    pages.forEach((page, pageIndex) => {
+      const annots = page.node.Annots();
+      if (!annots) return;
+      const entries = annots.asArray();
+      // A removed comment takes its popup window with it
+      const removed = new Set<unknown>();
+      entries.forEach((entry, index) => {
+        if (!removedIds.includes(getAnnotationId(entry, pageIndex, index))) return;
+        removed.add(entry);
+        const popup = pdfDoc.context.lookupMaybe(entry, PDFDict)?.get(PDFName.of('Popup'));
+        if (popup) removed.add(popup);
+      });
+      if (removed.size === 0) return;
+      page.node.set(PDFName.of('Annots'), pdfDoc.context.obj(entries.filter(entry => !removed.has(entry))));
+    });
+  }
+
+  let font: PDFFont | undefined;
+  const getFont = async () => {
+    font ??= await pdfDoc.embedFont(StandardFonts.Helvetica);
+    return font;
+  };
+  const date = new Date();
+
+  for (const draft of drafts) {
+    const page = pages[draft.page];
+    if (!page) continue;
+    await createAnnotation(draft, { pdfDoc, page, author, date, getFont });
+  }
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,617 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  decodePDFRawStream,
+  type PDFObject,
+} from 'pdf-lib';
+import sanitizeFilename from 'sanitize-filename';
+import { hashStream } from './pdfObjects';
+
+// Pull embedded images, fonts and attachments out of a PDF as they are stored,
+// without rendering. JPEG and JPEG 2000 images keep their original bytes;
+// other raster images are decoded and written as lossless PNG.
+
+export interface ExtractedImage {
+  // Path inside the ZIP
+  fileName: string;
+  bytes: Uint8Array;
+  format: 'jpeg' | 'jpeg2000' | 'png';
+  width: number;
+  height: number;
+  // One-based pages the image is drawn on
+  pages: number[];
+}
+
+export interface ExtractedFont {
+  name: string;
+  type: string;
+  subset: boolean;
+  embedded: boolean;
+  // Missing when the font isn't embedded or its program can't be saved as a file
+  fileName?: string;
+  bytes?: Uint8Array;
+  pages: number[];
+}
+
+export interface ExtractedAttachment {
+  fileName: string;
+  name: string;
+  description?: string;
+  bytes: Uint8Array;
+  // Pages with an attachment annotation; empty for document-level attachments
+  pages: number[];
+}
+
+export interface SkippedAsset {
+  label: string;
+  reason: string;
+}
+
+export interface PDFAssets {
+  images: ExtractedImage[];
+  fonts: ExtractedFont[];
+  attachments: ExtractedAttachment[];
+  skipped: SkippedAsset[];
+}
+
+type ColorSpace =
+  | { kind: 'gray' | 'rgb' | 'cmyk'; components: number }
+  | { kind: 'indexed'; components: 1; palette: Uint8Array };
+
+interface PngImage {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: 0 | 2 | 3 | 4 | 6;
+  // Packed rows without filter bytes
+  data: Uint8Array;
+  palette?: Uint8Array;
+}
+
+const PNG_CHANNELS = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Font program streams and the file extension each is saved with
+const FONT_FILES: { key: string; extension: (subtype?: PDFName) => string }[] = [
+  { key: 'FontFile', extension: () => 't1' },
+  { key: 'FontFile2', extension: () => 'ttf' },
+  { key: 'FontFile3', extension: subtype => (subtype === PDFName.of('OpenType') ? 'otf' : 'cff') },
+];
+
+const readText = (value: PDFObject | undefined) => (
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined
+);
+
+const readNumber = (dict: PDFDict, key: string) => dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber();
+
+const getFilters = (dict: PDFDict): PDFName[] => {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  if (filter instanceof PDFName) return [filter];
+  if (filter instanceof PDFArray) return filter.asArray().map(item => dict.context.lookup(item)).filter((item): item is PDFName => item instanceof PDFName);
+  return [];
+};
+
+// Parameters for the last filter in the chain, which is the one that may use a predictor
+const getDecodeParams = (dict: PDFDict) => {
+  const params = dict.lookup(PDFName.of('DecodeParms'));
+  if (params instanceof PDFArray) {
+    const last = params.lookup(params.size() - 1);
+    return last instanceof PDFDict ? last : undefined;
+  }
+  return params instanceof PDFDict ? params : undefined;
+};
+
+// Decode everything but the final image filter, e.g. an ASCII85 wrapper around a JPEG
+const decodeLeadingFilters = (context: PDFContext, stream: PDFRawStream, filters: PDFName[]) => {
+  if (filters.length === 1) return stream.getContents();
+  const dict = context.obj({ Filter: filters.slice(0, -1) });
+  const params = stream.dict.lookup(PDFName.of('DecodeParms'));
+  if (params instanceof PDFArray) dict.set(PDFName.of('DecodeParms'), context.obj(params.asArray().slice(0, -1)));
+  return decodePDFRawStream(PDFRawStream.of(dict, stream.getContents())).decode();
+};
+
+// pdf-lib's decoders stop before PNG and TIFF predictors, so undo them here
+const undoPredictor = (data: Uint8Array, params: PDFDict | undefined) => {
+  const predictor = params ? readNumber(params, 'Predictor') ?? 1 : 1;
+  if (!params || predictor < 2) return data;
+
+  const colors = readNumber(params, 'Colors') ?? 1;
+  const bitsPerComponent = readNumber(params, 'BitsPerComponent') ?? 8;
+  const columns = readNumber(params, 'Columns') ?? 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowBytes = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+  if (predictor === 2) {
+    if (bitsPerComponent !== 8) throw new Error('TIFF predictor is only supported for 8-bit images');
+    const out = data.slice();
+    for (let row = 0; row + rowBytes <= out.length; row += rowBytes) {
+      for (let i = colors; i < rowBytes; i++) out[row + i] = (out[row + i] + out[row + i - colors]) & 0xff;
+    }
+    return out;
+  }
+
+  const rows = Math.floor(data.length / (rowBytes + 1));
+  const out = new Uint8Array(rows * rowBytes);
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowBytes + 1)];
+    const source = row * (rowBytes + 1) + 1;
+    const target = row * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? out[target + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[target + i - rowBytes] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? out[target + i - rowBytes - bytesPerPixel] : 0;
+      let value = data[source + i];
+      if (type === 1) value += left;
+      else if (type === 2) value += up;
+      else if (type === 3) value += (left + up) >> 1;
+      else if (type === 4) {
+        const estimate = left + up - upLeft;
+        const distances = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)];
+        value += distances[0] <= distances[1] && distances[0] <= distances[2] ? left : distances[1] <= distances[2] ? up : upLeft;
+      }
+      out[target + i] = value & 0xff;
+    }
+  }
+  return out;
+};
+
+const cmykToRgb = (c: number, m: number, y: number, k: number): [number, number, number] => [
+  Math.round(((255 - c) * (255 - k)) / 255),
+  Math.round(((255 - m) * (255 - k)) / 255),
+  Math.round(((255 - y) * (255 - k)) / 255),
+];
+
+const resolveColorSpace = (context: PDFContext, value: PDFObject | undefined): ColorSpace => {
+  const space = value ? context.lookup(value) : undefined;
+  const name = space instanceof PDFArray ? space.lookup(0) : space;
+  const family = name instanceof PDFName ? name.asString() : '';
+
+  if (['/DeviceGray', '/G', '/CalGray'].includes(family)) return { kind: 'gray', components: 1 };
+  if (['/DeviceRGB', '/RGB', '/CalRGB'].includes(family)) return { kind: 'rgb', components: 3 };
+  if (['/DeviceCMYK', '/CMYK'].includes(family)) return { kind: 'cmyk', components: 4 };
+
+  if (family === '/ICCBased' && space instanceof PDFArray) {
+    const profile = space.lookup(1);
+    const count = profile instanceof PDFStream ? readNumber(profile.dict, 'N') : undefined;
+    if (count === 1) return { kind: 'gray', components: 1 };
+    if (count === 3) return { kind: 'rgb', components: 3 };
+    if (count === 4) return { kind: 'cmyk', components: 4 };
+  }
+
+  if ((family === '/Indexed' || family === '/I') && space instanceof PDFArray) {
+    const base = resolveColorSpace(context, space.get(1));
+    if (base.kind === 'indexed') throw new Error('Nested indexed colour spaces are not supported');
+    const count = (space.lookupMaybe(2, PDFNumber)?.asNumber() ?? 0) + 1;
+    const lookup = space.lookup(3);
+    const table = lookup instanceof PDFRawStream ? decodePDFRawStream(lookup).decode()
+      : lookup instanceof PDFString || lookup instanceof PDFHexString ? lookup.asBytes()
+      : new Uint8Array();
+
+    // PNG palettes are always RGB
+    const palette = new Uint8Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const entry = table.subarray(i * base.components, (i + 1) * base.components);
+      const rgb = base.kind === 'gray' ? [entry[0], entry[0], entry[0]]
+        : base.kind === 'cmyk' ? cmykToRgb(entry[0], entry[1], entry[2], entry[3])
+        : [entry[0], entry[1], entry[2]];
+      palette.set(rgb.map(channel => channel ?? 0), i * 3);
+    }
+    return { kind: 'indexed', components: 1, palette };
+  }
+
+  throw new Error(`${family.slice(1) || 'Unknown'} colour space is not supported`);
+};
+
+// Expand packed samples to one byte each, scaled to 0-255 unless they are palette indices
+const unpackSamples = (data: Uint8Array, width: number, height: number, components: number, bitsPerComponent: number, scale: boolean) => {
+  const perRow = width * components;
+  const rowBytes = Math.ceil((perRow * bitsPerComponent) / 8);
+  const max = (1 << Math.min(bitsPerComponent, 8)) - 1;
+  const out = new Uint8Array(perRow * height);
+
+  for (let row = 0; row < height; row++) {
+    for (let i = 0; i < perRow; i++) {
+      const offset = row * rowBytes;
+      let value: number;
+      if (bitsPerComponent === 16) {
+        value = data[offset + i * 2];
+      } else if (bitsPerComponent === 8) {
+        value = data[offset + i];
+      } else {
+        const bit = i * bitsPerComponent;
+        value = (data[offset + (bit >> 3)] >> (8 - bitsPerComponent - (bit & 7))) & max;
+      }
+      out[row * perRow + i] = scale && bitsPerComponent < 8 ? Math.round((value * 255) / max) : value;
+    }
+  }
+  return out;
+};
+
+// Decode arrays like [1 0] flip every component
+const hasInvertedDecode = (dict: PDFDict) => {
+  const decode = dict.lookup(PDFName.of('Decode'));
+  if (!(decode instanceof PDFArray) || decode.size() < 2) return false;
+  const first = decode.lookupMaybe(0, PDFNumber)?.asNumber() ?? 0;
+  const second = decode.lookupMaybe(1, PDFNumber)?.asNumber() ?? 1;
+  return first > second;
+};
+
+const decodeSamples = (stream: PDFRawStream) => (
+  undoPredictor(decodePDFRawStream(stream).decode(), getDecodeParams(stream.dict))
+);
+
+// A soft mask as one alpha byte per pixel, or null if it doesn't line up with the image
+const decodeSoftMask = (mask: PDFRawStream, width: number, height: number) => {
+  const { dict } = mask;
+  if (readNumber(dict, 'Width') !== width || readNumber(dict, 'Height') !== height) return null;
+  if (getFilters(dict).some(filter => filter === PDFName.of('DCTDecode') || filter === PDFName.of('JPXDecode'))) return null;
+  const bitsPerComponent = readNumber(dict, 'BitsPerComponent') ?? 8;
+  const alpha = unpackSamples(decodeSamples(mask), width, height, 1, bitsPerComponent, true);
+  if (hasInvertedDecode(dict)) alpha.forEach((value, i) => { alpha[i] = 255 - value; });
+  return alpha;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(Array.from(type, char => char.charCodeAt(0)), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// CompressionStream's "deflate" format is the zlib stream PNG expects
+const deflate = async (data: Uint8Array) => (
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer())
+);
+
+async function encodePng(image: PngImage): Promise<Uint8Array> {
+  const rowBytes = Math.ceil((image.width * PNG_CHANNELS[image.colorType] * image.bitDepth) / 8);
+  const scanlines = new Uint8Array((rowBytes + 1) * image.height);
+  for (let row = 0; row < image.height; row++) {
+    // Each row starts with filter type 0 (none)
+    scanlines.set(image.data.subarray(row * rowBytes, (row + 1) * rowBytes), row * (rowBytes + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, image.width);
+  view.setUint32(4, image.height);
+  header.set([image.bitDepth, image.colorType, 0, 0, 0], 8);
+
+  const chunks = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    ...(image.palette ? [pngChunk('PLTE', image.palette)] : []),
+    pngChunk('IDAT', await deflate(scanlines)),
+    pngChunk('IEND', new Uint8Array()),
+  ];
+  const png = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    png.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return png;
+}
+
+// Re-encode a raw raster image as PNG. Gray, RGB and indexed images keep their
+// bit depth; CMYK images and images with a soft mask become 8-bit RGB(A).
+async function convertToPng(context: PDFContext, stream: PDFRawStream, width: number, height: number): Promise<Uint8Array> {
+  const { dict } = stream;
+  const isMask = dict.lookup(PDFName.of('ImageMask')) === PDFBool.True;
+  const bitsPerComponent = isMask ? 1 : readNumber(dict, 'BitsPerComponent') ?? 8;
+  const colorSpace: ColorSpace = isMask ? { kind: 'gray', components: 1 } : resolveColorSpace(context, dict.get(PDFName.of('ColorSpace')));
+
+  const rowBytes = Math.ceil((width * colorSpace.components * bitsPerComponent) / 8);
+  let samples = decodeSamples(stream);
+  if (samples.length < rowBytes * height) throw new Error('Image data is truncated');
+  samples = samples.slice(0, rowBytes * height);
+  // Stencil masks paint where the sample is 0, which already reads as black
+  if (colorSpace.kind !== 'indexed' && hasInvertedDecode(dict)) samples.forEach((value, i) => { samples[i] = ~value & 0xff; });
+
+  const softMask = dict.lookup(PDFName.of('SMask'));
+  const alpha = softMask instanceof PDFRawStream ? decodeSoftMask(softMask, width, height) : null;
+
+  if (colorSpace.kind !== 'cmyk' && !alpha) {
+    if (colorSpace.kind === 'rgb' && bitsPerComponent < 8) throw new Error(`${bitsPerComponent}-bit RGB images are not supported`);
+    return encodePng({
+      width,
+      height,
+      bitDepth: bitsPerComponent,
+      colorType: colorSpace.kind === 'gray' ? 0 : colorSpace.kind === 'rgb' ? 2 : 3,
+      data: samples,
+      palette: colorSpace.kind === 'indexed' ? colorSpace.palette : undefined,
+    });
+  }
+
+  const values = unpackSamples(samples, width, height, colorSpace.components, bitsPerComponent, colorSpace.kind !== 'indexed');
+  const gray = colorSpace.kind === 'gray';
+  const channels = (gray ? 1 : 3) + (alpha ? 1 : 0);
+  const pixels = new Uint8Array(width * height * channels);
+
+  for (let i = 0; i < width * height; i++) {
+    const source = i * colorSpace.components;
+    const target = i * channels;
+    if (colorSpace.kind === 'gray') {
+      pixels[target] = values[source];
+    } else if (colorSpace.kind === 'rgb') {
+      pixels.set(values.subarray(source, source + 3), target);
+    } else if (colorSpace.kind === 'cmyk') {
+      pixels.set(cmykToRgb(values[source], values[source + 1], values[source + 2], values[source + 3]), target);
+    } else if (colorSpace.kind === 'indexed') {
+      pixels.set(colorSpace.palette.subarray(values[source] * 3, values[source] * 3 + 3), target);
+    }
+    if (alpha) pixels[target + channels - 1] = alpha[i];
+  }
+
+  return encodePng({
+    width,
+    height,
+    bitDepth: 8,
+    colorType: gray ? (alpha ? 4 : 0) : (alpha ? 6 : 2),
+    data: pixels,
+  });
+}
+
+async function exportImage(context: PDFContext, stream: PDFRawStream) {
+  const { dict } = stream;
+  const width = readNumber(dict, 'Width') ?? 0;
+  const height = readNumber(dict, 'Height') ?? 0;
+  if (width <= 0 || height <= 0) throw new Error('Image has no size');
+
+  const filters = getFilters(dict);
+  const last = filters[filters.length - 1]?.asString().slice(1);
+  if (last === 'DCTDecode') {
+    return { format: 'jpeg' as const, extension: 'jpg', bytes: decodeLeadingFilters(context, stream, filters), width, height };
+  }
+  if (last === 'JPXDecode') {
+    return { format: 'jpeg2000' as const, extension: 'jp2', bytes: decodeLeadingFilters(context, stream, filters), width, height };
+  }
+  if (last === 'CCITTFaxDecode' || last === 'JBIG2Decode') {
+    throw new Error(`${last} images are not supported`);
+  }
+  return { format: 'png' as const, extension: 'png', bytes: await convertToPng(context, stream, width, height), width, height };
+}
+
+// Keep file names unique within one folder of the ZIP
+const createNamer = (folder: string) => {
+  const used = new Set<string>();
+  return (name: string, fallback: string) => {
+    const clean = sanitizeFilename(name).trim() || fallback;
+    const dot = clean.lastIndexOf('.');
+    const [base, extension] = dot > 0 ? [clean.slice(0, dot), clean.slice(dot)] : [clean, ''];
+    let unique = clean;
+    for (let copy = 2; used.has(unique.toLowerCase()); copy++) unique = `${base} (${copy})${extension}`;
+    used.add(unique.toLowerCase());
+    return `${folder}/${unique}`;
+  };
+};
+
+const addPage = <T>(map: Map<T, number[]>, key: T, page: number) => {
+  const pages = map.get(key);
+  if (!pages) map.set(key, [page]);
+  else if (!pages.includes(page)) pages.push(page);
+};
+
+// Walk the resources used by each page, including those of form XObjects,
+// tiling patterns and Type 3 fonts. Inline images are part of the content
+// stream and aren't collected.
+const collectPageResources = (pdfDoc: PDFDocument) => {
+  const images = new Map<PDFRawStream, number[]>();
+  const fonts = new Map<PDFDict, number[]>();
+
+  const visit = (resources: PDFDict | undefined, page: number, visited: Set<PDFObject>) => {
+    if (!resources || visited.has(resources)) return;
+    visited.add(resources);
+
+    const xObjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    for (const [, value] of xObjects?.entries() ?? []) {
+      const xObject = pdfDoc.context.lookup(value);
+      if (!(xObject instanceof PDFStream)) continue;
+      const subtype = xObject.dict.lookup(PDFName.of('Subtype'));
+      if (subtype === PDFName.of('Image') && xObject instanceof PDFRawStream) addPage(images, xObject, page);
+      else if (subtype === PDFName.of('Form')) visit(xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), page, visited);
+    }
+
+    const patterns = resources.lookupMaybe(PDFName.of('Pattern'), PDFDict);
+    for (const [, value] of patterns?.entries() ?? []) {
+      const pattern = pdfDoc.context.lookup(value);
+      if (pattern instanceof PDFStream) visit(pattern.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), page, visited);
+    }
+
+    const fontDicts = resources.lookupMaybe(PDFName.of('Font'), PDFDict);
+    for (const [, value] of fontDicts?.entries() ?? []) {
+      const font = pdfDoc.context.lookup(value);
+      if (!(font instanceof PDFDict)) continue;
+      addPage(fonts, font, page);
+      visit(font.lookupMaybe(PDFName.of('Resources'), PDFDict), page, visited);
+    }
+  };
+
+  pdfDoc.getPages().forEach((page, index) => visit(page.node.Resources(), index + 1, new Set()));
+  return { images, fonts };
+};
+
+async function extractImages(pdfDoc: PDFDocument, found: Map<PDFRawStream, number[]>, skipped: SkippedAsset[]) {
+  const images: ExtractedImage[] = [];
+  const byContent = new Map<string, ExtractedImage>();
+  const perPage = new Map<number, number>();
+
+  for (const [stream, pages] of found) {
+    const key = await hashStream(stream);
+    const duplicate = byContent.get(key);
+    if (duplicate) {
+      duplicate.pages = Array.from(new Set([...duplicate.pages, ...pages])).sort((a, b) => a - b);
+      continue;
+    }
+
+    const index = (perPage.get(pages[0]) ?? 0) + 1;
+    perPage.set(pages[0], index);
+    try {
+      const { extension, ...image } = await exportImage(pdfDoc.context, stream);
+      const extracted = { ...image, fileName: `images/page-${pages[0]}-image-${index}.${extension}`, pages };
+      images.push(extracted);
+      byContent.set(key, extracted);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      skipped.push({ label: `Image ${index} on page ${pages[0]}`, reason: message });
+    }
+  }
+  return images;
+}
+
+async function extractFonts(found: Map<PDFDict, number[]>, skipped: SkippedAsset[]) {
+  const fonts: ExtractedFont[] = [];
+  const nameFile = createNamer('fonts');
+  // Font programs shared by several font dictionaries are saved once
+  const saved = new Map<string, Pick<ExtractedFont, 'fileName' | 'bytes'>>();
+
+  for (const [font, pages] of found) {
+    const subtype = font.lookupMaybe(PDFName.of('Subtype'), PDFName)?.asString().slice(1) ?? 'Unknown';
+    const baseFont = font.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText() ?? (subtype === 'Type3' ? 'Type 3 font' : 'Unnamed font');
+    const subset = /^[A-Z]{6}\+/.test(baseFont);
+    const name = subset ? baseFont.slice(7) : baseFont;
+
+    // Composite fonts keep their program on the descendant font
+    const descendant = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0);
+    const target = descendant instanceof PDFDict ? descendant : font;
+    const type = target === font ? subtype : `${subtype}/${target.lookupMaybe(PDFName.of('Subtype'), PDFName)?.asString().slice(1)}`;
+    const descriptor = target.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+
+    const entry: ExtractedFont = { name, type, subset, embedded: subtype === 'Type3', pages };
+    for (const { key, extension } of FONT_FILES) {
+      const program = descriptor?.lookup(PDFName.of(key));
+      if (!(program instanceof PDFRawStream)) continue;
+      entry.embedded = true;
+
+      const hash = await hashStream(program);
+      const existing = saved.get(hash);
+      if (existing) {
+        Object.assign(entry, existing);
+        break;
+      }
+      try {
+        const file = {
+          fileName: nameFile(`${name}.${extension(program.dict.lookupMaybe(PDFName.of('Subtype'), PDFName))}`, `font.${extension()}`),
+          bytes: decodePDFRawStream(program).decode(),
+        };
+        saved.set(hash, file);
+        Object.assign(entry, file);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        skipped.push({ label: `Font ${name}`, reason: message });
+      }
+      break;
+    }
+    fonts.push(entry);
+  }
+
+  return fonts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function extractAttachments(pdfDoc: PDFDocument, skipped: SkippedAsset[]) {
+  const found = new Map<PDFRawStream, { name: string; description?: string; pages: number[] }>();
+
+  const addFileSpec = (value: PDFObject | undefined, page?: number) => {
+    const spec = value ? pdfDoc.context.lookup(value) : undefined;
+    if (!(spec instanceof PDFDict)) return;
+    const name = readText(spec.lookup(PDFName.of('UF'))) ?? readText(spec.lookup(PDFName.of('F'))) ?? 'attachment';
+    const files = spec.lookupMaybe(PDFName.of('EF'), PDFDict);
+    const stream = files?.lookup(PDFName.of('F')) ?? files?.lookup(PDFName.of('UF'));
+    if (!(stream instanceof PDFRawStream)) {
+      skipped.push({ label: `Attachment ${name}`, reason: 'The file is referenced but not embedded' });
+      return;
+    }
+
+    const entry = found.get(stream) ?? { name, description: readText(spec.lookup(PDFName.of('Desc'))), pages: [] };
+    if (page !== undefined && !entry.pages.includes(page)) entry.pages.push(page);
+    found.set(stream, entry);
+  };
+
+  // Document-level attachments live in the EmbeddedFiles name tree
+  const walkNameTree = (node: PDFDict | undefined, visited: Set<PDFDict>) => {
+    if (!node || visited.has(node)) return;
+    visited.add(node);
+    const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+    for (let i = 1; names && i < names.size(); i += 2) addFileSpec(names.get(i));
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    kids?.asArray().forEach(kid => walkNameTree(pdfDoc.context.lookupMaybe(kid, PDFDict), visited));
+  };
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  walkNameTree(names?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict), new Set());
+
+  pdfDoc.getPages().forEach((page, index) => {
+    for (const annot of page.node.Annots()?.asArray() ?? []) {
+      const dict = pdfDoc.context.lookup(annot);
+      if (dict instanceof PDFDict && dict.lookup(PDFName.of('Subtype')) === PDFName.of('FileAttachment')) {
+        addFileSpec(dict.get(PDFName.of('FS')), index + 1);
+      }
+    }
+  });
+
+  const nameFile = createNamer('attachments');
+  const attachments: ExtractedAttachment[] = [];
+  for (const [stream, entry] of found) {
+    try {
+      attachments.push({ ...entry, fileName: nameFile(entry.name, 'attachment'), bytes: decodePDFRawStream(stream).decode() });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      skipped.push({ label: `Attachment ${entry.name}`, reason: message });
+    }
+  }
+  return attachments;
+}
+
+// Extract every image, font and attachment. Repeats are saved once, with all
+// the pages they appear on. Anything that can't be exported is listed in
+// `skipped` rather than failing the whole extraction.
+export async function extractPDFAssets(data: ArrayBuffer): Promise<PDFAssets> {
+  const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+  const skipped: SkippedAsset[] = [];
+  const found = collectPageResources(pdfDoc);
+
+  return {
+    images: await extractImages(pdfDoc, found.images, skipped),
+    fonts: await extractFonts(found.fonts, skipped),
+    attachments: extractAttachments(pdfDoc, skipped),
+    skipped,
+  };
+}
+
+export type AssetManifest = ReturnType<typeof createAssetManifest>;
+
+// Describe the extracted files for manifest.json. Binary content is left out.
+export const createAssetManifest = (assets: PDFAssets, source: string) => ({
+  source,
+  images: assets.images.map(({ fileName, format, width, height, pages, bytes }) => ({
+    file: fileName, format, width, height, size: bytes.length, pages,
+  })),
+  fonts: assets.fonts.map(({ name, type, subset, embedded, fileName, pages }) => ({
+    name, type, subset, embedded, file: fileName ?? null, pages,
+  })),
+  attachments: assets.attachments.map(({ fileName, name, description, bytes, pages }) => ({
+    file: fileName, name, description: description ?? null, size: bytes.length, pages,
+  })),
+  skipped: assets.skipped,
+});
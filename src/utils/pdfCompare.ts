@@ -0,0 +1,531 @@
+import { PDFDocument, PDFHexString, PDFName, type PDFDict, type PDFPage } from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { pdfjsLib } from './pdfjs';
+import { extractTextRuns, groupTextRows } from './pdfLayout';
+import { renderPageToCanvas } from './pdfRender';
+import { getPageView } from './pageStamp';
+
+// A box on a page as fractions (0-1) of the page as displayed, from the top-left
+export interface PageArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CompareOptions {
+  ignoreCase: boolean;
+}
+
+export interface CompareProgress {
+  done: number;
+  total: number;
+}
+
+// A run of consecutive inserted or deleted words. Deletions are boxed on the
+// original page, insertions on the revised one.
+export interface TextChange {
+  type: 'insert' | 'delete';
+  text: string;
+  areas: PageArea[];
+  // Where a deletion would sit on the revised page, for annotating it there
+  anchor?: PageArea;
+}
+
+export interface VisualDiff {
+  // Share of pixels that differ
+  ratio: number;
+  // Changed regions on the revised page
+  regions: PageArea[];
+  // Transparent PNG marking the changed pixels, to lay over the revised page
+  overlay: string;
+}
+
+export interface PageComparison {
+  // One-based page numbers; one side is missing for added or removed pages
+  pageA?: number;
+  pageB?: number;
+  imageA?: string;
+  imageB?: string;
+  changes: TextChange[];
+  visual?: VisualDiff;
+}
+
+export interface ComparisonResult {
+  pages: PageComparison[];
+  insertions: number;
+  deletions: number;
+}
+
+interface PageWords {
+  words: { text: string; key: string; area: PageArea }[];
+}
+
+interface RenderedPage {
+  image: string;
+  canvas: HTMLCanvasElement;
+}
+
+type DiffOp = { type: 'equal' | 'insert' | 'delete'; a: number; b: number };
+
+// Render scale for the report images and the pixel diff
+const RENDER_SCALE = 1.5;
+// Channel difference below which pixels count as the same (anti-aliasing)
+const PIXEL_TOLERANCE = 48;
+// Size of the grid cells changed pixels are grouped into, in rendered pixels
+const REGION_CELL = 16;
+// Pages less similar than this are treated as added or removed, not changed
+const MIN_PAGE_SIMILARITY = 0.2;
+// Give up on a word diff with more edits than this and mark the whole page
+// changed. The diff keeps a copy of its state per edit, so memory grows with
+// the square of this.
+const MAX_EDIT_DISTANCE = 1000;
+
+// Words with their boxes, in reading order (rows top to bottom, left to right)
+async function extractPageWords(pdf: PDFDocumentProxy, pageNumber: number, options: CompareOptions): Promise<PageWords> {
+  const page = await pdf.getPage(pageNumber);
+  const { width, height } = page.getViewport({ scale: 1 });
+  const rows = groupTextRows(await extractTextRuns(page));
+  const words: PageWords['words'] = [];
+
+  for (const row of rows) {
+    for (const line of row.lines) {
+      for (const run of line.runs) {
+        const charWidth = run.width / Math.max(run.text.length, 1);
+        for (const match of run.text.matchAll(/\S+/g)) {
+          const text = match[0];
+          const key = text.normalize('NFKC');
+          words.push({
+            text,
+            key: options.ignoreCase ? key.toLowerCase() : key,
+            area: {
+              x: (run.x + charWidth * (match.index ?? 0)) / width,
+              y: (run.y - run.fontSize * 0.8) / height,
+              width: (charWidth * text.length) / width,
+              height: run.fontSize / height,
+            },
+          });
+        }
+      }
+    }
+  }
+
+  page.cleanup();
+  return { words };
+}
+
+// The page image for the report, and the bitmap for the pixel diff
+async function renderPage(pdf: PDFDocumentProxy, pageNumber: number): Promise<RenderedPage> {
+  const page = await pdf.getPage(pageNumber);
+  const canvas = await renderPageToCanvas(page, RENDER_SCALE);
+  page.cleanup();
+  return { image: canvas.toDataURL('image/jpeg', 0.8), canvas };
+}
+
+const releaseCanvas = (canvas: HTMLCanvasElement) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
+
+// Share of distinct words the two pages have in common
+const pageSimilarity = (a: PageWords, b: PageWords) => {
+  const setA = new Set(a.words.map(word => word.key));
+  const setB = new Set(b.words.map(word => word.key));
+  // Pages without text (scans, drawings) can only be paired by position
+  if (setA.size === 0 && setB.size === 0) return 0.5;
+  let shared = 0;
+  setA.forEach(word => setB.has(word) && shared++);
+  return shared / (setA.size + setB.size - shared);
+};
+
+// Pair up pages so that the total similarity is highest, keeping their order.
+// Pages left without a partner were added or removed.
+const alignPages = (pagesA: PageWords[], pagesB: PageWords[]) => {
+  const n = pagesA.length;
+  const m = pagesB.length;
+  const score = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+  const similarity = pagesA.map(a => pagesB.map(b => pageSimilarity(a, b)));
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const paired = similarity[i - 1][j - 1] >= MIN_PAGE_SIMILARITY ? score[i - 1][j - 1] + similarity[i - 1][j - 1] : -Infinity;
+      score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], paired);
+    }
+  }
+
+  const pairs: { a?: number; b?: number }[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && similarity[i - 1][j - 1] >= MIN_PAGE_SIMILARITY &&
+      score[i][j] === score[i - 1][j - 1] + similarity[i - 1][j - 1]) {
+      pairs.push({ a: i - 1, b: j - 1 });
+      i--;
+      j--;
+    } else if (j > 0 && (i === 0 || score[i][j] === score[i][j - 1])) {
+      pairs.push({ b: j - 1 });
+      j--;
+    } else {
+      pairs.push({ a: i - 1 });
+      i--;
+    }
+  }
+  return pairs.reverse();
+};
+
+// Myers' O(ND) diff. Returns null when the sequences differ by more than `limit` edits.
+const diffSequences = (a: string[], b: string[], limit: number): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, limit);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let distance = -1;
+
+  for (let d = 0; d <= max && distance < 0; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        distance = d;
+        break;
+      }
+    }
+  }
+  if (distance < 0) return null;
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = distance; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', a: --x, b: --y });
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: 'insert', a: x, b: --y });
+      else ops.push({ type: 'delete', a: --x, b: y });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+};
+
+// Join the boxes of neighbouring words on the same line
+const mergeAreas = (areas: PageArea[]) => areas.reduce<PageArea[]>((merged, area) => {
+  const last = merged[merged.length - 1];
+  const sameLine = last && Math.abs(last.y - area.y) < last.height * 0.5;
+  if (sameLine && area.x >= last.x && area.x - (last.x + last.width) < last.height * 2) {
+    last.width = area.x + area.width - last.x;
+    last.height = Math.max(last.height, area.height);
+    return merged;
+  }
+  merged.push({ ...area });
+  return merged;
+}, []);
+
+const diffPageWords = (a: PageWords | undefined, b: PageWords | undefined): TextChange[] => {
+  const wordsA = a?.words ?? [];
+  const wordsB = b?.words ?? [];
+  const ops = diffSequences(wordsA.map(word => word.key), wordsB.map(word => word.key), MAX_EDIT_DISTANCE) ?? [
+    ...wordsA.map((_, index) => ({ type: 'delete' as const, a: index, b: 0 })),
+    ...wordsB.map((_, index) => ({ type: 'insert' as const, a: wordsA.length, b: index })),
+  ];
+
+  const changes: TextChange[] = [];
+  // Declared with `as` so the narrowing to null doesn't survive calls to flush
+  let current = null as { type: 'insert' | 'delete'; indices: number[]; b: number } | null;
+  const flush = () => {
+    if (!current) return;
+    const words = current.type === 'insert' ? wordsB : wordsA;
+    const selected = current.indices.map(index => words[index]);
+    changes.push({
+      type: current.type,
+      text: selected.map(word => word.text).join(' '),
+      areas: mergeAreas(selected.map(word => word.area)),
+      // The revised word that follows the deletion, or the last one on the page
+      anchor: current.type === 'delete' ? (wordsB[current.b] ?? wordsB[wordsB.length - 1])?.area : undefined,
+    });
+    current = null;
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flush();
+      continue;
+    }
+    if (current?.type !== op.type) {
+      flush();
+      current = { type: op.type, indices: [], b: op.b };
+    }
+    current.indices.push(op.type === 'insert' ? op.b : op.a);
+  }
+  flush();
+  return changes;
+};
+
+const overlaps = (a: PageArea, b: PageArea) => (
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+);
+
+// Compare rendered pixels. Pages of different sizes are compared from the
+// top-left corner, and anything outside the overlap counts as changed.
+const diffPixels = (canvasA: HTMLCanvasElement, canvasB: HTMLCanvasElement): VisualDiff => {
+  const width = Math.max(canvasA.width, canvasB.width);
+  const height = Math.max(canvasA.height, canvasB.height);
+  const pixelsA = canvasA.getContext('2d')!.getImageData(0, 0, canvasA.width, canvasA.height).data;
+  const pixelsB = canvasB.getContext('2d')!.getImageData(0, 0, canvasB.width, canvasB.height).data;
+
+  const overlay = document.createElement('canvas');
+  overlay.width = width;
+  overlay.height = height;
+  const context = overlay.getContext('2d');
+  if (!context) throw new Error('Failed to get canvas context');
+  const marks = context.createImageData(width, height);
+
+  const columns = Math.ceil(width / REGION_CELL);
+  const rows = Math.ceil(height / REGION_CELL);
+  const cells = new Uint32Array(columns * rows);
+  let changed = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inA = x < canvasA.width && y < canvasA.height;
+      const inB = x < canvasB.width && y < canvasB.height;
+      let different = inA !== inB;
+      if (inA && inB) {
+        const a = (y * canvasA.width + x) * 4;
+        const b = (y * canvasB.width + x) * 4;
+        different = Math.abs(pixelsA[a] - pixelsB[b]) > PIXEL_TOLERANCE ||
+          Math.abs(pixelsA[a + 1] - pixelsB[b + 1]) > PIXEL_TOLERANCE ||
+          Math.abs(pixelsA[a + 2] - pixelsB[b + 2]) > PIXEL_TOLERANCE;
+      }
+      if (!different) continue;
+
+      changed++;
+      cells[Math.floor(y / REGION_CELL) * columns + Math.floor(x / REGION_CELL)]++;
+      const index = (y * width + x) * 4;
+      marks.data[index] = 239;
+      marks.data[index + 1] = 68;
+      marks.data[index + 2] = 68;
+      marks.data[index + 3] = 200;
+    }
+  }
+  context.putImageData(marks, 0, 0);
+  const overlayImage = overlay.toDataURL('image/png');
+  releaseCanvas(overlay);
+
+  // Group touching cells with a few changed pixels into regions
+  const regions: PageArea[] = [];
+  const seen = new Uint8Array(cells.length);
+  for (let start = 0; start < cells.length; start++) {
+    if (seen[start] || cells[start] < 3) continue;
+    let [left, top, right, bottom] = [columns, rows, 0, 0];
+    const pending = [start];
+    seen[start] = 1;
+    while (pending.length > 0) {
+      const cell = pending.pop()!;
+      const cx = cell % columns;
+      const cy = Math.floor(cell / columns);
+      [left, top, right, bottom] = [Math.min(left, cx), Math.min(top, cy), Math.max(right, cx), Math.max(bottom, cy)];
+      for (const [nx, ny] of [[cx - 1, cy], [cx + 1, cy], [cx, cy - 1], [cx, cy + 1]]) {
+        const next = ny * columns + nx;
+        if (nx < 0 || ny < 0 || nx >= columns || ny >= rows || seen[next] || cells[next] < 3) continue;
+        seen[next] = 1;
+        pending.push(next);
+      }
+    }
+    regions.push({
+      x: (left * REGION_CELL) / canvasB.width,
+      y: (top * REGION_CELL) / canvasB.height,
+      width: Math.min((right + 1 - left) * REGION_CELL, width) / canvasB.width,
+      height: Math.min((bottom + 1 - top) * REGION_CELL, height) / canvasB.height,
+    });
+  }
+
+  return { ratio: changed / (width * height), regions, overlay: overlayImage };
+};
+
+const readPages = async (pdf: PDFDocumentProxy, options: CompareOptions) => {
+  const pages: PageWords[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    pages.push(await extractPageWords(pdf, i, options));
+  }
+  return pages;
+};
+
+// Compare an original and a revised PDF: align their pages, diff the words on
+// each pair and compare the rendered pages pixel by pixel
+export async function comparePDFs(
+  original: ArrayBuffer,
+  revised: ArrayBuffer,
+  options: CompareOptions,
+  onProgress?: (progress: CompareProgress) => void
+): Promise<ComparisonResult> {
+  const [pdfA, pdfB] = await Promise.all([original, revised].map(data => (
+    pdfjsLib.getDocument({ data: data.slice(0), verbosity: 0 }).promise
+  )));
+
+  const pages: PageComparison[] = [];
+  try {
+    const total = pdfA.numPages + pdfB.numPages;
+    let done = 0;
+    const render = async (pdf: PDFDocumentProxy, index: number | undefined) => {
+      if (index === undefined) return undefined;
+      const rendered = await renderPage(pdf, index + 1);
+      onProgress?.({ done: ++done, total });
+      return rendered;
+    };
+    onProgress?.({ done, total });
+
+    const pagesA = await readPages(pdfA, options);
+    const pagesB = await readPages(pdfB, options);
+
+    // Pages are rendered pair by pair and their bitmaps released right after
+    // the pixel diff, so long documents don't hold every page in memory
+    for (const { a, b } of alignPages(pagesA, pagesB)) {
+      const pageA = a === undefined ? undefined : pagesA[a];
+      const pageB = b === undefined ? undefined : pagesB[b];
+      const changes = diffPageWords(pageA, pageB);
+      const renderedA = await render(pdfA, a);
+      const renderedB = await render(pdfB, b);
+
+      let visual: VisualDiff | undefined;
+      try {
+        if (renderedA && renderedB) {
+          visual = diffPixels(renderedA.canvas, renderedB.canvas);
+          // Changed text already explains most changed pixels
+          const textAreas = changes.flatMap(change => change.areas);
+          visual.regions = visual.regions.filter(region => !textAreas.some(area => overlaps(area, region)));
+        }
+      } finally {
+        [renderedA, renderedB].forEach(rendered => rendered && releaseCanvas(rendered.canvas));
+      }
+
+      pages.push({
+        pageA: a === undefined ? undefined : a + 1,
+        pageB: b === undefined ? undefined : b + 1,
+        imageA: renderedA?.image,
+        imageB: renderedB?.image,
+        changes,
+        visual,
+      });
+    }
+  } finally {
+    await Promise.all([pdfA.destroy(), pdfB.destroy()]);
+  }
+
+  return {
+    pages,
+    insertions: pages.reduce((sum, page) => sum + page.changes.filter(change => change.type === 'insert').length, 0),
+    deletions: pages.reduce((sum, page) => sum + page.changes.filter(change => change.type === 'delete').length, 0),
+  };
+}
+
+// A page area as corners in user space, in reading order: top-left,
+// top-right, bottom-left, bottom-right
+const toUserSpaceCorners = (page: PDFPage, area: PageArea) => {
+  const view = getPageView(page);
+  const left = area.x * view.width;
+  const right = (area.x + area.width) * view.width;
+  const top = (1 - area.y) * view.height;
+  const bottom = (1 - area.y - area.height) * view.height;
+  return [
+    view.toUserSpace({ x: left, y: top }),
+    view.toUserSpace({ x: right, y: top }),
+    view.toUserSpace({ x: left, y: bottom }),
+    view.toUserSpace({ x: right, y: bottom }),
+  ];
+};
+
+const boundingRect = (points: { x: number; y: number }[]) => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+const addAnnotation = (pdfDoc: PDFDocument, page: PDFPage, entries: PDFDict, contents: string) => {
+  const annotation = pdfDoc.context.obj({
+    Type: 'Annot',
+    F: 4,
+    T: PDFHexString.fromText('Compare'),
+    Contents: PDFHexString.fromText(contents),
+  });
+  for (const [key, value] of entries.entries()) annotation.set(key, value);
+  page.node.addAnnot(pdfDoc.context.register(annotation));
+};
+
+// A note icon at the start of an area (or the page's top-left corner)
+const addNote = (pdfDoc: PDFDocument, page: PDFPage, area: PageArea | undefined, contents: string) => {
+  const [corner] = toUserSpaceCorners(page, area ?? { x: 0.02, y: 0.02, width: 0, height: 0 });
+  addAnnotation(pdfDoc, page, pdfDoc.context.obj({
+    Subtype: 'Text',
+    Name: 'Comment',
+    Rect: [corner.x - 10, corner.y - 10, corner.x + 10, corner.y + 10],
+    C: [0.94, 0.27, 0.27],
+  }), contents);
+};
+
+// Annotate the revised PDF: inserted text is highlighted, deletions get a note
+// where they were, visual-only changes are boxed and added or removed pages
+// are flagged
+export async function createComparisonPDF(revised: ArrayBuffer, result: ComparisonResult): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(revised);
+  const pages = pdfDoc.getPages();
+  let nextPage = 0;
+
+  for (const comparison of result.pages) {
+    if (comparison.pageB === undefined) {
+      // Removed pages are noted on the revised page that now follows them
+      const page = pages[Math.min(nextPage, pages.length - 1)];
+      const removed = comparison.changes.map(change => change.text).join(' ');
+      addNote(pdfDoc, page, undefined, `Page ${comparison.pageA} of the original was removed${removed ? `: ${removed}` : ''}`);
+      continue;
+    }
+
+    const page = pages[comparison.pageB - 1];
+    nextPage = comparison.pageB;
+    if (comparison.pageA === undefined) {
+      addNote(pdfDoc, page, undefined, 'This page is not in the original');
+    }
+
+    for (const change of comparison.changes) {
+      if (change.type === 'delete') {
+        addNote(pdfDoc, page, change.anchor, `Deleted: ${change.text}`);
+        continue;
+      }
+      const corners = change.areas.map(area => toUserSpaceCorners(page, area));
+      addAnnotation(pdfDoc, page, pdfDoc.context.obj({
+        Subtype: 'Highlight',
+        Rect: boundingRect(corners.flat()),
+        QuadPoints: corners.flatMap(quad => quad.flatMap(point => [point.x, point.y])),
+        C: [0.53, 0.94, 0.67],
+        CA: 0.5,
+      }), `Inserted: ${change.text}`);
+    }
+
+    for (const region of comparison.visual?.regions ?? []) {
+      addAnnotation(pdfDoc, page, pdfDoc.context.obj({
+        Subtype: 'Square',
+        Rect: boundingRect(toUserSpaceCorners(page, region)),
+        C: [0.94, 0.27, 0.27],
+        BS: { W: 1.5 },
+      }), 'Visual change');
+    }
+  }
+
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseNone'));
+  return pdfDoc.save();
+}
@@ -0,0 +1,338 @@
+import {
+  PDFDocument,
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { collectReachableRefs, hashStream, remapReferences } from './pdfObjects';
+
+export interface CompressionSaving {
+  label: string;
+  originalSize: number;
+  compressedSize: number;
+}
+
+export interface CompressionSettings {
+  dpi: number;
+  quality: number;
+}
+
+export interface CompressionResult {
+  bytes: Uint8Array;
+  savings: CompressionSaving[];
+}
+
+const FONT_FILE_KEYS = ['FontFile', 'FontFile2', 'FontFile3'].map(key => PDFName.of(key));
+
+// Map the 1-100 compression slider to a target image resolution and JPEG
+// quality. Higher levels trade more image detail for a smaller file.
+export function getCompressionSettings(level: number): CompressionSettings {
+  const strength = Math.min(Math.max(level, 1), 100) / 100;
+  return {
+    dpi: Math.round(300 - strength * 228),
+    quality: Math.round((0.95 - strength * 0.6) * 100) / 100,
+  };
+}
+
+const isImageStream = (object: unknown): object is PDFRawStream =>
+  object instanceof PDFRawStream &&
+  object.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Image');
+
+// Point every duplicate stream (identical dictionary and bytes) at the first copy
+async function dedupeStreams(pdfDoc: PDFDocument, savings: CompressionSaving[]) {
+  const { context } = pdfDoc;
+  const fontFileRefs = new Set<PDFRef>();
+
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFDict && object.lookup(PDFName.of('Type')) === PDFName.of('FontDescriptor')) {
+      for (const key of FONT_FILE_KEYS) {
+        const fontFile = object.get(key);
+        if (fontFile instanceof PDFRef) fontFileRefs.add(fontFile);
+      }
+    }
+  }
+
+  const seen = new Map<string, PDFRef>();
+  const remap = new Map<PDFRef, PDFRef>();
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const isFontFile = fontFileRefs.has(ref) && object instanceof PDFRawStream;
+    if (!isImageStream(object) && !isFontFile) continue;
+
+    const stream = object as PDFRawStream;
+    const key = await hashStream(stream);
+    const canonical = seen.get(key);
+    if (canonical) {
+      remap.set(ref, canonical);
+      savings.push({
+        label: `Duplicate ${isFontFile ? 'font' : 'image'} ${ref.toString()}`,
+        originalSize: stream.sizeInBytes(),
+        compressedSize: 0,
+      });
+    } else {
+      seen.set(key, ref);
+    }
+  }
+
+  remapReferences(context, remap);
+  remap.forEach((_, ref) => context.delete(ref));
+}
+
+// Merge font dictionaries that became identical once their font files were deduplicated
+function dedupeFontDicts(pdfDoc: PDFDocument, savings: CompressionSaving[]) {
+  const { context } = pdfDoc;
+
+  for (const type of ['FontDescriptor', 'Font']) {
+    // Composite fonts reference their descendants, so repeat until nothing changes
+    for (let pass = 0; pass < 3; pass++) {
+      const seen = new Map<string, PDFRef>();
+      const remap = new Map<PDFRef, PDFRef>();
+
+      for (const [ref, object] of context.enumerateIndirectObjects()) {
+        if (!(object instanceof PDFDict) || object.lookup(PDFName.of('Type')) !== PDFName.of(type)) continue;
+
+        const key = object.toString();
+        const canonical = seen.get(key);
+        if (canonical) {
+          remap.set(ref, canonical);
+          savings.push({
+            label: `Duplicate ${type === 'Font' ? 'font' : 'font descriptor'} ${ref.toString()}`,
+            originalSize: object.sizeInBytes(),
+            compressedSize: 0,
+          });
+        } else {
+          seen.set(key, ref);
+        }
+      }
+
+      if (remap.size === 0) break;
+      remapReferences(context, remap);
+      remap.forEach((_, ref) => context.delete(ref));
+    }
+  }
+}
+
+// Record, for every image XObject, the largest page dimension (in points) it is drawn on
+function collectImagePageSizes(pdfDoc: PDFDocument): Map<PDFRef, number> {
+  const sizes = new Map<PDFRef, number>();
+
+  const visitResources = (resources: PDFDict | undefined, pageSize: number, visited: Set<PDFRef>) => {
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    if (!xObjects) return;
+
+    for (const [, value] of xObjects.entries()) {
+      if (!(value instanceof PDFRef) || visited.has(value)) continue;
+      visited.add(value);
+
+      const xObject = pdfDoc.context.lookup(value);
+      if (isImageStream(xObject)) {
+        sizes.set(value, Math.max(sizes.get(value) ?? 0, pageSize));
+      } else if (xObject instanceof PDFStream) {
+        visitResources(xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), pageSize, visited);
+      }
+    }
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    const { width, height } = page.getSize();
+    visitResources(page.node.Resources(), Math.max(width, height), new Set());
+  }
+
+  return sizes;
+}
+
+const getComponentCount = (pdfDoc: PDFDocument, colorSpace: unknown): number | null => {
+  if (colorSpace === PDFName.of('DeviceRGB')) return 3;
+  if (colorSpace === PDFName.of('DeviceGray')) return 1;
+  if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('ICCBased')) {
+    const profile = colorSpace.lookup(1);
+    const n = profile instanceof PDFStream ? profile.dict.lookup(PDFName.of('N')) : undefined;
+    return n instanceof PDFNumber ? n.asNumber() : null;
+  }
+  if (colorSpace instanceof PDFRef) {
+    return getComponentCount(pdfDoc, pdfDoc.context.lookup(colorSpace));
+  }
+  return null;
+};
+
+const getSingleFilter = (dict: PDFDict): PDFName | null | undefined => {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  if (!filter) return undefined;
+  if (filter instanceof PDFName) return filter;
+  if (filter instanceof PDFArray && filter.size() === 1) {
+    const only = filter.lookup(0);
+    return only instanceof PDFName ? only : null;
+  }
+  return null;
+};
+
+// Decode an image XObject into a bitmap the browser can redraw, or null if
+// the image uses a format we leave untouched
+async function decodeImage(stream: PDFRawStream, width: number, height: number, components: number): Promise<ImageBitmap | null> {
+  const filter = getSingleFilter(stream.dict);
+
+  if (filter === PDFName.of('DCTDecode')) {
+    return createImageBitmap(new Blob([stream.getContents()], { type: 'image/jpeg' }));
+  }
+
+  if (filter !== undefined && filter !== PDFName.of('FlateDecode')) return null;
+
+  // pdf-lib's Flate decoder does not apply PNG/TIFF predictors
+  const params = stream.dict.lookup(PDFName.of('DecodeParms'));
+  if (params instanceof PDFDict) {
+    const predictor = params.lookup(PDFName.of('Predictor'));
+    if (predictor instanceof PDFNumber && predictor.asNumber() > 1) return null;
+  }
+
+  const raw = decodePDFRawStream(stream).decode();
+  if (raw.length < width * height * components) return null;
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, j = 0; i < width * height; i++, j += components) {
+    rgba[i * 4] = raw[j];
+    rgba[i * 4 + 1] = components === 3 ? raw[j + 1] : raw[j];
+    rgba[i * 4 + 2] = components === 3 ? raw[j + 2] : raw[j];
+    rgba[i * 4 + 3] = 255;
+  }
+
+  return createImageBitmap(new ImageData(rgba, width, height));
+}
+
+async function encodeJpeg(bitmap: ImageBitmap, width: number, height: number, quality: number): Promise<Uint8Array> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (b) => (b ? resolve(b) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Downsample and re-encode raster images as JPEG, keeping only the versions that shrink
+async function recompressImages(pdfDoc: PDFDocument, settings: CompressionSettings, savings: CompressionSaving[]) {
+  const { context } = pdfDoc;
+  const pageSizes = collectImagePageSizes(pdfDoc);
+  const fallbackPageSize = Math.max(...pdfDoc.getPages().map(page => Math.max(...Object.values(page.getSize()))), 842);
+
+  // Soft masks and stencil masks must keep their exact pixels
+  const maskRefs = new Set<PDFRef>();
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    if (!isImageStream(object)) continue;
+    for (const key of ['SMask', 'Mask']) {
+      const mask = object.dict.get(PDFName.of(key));
+      if (mask instanceof PDFRef) maskRefs.add(mask);
+    }
+  }
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!isImageStream(object) || maskRefs.has(ref)) continue;
+
+    const { dict } = object;
+    if (dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true') continue;
+    if (dict.has(PDFName.of('Decode'))) continue;
+    // A colour-key mask matches exact pixel values, which JPEG doesn't keep
+    if (dict.lookup(PDFName.of('Mask')) instanceof PDFArray) continue;
+
+    const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber();
+    const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber();
+    const bitsPerComponent = dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber();
+    const colorSpace = dict.get(PDFName.of('ColorSpace'));
+    const components = getComponentCount(pdfDoc, colorSpace);
+    if (!width || !height || bitsPerComponent !== 8) continue;
+    if (components !== 1 && components !== 3) continue;
+
+    try {
+      const bitmap = await decodeImage(object, width, height, components);
+      if (!bitmap) continue;
+
+      const pageSize = pageSizes.get(ref) ?? fallbackPageSize;
+      const maxPixels = Math.ceil((pageSize / 72) * settings.dpi);
+      const scale = Math.min(1, maxPixels / Math.max(width, height));
+      const targetWidth = Math.max(1, Math.round(width * scale));
+      const targetHeight = Math.max(1, Math.round(height * scale));
+
+      const jpegBytes = await encodeJpeg(bitmap, targetWidth, targetHeight, settings.quality);
+      bitmap.close();
+
+      const originalSize = object.getContentsSize();
+      if (jpegBytes.length >= originalSize) continue;
+
+      const newDict = dict.clone(context);
+      newDict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+      newDict.delete(PDFName.of('DecodeParms'));
+      newDict.set(PDFName.of('Width'), PDFNumber.of(targetWidth));
+      newDict.set(PDFName.of('Height'), PDFNumber.of(targetHeight));
+      // Canvas always emits three-channel JPEGs
+      if (components !== 3) {
+        newDict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+      }
+      context.assign(ref, PDFRawStream.of(newDict, jpegBytes));
+
+      savings.push({
+        label: scale < 1
+          ? `Image ${ref.toString()} (${width}×${height} → ${targetWidth}×${targetHeight})`
+          : `Image ${ref.toString()} (${width}×${height})`,
+        originalSize,
+        compressedSize: jpegBytes.length,
+      });
+    } catch (err) {
+      console.warn(`Skipping image ${ref.toString()}:`, err);
+    }
+  }
+}
+
+// Delete objects no longer reachable from the document catalog or info dictionary
+function removeUnusedObjects(pdfDoc: PDFDocument, savings: CompressionSaving[]) {
+  const { context } = pdfDoc;
+  const reachable = collectReachableRefs(context);
+  let removedCount = 0;
+  let removedSize = 0;
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (reachable.has(ref)) continue;
+    removedSize += object.sizeInBytes();
+    removedCount++;
+    context.delete(ref);
+  }
+
+  if (removedCount > 0) {
+    savings.push({
+      label: `Unused objects (${removedCount})`,
+      originalSize: removedSize,
+      compressedSize: 0,
+    });
+  }
+}
+
+export async function compressPDF(data: ArrayBuffer, level: number): Promise<CompressionResult> {
+  const pdfDoc = await PDFDocument.load(data);
+  const settings = getCompressionSettings(level);
+  const savings: CompressionSaving[] = [];
+
+  await dedupeStreams(pdfDoc, savings);
+  dedupeFontDicts(pdfDoc, savings);
+  removeUnusedObjects(pdfDoc, savings);
+  await recompressImages(pdfDoc, settings, savings);
+
+  const bytes = await pdfDoc.save({ useObjectStreams: true });
+  // Never hand back a larger file; the original is kept when nothing was saved
+  if (bytes.length >= data.byteLength) return { bytes: new Uint8Array(data), savings: [] };
+
+  savings.sort((a, b) => (b.originalSize - b.compressedSize) - (a.originalSize - a.compressedSize));
+  return { bytes, savings };
+}
@@ -0,0 +1,557 @@
+import {
+  PDFDocument,
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFContext,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  PDFWriter,
+} from 'pdf-lib';
+import {
+  aesCbcDecrypt,
+  aesCbcDecryptNoPadding,
+  aesCbcEncrypt,
+  aesCbcEncryptNoPadding,
+  bytesToHex,
+  concatBytes,
+  md5,
+  randomBytes,
+  rc4,
+  sha,
+} from './pdfCrypto';
+
+// PDF standard security handler (ISO 32000-2, section 7.6.4)
+
+export type EncryptionAlgorithm = 'aes-256' | 'aes-128' | 'rc4-128';
+
+export interface PDFPermissions {
+  print: boolean;
+  copy: boolean;
+  modify: boolean;
+  annotate: boolean;
+}
+
+export interface EncryptionOptions {
+  userPassword: string;
+  ownerPassword: string;
+  algorithm: EncryptionAlgorithm;
+  permissions: PDFPermissions;
+}
+
+export const ENCRYPTION_ALGORITHMS: { value: EncryptionAlgorithm; label: string }[] = [
+  { value: 'aes-256', label: 'AES-256 (Acrobat X and later)' },
+  { value: 'aes-128', label: 'AES-128 (Acrobat 7 and later)' },
+  { value: 'rc4-128', label: 'RC4 128-bit (legacy readers)' },
+];
+
+type CryptMethod = 'RC4' | 'AESV2' | 'AESV3';
+
+const PASSWORD_PADDING = Uint8Array.of(
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+);
+
+// Permission bits (1-based): 3 print, 4 modify, 5 copy, 6 annotate, 9 fill
+// forms, 10 accessibility, 11 assemble, 12 high quality print. Bits 7-8 and
+// 13-32 are reserved and must be set.
+export function encodePermissions(permissions: PDFPermissions): number {
+  let flags = 0xfffff0c0;
+  if (permissions.print) flags |= (1 << 2) | (1 << 11);
+  if (permissions.modify) flags |= (1 << 3) | (1 << 10);
+  if (permissions.copy) flags |= (1 << 4) | (1 << 9);
+  if (permissions.annotate) flags |= (1 << 5) | (1 << 8);
+  return flags | 0;
+}
+
+const int32LE = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value, true);
+  return bytes;
+};
+
+// Revisions 2-4 take PDFDocEncoding passwords padded to 32 bytes
+export const padPassword = (password: string) => {
+  const bytes = Uint8Array.from(Array.from(password).slice(0, 32), char => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 0x3f;
+  });
+  return concatBytes(bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length));
+};
+
+// Revision 6 takes UTF-8 passwords truncated to 127 bytes
+export const encodePasswordR6 = (password: string) =>
+  new TextEncoder().encode(password.normalize('NFKC')).subarray(0, 127);
+
+// Algorithm 2: file key for revisions 2-4
+export function computeFileKeyR2to4(
+  paddedPassword: Uint8Array,
+  ownerEntry: Uint8Array,
+  permissions: number,
+  firstId: Uint8Array,
+  revision: number,
+  keyLength: number,
+  encryptMetadata: boolean
+): Uint8Array {
+  let hash = md5(concatBytes(
+    paddedPassword,
+    ownerEntry.subarray(0, 32),
+    int32LE(permissions),
+    firstId,
+    revision >= 4 && !encryptMetadata ? Uint8Array.of(0xff, 0xff, 0xff, 0xff) : new Uint8Array(0),
+  ));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, keyLength));
+  }
+  return hash.subarray(0, keyLength);
+}
+
+// RC4 key derived from the owner password (step a-d of algorithm 3)
+export function computeOwnerKeyR2to4(paddedOwnerPassword: Uint8Array, revision: number, keyLength: number): Uint8Array {
+  let hash = md5(paddedOwnerPassword);
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  return hash.subarray(0, revision >= 3 ? keyLength : 5);
+}
+
+// Apply RC4 with the key XORed with 0..19, as algorithms 3 and 5 require.
+// Pass `reverse` to undo it when recovering the user password.
+export function rc4Rounds(key: Uint8Array, data: Uint8Array, reverse = false): Uint8Array {
+  let result = data;
+  for (let n = 0; n < 20; n++) {
+    const round = reverse ? 19 - n : n;
+    result = rc4(key.map(b => b ^ round), result);
+  }
+  return result;
+}
+
+// Algorithm 5: U entry for revisions 3 and 4
+export function computeUserEntryR3to4(fileKey: Uint8Array, firstId: Uint8Array): Uint8Array {
+  const hash = md5(concatBytes(PASSWORD_PADDING, firstId));
+  return concatBytes(rc4Rounds(fileKey, hash), new Uint8Array(16));
+}
+
+// Algorithm 2.B: iterated hash used by revision 6
+export async function computeHashR6(password: Uint8Array, salt: Uint8Array, userEntry: Uint8Array): Promise<Uint8Array> {
+  let k = await sha('SHA-256', concatBytes(password, salt, userEntry));
+  let e = new Uint8Array(0);
+
+  for (let round = 0; round < 64 || e[e.length - 1] > round - 32; round++) {
+    const block = concatBytes(password, k, userEntry);
+    const k1 = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) k1.set(block, i * block.length);
+
+    e = await aesCbcEncryptNoPadding(k.subarray(0, 16), k.subarray(16, 32), k1);
+    const remainder = e.subarray(0, 16).reduce((sum, b) => sum + b, 0) % 3;
+    k = await sha(remainder === 0 ? 'SHA-256' : remainder === 1 ? 'SHA-384' : 'SHA-512', e);
+  }
+
+  return k.subarray(0, 32);
+}
+
+// Algorithm 1: per-object key for RC4 and AESV2; AESV3 uses the file key directly
+export function computeObjectKey(fileKey: Uint8Array, ref: PDFRef, method: CryptMethod): Uint8Array {
+  if (method === 'AESV3') return fileKey;
+  const { objectNumber, generationNumber } = ref;
+  const hash = md5(concatBytes(
+    fileKey,
+    Uint8Array.of(objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff),
+    Uint8Array.of(generationNumber & 0xff, (generationNumber >> 8) & 0xff),
+    method === 'AESV2' ? Uint8Array.of(0x73, 0x41, 0x6c, 0x54) : new Uint8Array(0),
+  ));
+  return hash.subarray(0, Math.min(fileKey.length + 5, 16));
+}
+
+// Run `transform` over every string in an object tree, replacing them in place
+export async function transformStrings(
+  object: PDFObject,
+  transform: (bytes: Uint8Array) => Promise<Uint8Array>
+): Promise<void> {
+  const convert = async (value: PDFObject): Promise<PDFObject | null> => {
+    if (value instanceof PDFString || value instanceof PDFHexString) {
+      return PDFHexString.of(bytesToHex(await transform(value.asBytes())));
+    }
+    await transformStrings(value, transform);
+    return null;
+  };
+
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      const converted = await convert(value);
+      if (converted) object.set(key, converted);
+    }
+  } else if (object instanceof PDFArray) {
+    for (let idx = 0; idx < object.size(); idx++) {
+      const converted = await convert(object.get(idx));
+      if (converted) object.set(idx, converted);
+    }
+  } else if (object instanceof PDFRawStream) {
+    await transformStrings(object.dict, transform);
+  }
+}
+
+// Like transformStrings, but leaves signature values alone: the Contents of a
+// signature dictionary is never encrypted so it stays verifiable
+async function transformObjectStrings(
+  object: PDFObject,
+  transform: (bytes: Uint8Array) => Promise<Uint8Array>
+): Promise<void> {
+  const isSignature = object instanceof PDFDict && object.lookup(PDFName.of('Type')) === PDFName.of('Sig');
+  const contents = isSignature ? object.get(PDFName.of('Contents')) : undefined;
+  await transformStrings(object, transform);
+  if (isSignature && contents) object.set(PDFName.of('Contents'), contents);
+}
+
+const encryptBytes = async (key: Uint8Array, method: CryptMethod, data: Uint8Array) => {
+  if (method === 'RC4') return rc4(key, data);
+  const iv = randomBytes(16);
+  return concatBytes(iv, await aesCbcEncrypt(key, iv, data));
+};
+
+interface SecurityHandler {
+  encryptDict: PDFDict;
+  fileKey: Uint8Array;
+  method: CryptMethod;
+}
+
+async function createSecurityHandler(
+  pdfDoc: PDFDocument,
+  options: EncryptionOptions,
+  firstId: Uint8Array
+): Promise<SecurityHandler> {
+  const { context } = pdfDoc;
+  const permissions = encodePermissions(options.permissions);
+  // Without an owner password anyone with the user password could lift the
+  // restrictions, so fall back to a random one
+  const ownerPassword = options.ownerPassword || bytesToHex(randomBytes(16));
+
+  if (options.algorithm === 'aes-256') {
+    const fileKey = randomBytes(32);
+    const userPassword = encodePasswordR6(options.userPassword);
+    const ownerPasswordBytes = encodePasswordR6(ownerPassword);
+
+    const userValidationSalt = randomBytes(8);
+    const userKeySalt = randomBytes(8);
+    const userEntry = concatBytes(
+      await computeHashR6(userPassword, userValidationSalt, new Uint8Array(0)),
+      userValidationSalt,
+      userKeySalt,
+    );
+    const userEncryptionKey = await computeHashR6(userPassword, userKeySalt, new Uint8Array(0));
+    const userKeyEntry = await aesCbcEncryptNoPadding(userEncryptionKey, new Uint8Array(16), fileKey);
+
+    const ownerValidationSalt = randomBytes(8);
+    const ownerKeySalt = randomBytes(8);
+    const ownerEntry = concatBytes(
+      await computeHashR6(ownerPasswordBytes, ownerValidationSalt, userEntry),
+      ownerValidationSalt,
+      ownerKeySalt,
+    );
+    const ownerEncryptionKey = await computeHashR6(ownerPasswordBytes, ownerKeySalt, userEntry);
+    const ownerKeyEntry = await aesCbcEncryptNoPadding(ownerEncryptionKey, new Uint8Array(16), fileKey);
+
+    const permsBlock = concatBytes(
+      int32LE(permissions),
+      Uint8Array.of(0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62),
+      randomBytes(4),
+    );
+    const permsEntry = await aesCbcEncryptNoPadding(fileKey, new Uint8Array(16), permsBlock);
+
+    const encryptDict = context.obj({
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      P: permissions,
+      CF: { StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+    });
+    encryptDict.set(PDFName.of('O'), PDFHexString.of(bytesToHex(ownerEntry)));
+    encryptDict.set(PDFName.of('U'), PDFHexString.of(bytesToHex(userEntry)));
+    encryptDict.set(PDFName.of('OE'), PDFHexString.of(bytesToHex(ownerKeyEntry)));
+    encryptDict.set(PDFName.of('UE'), PDFHexString.of(bytesToHex(userKeyEntry)));
+    encryptDict.set(PDFName.of('Perms'), PDFHexString.of(bytesToHex(permsEntry)));
+
+    return { encryptDict, fileKey, method: 'AESV3' };
+  }
+
+  const revision = options.algorithm === 'aes-128' ? 4 : 3;
+  const keyLength = 16;
+  const ownerKey = computeOwnerKeyR2to4(padPassword(ownerPassword), revision, keyLength);
+  const ownerEntry = rc4Rounds(ownerKey, padPassword(options.userPassword));
+  const fileKey = computeFileKeyR2to4(
+    padPassword(options.userPassword),
+    ownerEntry,
+    permissions,
+    firstId,
+    revision,
+    keyLength,
+    true,
+  );
+  const userEntry = computeUserEntryR3to4(fileKey, firstId);
+
+  const encryptDict = revision === 4
+    ? context.obj({
+      Filter: 'Standard',
+      V: 4,
+      R: 4,
+      Length: 128,
+      P: permissions,
+      CF: { StdCF: { CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+    })
+    : context.obj({
+      Filter: 'Standard',
+      V: 2,
+      R: 3,
+      Length: 128,
+      P: permissions,
+    });
+  encryptDict.set(PDFName.of('O'), PDFHexString.of(bytesToHex(ownerEntry)));
+  encryptDict.set(PDFName.of('U'), PDFHexString.of(bytesToHex(userEntry)));
+
+  return { encryptDict, fileKey, method: revision === 4 ? 'AESV2' : 'RC4' };
+}
+
+export async function encryptPDF(data: ArrayBuffer | Uint8Array, options: EncryptionOptions): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+  if (pdfDoc.isEncrypted) {
+    throw new Error('This PDF is already encrypted. Remove its password first.');
+  }
+
+  const { context } = pdfDoc;
+
+  const existingId = context.trailerInfo.ID;
+  let firstId: Uint8Array;
+  if (existingId instanceof PDFArray && existingId.size() > 0) {
+    const first = existingId.lookup(0);
+    firstId = first instanceof PDFHexString || first instanceof PDFString ? first.asBytes() : randomBytes(16);
+  } else {
+    firstId = randomBytes(16);
+  }
+  const idString = PDFHexString.of(bytesToHex(firstId));
+  context.trailerInfo.ID = context.obj([idString, idString]);
+
+  const { encryptDict, fileKey, method } = await createSecurityHandler(pdfDoc, options, firstId);
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const objectKey = computeObjectKey(fileKey, ref, method);
+    const encrypt = (bytes: Uint8Array) => encryptBytes(objectKey, method, bytes);
+
+    if (object instanceof PDFRawStream) {
+      await transformStrings(object.dict, encrypt);
+      context.assign(ref, PDFRawStream.of(object.dict, await encrypt(object.getContents())));
+    } else {
+      await transformObjectStrings(object, encrypt);
+    }
+  }
+
+  // Register the dictionary last so its own strings are left in the clear
+  context.trailerInfo.Encrypt = context.register(encryptDict);
+
+  return pdfDoc.save({ useObjectStreams: false });
+}
+
+export async function isPDFEncrypted(data: ArrayBuffer | Uint8Array): Promise<boolean> {
+  const pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  return pdfDoc.isEncrypted;
+}
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((value, idx) => value === b[idx]);
+
+const lookupBytes = (dict: PDFDict, key: string) => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+};
+
+const lookupNumber = (dict: PDFDict, key: string, fallback: number) => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+};
+
+// Crypt filter named by StmF/StrF in a V4/V5 handler; Identity and None mean
+// the data is stored in the clear
+const lookupCryptMethod = (encryptDict: PDFDict, filterKey: 'StmF' | 'StrF'): CryptMethod | null => {
+  const name = encryptDict.lookup(PDFName.of(filterKey));
+  if (!(name instanceof PDFName) || name === PDFName.of('Identity')) return null;
+  const filters = encryptDict.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(name) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  if (method === PDFName.of('AESV3')) return 'AESV3';
+  if (method === PDFName.of('AESV2')) return 'AESV2';
+  if (method === PDFName.of('V2')) return 'RC4';
+  return null;
+};
+
+// Algorithms 6 and 7: the password may be either the user or the owner password
+function authenticateR2to4(
+  password: string,
+  encryptDict: PDFDict,
+  firstId: Uint8Array,
+  revision: number,
+  keyLength: number,
+  encryptMetadata: boolean
+): Uint8Array | null {
+  const ownerEntry = lookupBytes(encryptDict, 'O').subarray(0, 32);
+  const userEntry = lookupBytes(encryptDict, 'U');
+  const permissions = lookupNumber(encryptDict, 'P', 0);
+
+  const checkUserPassword = (paddedPassword: Uint8Array) => {
+    const fileKey = computeFileKeyR2to4(
+      paddedPassword, ownerEntry, permissions, firstId, revision, keyLength, encryptMetadata
+    );
+    // Revision 3 and later only define the first 16 bytes of U
+    const compareLength = revision === 2 ? 32 : 16;
+    const expected = revision === 2 ? rc4(fileKey, PASSWORD_PADDING) : computeUserEntryR3to4(fileKey, firstId);
+    return bytesEqual(expected.subarray(0, compareLength), userEntry.subarray(0, compareLength)) ? fileKey : null;
+  };
+
+  const paddedPassword = padPassword(password);
+  const userFileKey = checkUserPassword(paddedPassword);
+  if (userFileKey) return userFileKey;
+
+  const ownerKey = computeOwnerKeyR2to4(paddedPassword, revision, keyLength);
+  const recoveredUserPassword = revision === 2 ? rc4(ownerKey, ownerEntry) : rc4Rounds(ownerKey, ownerEntry, true);
+  return checkUserPassword(recoveredUserPassword);
+}
+
+// Algorithms 11 and 12. Revision 5 is Adobe's deprecated extension that uses a
+// single SHA-256 instead of the iterated hash.
+async function authenticateR5to6(password: string, encryptDict: PDFDict, revision: number): Promise<Uint8Array | null> {
+  const passwordBytes = encodePasswordR6(password);
+  const ownerEntry = lookupBytes(encryptDict, 'O');
+  const userEntry = lookupBytes(encryptDict, 'U').subarray(0, 48);
+  const hash = (salt: Uint8Array, extra: Uint8Array) =>
+    revision === 5
+      ? sha('SHA-256', concatBytes(passwordBytes, salt, extra))
+      : computeHashR6(passwordBytes, salt, extra);
+  const zeroIv = new Uint8Array(16);
+
+  if (bytesEqual(await hash(ownerEntry.subarray(32, 40), userEntry), ownerEntry.subarray(0, 32))) {
+    const key = await hash(ownerEntry.subarray(40, 48), userEntry);
+    return aesCbcDecryptNoPadding(key, zeroIv, lookupBytes(encryptDict, 'OE').subarray(0, 32));
+  }
+  if (bytesEqual(await hash(userEntry.subarray(32, 40), new Uint8Array(0)), userEntry.subarray(0, 32))) {
+    const key = await hash(userEntry.subarray(40, 48), new Uint8Array(0));
+    return aesCbcDecryptNoPadding(key, zeroIv, lookupBytes(encryptDict, 'UE').subarray(0, 32));
+  }
+  return null;
+}
+
+const decryptBytes = async (key: Uint8Array, method: CryptMethod, data: Uint8Array) => {
+  if (method === 'RC4') return rc4(key, data);
+  if (data.length <= 16) return new Uint8Array(0);
+  const iv = data.subarray(0, 16);
+  const body = data.subarray(16);
+  try {
+    return await aesCbcDecrypt(key, iv, body);
+  } catch {
+    // Some producers write invalid padding; keep what decrypts
+    return aesCbcDecryptNoPadding(key, iv, body.subarray(0, body.length - (body.length % 16)));
+  }
+};
+
+// pdf-lib cannot parse encrypted object streams and keeps their raw bytes
+// instead, so parse them again once they can be decrypted
+const reparseInvalidObject = (object: PDFInvalidObject, context: PDFContext) => {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  try {
+    return PDFObjectParser.forBytes(bytes, context).parseObject();
+  } catch {
+    return null;
+  }
+};
+
+// Decrypt a PDF with its user or owner password and save an unencrypted copy
+export async function decryptPDF(data: ArrayBuffer | Uint8Array, password: string): Promise<Uint8Array> {
+  const context = await PDFParser.forBytesWithOptions(new Uint8Array(data)).parseDocument();
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encryptDict = context.lookup(encryptRef);
+  if (!(encryptDict instanceof PDFDict)) {
+    throw new Error('This PDF is not password protected.');
+  }
+  if (encryptDict.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error('This PDF uses an unsupported security handler.');
+  }
+
+  const version = lookupNumber(encryptDict, 'V', 0);
+  const revision = lookupNumber(encryptDict, 'R', 0);
+  const encryptMetadata = encryptDict.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+
+  const ids = context.lookup(context.trailerInfo.ID);
+  const firstIdObject = ids instanceof PDFArray && ids.size() > 0 ? ids.lookup(0) : undefined;
+  const firstId = firstIdObject instanceof PDFString || firstIdObject instanceof PDFHexString
+    ? firstIdObject.asBytes()
+    : new Uint8Array(0);
+
+  const fileKey = revision >= 5
+    ? await authenticateR5to6(password, encryptDict, revision)
+    : authenticateR2to4(
+      password,
+      encryptDict,
+      firstId,
+      revision,
+      version === 1 ? 5 : lookupNumber(encryptDict, 'Length', 40) / 8,
+      encryptMetadata
+    );
+  if (!fileKey) throw new Error('Incorrect password.');
+
+  const streamMethod = version >= 4 ? lookupCryptMethod(encryptDict, 'StmF') : 'RC4';
+  const stringMethod = version >= 4 ? lookupCryptMethod(encryptDict, 'StrF') : 'RC4';
+  const cipherFor = (ref: PDFRef, method: CryptMethod | null) => {
+    if (!method) return async (bytes: Uint8Array) => bytes;
+    const objectKey = computeObjectKey(fileKey, ref, method);
+    return (bytes: Uint8Array) => decryptBytes(objectKey, method, bytes);
+  };
+
+  const objectStreams: PDFRawStream[] = [];
+  for (const [ref, entry] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) continue;
+    const object = entry instanceof PDFInvalidObject ? reparseInvalidObject(entry, context) : entry;
+    if (!object) continue;
+
+    const decryptString = cipherFor(ref, stringMethod);
+    if (object instanceof PDFRawStream) {
+      await transformStrings(object.dict, decryptString);
+      const type = object.dict.lookup(PDFName.of('Type'));
+      const contents = type === PDFName.of('Metadata') && !encryptMetadata
+        ? object.getContents()
+        : await cipherFor(ref, streamMethod)(object.getContents());
+      const stream = PDFRawStream.of(object.dict, contents);
+
+      if (type === PDFName.of('ObjStm')) {
+        context.delete(ref);
+        objectStreams.push(stream);
+      } else {
+        context.assign(ref, stream);
+      }
+    } else {
+      await transformObjectStrings(object, decryptString);
+      if (object !== entry) context.assign(ref, object);
+    }
+  }
+
+  // Objects inside object streams are only encrypted as part of their stream
+  for (const stream of objectStreams) {
+    await PDFObjectStreamParser.forStream(stream).parseIntoContext();
+  }
+
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+  delete context.trailerInfo.Encrypt;
+
+  return PDFWriter.forContext(context, Infinity).serializeToBuffer();
+}
@@ -0,0 +1,234 @@
+import {
+  PDFArray,
+  PDFCheckBox,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFObjectParser,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFRef,
+  PDFString,
+  PDFTextField,
+} from 'pdf-lib';
+
+export type FormFieldValue = string | boolean | string[];
+export type FormValues = Record<string, FormFieldValue>;
+
+export type FormField =
+  | { type: 'text'; name: string; readOnly: boolean; multiline: boolean; maxLength?: number }
+  | { type: 'checkbox'; name: string; readOnly: boolean; onValue: string }
+  | { type: 'radio'; name: string; readOnly: boolean; options: string[] }
+  | { type: 'dropdown'; name: string; readOnly: boolean; options: string[] }
+  | { type: 'list'; name: string; readOnly: boolean; options: string[]; multiSelect: boolean };
+
+export interface PDFFormData {
+  fields: FormField[];
+  values: FormValues;
+}
+
+// List the fillable fields of a PDF with their current values. Buttons and
+// signature fields have nothing to fill and are left out.
+export async function readFormFields(data: ArrayBuffer): Promise<PDFFormData> {
+  const pdfDoc = await PDFDocument.load(data);
+  const fields: FormField[] = [];
+  const values: FormValues = {};
+
+  for (const field of pdfDoc.getForm().getFields()) {
+    const name = field.getName();
+    const readOnly = field.isReadOnly();
+
+    if (field instanceof PDFTextField) {
+      fields.push({
+        type: 'text',
+        name,
+        readOnly,
+        multiline: field.isMultiline(),
+        maxLength: field.getMaxLength(),
+      });
+      values[name] = field.getText() ?? '';
+    } else if (field instanceof PDFCheckBox) {
+      fields.push({ type: 'checkbox', name, readOnly, onValue: field.acroField.getOnValue()?.decodeText() ?? 'Yes' });
+      values[name] = field.isChecked();
+    } else if (field instanceof PDFRadioGroup) {
+      fields.push({ type: 'radio', name, readOnly, options: field.getOptions() });
+      values[name] = field.getSelected() ?? '';
+    } else if (field instanceof PDFDropdown) {
+      fields.push({ type: 'dropdown', name, readOnly, options: field.getOptions() });
+      values[name] = field.getSelected()[0] ?? '';
+    } else if (field instanceof PDFOptionList) {
+      fields.push({
+        type: 'list',
+        name,
+        readOnly,
+        options: field.getOptions(),
+        multiSelect: field.isMultiselect(),
+      });
+      values[name] = field.getSelected();
+    }
+  }
+
+  return { fields, values };
+}
+
+// Write values back into the form. Flattening turns every field into static
+// page content so the result can no longer be edited.
+export async function fillForm(data: ArrayBuffer, values: FormValues, flatten: boolean): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data);
+  const form = pdfDoc.getForm();
+
+  for (const field of form.getFields()) {
+    const value = values[field.getName()];
+    if (value === undefined || field.isReadOnly()) continue;
+
+    if (field instanceof PDFTextField) {
+      field.setText(String(value) || undefined);
+    } else if (field instanceof PDFCheckBox) {
+      if (value === true) field.check();
+      else field.uncheck();
+    } else if (field instanceof PDFRadioGroup) {
+      if (typeof value === 'string' && field.getOptions().includes(value)) field.select(value);
+      else field.clear();
+    } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+      const selected = (Array.isArray(value) ? value : [String(value)]).filter(Boolean);
+      if (selected.length > 0) field.select(selected);
+      else field.clear();
+    }
+  }
+
+  if (flatten) form.flatten();
+  return pdfDoc.save();
+}
+
+// Coerce loosely typed imported values (FDF names, JSON from other tools) into
+// the shape each field expects. Unknown field names are dropped.
+export function normalizeFormValues(fields: FormField[], imported: Record<string, unknown>): FormValues {
+  const values: FormValues = {};
+
+  for (const field of fields) {
+    if (!(field.name in imported)) continue;
+    const value = imported[field.name];
+
+    if (field.type === 'checkbox') {
+      values[field.name] = typeof value === 'boolean'
+        ? value
+        : value !== null && value !== undefined && !['', 'off', 'false', 'no'].includes(String(value).toLowerCase());
+    } else if (field.type === 'list') {
+      values[field.name] = (Array.isArray(value) ? value : [value]).map(String).filter(Boolean);
+    } else {
+      values[field.name] = Array.isArray(value) ? String(value[0] ?? '') : String(value ?? '');
+    }
+  }
+
+  return values;
+}
+
+export function exportFormValuesJSON(values: FormValues): string {
+  return JSON.stringify(values, null, 2);
+}
+
+export function parseFormValuesJSON(text: string): Record<string, unknown> {
+  const parsed = JSON.parse(text);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('The JSON file must contain an object of field names and values');
+  }
+  return parsed;
+}
+
+interface FDFNode {
+  value?: PDFObject;
+  kids: Map<string, FDFNode>;
+}
+
+// FDF stores hierarchical names as a tree of partial names joined by dots
+export function exportFormValuesFDF(fields: FormField[], values: FormValues): string {
+  const context = PDFContext.create();
+  const root: FDFNode = { kids: new Map() };
+
+  for (const field of fields) {
+    const value = values[field.name];
+    if (value === undefined) continue;
+
+    let node = root;
+    for (const part of field.name.split('.')) {
+      if (!node.kids.has(part)) node.kids.set(part, { kids: new Map() });
+      node = node.kids.get(part)!;
+    }
+
+    if (field.type === 'checkbox') {
+      node.value = PDFName.of(value === true ? field.onValue : 'Off');
+    } else if (field.type === 'radio') {
+      node.value = PDFName.of(value ? String(value) : 'Off');
+    } else if (Array.isArray(value)) {
+      node.value = context.obj(value.map(option => PDFHexString.fromText(option)));
+    } else {
+      node.value = PDFHexString.fromText(String(value));
+    }
+  }
+
+  const toFieldDicts = (node: FDFNode): PDFArray => context.obj(
+    Array.from(node.kids, ([name, child]) => {
+      const dict = context.obj({});
+      dict.set(PDFName.of('T'), PDFHexString.fromText(name));
+      if (child.value) dict.set(PDFName.of('V'), child.value);
+      if (child.kids.size > 0) dict.set(PDFName.of('Kids'), toFieldDicts(child));
+      return dict;
+    })
+  );
+
+  const catalog = context.obj({ FDF: { Fields: toFieldDicts(root) } });
+  return `%FDF-1.2\n1 0 obj\n${catalog.toString()}\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n`;
+}
+
+const decodeFDFValue = (value: PDFObject | undefined): unknown => {
+  if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText();
+  if (value instanceof PDFName) return value.decodeText();
+  if (value instanceof PDFArray) return value.asArray().map(item => decodeFDFValue(item));
+  return undefined;
+};
+
+// Read field values from an FDF file. FDF shares PDF object syntax but not the
+// header, so its objects are parsed one by one.
+export function parseFormValuesFDF(bytes: Uint8Array): Record<string, unknown> {
+  const context = PDFContext.create();
+  const text = new TextDecoder('latin1').decode(bytes);
+  const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+  let rootRef: PDFRef | undefined;
+
+  for (let match = objectPattern.exec(text); match; match = objectPattern.exec(text)) {
+    const ref = PDFRef.of(Number(match[1]), Number(match[2]));
+    const object = PDFObjectParser.forBytes(bytes.subarray(match.index + match[0].length), context).parseObject();
+    context.assign(ref, object);
+    if (!rootRef && object instanceof PDFDict && object.has(PDFName.of('FDF'))) rootRef = ref;
+  }
+
+  const catalog = rootRef ? context.lookup(rootRef, PDFDict) : undefined;
+  const fdf = catalog?.lookup(PDFName.of('FDF'));
+  const fields = fdf instanceof PDFDict ? fdf.lookup(PDFName.of('Fields')) : undefined;
+  if (!(fields instanceof PDFArray)) {
+    throw new Error('The FDF file does not contain any form fields');
+  }
+
+  const values: Record<string, unknown> = {};
+  const visit = (fieldArray: PDFArray, prefix: string) => {
+    for (let idx = 0; idx < fieldArray.size(); idx++) {
+      const field = fieldArray.lookup(idx);
+      if (!(field instanceof PDFDict)) continue;
+
+      const partial = decodeFDFValue(field.lookup(PDFName.of('T')));
+      const name = typeof partial === 'string' ? (prefix ? `${prefix}.${partial}` : partial) : prefix;
+      const value = decodeFDFValue(field.lookup(PDFName.of('V')));
+      if (value !== undefined && name) values[name] = value;
+
+      const kids = field.lookup(PDFName.of('Kids'));
+      if (kids instanceof PDFArray) visit(kids, name);
+    }
+  };
+  visit(fields, '');
+
+  return values;
+}
@@ -0,0 +1,504 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem, TextStyle } from 'pdfjs-dist/types/src/display/api';
+import { pdfjsLib } from './pdfjs';
+
+export interface TextRun {
+  text: string;
+  // Points from the top-left corner of the page as displayed; y is the baseline
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  fontFamily: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+// Runs on one baseline with no wide gap between them
+export interface TextLine {
+  runs: TextRun[];
+  x: number;
+  right: number;
+  y: number;
+  fontSize: number;
+}
+
+// Lines sharing a baseline, left to right
+export interface TextRow {
+  lines: TextLine[];
+  y: number;
+  top: number;
+  bottom: number;
+  fontSize: number;
+}
+
+// The lines that fall into one table cell, top to bottom
+export type TableCell = TextLine[];
+
+export interface LayoutTable {
+  columns: { left: number; right: number }[];
+  rows: TableCell[][];
+  top: number;
+  bottom: number;
+}
+
+export type LayoutBlock =
+  | { kind: 'row'; row: TextRow }
+  | { kind: 'table'; table: LayoutTable };
+
+export interface PageLayout {
+  width: number;
+  height: number;
+  // Top to bottom
+  blocks: LayoutBlock[];
+}
+
+export interface PageImage {
+  x: number;
+  top: number;
+  width: number;
+  height: number;
+  png: ArrayBuffer;
+}
+
+// A horizontal (y1 === y2) or vertical (x1 === x2) line drawn on the page,
+// such as a table border
+export interface RulingLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PageRulings {
+  horizontal: RulingLine[];
+  vertical: RulingLine[];
+}
+
+type Matrix = number[];
+type OperatorArgs = Awaited<ReturnType<PDFPageProxy['getOperatorList']>>['argsArray'][number];
+
+const multiply = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+// Gap between runs, in ems, beyond which they belong to separate lines
+const LINE_BREAK_GAP = 1.2;
+// Gap, in ems, that stands for a space the PDF did not encode
+const WORD_GAP = 0.15;
+// Table cells average fewer characters than this; wider "cells" are prose columns
+const MAX_TABLE_CELL_LENGTH = 40;
+
+// "ABCDEF+TimesNewRomanPS-BoldMT" -> "Times New Roman"
+const cleanFontName = (name: string) => name
+  .replace(/^[A-Z]{6}\+/, '')
+  .split(/[-,]/)[0]
+  .replace(/(PSMT|MT|PS)$/, '')
+  .replace(/([a-z])([A-Z])/g, '$1 $2');
+
+export const getLineText = (line: TextLine) => line.runs.map(run => run.text).join('');
+
+export const getCellText = (cell: TableCell) => cell.map(getLineText).join(' ').trim();
+
+const isTextItem = (item: object): item is TextItem => 'str' in item && 'transform' in item;
+
+const sameStyle = (a: TextRun, b: TextRun) => a.fontFamily === b.fontFamily && a.bold === b.bold &&
+  a.italic === b.italic && Math.abs(a.fontSize - b.fontSize) < 0.5;
+
+// Text runs in display coordinates with the font details pdf.js resolved.
+// Fonts only reach commonObjs once the operator list has been built.
+export async function extractTextRuns(page: PDFPageProxy): Promise<TextRun[]> {
+  const viewport = page.getViewport({ scale: 1 });
+  await page.getOperatorList();
+  const textContent = await page.getTextContent();
+  const runs: TextRun[] = [];
+
+  for (const item of textContent.items) {
+    if (!isTextItem(item) || !item.str.trim()) continue;
+
+    const [, , c, d, e, f] = multiply(viewport.transform, item.transform);
+    const font = page.commonObjs.has(item.fontName) ? page.commonObjs.get(item.fontName) : null;
+    const rawName: string = font?.name ?? '';
+    const style: TextStyle | undefined = textContent.styles[item.fontName];
+
+    runs.push({
+      text: item.str,
+      x: e,
+      y: f,
+      width: item.width,
+      fontSize: Math.hypot(c, d) || item.height,
+      fontFamily: cleanFontName(rawName) || style?.fontFamily || 'Arial',
+      bold: Boolean(font?.bold) || /bold|black|heavy|semibold|demi/i.test(rawName),
+      italic: Boolean(font?.italic) || /italic|oblique/i.test(rawName),
+    });
+  }
+
+  return runs;
+}
+
+const toLine = (runs: TextRun[]): TextLine => ({
+  runs,
+  x: runs[0].x,
+  right: Math.max(...runs.map(run => run.x + run.width)),
+  y: runs[0].y,
+  fontSize: Math.max(...runs.map(run => run.fontSize)),
+});
+
+// Split a baseline's runs into lines wherever the gap is too wide for a word
+// space, adding the spaces PDFs often leave out and merging same-style runs
+const splitRowIntoLines = (runs: TextRun[]): TextLine[] => {
+  const lines: TextLine[] = [];
+  let current: TextRun[] = [];
+
+  for (const run of [...runs].sort((a, b) => a.x - b.x)) {
+    const prev = current[current.length - 1];
+    if (!prev) {
+      current.push({ ...run });
+      continue;
+    }
+
+    const gap = run.x - (prev.x + prev.width);
+    const em = Math.max(prev.fontSize, run.fontSize);
+    // Overprinted duplicates fake bold in some generators
+    if (gap < 0 && run.text === prev.text && Math.abs(run.x - prev.x) < em * 0.2) continue;
+
+    if (gap > em * LINE_BREAK_GAP) {
+      lines.push(toLine(current));
+      current = [{ ...run }];
+      continue;
+    }
+
+    const needsSpace = gap > em * WORD_GAP && !/\s$/.test(prev.text) && !/^\s/.test(run.text);
+    if (sameStyle(prev, run)) {
+      prev.text += (needsSpace ? ' ' : '') + run.text;
+      prev.width = run.x + run.width - prev.x;
+    } else {
+      current.push({ ...run, text: (needsSpace ? ' ' : '') + run.text });
+    }
+  }
+
+  if (current.length > 0) lines.push(toLine(current));
+  return lines;
+};
+
+export function groupTextRows(runs: TextRun[]): TextRow[] {
+  const sorted = [...runs].sort((a, b) => a.y - b.y || a.x - b.x);
+  const groups: TextRun[][] = [];
+
+  for (const run of sorted) {
+    const group = groups[groups.length - 1];
+    const ref = group?.[0];
+    if (ref && Math.abs(run.y - ref.y) <= Math.min(run.fontSize, ref.fontSize) * 0.4) {
+      group.push(run);
+    } else {
+      groups.push([run]);
+    }
+  }
+
+  return groups.map(group => {
+    const lines = splitRowIntoLines(group);
+    const fontSize = Math.max(...lines.map(line => line.fontSize));
+    const y = Math.max(...group.map(run => run.y));
+    return { lines, y, top: y - fontSize, bottom: y + fontSize * 0.25, fontSize };
+  });
+}
+
+// Merge the horizontal extents of lines into column bands
+export const findColumns = (rows: TextRow[]) => {
+  const extents = rows
+    .flatMap(row => row.lines.map(line => ({ left: line.x, right: line.right })))
+    .sort((a, b) => a.left - b.left);
+  const columns: { left: number; right: number }[] = [];
+
+  for (const extent of extents) {
+    const last = columns[columns.length - 1];
+    if (last && extent.left <= last.right + 2) {
+      last.right = Math.max(last.right, extent.right);
+    } else {
+      columns.push({ ...extent });
+    }
+  }
+  return columns;
+};
+
+const lineInColumn = (line: TextLine, column: { left: number; right: number }) =>
+  line.x >= column.left - 2 && line.x <= column.right + 2;
+
+// Classify a stretch of consecutive multi-line rows as a table, as prose
+// columns that should be read one after another, or as plain rows
+const layoutRowGroup = (rows: TextRow[]): LayoutBlock[] => {
+  const columns = rows.length >= 2 ? findColumns(rows) : [];
+  if (columns.length < 2) return rows.map(row => ({ kind: 'row', row }));
+
+  const lines = rows.flatMap(row => row.lines);
+  const averageLength = lines.reduce((sum, line) => sum + getLineText(line).length, 0) / lines.length;
+
+  if (averageLength > MAX_TABLE_CELL_LENGTH) {
+    return columns.flatMap(column => rows
+      .map(row => row.lines.filter(line => lineInColumn(line, column)))
+      .filter(columnLines => columnLines.length > 0)
+      .map((columnLines): LayoutBlock => {
+        const fontSize = Math.max(...columnLines.map(line => line.fontSize));
+        const y = columnLines[0].y;
+        return {
+          kind: 'row',
+          row: { lines: columnLines, y, top: y - fontSize, bottom: y + fontSize * 0.25, fontSize },
+        };
+      }));
+  }
+
+  return [{
+    kind: 'table',
+    table: {
+      columns,
+      rows: rows.map(row => columns.map(column => row.lines.filter(line => lineInColumn(line, column)))),
+      top: rows[0].top,
+      bottom: rows[rows.length - 1].bottom,
+    },
+  }];
+};
+
+// Detect tables as runs of consecutive rows that each hold several
+// separated lines, with no large vertical gap between them
+export function detectLayoutBlocks(rows: TextRow[]): LayoutBlock[] {
+  const blocks: LayoutBlock[] = [];
+  let group: TextRow[] = [];
+
+  const flush = () => {
+    blocks.push(...layoutRowGroup(group));
+    group = [];
+  };
+
+  for (const row of rows) {
+    const prev = group[group.length - 1];
+    const continues = row.lines.length >= 2 &&
+      (!prev || row.y - prev.y <= Math.max(row.fontSize, prev.fontSize) * 3);
+
+    if (continues) {
+      group.push(row);
+    } else {
+      if (group.length > 0) flush();
+      if (row.lines.length >= 2) group.push(row);
+      else blocks.push({ kind: 'row', row });
+    }
+  }
+  if (group.length > 0) flush();
+
+  return blocks;
+}
+
+export async function extractPageLayout(page: PDFPageProxy): Promise<PageLayout> {
+  const viewport = page.getViewport({ scale: 1 });
+  const rows = groupTextRows(await extractTextRuns(page));
+  return { width: viewport.width, height: viewport.height, blocks: detectLayoutBlocks(rows) };
+}
+
+// Decoded image as pdf.js hands it over: raw pixels or a bitmap
+interface ImageObject {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+  bitmap?: ImageBitmap;
+}
+
+const isImageObject = (object: unknown): object is ImageObject =>
+  typeof object === 'object' && object !== null &&
+  'width' in object && typeof object.width === 'number' &&
+  'height' in object && typeof object.height === 'number' &&
+  ('data' in object || 'bitmap' in object);
+
+// pdf.js image data is raw pixels (or a bitmap); re-encode it as PNG
+const encodeImageAsPNG = async (image: ImageObject): Promise<ArrayBuffer | null> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  if (image.bitmap) {
+    ctx.drawImage(image.bitmap, 0, 0);
+  } else if (image.data) {
+    const pixels = ctx.createImageData(image.width, image.height);
+    const { data } = image;
+    const count = image.width * image.height;
+
+    if (image.kind === pdfjsLib.ImageKind.RGBA_32BPP) {
+      pixels.data.set(data.subarray(0, count * 4));
+    } else if (image.kind === pdfjsLib.ImageKind.RGB_24BPP) {
+      for (let i = 0; i < count; i++) {
+        pixels.data[i * 4] = data[i * 3];
+        pixels.data[i * 4 + 1] = data[i * 3 + 1];
+        pixels.data[i * 4 + 2] = data[i * 3 + 2];
+        pixels.data[i * 4 + 3] = 255;
+      }
+    } else if (image.kind === pdfjsLib.ImageKind.GRAYSCALE_1BPP) {
+      const rowBytes = Math.ceil(image.width / 8);
+      for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < image.width; x++) {
+          const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+          const i = (y * image.width + x) * 4;
+          pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = bit ? 255 : 0;
+          pixels.data[i + 3] = 255;
+        }
+      }
+    } else {
+      return null;
+    }
+    ctx.putImageData(pixels, 0, 0);
+  } else {
+    return null;
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  return blob ? blob.arrayBuffer() : null;
+};
+
+const getImageObject = (page: PDFPageProxy, objId: string) => new Promise<unknown>(resolve => {
+  const objs = objId.startsWith('g_') ? page.commonObjs : page.objs;
+  objs.get(objId, resolve);
+});
+
+// Step through the operator list, tracking the transform that maps the
+// current user space onto the page as displayed
+const walkOperatorList = async (
+  page: PDFPageProxy,
+  visit: (fn: number, args: OperatorArgs, transform: Matrix) => Promise<void> | void
+) => {
+  const { OPS } = pdfjsLib;
+  const viewport = page.getViewport({ scale: 1 });
+  const operatorList = await page.getOperatorList();
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.transform) {
+      ctm = multiply(ctm, args);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (args[0]) ctm = multiply(ctm, args[0]);
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else {
+      await visit(fn, args, multiply(viewport.transform, ctm));
+    }
+  }
+};
+
+const applyMatrix = (m: Matrix, x: number, y: number) => ({ x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] });
+
+// Place every image XObject drawn on the page. Tiny images (bullets, rules)
+// are skipped.
+export async function extractPageImages(page: PDFPageProxy, minSize = 8): Promise<PageImage[]> {
+  const { OPS } = pdfjsLib;
+  const images: PageImage[] = [];
+
+  await walkOperatorList(page, async (fn, args, m) => {
+    if (fn !== OPS.paintImageXObject && fn !== OPS.paintInlineImageXObject) return;
+
+    // Images fill the unit square of the current transform
+    const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([u, v]) => applyMatrix(m, u, v));
+    const xs = corners.map(({ x }) => x);
+    const ys = corners.map(({ y }) => y);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    if (width < minSize || height < minSize) return;
+
+    const image = fn === OPS.paintImageXObject
+      ? await getImageObject(page, args[0])
+      : args[0];
+    const png = isImageObject(image) ? await encodeImageAsPNG(image) : null;
+    if (png) images.push({ x: Math.min(...xs), top: Math.min(...ys), width, height, png });
+  });
+
+  return images;
+}
+
+// Straight segments of a constructPath operation in page coordinates
+const getPathSegments = (ops: number[], args: number[], m: Matrix) => {
+  const { OPS } = pdfjsLib;
+  const segments: { a: { x: number; y: number }; b: { x: number; y: number } }[] = [];
+  let current = { x: 0, y: 0 };
+  let start = current;
+
+  for (let i = 0, j = 0; i < ops.length; i++) {
+    switch (ops[i]) {
+      case OPS.moveTo:
+        current = start = applyMatrix(m, args[j++], args[j++]);
+        break;
+      case OPS.lineTo: {
+        const next = applyMatrix(m, args[j++], args[j++]);
+        segments.push({ a: current, b: next });
+        current = next;
+        break;
+      }
+      case OPS.rectangle: {
+        const [x, y, w, h] = [args[j++], args[j++], args[j++], args[j++]];
+        const corners = [[x, y], [x + w, y], [x + w, y + h], [x, y + h]].map(([px, py]) => applyMatrix(m, px, py));
+        corners.forEach((corner, index) => segments.push({ a: corner, b: corners[(index + 1) % 4] }));
+        current = start = corners[0];
+        break;
+      }
+      case OPS.curveTo:
+        j += 4;
+        current = applyMatrix(m, args[j++], args[j++]);
+        break;
+      case OPS.curveTo2:
+      case OPS.curveTo3:
+        j += 2;
+        current = applyMatrix(m, args[j++], args[j++]);
+        break;
+      case OPS.closePath:
+        segments.push({ a: current, b: start });
+        current = start;
+        break;
+    }
+  }
+
+  return segments;
+};
+
+// Collect the axis-aligned lines that are stroked or filled, including the
+// edges of filled rectangles such as shaded rows. Clipping paths are ignored.
+export async function extractRulings(page: PDFPageProxy, minLength = 8): Promise<PageRulings> {
+  const { OPS } = pdfjsLib;
+  const paintOps: number[] = [
+    OPS.stroke, OPS.closeStroke, OPS.fill, OPS.eoFill, OPS.fillStroke,
+    OPS.eoFillStroke, OPS.closeFillStroke, OPS.closeEOFillStroke,
+  ];
+  const rulings: PageRulings = { horizontal: [], vertical: [] };
+  let pending: ReturnType<typeof getPathSegments> = [];
+
+  await walkOperatorList(page, (fn, args, m) => {
+    if (fn === OPS.constructPath) {
+      pending.push(...getPathSegments(args[0], args[1], m));
+    } else if (fn === OPS.endPath) {
+      pending = [];
+    } else if (paintOps.includes(fn)) {
+      for (const { a, b } of pending) {
+        if (Math.abs(a.y - b.y) < 1 && Math.abs(a.x - b.x) >= minLength) {
+          const y = (a.y + b.y) / 2;
+          rulings.horizontal.push({ x1: Math.min(a.x, b.x), y1: y, x2: Math.max(a.x, b.x), y2: y });
+        } else if (Math.abs(a.x - b.x) < 1 && Math.abs(a.y - b.y) >= minLength) {
+          const x = (a.x + b.x) / 2;
+          rulings.vertical.push({ x1: x, y1: Math.min(a.y, b.y), x2: x, y2: Math.max(a.y, b.y) });
+        }
+      }
+      pending = [];
+    }
+  });
+
+  return rulings;
+}
@@ -0,0 +1,164 @@
+import { PDFDocument, PDFFont, PDFName, StandardFonts, rgb } from 'pdf-lib';
+import { validatePageRanges } from './pageRanges';
+import { replaceUnencodable } from './pageStamp';
+import { createPageDestination, readOutline, writeOutline, type OutlineNode } from './pdfOutline';
+
+export interface MergeInput {
+  name: string;
+  data: ArrayBuffer;
+  // Page selection such as "1-3, 7"; empty for every page
+  pages: string;
+}
+
+export interface MergeOptions {
+  // Add a bookmark per file, with each file's own bookmarks nested under it
+  bookmarks: boolean;
+  // Start with generated contents pages linking to each file
+  tableOfContents: boolean;
+}
+
+export interface MergeResult {
+  bytes: Uint8Array;
+  pageCount: number;
+}
+
+interface MergedFile {
+  title: string;
+  // Index of the file's first page in the merged document
+  firstPage: number;
+  outline: OutlineNode[];
+}
+
+const TOC_MARGIN = 56;
+const TOC_TITLE_SIZE = 20;
+const TOC_ENTRY_SIZE = 12;
+const TOC_LINE_HEIGHT = 22;
+
+// Shorten text with an ellipsis until it fits the width
+const fitText = (text: string, font: PDFFont, size: number, width: number) => {
+  if (font.widthOfTextAtSize(text, size) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > width) fitted = fitted.slice(0, -1);
+  return `${fitted}...`;
+};
+
+// Map a file's bookmarks from its own page indices to the merged document.
+// Bookmarks on pages that weren't selected lose their target.
+const remapOutline = (nodes: OutlineNode[], pageMap: Map<number, number>): OutlineNode[] => nodes.map(node => ({
+  title: node.title,
+  pageIndex: node.pageIndex === undefined ? undefined : pageMap.get(node.pageIndex),
+  children: remapOutline(node.children, pageMap),
+}));
+
+const shiftOutline = (nodes: OutlineNode[], offset: number): OutlineNode[] => nodes.map(node => ({
+  ...node,
+  pageIndex: node.pageIndex === undefined ? undefined : node.pageIndex + offset,
+  children: shiftOutline(node.children, offset),
+}));
+
+// Insert contents pages at the front listing each file with its page number.
+// Each line links to the file's first page. Returns the number of pages added.
+const insertTableOfContents = async (pdfDoc: PDFDocument, files: MergedFile[]) => {
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const { width, height } = pdfDoc.getPage(0).getSize();
+  const firstPageEntries = Math.max(1, Math.floor((height - TOC_MARGIN * 2 - TOC_TITLE_SIZE * 2) / TOC_LINE_HEIGHT));
+  const entriesPerPage = Math.max(1, Math.floor((height - TOC_MARGIN * 2) / TOC_LINE_HEIGHT));
+  const tocPageCount = 1 + Math.ceil(Math.max(0, files.length - firstPageEntries) / entriesPerPage);
+
+  // Add the pages first so the page numbers and links can account for them
+  const tocPages = Array.from({ length: tocPageCount }, (_, index) => pdfDoc.insertPage(index, [width, height]));
+  const contentPages = pdfDoc.getPages();
+
+  let entry = 0;
+  tocPages.forEach((page, pageIndex) => {
+    let y = height - TOC_MARGIN;
+    if (pageIndex === 0) {
+      y -= TOC_TITLE_SIZE;
+      page.drawText('Contents', { x: TOC_MARGIN, y, size: TOC_TITLE_SIZE, font: bold, color: rgb(0, 0, 0) });
+      y -= TOC_TITLE_SIZE;
+    }
+
+    const count = pageIndex === 0 ? firstPageEntries : entriesPerPage;
+    for (const file of files.slice(entry, entry + count)) {
+      y -= TOC_LINE_HEIGHT;
+      const target = file.firstPage + tocPageCount;
+      const pageLabel = String(target + 1);
+      const labelWidth = font.widthOfTextAtSize(pageLabel, TOC_ENTRY_SIZE);
+      const title = fitText(replaceUnencodable(font, file.title), font, TOC_ENTRY_SIZE, width - TOC_MARGIN * 2 - labelWidth - 24);
+      const titleWidth = font.widthOfTextAtSize(title, TOC_ENTRY_SIZE);
+
+      page.drawText(title, { x: TOC_MARGIN, y, size: TOC_ENTRY_SIZE, font, color: rgb(0, 0, 0) });
+      page.drawText(pageLabel, { x: width - TOC_MARGIN - labelWidth, y, size: TOC_ENTRY_SIZE, font, color: rgb(0, 0, 0) });
+      // Dotted leader between the title and the page number
+      page.drawLine({
+        start: { x: TOC_MARGIN + titleWidth + 6, y: y + 2 },
+        end: { x: width - TOC_MARGIN - labelWidth - 6, y: y + 2 },
+        thickness: 0.75,
+        color: rgb(0.6, 0.6, 0.6),
+        dashArray: [1, 3],
+      });
+
+      const link = pdfDoc.context.register(pdfDoc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: [TOC_MARGIN, y - 4, width - TOC_MARGIN, y + TOC_ENTRY_SIZE],
+        Border: [0, 0, 0],
+        Dest: createPageDestination(pdfDoc, contentPages[target].ref),
+      }));
+      page.node.addAnnot(link);
+    }
+    entry += count;
+  });
+
+  return tocPageCount;
+};
+
+// Merge the selected pages of each file in order, optionally with an outline
+// and contents pages
+export async function mergePDFs(inputs: MergeInput[], options: MergeOptions): Promise<MergeResult> {
+  const mergedPdf = await PDFDocument.create();
+  const files: MergedFile[] = [];
+
+  for (const input of inputs) {
+    const pdf = await PDFDocument.load(input.data);
+    let pages = pdf.getPageIndices();
+    if (input.pages.trim()) {
+      const { ranges, rejected } = validatePageRanges(input.pages, pdf.getPageCount());
+      if (rejected.length > 0) {
+        throw new Error(`${input.name}: "${rejected[0].input}" can't be used because ${rejected[0].reason}`);
+      }
+      pages = ranges.flatMap(range => Array.from({ length: range.end - range.start }, (_, i) => range.start + i));
+      if (pages.length === 0) throw new Error(`${input.name}: no pages selected`);
+    }
+
+    const firstPage = mergedPdf.getPageCount();
+    const copiedPages = await mergedPdf.copyPages(pdf, pages);
+    copiedPages.forEach(page => mergedPdf.addPage(page));
+
+    // A page selected more than once is linked at its first copy
+    const pageMap = new Map<number, number>();
+    pages.forEach((source, index) => {
+      if (!pageMap.has(source)) pageMap.set(source, firstPage + index);
+    });
+
+    const outline = options.bookmarks ? remapOutline(await readOutline(input.data), pageMap) : [];
+    files.push({ title: input.name.replace(/\.pdf$/i, ''), firstPage, outline });
+  }
+
+  const tocPages = options.tableOfContents && files.length > 0 ? await insertTableOfContents(mergedPdf, files) : 0;
+
+  if (options.bookmarks) {
+    writeOutline(mergedPdf, [
+      ...(tocPages > 0 ? [{ title: 'Contents', pageIndex: 0, children: [] }] : []),
+      ...files.map(file => ({
+        title: file.title,
+        pageIndex: file.firstPage + tocPages,
+        children: shiftOutline(file.outline, tocPages),
+      })),
+    ]);
+    mergedPdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+  }
+
+  return { bytes: await mergedPdf.save(), pageCount: mergedPdf.getPageCount() };
+}
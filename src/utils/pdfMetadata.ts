@@ -0,0 +1,295 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { isPDFEncrypted } from './pdfEncryption';
+
+// Editable document information. Dates use the datetime-local input format
+// (YYYY-MM-DDTHH:mm) and are empty when unset.
+export interface PDFMetadataFields {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string;
+  producer: string;
+  creationDate: string;
+  modificationDate: string;
+}
+
+export interface PageSizeSummary {
+  // PDF points, as displayed (rotation applied)
+  width: number;
+  height: number;
+  count: number;
+  name?: string;
+}
+
+export interface FontSummary {
+  name: string;
+  type: string;
+  embedded: boolean;
+}
+
+export interface EmbeddedFileSummary {
+  name: string;
+  size?: number;
+}
+
+export interface PDFDocumentInfo {
+  fields: PDFMetadataFields;
+  xmp: string;
+  version: string;
+  pageCount: number;
+  pageSizes: PageSizeSummary[];
+  fonts: FontSummary[];
+  embeddedFiles: EmbeddedFileSummary[];
+  encrypted: boolean;
+}
+
+export const METADATA_FIELDS: { key: keyof PDFMetadataFields; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'author', label: 'Author' },
+  { key: 'subject', label: 'Subject' },
+  { key: 'keywords', label: 'Keywords' },
+  { key: 'creator', label: 'Creator' },
+  { key: 'producer', label: 'Producer' },
+  { key: 'creationDate', label: 'Created' },
+  { key: 'modificationDate', label: 'Modified' },
+];
+
+const NAMED_PAGE_SIZES: { name: string; width: number; height: number }[] = [
+  { name: 'A3', width: 842, height: 1191 },
+  { name: 'A4', width: 595, height: 842 },
+  { name: 'A5', width: 420, height: 595 },
+  { name: 'Letter', width: 612, height: 792 },
+  { name: 'Legal', width: 612, height: 1008 },
+  { name: 'Tabloid', width: 792, height: 1224 },
+];
+
+const getPageSizeName = (width: number, height: number) => {
+  const [short, long] = width < height ? [width, height] : [height, width];
+  const match = NAMED_PAGE_SIZES.find(size => Math.abs(size.width - short) <= 2 && Math.abs(size.height - long) <= 2);
+  if (!match) return undefined;
+  return width > height ? `${match.name} landscape` : match.name;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateTimeLocal = (date: Date | undefined) => (date && !isNaN(date.getTime())
+  ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  : '');
+
+const decodeText = (value: unknown) => (
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined
+);
+
+const decodeStream = (stream: PDFStream) => (
+  stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()
+);
+
+const getInfoDict = (pdfDoc: PDFDocument): PDFDict | undefined => {
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+  return info instanceof PDFDict ? info : undefined;
+};
+
+// The header version can be raised by a /Version entry in the catalog
+const getPDFVersion = (data: ArrayBuffer, pdfDoc: PDFDocument) => {
+  const header = new TextDecoder('latin1').decode(new Uint8Array(data, 0, Math.min(data.byteLength, 1024)));
+  const headerVersion = header.match(/%PDF-(\d+\.\d+)/)?.[1] ?? 'unknown';
+  const catalogVersion = pdfDoc.catalog.lookup(PDFName.of('Version'));
+  if (catalogVersion instanceof PDFName) {
+    const version = catalogVersion.decodeText();
+    if (headerVersion === 'unknown' || parseFloat(version) > parseFloat(headerVersion)) return version;
+  }
+  return headerVersion;
+};
+
+const getPageSizes = (pdfDoc: PDFDocument): PageSizeSummary[] => {
+  const sizes: PageSizeSummary[] = [];
+
+  for (const page of pdfDoc.getPages()) {
+    const { width, height } = page.getSize();
+    const quarterTurn = page.getRotation().angle % 180 !== 0;
+    const [w, h] = (quarterTurn ? [height, width] : [width, height]).map(value => Math.round(value));
+
+    const existing = sizes.find(size => size.width === w && size.height === h);
+    if (existing) {
+      existing.count++;
+    } else {
+      sizes.push({ width: w, height: h, count: 1, name: getPageSizeName(w, h) });
+    }
+  }
+
+  return sizes;
+};
+
+// Fonts are listed from every font dictionary in the file. Descendants of
+// composite fonts are folded into their parent.
+const getFonts = (pdfDoc: PDFDocument): FontSummary[] => {
+  const fonts = new Map<string, FontSummary>();
+
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFDict) || object.lookup(PDFName.of('Type')) !== PDFName.of('Font')) continue;
+
+    const subtype = object.lookup(PDFName.of('Subtype'));
+    const type = subtype instanceof PDFName ? subtype.decodeText() : 'Unknown';
+    if (type.startsWith('CIDFontType')) continue;
+
+    const baseFont = object.lookup(PDFName.of('BaseFont'));
+    const name = baseFont instanceof PDFName ? baseFont.decodeText().replace(/^[A-Z]{6}\+/, '') : 'Unnamed';
+
+    let descriptorOwner = object;
+    const descendants = object.lookup(PDFName.of('DescendantFonts'));
+    if (descendants instanceof PDFArray && descendants.lookup(0) instanceof PDFDict) {
+      descriptorOwner = descendants.lookup(0, PDFDict);
+    }
+    const descriptor = descriptorOwner.lookup(PDFName.of('FontDescriptor'));
+    const embedded = type === 'Type3' || (descriptor instanceof PDFDict &&
+      ['FontFile', 'FontFile2', 'FontFile3'].some(key => descriptor.has(PDFName.of(key))));
+
+    const key = `${name}/${type}/${embedded}`;
+    if (!fonts.has(key)) fonts.set(key, { name, type, embedded });
+  }
+
+  return Array.from(fonts.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Walk the EmbeddedFiles name tree in the catalog
+const getEmbeddedFiles = (pdfDoc: PDFDocument): EmbeddedFileSummary[] => {
+  const names = pdfDoc.catalog.lookup(PDFName.of('Names'));
+  const tree = names instanceof PDFDict ? names.lookup(PDFName.of('EmbeddedFiles')) : undefined;
+  const files: EmbeddedFileSummary[] = [];
+
+  const visit = (node: PDFDict) => {
+    const entries = node.lookup(PDFName.of('Names'));
+    if (entries instanceof PDFArray) {
+      for (let i = 0; i + 1 < entries.size(); i += 2) {
+        const spec = entries.lookup(i + 1);
+        if (!(spec instanceof PDFDict)) continue;
+
+        const name = decodeText(spec.lookup(PDFName.of('UF'))) ?? decodeText(spec.lookup(PDFName.of('F')))
+          ?? decodeText(entries.lookup(i)) ?? 'Unnamed';
+        const ef = spec.lookup(PDFName.of('EF'));
+        const stream = ef instanceof PDFDict ? ef.lookup(PDFName.of('F')) : undefined;
+        const params = stream instanceof PDFStream ? stream.dict.lookup(PDFName.of('Params')) : undefined;
+        const size = params instanceof PDFDict ? params.lookup(PDFName.of('Size')) : undefined;
+        files.push({ name, size: size instanceof PDFNumber ? size.asNumber() : undefined });
+      }
+    }
+
+    const kids = node.lookup(PDFName.of('Kids'));
+    if (kids instanceof PDFArray) {
+      for (let i = 0; i < kids.size(); i++) {
+        const kid = kids.lookup(i);
+        if (kid instanceof PDFDict) visit(kid);
+      }
+    }
+  };
+  if (tree instanceof PDFDict) visit(tree);
+
+  return files;
+};
+
+const getXMP = (pdfDoc: PDFDocument) => {
+  const metadata = pdfDoc.catalog.lookup(PDFName.of('Metadata'));
+  if (!(metadata instanceof PDFStream)) return '';
+  try {
+    return new TextDecoder('utf-8').decode(decodeStream(metadata));
+  } catch {
+    return '';
+  }
+};
+
+export async function readPDFInfo(data: ArrayBuffer): Promise<PDFDocumentInfo> {
+  const pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+
+  return {
+    fields: {
+      title: pdfDoc.getTitle() ?? '',
+      author: pdfDoc.getAuthor() ?? '',
+      subject: pdfDoc.getSubject() ?? '',
+      keywords: pdfDoc.getKeywords() ?? '',
+      creator: pdfDoc.getCreator() ?? '',
+      producer: pdfDoc.getProducer() ?? '',
+      creationDate: toDateTimeLocal(pdfDoc.getCreationDate()),
+      modificationDate: toDateTimeLocal(pdfDoc.getModificationDate()),
+    },
+    xmp: getXMP(pdfDoc),
+    version: getPDFVersion(data, pdfDoc),
+    pageCount: pdfDoc.getPageCount(),
+    pageSizes: getPageSizes(pdfDoc),
+    fonts: getFonts(pdfDoc),
+    embeddedFiles: getEmbeddedFiles(pdfDoc),
+    encrypted: await isPDFEncrypted(data),
+  };
+}
+
+// Write the edited fields and XMP packet. Empty fields are removed from the
+// Info dictionary rather than stored as empty strings.
+export async function updatePDFMetadata(data: ArrayBuffer, fields: PDFMetadataFields, xmp: string): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+
+  pdfDoc.setTitle(fields.title);
+  pdfDoc.setAuthor(fields.author);
+  pdfDoc.setSubject(fields.subject);
+  pdfDoc.setKeywords([fields.keywords]);
+  pdfDoc.setCreator(fields.creator);
+  pdfDoc.setProducer(fields.producer);
+  if (fields.creationDate) pdfDoc.setCreationDate(new Date(fields.creationDate));
+  if (fields.modificationDate) pdfDoc.setModificationDate(new Date(fields.modificationDate));
+
+  const info = getInfoDict(pdfDoc);
+  if (info) {
+    const keys: [keyof PDFMetadataFields, string][] = [
+      ['title', 'Title'], ['author', 'Author'], ['subject', 'Subject'], ['keywords', 'Keywords'],
+      ['creator', 'Creator'], ['producer', 'Producer'], ['creationDate', 'CreationDate'], ['modificationDate', 'ModDate'],
+    ];
+    for (const [field, key] of keys) {
+      if (!fields[field].trim()) info.delete(PDFName.of(key));
+    }
+  }
+
+  if (xmp.trim()) {
+    const stream = pdfDoc.context.stream(new TextEncoder().encode(xmp), { Type: 'Metadata', Subtype: 'XML' });
+    pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(stream));
+  } else {
+    pdfDoc.catalog.delete(PDFName.of('Metadata'));
+  }
+
+  return pdfDoc.save();
+}
+
+// Remove the Info dictionary and every XMP stream (the catalog's and those
+// attached to pages, images and fonts), plus private application data
+export async function stripPDFMetadata(data: ArrayBuffer): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+  const { context } = pdfDoc;
+
+  const infoRef = context.trailerInfo.Info;
+  context.trailerInfo.Info = undefined;
+  if (infoRef instanceof PDFRef) context.delete(infoRef);
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+    if (!dict) continue;
+
+    if (dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata')) {
+      context.delete(ref);
+      continue;
+    }
+    dict.delete(PDFName.of('Metadata'));
+    dict.delete(PDFName.of('PieceInfo'));
+  }
+
+  return pdfDoc.save();
+}
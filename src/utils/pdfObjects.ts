@@ -0,0 +1,75 @@
+import { PDFArray, PDFContext, PDFDict, PDFObject, PDFRawStream, PDFRef, PDFStream } from 'pdf-lib';
+
+// Low-level helpers for walking pdf-lib's object graph
+
+// Collect every indirect reference reachable from the trailer (Root and Info)
+export function collectReachableRefs(context: PDFContext): Set<PDFRef> {
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = [];
+
+  const { Root, Info } = context.trailerInfo;
+  if (Root) pending.push(Root);
+  if (Info) pending.push(Info);
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  return reachable;
+}
+
+// Replace references in place, e.g. to point duplicates at one canonical object
+export function remapReferences(context: PDFContext, remap: Map<PDFRef, PDFRef>): void {
+  if (remap.size === 0) return;
+
+  const visit = (object: PDFObject) => {
+    if (object instanceof PDFDict) {
+      for (const [key, value] of object.entries()) {
+        if (value instanceof PDFRef && remap.has(value)) {
+          object.set(key, remap.get(value)!);
+        } else {
+          visit(value);
+        }
+      }
+    } else if (object instanceof PDFArray) {
+      for (let idx = 0; idx < object.size(); idx++) {
+        const value = object.get(idx);
+        if (value instanceof PDFRef && remap.has(value)) {
+          object.set(idx, remap.get(value)!);
+        } else {
+          visit(value);
+        }
+      }
+    } else if (object instanceof PDFStream) {
+      visit(object.dict);
+    }
+  };
+
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    visit(object);
+  }
+
+  const { Root, Info } = context.trailerInfo;
+  if (Root instanceof PDFRef && remap.has(Root)) context.trailerInfo.Root = remap.get(Root)!;
+  if (Info instanceof PDFRef && remap.has(Info)) context.trailerInfo.Info = remap.get(Info)!;
+}
+
+// Key identifying streams with the same dictionary and bytes
+export const hashStream = async (stream: PDFRawStream) => {
+  const digest = await crypto.subtle.digest('SHA-256', stream.getContents());
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return `${stream.dict.toString()}:${hex}`;
+};
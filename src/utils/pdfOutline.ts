@@ -0,0 +1,89 @@
+import { PDFDocument, PDFHexString, PDFName, PDFNull, PDFRef, type PDFDict } from 'pdf-lib';
+import { pdfjsLib } from './pdfjs';
+
+// Bookmarks as a plain tree, pointing at zero-based page indices
+export interface OutlineNode {
+  title: string;
+  // Undefined when the bookmark has no page destination (e.g. a web link)
+  pageIndex?: number;
+  children: OutlineNode[];
+}
+
+type PDFJSDocument = Awaited<ReturnType<typeof pdfjsLib.getDocument>['promise']>;
+type PDFJSOutline = NonNullable<Awaited<ReturnType<PDFJSDocument['getOutline']>>>;
+
+const resolvePageIndex = async (pdf: PDFJSDocument, dest: PDFJSOutline[number]['dest']) => {
+  const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+  const target = Array.isArray(explicit) ? explicit[0] : undefined;
+  if (typeof target === 'number') return target;
+  if (target && typeof target === 'object') return pdf.getPageIndex(target).catch(() => undefined);
+  return undefined;
+};
+
+// Read a document's bookmarks, with named destinations resolved to pages
+export async function readOutline(data: ArrayBuffer): Promise<OutlineNode[]> {
+  const pdf = await pdfjsLib.getDocument({ data: data.slice(0), verbosity: 0 }).promise;
+
+  const convert = async (items: PDFJSOutline): Promise<OutlineNode[]> => Promise.all(items.map(async item => ({
+    title: item.title,
+    pageIndex: await resolvePageIndex(pdf, item.dest),
+    children: await convert(item.items ?? []),
+  })));
+
+  try {
+    return await convert((await pdf.getOutline()) ?? []);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// A destination that shows the top of the page at the reader's current zoom
+export const createPageDestination = (pdfDoc: PDFDocument, pageRef: PDFRef) => (
+  pdfDoc.context.obj([pageRef, PDFName.of('XYZ'), PDFNull, PDFNull, PDFNull])
+);
+
+// Replace the document outline. Nodes without a page are dropped, and their
+// children move up a level. Bookmarks with children start collapsed.
+export function writeOutline(pdfDoc: PDFDocument, nodes: OutlineNode[]): void {
+  const { context } = pdfDoc;
+  const pageRefs = pdfDoc.getPages().map(page => page.ref);
+
+  const flatten = (items: OutlineNode[]): OutlineNode[] => items.flatMap(item => (
+    item.pageIndex !== undefined && pageRefs[item.pageIndex] ? [item] : flatten(item.children)
+  ));
+
+  // Returns the number of items that are visible when the parent is open
+  const writeLevel = (items: OutlineNode[], parentRef: PDFRef, parent: PDFDict) => {
+    const placed = flatten(items);
+    const refs = placed.map(() => context.nextRef());
+
+    placed.forEach((item, index) => {
+      const dict = context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parentRef,
+        Dest: createPageDestination(pdfDoc, pageRefs[item.pageIndex!]),
+      });
+      if (index > 0) dict.set(PDFName.of('Prev'), refs[index - 1]);
+      if (index < refs.length - 1) dict.set(PDFName.of('Next'), refs[index + 1]);
+      writeLevel(item.children, refs[index], dict);
+      context.assign(refs[index], dict);
+    });
+
+    if (refs.length > 0) {
+      parent.set(PDFName.of('First'), refs[0]);
+      parent.set(PDFName.of('Last'), refs[refs.length - 1]);
+      // A negative count marks the item as closed
+      parent.set(PDFName.of('Count'), context.obj(parent.has(PDFName.of('Type')) ? refs.length : -refs.length));
+    }
+    return refs.length;
+  };
+
+  const rootRef = context.nextRef();
+  const root = context.obj({ Type: 'Outlines' });
+  if (writeLevel(nodes, rootRef, root) === 0) {
+    pdfDoc.catalog.delete(PDFName.of('Outlines'));
+    return;
+  }
+  context.assign(rootRef, root);
+  pdfDoc.catalog.set(PDFName.of('Outlines'), rootRef);
+}
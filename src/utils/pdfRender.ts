@@ -0,0 +1,81 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { pdfjsLib } from './pdfjs';
+
+export interface PageThumbnail {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Render a pdf.js page onto a fresh canvas at the given scale
+export async function renderPageToCanvas(page: PDFPageProxy, scale: number): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error(`Failed to get 2D context for page ${page.pageNumber}`);
+  }
+
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  await page.render({
+    canvasContext: context,
+    viewport,
+  }).promise;
+
+  return canvas;
+}
+
+// Render every page of a PDF to a small JPEG thumbnail. Width and height are
+// the page's size in PDF points as displayed, with its /Rotate applied.
+export async function renderPageThumbnails(data: ArrayBuffer, maxWidth = 200): Promise<PageThumbnail[]> {
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  const thumbnails: PageThumbnail[] = [];
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const canvas = await renderPageToCanvas(page, maxWidth / baseViewport.width);
+
+      thumbnails.push({
+        dataUrl: canvas.toDataURL('image/jpeg', 0.7),
+        width: baseViewport.width,
+        height: baseViewport.height,
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return thumbnails;
+}
+
+export interface PagePreview {
+  dataUrl: string;
+  pageNumber: number;
+  pageCount: number;
+}
+
+// Render a single page to a PNG data URL, clamping the page number to the document
+export async function renderPagePreview(data: ArrayBuffer | Uint8Array, pageNumber: number, maxWidth = 400): Promise<PagePreview> {
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+
+  try {
+    const clampedPage = Math.min(Math.max(1, pageNumber), pdf.numPages);
+    const page = await pdf.getPage(clampedPage);
+    const scale = maxWidth / page.getViewport({ scale: 1 }).width;
+    const canvas = await renderPageToCanvas(page, scale);
+    page.cleanup();
+
+    return {
+      dataUrl: canvas.toDataURL('image/png'),
+      pageNumber: clampedPage,
+      pageCount: pdf.numPages,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
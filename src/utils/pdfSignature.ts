@@ -0,0 +1,380 @@
+import {
+  PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRawStream, PDFRef, PDFString, degrees,
+  type PDFContext, type PDFObject,
+} from 'pdf-lib';
+import { bytesToHex, concatBytes, randomBytes, sha } from './pdfCrypto';
+import { createDetachedSignature, verifySignedData, type SignatureCheck } from './cms';
+import { getPageView } from './pageStamp';
+import type { SigningIdentity } from './pkcs12';
+
+// A placed signature image. Coordinates are fractions (0-1) of the page as
+// displayed, measured from the top-left corner, like redaction areas. The
+// height follows from the image's aspect ratio.
+export interface SignaturePlacement {
+  id: string;
+  // Zero-based page index
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+}
+
+export interface SignatureDetails {
+  name: string;
+  reason: string;
+  location: string;
+}
+
+export const createSignaturePlacementId = () => `signature-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Draw a PNG signature image at each placement
+export async function drawSignatureImages(data: ArrayBuffer, image: Uint8Array, placements: SignaturePlacement[]): Promise<Uint8Array> {
+  if (placements.length === 0) throw new Error('Please place the signature on at least one page');
+  const pdfDoc = await PDFDocument.load(data);
+  const embedded = await pdfDoc.embedPng(image);
+
+  for (const placement of placements) {
+    const page = pdfDoc.getPage(placement.page);
+    const view = getPageView(page);
+    const width = placement.width * view.width;
+    const height = width * (embedded.height / embedded.width);
+    const origin = view.toUserSpace({ x: placement.x * view.width, y: (1 - placement.y) * view.height - height });
+    page.drawImage(embedded, { x: origin.x, y: origin.y, width, height, rotate: degrees(view.rotation) });
+  }
+
+  return pdfDoc.save();
+}
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+const readLatin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+// Placeholder wide enough for any file offset, rewritten once the layout is known
+const BYTE_RANGE_PLACEHOLDER = [0, 9999999999, 9999999999, 9999999999];
+
+// Room for the CMS signature on top of the certificates it carries
+const SIGNATURE_OVERHEAD = 8192;
+
+const serializeObject = (ref: PDFRef, object: PDFObject) => {
+  const body = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(body, 0);
+  return concatBytes(latin1(`${ref.objectNumber} ${ref.generationNumber} obj\n`), body, latin1('\nendobj\n'));
+};
+
+const indexOf = (bytes: Uint8Array, text: string, from = 0) => {
+  const pattern = latin1(text);
+  search: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue search;
+    }
+    return i;
+  }
+  return -1;
+};
+
+// Where the last cross-reference section starts, whether it is a stream, and
+// the /Size it declares
+const readLastXref = (bytes: Uint8Array) => {
+  const tail = readLatin1(bytes.subarray(Math.max(0, bytes.length - 2048)));
+  const match = /startxref\s+(\d+)\s+%%EOF\s*$/.exec(tail);
+  if (!match) throw new Error('The PDF\'s cross-reference table could not be found');
+  const offset = Number(match[1]);
+  const section = readLatin1(bytes.subarray(offset));
+  const size = /\/Size\s+(\d+)/.exec(section);
+  return { offset, isStream: !section.startsWith('xref'), size: size ? Number(size[1]) : 0 };
+};
+
+// Split sorted object numbers into runs of consecutive ones, as both
+// cross-reference formats list them
+const groupRuns = (numbers: number[]) => {
+  const runs: number[][] = [];
+  for (const number of numbers) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === number - 1) run.push(number);
+    else runs.push([number]);
+  }
+  return runs;
+};
+
+interface XrefEntry {
+  offset: number;
+  generation: number;
+}
+
+const writeXrefTable = (entries: Map<number, XrefEntry>, trailer: PDFDict) => {
+  let table = 'xref\n';
+  for (const run of groupRuns([...entries.keys()].sort((a, b) => a - b))) {
+    table += `${run[0]} ${run.length}\n`;
+    for (const number of run) {
+      const { offset, generation } = entries.get(number)!;
+      table += `${String(offset).padStart(10, '0')} ${String(generation).padStart(5, '0')} n\r\n`;
+    }
+  }
+  const trailerBytes = new Uint8Array(trailer.sizeInBytes());
+  trailer.copyBytesInto(trailerBytes, 0);
+  return concatBytes(latin1(`${table}trailer\n`), trailerBytes, latin1('\n'));
+};
+
+// Cross-reference stream with 1-byte types, 4-byte offsets and 2-byte generations
+const writeXrefStream = (context: PDFContext, ref: PDFRef, entries: Map<number, XrefEntry>, trailer: PDFDict) => {
+  const numbers = [...entries.keys()].sort((a, b) => a - b);
+  const data = new Uint8Array(numbers.length * 7);
+  numbers.forEach((number, i) => {
+    const { offset, generation } = entries.get(number)!;
+    data.set([1, offset >>> 24, (offset >>> 16) & 0xff, (offset >>> 8) & 0xff, offset & 0xff, generation >> 8, generation & 0xff], i * 7);
+  });
+  trailer.set(PDFName.of('Type'), PDFName.of('XRef'));
+  trailer.set(PDFName.of('W'), context.obj([1, 4, 2]));
+  trailer.set(PDFName.of('Index'), context.obj(groupRuns(numbers).flatMap(run => [run[0], run.length])));
+  return serializeObject(ref, PDFRawStream.of(trailer, data));
+};
+
+// Names of the top-level form fields, to pick an unused one for the signature
+const getFieldNames = (context: PDFContext, fields: PDFArray) => fields.asArray().flatMap(field => {
+  const name = context.lookupMaybe(field, PDFDict)?.lookupMaybe(PDFName.of('T'), PDFString, PDFHexString);
+  return name ? [name.decodeText()] : [];
+});
+
+// Apply a detached PKCS#7 signature as an incremental update, so the bytes
+// that were signed stay exactly as they are in the output. The signature is
+// an invisible field on `pageIndex`; any visible signature image should be
+// drawn before signing.
+export async function signPDF(
+  data: Uint8Array,
+  identity: SigningIdentity,
+  details: SignatureDetails,
+  pageIndex = 0
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+  const { context } = pdfDoc;
+  const { Root, Info, ID } = context.trailerInfo;
+  if (!(Root instanceof PDFRef)) throw new Error('The PDF has no document catalog');
+  const xref = readLastXref(data);
+
+  // New objects must not reuse numbers the original cross-reference lists
+  context.largestObjectNumber = Math.max(context.largestObjectNumber, xref.size - 1);
+  const changed = new Set<PDFRef>();
+  // Get an array or dictionary that may be held directly or through a
+  // reference, creating it if needed and remembering which object changes
+  const edit = <T extends PDFArray | PDFDict>(owner: PDFRef, container: PDFDict, key: string, create: () => T): T => {
+    const value = container.get(PDFName.of(key));
+    if (value instanceof PDFRef) {
+      changed.add(value);
+      return context.lookup(value) as T;
+    }
+    changed.add(owner);
+    if (value) return value as T;
+    const created = create();
+    container.set(PDFName.of(key), created);
+    return created;
+  };
+
+  const signingTime = new Date();
+  const certificates = [identity.certificate, ...identity.chain];
+  const space = SIGNATURE_OVERHEAD + certificates.reduce((total, { raw }) => total + raw.length, 0);
+  const text = (value: string) => (value.trim() ? PDFHexString.fromText(value.trim()) : undefined);
+  const signatureRef = context.register(context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'adbe.pkcs7.detached',
+    ByteRange: BYTE_RANGE_PLACEHOLDER,
+    Contents: PDFHexString.of('0'.repeat(space * 2)),
+    M: PDFString.fromDate(signingTime),
+    Name: text(details.name || identity.certificate.commonName),
+    Reason: text(details.reason),
+    Location: text(details.location),
+  }));
+
+  const catalog = context.lookup(Root, PDFDict);
+  const acroFormRef = catalog.get(PDFName.of('AcroForm'));
+  const acroForm = edit(Root, catalog, 'AcroForm', () => context.obj({}));
+  const fields = edit(acroFormRef instanceof PDFRef ? acroFormRef : Root, acroForm, 'Fields', () => context.obj([]));
+  acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+
+  const existingNames = new Set(getFieldNames(context, fields));
+  let fieldNumber = 1;
+  while (existingNames.has(`Signature${fieldNumber}`)) fieldNumber++;
+
+  const page = pdfDoc.getPage(pageIndex);
+  const widgetRef = context.register(context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: PDFHexString.fromText(`Signature${fieldNumber}`),
+    V: signatureRef,
+    // Print and Locked; the zero-size rectangle keeps it invisible
+    F: 132,
+    Rect: [0, 0, 0, 0],
+    P: page.ref,
+  }));
+  fields.push(widgetRef);
+  edit(page.ref, page.node, 'Annots', () => context.obj([])).push(widgetRef);
+  changed.add(signatureRef);
+  changed.add(widgetRef);
+
+  // Append the changed objects and a cross-reference section pointing at them
+  const chunks: Uint8Array[] = [latin1('\n')];
+  let offset = data.length + 1;
+  const entries = new Map<number, XrefEntry>();
+  let signatureOffset = 0;
+  for (const ref of [...changed].sort((a, b) => a.objectNumber - b.objectNumber)) {
+    const bytes = serializeObject(ref, context.lookup(ref)!);
+    entries.set(ref.objectNumber, { offset, generation: ref.generationNumber });
+    if (ref === signatureRef) signatureOffset = offset;
+    chunks.push(bytes);
+    offset += bytes.length;
+  }
+
+  // A file with a cross-reference stream has to keep using them
+  const xrefRef = xref.isStream ? context.nextRef() : undefined;
+  const originalId = ID instanceof PDFArray ? ID.get(0) : undefined;
+  const trailer = context.obj({
+    Size: context.largestObjectNumber + 1,
+    Root,
+    Info,
+    ID: [originalId ?? PDFHexString.of(bytesToHex(randomBytes(16))), PDFHexString.of(bytesToHex(randomBytes(16)))],
+    Prev: xref.offset,
+  });
+  if (xrefRef) {
+    entries.set(xrefRef.objectNumber, { offset, generation: 0 });
+    chunks.push(writeXrefStream(context, xrefRef, entries, trailer));
+  } else {
+    chunks.push(writeXrefTable(entries, trailer));
+  }
+  chunks.push(latin1(`startxref\n${offset}\n%%EOF\n`));
+  const output = concatBytes(data, ...chunks);
+
+  // Fill in the byte ranges around the Contents placeholder
+  const byteRangeStart = output.indexOf(0x5b, indexOf(output, '/ByteRange', signatureOffset));
+  const byteRangeEnd = output.indexOf(0x5d, byteRangeStart) + 1;
+  const contentsStart = output.indexOf(0x3c, indexOf(output, '/Contents', signatureOffset));
+  const contentsEnd = output.indexOf(0x3e, contentsStart) + 1;
+  const byteRange = `[0 ${contentsStart} ${contentsEnd} ${output.length - contentsEnd}]`;
+  output.set(latin1(byteRange.padEnd(byteRangeEnd - byteRangeStart, ' ')), byteRangeStart);
+
+  const signedBytes = concatBytes(output.subarray(0, contentsStart), output.subarray(contentsEnd));
+  const signature = await createDetachedSignature(signedBytes, identity, signingTime);
+  if (signature.length > space) throw new Error('The signature is larger than the space reserved for it');
+  output.set(latin1(bytesToHex(signature)), contentsStart + 1);
+
+  return output;
+}
+
+const hexToBytes = (text: string) => {
+  const hex = text.replace(/[^0-9a-f]/gi, '');
+  const bytes = new Uint8Array(Math.floor(hex.length / 2));
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return bytes;
+};
+
+export interface PDFSignatureReport {
+  fieldName: string;
+  signerName: string;
+  issuer?: string;
+  signingTime?: Date;
+  reason?: string;
+  location?: string;
+  subFilter: string;
+  status: SignatureCheck;
+  message: string;
+  // False when more revisions were appended after this signature
+  coversWholeDocument: boolean;
+  // Whether the certificate was within its validity period when signing
+  certificateValid?: boolean;
+  selfSigned?: boolean;
+}
+
+const readText = (dict: PDFDict, key: string) => dict.lookupMaybe(PDFName.of(key), PDFString, PDFHexString)?.decodeText();
+
+const readDate = (dict: PDFDict, key: string) => {
+  try {
+    return dict.lookupMaybe(PDFName.of(key), PDFString, PDFHexString)?.decodeDate();
+  } catch {
+    return undefined;
+  }
+};
+
+async function checkSignature(bytes: Uint8Array, signature: PDFDict, fieldName: string): Promise<PDFSignatureReport> {
+  const subFilter = signature.lookupMaybe(PDFName.of('SubFilter'), PDFName)?.decodeText() ?? '';
+  const byteRange = signature.lookupMaybe(PDFName.of('ByteRange'), PDFArray)?.asArray()
+    .map(value => (value instanceof PDFNumber ? value.asNumber() : NaN)) ?? [];
+  const report: PDFSignatureReport = {
+    fieldName,
+    signerName: readText(signature, 'Name') ?? 'Unknown signer',
+    signingTime: readDate(signature, 'M'),
+    reason: readText(signature, 'Reason'),
+    location: readText(signature, 'Location'),
+    subFilter,
+    status: 'invalid',
+    message: '',
+    coversWholeDocument: byteRange.length === 4 && byteRange[2] + byteRange[3] === bytes.length,
+  };
+
+  // The ranges must cover everything except the hex string holding the signature
+  const [start, gapStart, gapEnd, length] = byteRange;
+  if (byteRange.length !== 4 || byteRange.some(value => !Number.isInteger(value) || value < 0)
+    || start !== 0 || gapStart >= gapEnd || gapEnd + length > bytes.length
+    || bytes[gapStart] !== 0x3c || bytes[gapEnd - 1] !== 0x3e) {
+    return { ...report, message: 'The signed byte ranges are malformed' };
+  }
+  if (!['adbe.pkcs7.detached', 'adbe.pkcs7.sha1', 'ETSI.CAdES.detached'].includes(subFilter)) {
+    return { ...report, status: 'unsupported', message: `Signatures of type ${subFilter || 'unknown'} cannot be checked` };
+  }
+
+  const signedBytes = concatBytes(bytes.subarray(0, gapStart), bytes.subarray(gapEnd, gapEnd + length));
+  const verification = await verifySignedData(hexToBytes(readLatin1(bytes.subarray(gapStart + 1, gapEnd - 1))), signedBytes);
+  const { signer } = verification;
+  const signingTime = verification.signingTime ?? report.signingTime;
+  const checked = {
+    ...report,
+    status: verification.status,
+    message: verification.message,
+    signerName: signer?.commonName ?? report.signerName,
+    issuer: signer?.issuer,
+    signingTime,
+    certificateValid: signer ? (signingTime ?? new Date()) >= signer.notBefore && (signingTime ?? new Date()) <= signer.notAfter : undefined,
+    selfSigned: signer?.selfSigned,
+  };
+
+  // adbe.pkcs7.sha1 signs the SHA-1 digest of the ranges rather than the ranges
+  if (subFilter === 'adbe.pkcs7.sha1' && checked.status === 'valid') {
+    const digest = await sha('SHA-1', signedBytes);
+    const content = verification.encapsulatedContent;
+    if (!content || content.length !== digest.length || content.some((byte, i) => byte !== digest[i])) {
+      return { ...checked, status: 'modified', message: 'The document has been modified since it was signed' };
+    }
+  }
+  return checked;
+}
+
+// Find every signature in the PDF and check that the bytes each one covers
+// are unchanged. Certificates are not checked against a list of trusted
+// authorities, so a valid result only shows the document is intact.
+export async function verifyPDFSignatures(data: ArrayBuffer): Promise<PDFSignatureReport[]> {
+  const bytes = new Uint8Array(data);
+  const pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  if (pdfDoc.isEncrypted) throw new Error('Signatures in encrypted PDFs cannot be verified');
+  const { context } = pdfDoc;
+
+  // Signature dictionaries are usually indirect; field names come from the
+  // fields whose values point at them
+  const signatures = new Map<PDFDict, string>();
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFDict)) continue;
+    if (object.get(PDFName.of('ByteRange')) && object.get(PDFName.of('Contents')) && !signatures.has(object)) {
+      signatures.set(object, '');
+    }
+    if (object.lookupMaybe(PDFName.of('FT'), PDFName) === PDFName.of('Sig')) {
+      const value = object.lookupMaybe(PDFName.of('V'), PDFDict);
+      if (value) signatures.set(value, readText(object, 'T') ?? '');
+    }
+  }
+
+  // Oldest revision first, by where each signature's byte ranges end
+  const signedLength = (signature: PDFDict) => {
+    const byteRange = signature.lookupMaybe(PDFName.of('ByteRange'), PDFArray);
+    const end = byteRange?.lookupMaybe(2, PDFNumber)?.asNumber() ?? 0;
+    return end + (byteRange?.lookupMaybe(3, PDFNumber)?.asNumber() ?? 0);
+  };
+  const ordered = [...signatures].sort(([a], [b]) => signedLength(a) - signedLength(b));
+  return Promise.all(ordered.map(([signature, name], i) => checkSignature(bytes, signature, name || `Signature ${i + 1}`)));
+}
@@ -0,0 +1,173 @@
+import { PDFDocument } from 'pdf-lib';
+import sanitizeFilename from 'sanitize-filename';
+import { readOutline } from './pdfOutline';
+import { validatePageRanges, type RejectedRange } from './pageRanges';
+
+export type SplitMode = 'ranges' | 'extract' | 'every' | 'odd-even' | 'size' | 'bookmarks';
+
+export interface SplitOptions {
+  mode: SplitMode;
+  // Page selection for the ranges and extract modes, e.g. "1-3, 4, 5-7"
+  ranges: string;
+  everyPages: number;
+  maxSizeMB: number;
+  // Output name with {name}, {n}, {start}, {end} and {title} placeholders
+  nameTemplate: string;
+}
+
+export const DEFAULT_SPLIT_NAME_TEMPLATE = '{name}-part{n}';
+
+export interface SplitPart {
+  name: string;
+  bytes: Uint8Array;
+  // Zero-based source pages, in order
+  pages: number[];
+}
+
+export interface SplitResult {
+  parts: SplitPart[];
+  rejected: RejectedRange[];
+}
+
+interface PartPlan {
+  pages: number[];
+  title: string;
+}
+
+const range = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+const buildPart = async (source: PDFDocument, pages: number[]) => {
+  const pdfDoc = await PDFDocument.create();
+  const copied = await pdfDoc.copyPages(source, pages);
+  copied.forEach(page => pdfDoc.addPage(page));
+  return pdfDoc.save();
+};
+
+// Grow each part page by page until it would pass the size limit. Saved
+// sizes aren't additive (pages share fonts and images), so candidates are
+// measured by saving them, with a galloping search to keep saves down. A page
+// that is over the limit on its own becomes a part by itself.
+const planBySize = async (source: PDFDocument, maxBytes: number): Promise<PartPlan[]> => {
+  const pageCount = source.getPageCount();
+  const plans: PartPlan[] = [];
+  let start = 0;
+
+  while (start < pageCount) {
+    let end = start + 1;
+    let step = 1;
+    while (end < pageCount) {
+      const candidate = Math.min(pageCount, end + step);
+      const size = (await buildPart(source, range(start, candidate))).byteLength;
+      if (size <= maxBytes) {
+        end = candidate;
+        step *= 2;
+      } else if (step === 1) {
+        break;
+      } else {
+        step = Math.max(1, Math.floor(step / 2));
+      }
+    }
+    plans.push({ pages: range(start, end), title: '' });
+    start = end;
+  }
+
+  return plans;
+};
+
+// One part per top-level bookmark, running to the next bookmark's page.
+// Pages before the first bookmark go with it.
+const planByBookmarks = async (data: ArrayBuffer, pageCount: number): Promise<PartPlan[]> => {
+  const starts = (await readOutline(data))
+    .filter(node => node.pageIndex !== undefined && node.pageIndex < pageCount)
+    .map(node => ({ page: node.pageIndex!, title: node.title }));
+
+  if (starts.length === 0) throw new Error('This PDF has no bookmarks that point to pages');
+
+  // Bookmarks can be out of page order; several on one page share a part
+  const sorted = starts
+    .sort((a, b) => a.page - b.page)
+    .filter((start, index, all) => index === 0 || start.page !== all[index - 1].page);
+  return sorted.map((start, index) => ({
+    pages: range(index === 0 ? 0 : start.page, sorted[index + 1]?.page ?? pageCount),
+    title: start.title,
+  }));
+};
+
+// Fill in the naming template and keep names unique within the ZIP
+const nameParts = (plans: PartPlan[], template: string, baseName: string) => {
+  const used = new Set<string>();
+  return plans.map((plan, index) => {
+    const pages = plan.pages;
+    const name = sanitizeFilename((template.trim() || DEFAULT_SPLIT_NAME_TEMPLATE)
+      .replace(/\{name\}/g, baseName)
+      .replace(/\{n\}/g, String(index + 1))
+      .replace(/\{start\}/g, String(pages[0] + 1))
+      .replace(/\{end\}/g, String(pages[pages.length - 1] + 1))
+      .replace(/\{title\}/g, plan.title || `part${index + 1}`)
+      .replace(/\.pdf$/i, ''), { replacement: '_' }).trim() || `part${index + 1}`;
+
+    let unique = name;
+    for (let copy = 2; used.has(unique.toLowerCase()); copy++) unique = `${name} (${copy})`;
+    used.add(unique.toLowerCase());
+    return `${unique}.pdf`;
+  });
+};
+
+// Split a PDF into parts by one of several strategies. Invalid ranges are
+// returned in `rejected` instead of failing the whole split, and no parts
+// are returned when nothing usable was selected.
+export async function splitPDF(data: ArrayBuffer, filename: string, options: SplitOptions): Promise<SplitResult> {
+  const source = await PDFDocument.load(data);
+  const pageCount = source.getPageCount();
+  let rejected: RejectedRange[] = [];
+  let plans: PartPlan[];
+
+  switch (options.mode) {
+    case 'ranges':
+    case 'extract': {
+      const validation = validatePageRanges(options.ranges, pageCount);
+      rejected = validation.rejected;
+      const parts = validation.ranges.map(r => ({
+        pages: range(r.start, r.end),
+        title: r.end - r.start === 1 ? `page${r.end}` : `pages${r.start + 1}-${r.end}`,
+      }));
+      // Extracting keeps the selection as typed, in one file
+      plans = options.mode === 'extract' && parts.length > 0
+        ? [{ pages: parts.flatMap(part => part.pages), title: 'extract' }]
+        : parts;
+      break;
+    }
+    case 'every': {
+      const size = Math.max(1, Math.floor(options.everyPages));
+      plans = range(0, Math.ceil(pageCount / size)).map(index => ({
+        pages: range(index * size, Math.min(pageCount, (index + 1) * size)),
+        title: '',
+      }));
+      break;
+    }
+    case 'odd-even':
+      plans = [
+        { pages: range(0, pageCount).filter(page => page % 2 === 0), title: 'odd' },
+        { pages: range(0, pageCount).filter(page => page % 2 === 1), title: 'even' },
+      ].filter(plan => plan.pages.length > 0);
+      break;
+    case 'size':
+      if (!(options.maxSizeMB > 0)) throw new Error('Enter a target size above 0 MB');
+      plans = await planBySize(source, options.maxSizeMB * 1024 * 1024);
+      break;
+    case 'bookmarks':
+      plans = await planByBookmarks(data, pageCount);
+      break;
+  }
+
+  // Only a page selection can come out empty
+  if (plans.length === 0) return { parts: [], rejected };
+
+  const names = nameParts(plans, options.nameTemplate, filename.replace(/\.pdf$/i, ''));
+  const parts: SplitPart[] = [];
+  for (const [index, plan] of plans.entries()) {
+    parts.push({ name: names[index], bytes: await buildPart(source, plan.pages), pages: plan.pages });
+  }
+
+  return { parts, rejected };
+}
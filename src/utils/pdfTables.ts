@@ -0,0 +1,429 @@
+import ExcelJS from 'exceljs';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { pdfjsLib } from './pdfjs';
+import {
+  detectLayoutBlocks,
+  extractRulings,
+  extractTextRuns,
+  findColumns,
+  getCellText,
+  getLineText,
+  groupTextRows,
+  type PageRulings,
+  type RulingLine,
+  type TextLine,
+  type TextRow,
+} from './pdfLayout';
+
+export type SheetLayout = 'page' | 'table';
+
+export type DateOrder = 'auto' | 'day-first' | 'month-first';
+
+export interface ExcelExportOptions {
+  // One worksheet per page, or one per detected table
+  sheetLayout: SheetLayout;
+  // Join a table that starts a page onto the previous page's last table when
+  // they have the same columns
+  mergeAcrossPages: boolean;
+  // How to read numeric dates such as 03/04/2024
+  dateOrder: DateOrder;
+}
+
+export interface ExtractedTable {
+  // One-based pages the table spans
+  startPage: number;
+  endPage: number;
+  rows: string[][];
+}
+
+interface PageContent {
+  pageNumber: number;
+  // Everything on the page as a grid, with tables expanded into columns
+  rows: string[][];
+  tables: ExtractedTable[];
+}
+
+export interface ExcelConversion {
+  buffer: ArrayBuffer;
+  pageCount: number;
+  tableCount: number;
+}
+
+interface Region {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface Column {
+  left: number;
+  right: number;
+}
+
+// Distance within which rulings count as touching or as the same line
+const RULING_TOLERANCE = 3;
+// Rules stacked this close (in points) are taken as row separators of one table
+const MAX_ROW_RULE_GAP = 60;
+
+const rulingBox = (line: RulingLine): Region => ({ left: line.x1, top: line.y1, right: line.x2, bottom: line.y2 });
+
+const boxesTouch = (a: Region, b: Region) =>
+  a.left <= b.right + RULING_TOLERANCE && b.left <= a.right + RULING_TOLERANCE &&
+  a.top <= b.bottom + RULING_TOLERANCE && b.top <= a.bottom + RULING_TOLERANCE;
+
+// Horizontal rules of similar width stacked above each other separate rows
+// even when no vertical line connects them
+const rowRulesStack = (a: RulingLine, b: RulingLine) => {
+  const overlap = Math.min(a.x2, b.x2) - Math.max(a.x1, b.x1);
+  return a.y1 === a.y2 && b.y1 === b.y2 && Math.abs(a.y1 - b.y1) <= MAX_ROW_RULE_GAP &&
+    overlap >= Math.min(a.x2 - a.x1, b.x2 - b.x1) * 0.8;
+};
+
+const clusterValues = (values: number[]) => {
+  const clusters: number[] = [];
+  for (const value of [...values].sort((a, b) => a - b)) {
+    if (clusters.length === 0 || value - clusters[clusters.length - 1] > RULING_TOLERANCE) clusters.push(value);
+  }
+  return clusters;
+};
+
+// Group rulings into connected sets and keep those that look like a table:
+// a grid, or at least three row separators
+const findRuledRegions = ({ horizontal, vertical }: PageRulings): Region[] => {
+  const lines = [...horizontal, ...vertical];
+  const parent = lines.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      if (boxesTouch(rulingBox(lines[i]), rulingBox(lines[j])) || rowRulesStack(lines[i], lines[j])) {
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+
+  const groups = new Map<number, RulingLine[]>();
+  lines.forEach((line, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), line]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => {
+      const rowRules = clusterValues(group.filter(line => line.y1 === line.y2).map(line => line.y1));
+      const columnRules = clusterValues(group.filter(line => line.x1 === line.x2).map(line => line.x1));
+      return (rowRules.length >= 2 && columnRules.length >= 2) || rowRules.length >= 3;
+    })
+    .map(group => ({
+      left: Math.min(...group.map(line => line.x1)),
+      top: Math.min(...group.map(line => line.y1)),
+      right: Math.max(...group.map(line => line.x2)),
+      bottom: Math.max(...group.map(line => line.y2)),
+    }));
+};
+
+// The column whose band contains the line's midpoint, or the nearest one
+const assignColumn = (line: TextLine, columns: Column[]) => {
+  const mid = (line.x + line.right) / 2;
+  let best = 0;
+  let bestDistance = Infinity;
+  columns.forEach((column, index) => {
+    const distance = mid < column.left ? column.left - mid : mid > column.right ? mid - column.right : 0;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+const rowsToGrid = (rows: TextRow[][], columns: Column[]) => rows.map(band => {
+  const cells: string[][] = columns.map(() => []);
+  for (const line of band.flatMap(row => row.lines)) {
+    cells[assignColumn(line, columns)].push(getLineText(line).trim());
+  }
+  return cells.map(parts => parts.join(' '));
+});
+
+// Lay out the text inside a ruled region. Vertical rules give the columns
+// when there are enough of them, otherwise the text's own alignment does;
+// horizontal rules gather wrapped lines into one row.
+const buildRuledTable = (rows: TextRow[], rulings: PageRulings, region: Region): string[][] => {
+  const inside = (line: RulingLine) =>
+    line.x1 >= region.left - 1 && line.x2 <= region.right + 1 && line.y1 >= region.top - 1 && line.y2 <= region.bottom + 1;
+
+  const columnRules = clusterValues(rulings.vertical.filter(inside).map(line => line.x1));
+  const columns: Column[] = columnRules.length >= 3
+    ? columnRules.slice(1).map((right, i) => ({ left: columnRules[i], right }))
+    : findColumns(rows);
+
+  const rowRules = clusterValues(rulings.horizontal.filter(inside).map(line => line.y1));
+  let bands: TextRow[][];
+  if (rowRules.length >= 3) {
+    bands = rowRules.slice(1)
+      .map((bottom, i) => rows.filter(row => row.y - row.fontSize * 0.3 > rowRules[i] && row.y - row.fontSize * 0.3 <= bottom));
+    // Text outside the outer rules still belongs to the table
+    bands.unshift(rows.filter(row => row.y - row.fontSize * 0.3 <= rowRules[0]));
+    bands.push(rows.filter(row => row.y - row.fontSize * 0.3 > rowRules[rowRules.length - 1]));
+  } else {
+    bands = rows.map(row => [row]);
+  }
+
+  return rowsToGrid(bands.filter(band => band.length > 0), columns.length > 0 ? columns : [{ left: 0, right: Infinity }]);
+};
+
+const rowInRegion = (row: TextRow, region: Region) =>
+  row.y >= region.top - 2 && row.top <= region.bottom + 2 &&
+  row.lines.some(line => line.right >= region.left && line.x <= region.right);
+
+async function extractPageContent(page: PDFPageProxy, pageNumber: number): Promise<PageContent> {
+  const rows = groupTextRows(await extractTextRuns(page));
+  const rulings = await extractRulings(page);
+  const regions = findRuledRegions(rulings);
+
+  // Items are collected with their top edge so the page grid keeps reading order
+  const items: { top: number; rows: string[][]; table: boolean }[] = [];
+  const claimed = new Set<TextRow>();
+
+  for (const region of regions) {
+    const regionRows = rows.filter(row => !claimed.has(row) && rowInRegion(row, region));
+    if (regionRows.length === 0) continue;
+    regionRows.forEach(row => claimed.add(row));
+    items.push({ top: region.top, rows: buildRuledTable(regionRows, rulings, region), table: true });
+  }
+
+  for (const block of detectLayoutBlocks(rows.filter(row => !claimed.has(row)))) {
+    if (block.kind === 'table') {
+      items.push({
+        top: block.table.top,
+        rows: block.table.rows.map(cells => cells.map(getCellText)),
+        table: true,
+      });
+    } else {
+      items.push({ top: block.row.top, rows: [block.row.lines.map(line => getLineText(line).trim())], table: false });
+    }
+  }
+
+  items.sort((a, b) => a.top - b.top);
+  return {
+    pageNumber,
+    rows: items.flatMap(item => item.rows),
+    tables: items
+      .filter(item => item.table && item.rows.length >= 2)
+      .map(item => ({ startPage: pageNumber, endPage: pageNumber, rows: item.rows })),
+  };
+}
+
+const sameRow = (a: string[], b: string[]) => a.length === b.length && a.every((cell, i) => cell === b[i]);
+
+// Append tables that open a page to the previous page's closing table when
+// the column count matches, dropping a repeated header row
+const mergeContinuedTables = (pages: PageContent[]): ExtractedTable[] => {
+  const tables: ExtractedTable[] = [];
+
+  for (const page of pages) {
+    page.tables.forEach((table, index) => {
+      const prev = tables[tables.length - 1];
+      const continues = index === 0 && prev && prev.endPage === page.pageNumber - 1 &&
+        prev.rows[0].length === table.rows[0].length;
+
+      if (continues) {
+        const rows = sameRow(prev.rows[0], table.rows[0]) ? table.rows.slice(1) : table.rows;
+        prev.rows.push(...rows);
+        prev.endPage = page.pageNumber;
+      } else {
+        tables.push({ ...table, rows: [...table.rows] });
+      }
+    });
+  }
+
+  return tables;
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toFullYear = (year: number) => (year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year);
+
+const makeDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(toFullYear(year), month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/;
+
+// Whether the browser's locale writes the day before the month
+const localeDayFirst = () => {
+  const parts = new Intl.DateTimeFormat(undefined, { day: 'numeric', month: 'numeric' }).formatToParts(new Date(2000, 10, 22));
+  return parts.findIndex(part => part.type === 'day') < parts.findIndex(part => part.type === 'month');
+};
+
+// Statements rarely mix conventions, so decide day/month order once from
+// any date whose first or second part can only be a day. When nothing
+// settles it, the browser's locale decides.
+const detectDayFirst = (cells: string[]) => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  for (const cell of cells) {
+    const match = cell.trim().match(NUMERIC_DATE);
+    if (!match) continue;
+    if (Number(match[1]) > 12) dayFirst++;
+    if (Number(match[2]) > 12) monthFirst++;
+  }
+  return dayFirst === monthFirst ? localeDayFirst() : dayFirst > monthFirst;
+};
+
+const parseDate = (text: string, dayFirst: boolean): Date | null => {
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return makeDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(NUMERIC_DATE);
+  if (match) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    return dayFirst ? makeDate(year, second, first) : makeDate(year, first, second);
+  }
+
+  // 15 Jan 2024, 15-Jan-24, Jan 15, 2024
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3,9})\.?[\s-,]+(\d{2}|\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase());
+    return month >= 0 ? makeDate(Number(match[3]), month + 1, Number(match[1])) : null;
+  }
+  match = text.match(/^([A-Za-z]{3,9})\.?\s(\d{1,2}),?\s(\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase());
+    return month >= 0 ? makeDate(Number(match[3]), month + 1, Number(match[2])) : null;
+  }
+
+  return null;
+};
+
+// Amounts such as 1,234.56  (1,234.56)  -$12  1.234,56  12.5%. Values with
+// leading zeros or too many digits (account and card numbers) stay text.
+const parseNumber = (text: string): { value: number; numFmt?: string } | null => {
+  let body = text.replace(/[$€£¥₹]|\s/g, '');
+  let negative = false;
+
+  if (/^\(.+\)$/.test(body)) {
+    negative = true;
+    body = body.slice(1, -1);
+  }
+  if (/^[-+]/.test(body)) {
+    negative = body[0] === '-';
+    body = body.slice(1);
+  } else if (/-$/.test(body)) {
+    negative = true;
+    body = body.slice(0, -1);
+  }
+
+  const percent = body.endsWith('%');
+  if (percent) body = body.slice(0, -1);
+
+  let normalized: string;
+  let grouped = false;
+  if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(body)) {
+    normalized = body.replace(/,/g, '');
+    grouped = true;
+  } else if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(body) || /^\d+,\d{1,2}$/.test(body)) {
+    normalized = body.replace(/\./g, '').replace(',', '.');
+    grouped = body.includes('.');
+  } else if (/^\d+(\.\d+)?$/.test(body) || /^\.\d+$/.test(body)) {
+    normalized = body;
+  } else {
+    return null;
+  }
+
+  const digits = normalized.replace('.', '');
+  if (/^0\d/.test(normalized) || digits.length > 15) return null;
+
+  const decimals = normalized.split('.')[1]?.length ?? 0;
+  const value = Number(normalized) * (negative ? -1 : 1);
+  const fraction = decimals > 0 ? `.${'0'.repeat(decimals)}` : '';
+
+  if (percent) return { value: value / 100, numFmt: `0${fraction}%` };
+  return { value, numFmt: grouped ? `#,##0${fraction}` : decimals > 0 ? `0${fraction}` : undefined };
+};
+
+const toCellValue = (text: string, dayFirst: boolean): { value: string | number | Date; numFmt?: string } => {
+  const trimmed = text.trim();
+  if (!trimmed) return { value: '' };
+
+  const date = parseDate(trimmed, dayFirst);
+  if (date) return { value: date, numFmt: 'yyyy-mm-dd' };
+
+  const number = parseNumber(trimmed);
+  if (number) return number;
+
+  return { value: trimmed };
+};
+
+// Excel sheet names are limited to 31 characters without []:*?/\
+const uniqueSheetName = (workbook: ExcelJS.Workbook, name: string) => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+  let candidate = base;
+  for (let i = 2; workbook.getWorksheet(candidate); i++) {
+    candidate = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  }
+  return candidate;
+};
+
+const addSheet = (workbook: ExcelJS.Workbook, name: string, rows: string[][], dayFirst: boolean, header: boolean) => {
+  const worksheet = workbook.addWorksheet(uniqueSheetName(workbook, name));
+  const widths: number[] = [];
+
+  rows.forEach((cells, rowIndex) => {
+    const typed = cells.map(cell => toCellValue(cell, dayFirst));
+    const row = worksheet.addRow(typed.map(cell => cell.value));
+    typed.forEach((cell, i) => {
+      if (cell.numFmt) row.getCell(i + 1).numFmt = cell.numFmt;
+      widths[i] = Math.max(widths[i] ?? 0, cells[i].length);
+    });
+    // Bold a header row that is all text
+    if (header && rowIndex === 0 && typed.every(cell => typeof cell.value === 'string')) row.font = { bold: true };
+  });
+
+  widths.forEach((width, i) => {
+    worksheet.getColumn(i + 1).width = Math.min(60, Math.max(8, width + 2));
+  });
+};
+
+// Convert a PDF to a workbook, either one sheet per page with tables laid out
+// in columns, or one sheet per detected table. If no table is found the
+// per-table layout falls back to per-page sheets.
+export async function convertPDFToExcel(data: ArrayBuffer, options: ExcelExportOptions): Promise<ExcelConversion> {
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  const pages: PageContent[] = [];
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      pages.push(await extractPageContent(page, i));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const tables = options.mergeAcrossPages
+    ? mergeContinuedTables(pages)
+    : pages.flatMap(page => page.tables);
+  const dayFirst = options.dateOrder === 'auto'
+    ? detectDayFirst(pages.flatMap(page => page.rows.flat()))
+    : options.dateOrder === 'day-first';
+  const workbook = new ExcelJS.Workbook();
+
+  if (options.sheetLayout === 'table' && tables.length > 0) {
+    tables.forEach((table, index) => {
+      const pagesLabel = table.startPage === table.endPage ? `p${table.startPage}` : `p${table.startPage}-${table.endPage}`;
+      addSheet(workbook, `Table ${index + 1} (${pagesLabel})`, table.rows, dayFirst, true);
+    });
+  } else {
+    pages.forEach(page => addSheet(workbook, `Page ${page.pageNumber}`, page.rows, dayFirst, false));
+  }
+
+  return {
+    buffer: await workbook.xlsx.writeBuffer(),
+    pageCount: pages.length,
+    tableCount: tables.length,
+  };
+}
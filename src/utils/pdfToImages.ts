@@ -0,0 +1,82 @@
+import { pdfjsLib } from './pdfjs';
+import {
+  renderSelectedPages,
+  type ImageExportOptions,
+  type ImageWorkerMessage,
+  type RenderedPageImage,
+} from './pageImages';
+
+export interface ImageExportProgress {
+  done: number;
+  total: number;
+}
+
+// Pages are rendered in a worker on OffscreenCanvas so long documents don't
+// block the tab. Browsers without OffscreenCanvas render on the main thread.
+const supportsWorkerRendering = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const renderInWorker = (data: ArrayBuffer, options: ImageExportOptions, handle: (message: ImageWorkerMessage) => void) => (
+  new Promise<void>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/pdfToImages.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (e: MessageEvent<ImageWorkerMessage>) => {
+      if (e.data.type === 'error') {
+        worker.terminate();
+        reject(new Error(e.data.error));
+        return;
+      }
+      handle(e.data);
+      if (e.data.type === 'done') {
+        worker.terminate();
+        resolve();
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'The image worker failed to start'));
+    };
+
+    worker.postMessage({ data, options }, [data]);
+  })
+);
+
+const renderOnMainThread = async (data: ArrayBuffer, options: ImageExportOptions, handle: (message: ImageWorkerMessage) => void) => {
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  try {
+    await renderSelectedPages(pdf, options, document.createElement('canvas'), handle);
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Render the selected pages to images. Each image is passed to `onImage` as
+// soon as it is ready; all of them are returned in page order at the end.
+export async function exportPageImages(
+  data: ArrayBuffer,
+  options: ImageExportOptions,
+  onImage?: (image: RenderedPageImage) => void,
+  onProgress?: (progress: ImageExportProgress) => void
+): Promise<RenderedPageImage[]> {
+  const images: RenderedPageImage[] = [];
+  let total = 0;
+
+  const handle = (message: ImageWorkerMessage) => {
+    if (message.type === 'start') {
+      total = message.total;
+      onProgress?.({ done: 0, total });
+    } else if (message.type === 'page') {
+      images.push(message.image);
+      onImage?.(message.image);
+      onProgress?.({ done: images.length, total });
+    }
+  };
+
+  // The buffer is transferred to the worker, so give it a copy
+  if (supportsWorkerRendering()) {
+    await renderInWorker(data.slice(0), options, handle);
+  } else {
+    await renderOnMainThread(data, options, handle);
+  }
+
+  return images;
+}
@@ -0,0 +1,290 @@
+import {
+  AlignmentType,
+  Document,
+  ImageRun,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ISectionOptions,
+} from 'docx';
+import { pdfjsLib } from './pdfjs';
+import {
+  extractPageImages,
+  extractPageLayout,
+  getLineText,
+  type LayoutBlock,
+  type LayoutTable,
+  type PageImage,
+  type TextLine,
+  type TextRow,
+} from './pdfLayout';
+
+// Word measures layout in twentieths of a point and images in 96 dpi pixels
+const TWIPS_PER_POINT = 20;
+const PIXELS_PER_POINT = 96 / 72;
+const MIN_MARGIN = 18;
+// Vertical space kept between blocks is capped so sparse pages still flow
+const MAX_SPACING = 36;
+
+type PageItem =
+  | { kind: 'rows'; rows: TextRow[]; top: number; bottom: number }
+  | { kind: 'table'; table: LayoutTable; top: number; bottom: number }
+  | { kind: 'image'; image: PageImage; top: number; bottom: number };
+
+export interface WordConversion {
+  blob: Blob;
+  pageCount: number;
+}
+
+interface PageBox {
+  left: number;
+  right: number;
+}
+
+const toTextRuns = (line: TextLine) => line.runs.map(run => new TextRun({
+  text: run.text,
+  bold: run.bold,
+  italics: run.italic,
+  size: Math.max(2, Math.round(run.fontSize * 2)),
+  font: run.fontFamily,
+}));
+
+// A row with several separated lines that isn't part of a table keeps its
+// gaps as tabs
+const rowToRuns = (row: TextRow) => row.lines.flatMap((line, index) => [
+  ...(index > 0 ? [new TextRun({ text: '\t' })] : []),
+  ...toTextRuns(line),
+]);
+
+const rowLeft = (row: TextRow) => row.lines[0].x;
+const rowRight = (row: TextRow) => row.lines[row.lines.length - 1].right;
+
+// Estimated width of a row's first word, from its share of the characters
+const firstWordWidth = (row: TextRow) => {
+  const line = row.lines[0];
+  const text = getLineText(line);
+  const word = text.trimStart().split(/\s/)[0];
+  return ((line.right - line.x) * word.length) / Math.max(1, text.length);
+};
+
+// The second line sets a paragraph's left edge; the first may be indented
+// or hanging relative to it
+const indentChanged = (paragraph: TextRow[], row: TextRow) => {
+  if (paragraph.length > 1) return Math.abs(rowLeft(row) - rowLeft(paragraph[1])) > row.fontSize * 2;
+  const shift = rowLeft(row) - rowLeft(paragraph[0]);
+  return shift > row.fontSize * 2 || shift < -row.fontSize * 4;
+};
+
+// Consecutive rows belong to the same paragraph unless the spacing, font
+// size or indentation changes, or the previous line stopped short enough
+// that the next word would have fit on it
+const groupParagraphs = (rows: TextRow[]) => {
+  const paragraphs: TextRow[][] = [];
+  const blockRight = Math.max(...rows.map(rowRight));
+
+  for (const row of rows) {
+    const paragraph = paragraphs[paragraphs.length - 1];
+    const prev = paragraph?.[paragraph.length - 1];
+    const startsNew = !prev ||
+      row.lines.length > 1 || prev.lines.length > 1 ||
+      row.y - prev.y > prev.fontSize * 1.8 ||
+      Math.abs(row.fontSize - prev.fontSize) > 1 ||
+      indentChanged(paragraph, row) ||
+      blockRight - rowRight(prev) > firstWordWidth(row) + prev.fontSize;
+
+    if (startsNew) paragraphs.push([row]);
+    else paragraph.push(row);
+  }
+
+  return paragraphs;
+};
+
+const createParagraph = (rows: TextRow[], box: PageBox, spacingBefore: number) => {
+  const left = rowLeft(rows[1] ?? rows[0]);
+  const firstLine = rowLeft(rows[0]) - left;
+  const right = Math.max(...rows.map(rowRight));
+  const leftGap = left - box.left;
+  const rightGap = box.right - right;
+  const centered = rows.length === 1 && leftGap > 36 && Math.abs(leftGap - rightGap) < rows[0].fontSize * 2;
+
+  const children = rows.flatMap((row, index) => {
+    const runs = rowToRuns(row);
+    if (index === 0) return runs;
+    // Re-join wrapped lines, keeping a trailing hyphen tight
+    const prevText = getLineText(rows[index - 1].lines[rows[index - 1].lines.length - 1]);
+    return /[-\s]$/.test(prevText) ? runs : [new TextRun({ text: ' ' }), ...runs];
+  });
+
+  return new Paragraph({
+    children,
+    alignment: centered ? AlignmentType.CENTER : undefined,
+    indent: centered ? undefined : {
+      left: Math.max(0, Math.round(leftGap * TWIPS_PER_POINT)),
+      firstLine: firstLine > 1 ? Math.round(firstLine * TWIPS_PER_POINT) : undefined,
+      hanging: firstLine < -1 ? Math.round(-firstLine * TWIPS_PER_POINT) : undefined,
+    },
+    spacing: { before: Math.round(spacingBefore * TWIPS_PER_POINT), after: 0 },
+  });
+};
+
+const createTable = (table: LayoutTable, box: PageBox) => {
+  const totalWidth = box.right - box.left;
+  const columnWidths = table.columns.map((column, index) => {
+    const next = table.columns[index + 1];
+    const end = next ? next.left : Math.max(column.right, box.right);
+    const start = index === 0 ? box.left : column.left;
+    return Math.max(1, Math.round(((end - start) / totalWidth) * 100));
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: table.rows.map(cells => new TableRow({
+      children: cells.map((cell, index) => new TableCell({
+        width: { size: columnWidths[index], type: WidthType.PERCENTAGE },
+        children: cell.length > 0
+          ? cell.map(line => new Paragraph({ children: toTextRuns(line) }))
+          : [new Paragraph('')],
+      })),
+    })),
+  });
+};
+
+const createImageParagraph = (image: PageImage, box: PageBox, spacingBefore: number) => {
+  // Scale down images wider than the text area
+  const scale = Math.min(1, (box.right - box.left) / image.width);
+  return new Paragraph({
+    children: [new ImageRun({
+      type: 'png',
+      data: image.png,
+      transformation: {
+        width: Math.round(image.width * scale * PIXELS_PER_POINT),
+        height: Math.round(image.height * scale * PIXELS_PER_POINT),
+      },
+    })],
+    indent: image.x - box.left > 1 ? { left: Math.round((image.x - box.left) * TWIPS_PER_POINT) } : undefined,
+    spacing: { before: Math.round(spacingBefore * TWIPS_PER_POINT), after: 0 },
+  });
+};
+
+// Text rows, tables and images in reading order, with consecutive plain rows
+// gathered so they can be split into paragraphs
+const collectPageItems = (blocks: LayoutBlock[], images: PageImage[]) => {
+  const items: PageItem[] = [];
+
+  for (const block of blocks) {
+    const last = items[items.length - 1];
+    if (block.kind === 'table') {
+      items.push({ kind: 'table', table: block.table, top: block.table.top, bottom: block.table.bottom });
+    } else if (last?.kind === 'rows') {
+      last.rows.push(block.row);
+      last.bottom = block.row.bottom;
+    } else {
+      items.push({ kind: 'rows', rows: [block.row], top: block.row.top, bottom: block.row.bottom });
+    }
+  }
+
+  for (const image of images) {
+    items.push({ kind: 'image', image, top: image.top, bottom: image.top + image.height });
+  }
+
+  // Images land between text items by their top edge; text groups an image
+  // interrupts are split around it
+  return items
+    .flatMap((item): PageItem[] => {
+      if (item.kind !== 'rows') return [item];
+      const cuts = images.map(image => image.top).filter(top => top > item.top && top < item.bottom);
+      if (cuts.length === 0) return [item];
+
+      const pieces: PageItem[] = [];
+      let rows: TextRow[] = [];
+      for (const row of item.rows) {
+        if (rows.length > 0 && cuts.some(cut => cut > rows[rows.length - 1].top && cut <= row.top)) {
+          pieces.push({ kind: 'rows', rows, top: rows[0].top, bottom: rows[rows.length - 1].bottom });
+          rows = [];
+        }
+        rows.push(row);
+      }
+      pieces.push({ kind: 'rows', rows, top: rows[0].top, bottom: rows[rows.length - 1].bottom });
+      return pieces;
+    })
+    .sort((a, b) => a.top - b.top);
+};
+
+// Convert a PDF to an editable Word document: one section per page at the
+// page's size, text grouped into styled paragraphs, aligned rows as tables
+// and images in place
+export async function convertPDFToWord(data: ArrayBuffer): Promise<WordConversion> {
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  const sections: ISectionOptions[] = [];
+  const pageCount = pdf.numPages;
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const layout = await extractPageLayout(page);
+      const images = await extractPageImages(page);
+      page.cleanup();
+
+      const items = collectPageItems(layout.blocks, images);
+      const lefts = items.map(item => item.kind === 'rows' ? Math.min(...item.rows.map(rowLeft))
+        : item.kind === 'table' ? item.table.columns[0].left
+        : item.image.x);
+      const rights = items.map(item => item.kind === 'rows' ? Math.max(...item.rows.map(rowRight))
+        : item.kind === 'table' ? item.table.columns[item.table.columns.length - 1].right
+        : item.image.x + item.image.width);
+
+      const box: PageBox = {
+        left: Math.max(MIN_MARGIN, Math.min(layout.width / 4, ...lefts)),
+        right: Math.min(layout.width - MIN_MARGIN, Math.max(layout.width * 3 / 4, ...rights)),
+      };
+      const top = Math.max(MIN_MARGIN, Math.min(layout.height / 4, ...items.map(item => item.top)));
+
+      const children: (Paragraph | Table)[] = [];
+      let prevBottom = top;
+      for (const item of items) {
+        const spacing = Math.min(MAX_SPACING, Math.max(0, item.top - prevBottom));
+        if (item.kind === 'rows') {
+          groupParagraphs(item.rows).forEach((rows, index) => {
+            const before = index === 0 ? spacing : Math.min(MAX_SPACING, Math.max(0, rows[0].top - prevBottom));
+            children.push(createParagraph(rows, box, before));
+            prevBottom = rows[rows.length - 1].bottom;
+          });
+        } else if (item.kind === 'table') {
+          children.push(createTable(item.table, box));
+          // Word needs a paragraph between adjacent tables
+          children.push(new Paragraph({ spacing: { before: 0, after: 0 } }));
+          prevBottom = item.bottom;
+        } else {
+          children.push(createImageParagraph(item.image, box, spacing));
+          prevBottom = item.bottom;
+        }
+      }
+
+      sections.push({
+        properties: {
+          page: {
+            size: {
+              width: Math.round(layout.width * TWIPS_PER_POINT),
+              height: Math.round(layout.height * TWIPS_PER_POINT),
+            },
+            margin: {
+              top: Math.round(top * TWIPS_PER_POINT),
+              bottom: Math.round(MIN_MARGIN * TWIPS_PER_POINT),
+              left: Math.round(box.left * TWIPS_PER_POINT),
+              right: Math.round((layout.width - box.right) * TWIPS_PER_POINT),
+            },
+          },
+        },
+        children: children.length > 0 ? children : [new Paragraph('')],
+      });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { blob: await Packer.toBlob(new Document({ sections })), pageCount };
+}
@@ -1,4 +1,4 @@
-import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import { getDocument, GlobalWorkerOptions, ImageKind, OPS, TextLayer } from 'pdfjs-dist';
 
 // Initialize PDF.js worker from node_modules using Vite's URL import
 import workerUrl from 'pdfjs-dist/build/pdf.worker.mjs?url';
@@ -6,4 +6,4 @@ import workerUrl from 'pdfjs-dist/build/pdf.worker.mjs?url';
 // Configure PDF.js worker
 GlobalWorkerOptions.workerSrc = workerUrl;
 
-export const pdfjsLib = { getDocument };
\ No newline at end of file
+export const pdfjsLib = { getDocument, OPS, ImageKind, TextLayer };
\ No newline at end of file
@@ -0,0 +1,47 @@
+// The standard font outlines and CMaps ship with pdfjs-dist. Vite emits each
+// file as a hashed asset, so they are looked up by file name rather than
+// fetched from a base URL.
+const byFileName = (urls: Record<string, string>) => Object.fromEntries(
+  Object.entries(urls).map(([path, url]) => [path.slice(path.lastIndexOf('/') + 1), url])
+);
+
+const standardFontUrls = byFileName(import.meta.glob<string>('/node_modules/pdfjs-dist/standard_fonts/*.{pfb,ttf}', {
+  query: '?url&no-inline',
+  import: 'default',
+  eager: true,
+}));
+
+const cMapUrls = byFileName(import.meta.glob<string>('/node_modules/pdfjs-dist/cmaps/*.bcmap', {
+  query: '?url&no-inline',
+  import: 'default',
+  eager: true,
+}));
+
+const fetchAsset = async (urls: Record<string, string>, fileName: string) => {
+  const url = urls[fileName];
+  if (!url) throw new Error(`PDF.js data file ${fileName} is not bundled`);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Unable to load PDF.js data file ${fileName}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+class StandardFontDataFactory {
+  fetch({ filename }: { filename: string }) {
+    return fetchAsset(standardFontUrls, filename);
+  }
+}
+
+class CMapReaderFactory {
+  async fetch({ name }: { name: string }) {
+    return { cMapData: await fetchAsset(cMapUrls, `${name}.bcmap`), isCompressed: true };
+  }
+}
+
+// getDocument options that let pdf.js load glyph outlines for standard fonts
+// that aren't embedded, and CMaps for CJK text. Renderers without font faces
+// (workers) draw no text for those fonts otherwise.
+export const pdfjsDataOptions = {
+  StandardFontDataFactory,
+  CMapReaderFactory,
+  cMapPacked: true,
+};
@@ -0,0 +1,238 @@
+import { concatBytes, aesCbcDecrypt, rc2CbcDecrypt, rc4, sha, tripleDesCbcDecrypt } from './pdfCrypto';
+import { contextTag, findChild, parseAsn1, readBytes, readNumber, readOid, type Asn1Node } from './asn1';
+import { getHashName, parseCertificate, type Certificate, type HashName } from './x509';
+
+// Reads the private key and certificates from a PKCS#12 (.p12/.pfx) file as
+// described in RFC 7292. Both the PBES2/AES files current tools export and the
+// older 3DES/RC2 ones are supported.
+
+const OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  encryptedData: '1.2.840.113549.1.7.6',
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  shroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+  x509Certificate: '1.2.840.113549.1.9.22.1',
+  localKeyId: '1.2.840.113549.1.9.21',
+  pbes2: '1.2.840.113549.1.5.13',
+  pbkdf2: '1.2.840.113549.1.5.12',
+};
+
+const PBKDF2_PRFS: Record<string, HashName> = {
+  '1.2.840.113549.2.7': 'SHA-1',
+  '1.2.840.113549.2.9': 'SHA-256',
+  '1.2.840.113549.2.10': 'SHA-384',
+  '1.2.840.113549.2.11': 'SHA-512',
+};
+
+const PBES2_CIPHERS: Record<string, { name: 'AES-CBC' | '3DES'; keyLength: number }> = {
+  '2.16.840.1.101.3.4.1.2': { name: 'AES-CBC', keyLength: 16 },
+  '2.16.840.1.101.3.4.1.22': { name: 'AES-CBC', keyLength: 24 },
+  '2.16.840.1.101.3.4.1.42': { name: 'AES-CBC', keyLength: 32 },
+  '1.2.840.113549.3.7': { name: '3DES', keyLength: 24 },
+};
+
+// The pbeWithSHAAnd... schemes of RFC 7292 appendix C
+const PKCS12_PBE_CIPHERS: Record<string, { name: 'RC4' | '3DES' | 'RC2'; keyLength: number }> = {
+  '1.2.840.113549.1.12.1.1': { name: 'RC4', keyLength: 16 },
+  '1.2.840.113549.1.12.1.2': { name: 'RC4', keyLength: 5 },
+  '1.2.840.113549.1.12.1.3': { name: '3DES', keyLength: 24 },
+  '1.2.840.113549.1.12.1.5': { name: 'RC2', keyLength: 16 },
+  '1.2.840.113549.1.12.1.6': { name: 'RC2', keyLength: 5 },
+};
+
+const WRONG_PASSWORD = 'The certificate password is incorrect';
+
+// PKCS#12 passwords are big-endian UTF-16 with a terminating zero
+const toBmpPassword = (password: string) => {
+  const bytes = new Uint8Array((password.length + 1) * 2);
+  for (let i = 0; i < password.length; i++) {
+    bytes[i * 2] = password.charCodeAt(i) >> 8;
+    bytes[i * 2 + 1] = password.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+// Key derivation of RFC 7292 appendix B.2; id 1 derives keys, 2 IVs and 3 MAC keys
+async function pkcs12Kdf(hash: HashName, password: Uint8Array, salt: Uint8Array, iterations: number, id: number, length: number) {
+  const blockSize = hash === 'SHA-384' || hash === 'SHA-512' ? 128 : 64;
+  const fill = (bytes: Uint8Array) => {
+    const filled = new Uint8Array(Math.ceil(bytes.length / blockSize) * blockSize);
+    for (let i = 0; i < filled.length; i++) filled[i] = bytes[i % bytes.length];
+    return filled;
+  };
+  const diversifier = new Uint8Array(blockSize).fill(id);
+  const input = concatBytes(salt.length > 0 ? fill(salt) : salt, password.length > 0 ? fill(password) : password);
+
+  const output: Uint8Array[] = [];
+  for (let produced = 0; produced < length;) {
+    let block = await sha(hash, concatBytes(diversifier, input));
+    for (let i = 1; i < iterations; i++) block = await sha(hash, block);
+    output.push(block);
+    produced += block.length;
+
+    // Add the block plus one to each blockSize chunk of the input
+    const addend = fill(block).subarray(0, blockSize);
+    for (let offset = 0; offset < input.length; offset += blockSize) {
+      let carry = 1;
+      for (let i = blockSize - 1; i >= 0; i--) {
+        const sum = input[offset + i] + addend[i] + carry;
+        input[offset + i] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+  return concatBytes(...output).subarray(0, length);
+}
+
+// Check the MAC over the authenticated safe, which is how a wrong password shows
+async function verifyMac(macData: Asn1Node, content: Uint8Array, password: string) {
+  const [digestInfo, saltNode, iterationsNode] = macData.children;
+  const hash = getHashName(readOid(digestInfo.children[0].children[0]));
+  const expected = readBytes(digestInfo.children[1]);
+  const iterations = iterationsNode ? readNumber(iterationsNode) : 1;
+
+  const macKey = await pkcs12Kdf(hash, toBmpPassword(password), readBytes(saltNode), iterations, 3, expected.length);
+  const key = await crypto.subtle.importKey('raw', macKey, { name: 'HMAC', hash }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, content));
+  if (mac.length !== expected.length || mac.some((byte, i) => byte !== expected[i])) {
+    throw new Error(WRONG_PASSWORD);
+  }
+}
+
+async function decryptPbes2(parameters: Asn1Node, password: string, data: Uint8Array) {
+  const [kdf, scheme] = parameters.children;
+  if (readOid(kdf.children[0]) !== OIDS.pbkdf2) throw new Error('Unsupported key derivation in the certificate file');
+  const [saltNode, iterationsNode, ...rest] = kdf.children[1].children;
+  const prfNode = rest.find(node => node.children.length > 0);
+  const prf = prfNode ? PBKDF2_PRFS[readOid(prfNode.children[0])] : 'SHA-1';
+  const cipher = PBES2_CIPHERS[readOid(scheme.children[0])];
+  if (!prf || !cipher) throw new Error('Unsupported encryption in the certificate file');
+
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const key = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: readBytes(saltNode), iterations: readNumber(iterationsNode), hash: prf },
+    baseKey,
+    cipher.keyLength * 8
+  ));
+  const iv = readBytes(scheme.children[1]);
+  return cipher.name === 'AES-CBC' ? aesCbcDecrypt(key, iv, data) : tripleDesCbcDecrypt(key, iv, data);
+}
+
+async function decryptPkcs12Pbe(oid: string, parameters: Asn1Node, password: string, data: Uint8Array) {
+  const cipher = PKCS12_PBE_CIPHERS[oid];
+  if (!cipher) throw new Error('Unsupported encryption in the certificate file');
+  const [saltNode, iterationsNode] = parameters.children;
+  const salt = readBytes(saltNode);
+  const iterations = readNumber(iterationsNode);
+  const bmpPassword = toBmpPassword(password);
+
+  const key = await pkcs12Kdf('SHA-1', bmpPassword, salt, iterations, 1, cipher.keyLength);
+  if (cipher.name === 'RC4') return rc4(key, data);
+  const iv = await pkcs12Kdf('SHA-1', bmpPassword, salt, iterations, 2, 8);
+  return cipher.name === '3DES' ? tripleDesCbcDecrypt(key, iv, data) : rc2CbcDecrypt(key, key.length * 8, iv, data);
+}
+
+// Decrypt data protected by a password-based scheme, given its AlgorithmIdentifier
+async function decrypt(algorithm: Asn1Node, password: string, data: Uint8Array) {
+  const oid = readOid(algorithm.children[0]);
+  try {
+    return oid === OIDS.pbes2
+      ? await decryptPbes2(algorithm.children[1], password, data)
+      : await decryptPkcs12Pbe(oid, algorithm.children[1], password, data);
+  } catch (err) {
+    // Padding errors are what a wrong password looks like without a MAC
+    if (err instanceof Error && err.message.startsWith('Unsupported')) throw err;
+    throw new Error(WRONG_PASSWORD);
+  }
+}
+
+interface SafeBag {
+  type: string;
+  value: Asn1Node;
+  localKeyId?: string;
+}
+
+const readBags = (safeContents: Uint8Array): SafeBag[] => parseAsn1(safeContents).children.map(bag => {
+  const [typeNode, valueNode, attributes] = bag.children;
+  const localKeyId = attributes?.children.find(attribute => readOid(attribute.children[0]) === OIDS.localKeyId);
+  return {
+    type: readOid(typeNode),
+    value: valueNode.children[0],
+    localKeyId: localKeyId ? readBytes(localKeyId.children[1].children[0]).join(',') : undefined,
+  };
+});
+
+export interface SigningIdentity {
+  privateKey: CryptoKey;
+  certificate: Certificate;
+  // Any other certificates in the file, usually the issuing chain
+  chain: Certificate[];
+}
+
+const importPrivateKey = (pkcs8: Uint8Array, certificate: Certificate) => {
+  if (certificate.keyType === 'EC') {
+    if (!certificate.curve) throw new Error('The certificate uses an unsupported elliptic curve');
+    return crypto.subtle.importKey('pkcs8', pkcs8, { name: 'ECDSA', namedCurve: certificate.curve.name }, false, ['sign']);
+  }
+  return crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+};
+
+// Read the signing key and its certificate from a .p12/.pfx file
+export async function readPkcs12(data: ArrayBuffer, password: string): Promise<SigningIdentity> {
+  let pfx: Asn1Node;
+  try {
+    pfx = parseAsn1(new Uint8Array(data));
+  } catch {
+    throw new Error('The certificate file is not a valid .p12/.pfx file');
+  }
+  const [, authSafe, macData] = pfx.children;
+  if (!authSafe || readOid(authSafe.children[0]) !== OIDS.data) {
+    throw new Error('Only password-protected .p12/.pfx files are supported');
+  }
+  const authSafeContent = readBytes(authSafe.children[1].children[0]);
+  if (macData) await verifyMac(macData, authSafeContent, password);
+
+  const bags: SafeBag[] = [];
+  for (const contentInfo of parseAsn1(authSafeContent).children) {
+    const type = readOid(contentInfo.children[0]);
+    const content = contentInfo.children[1].children[0];
+    if (type === OIDS.data) {
+      bags.push(...readBags(readBytes(content)));
+    } else if (type === OIDS.encryptedData) {
+      // EncryptedData: version, then contentType, algorithm and [0] IMPLICIT ciphertext
+      const encryptedContentInfo = content.children[1];
+      const ciphertext = findChild(encryptedContentInfo, contextTag(0, false)) ?? findChild(encryptedContentInfo, contextTag(0));
+      if (!ciphertext) continue;
+      bags.push(...readBags(await decrypt(encryptedContentInfo.children[1], password, readBytes(ciphertext))));
+    } else {
+      throw new Error('The certificate file uses public-key protection, which is not supported');
+    }
+  }
+
+  let keyBag: { pkcs8: Uint8Array; localKeyId?: string } | undefined;
+  const certificates: { certificate: Certificate; localKeyId?: string }[] = [];
+  for (const bag of bags) {
+    if (bag.type === OIDS.keyBag && !keyBag) {
+      keyBag = { pkcs8: bag.value.raw, localKeyId: bag.localKeyId };
+    } else if (bag.type === OIDS.shroudedKeyBag && !keyBag) {
+      const [algorithm, encrypted] = bag.value.children;
+      keyBag = { pkcs8: await decrypt(algorithm, password, readBytes(encrypted)), localKeyId: bag.localKeyId };
+    } else if (bag.type === OIDS.certBag && readOid(bag.value.children[0]) === OIDS.x509Certificate) {
+      const der = readBytes(bag.value.children[1].children[0]);
+      certificates.push({ certificate: parseCertificate(der), localKeyId: bag.localKeyId });
+    }
+  }
+  if (!keyBag) throw new Error('The certificate file does not contain a private key');
+  const { pkcs8, localKeyId: keyId } = keyBag;
+
+  // The key's certificate shares its local key ID; fall back to the first one
+  const own = certificates.find(({ localKeyId }) => localKeyId && localKeyId === keyId) ?? certificates[0];
+  if (!own) throw new Error('The certificate file does not contain a certificate');
+
+  return {
+    privateKey: await importPrivateKey(pkcs8, own.certificate),
+    certificate: own.certificate,
+    chain: certificates.filter(entry => entry !== own).map(({ certificate }) => certificate),
+  };
+}
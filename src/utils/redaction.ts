@@ -0,0 +1,218 @@
+import { PDFDocument } from 'pdf-lib';
+import type { PageViewport } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { pdfjsLib } from './pdfjs';
+import { renderPageToCanvas } from './pdfRender';
+
+// A rectangle to black out. Coordinates are fractions (0-1) of the page as
+// displayed, measured from the top-left corner, so they don't depend on the
+// scale a page was previewed at.
+export interface RedactionArea {
+  id: string;
+  // Zero-based page index
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextSearchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface RedactionTerm {
+  query: string;
+  options: TextSearchOptions;
+}
+
+export interface TextMatch {
+  text: string;
+  area: RedactionArea;
+}
+
+export interface RedactionCheck {
+  term: RedactionTerm;
+  // One-based pages where the term can still be extracted from the output
+  remainingPages: number[];
+}
+
+export interface RedactionOutput {
+  bytes: Uint8Array;
+  checks: RedactionCheck[];
+}
+
+// Approximate descender depth as a fraction of the font size
+const DESCENT = 0.25;
+
+export const createRedactionAreaId = () => `redact-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function buildSearchPattern(query: string, options: TextSearchOptions): RegExp {
+  const source = options.regex ? query : escapeRegExp(query);
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+const isTextItem = (item: object): item is TextItem => 'str' in item && 'transform' in item;
+
+// Bounding box of characters [start, end) of a text item, in page fractions.
+// pdf.js only gives the width of the whole run, so offsets are proportional;
+// a character of slack on each side covers narrow or wide glyphs.
+const getTextItemArea = (item: TextItem, start: number, end: number, viewport: PageViewport, page: number): RedactionArea => {
+  const [a, b, c, d, e, f] = item.transform;
+  const fontSize = Math.hypot(c, d) || Math.hypot(a, b);
+  const length = Math.hypot(a, b) || 1;
+  const along = { x: a / length, y: b / length };
+  const up = { x: (c / fontSize) || -along.y, y: (d / fontSize) || along.x };
+
+  const charWidth = item.str.length > 0 ? item.width / item.str.length : item.width;
+  const startOffset = Math.max(0, charWidth * (start - 1));
+  const endOffset = Math.min(item.width, charWidth * (end + 1));
+
+  const corners = [
+    [startOffset, -DESCENT * fontSize],
+    [endOffset, -DESCENT * fontSize],
+    [startOffset, fontSize],
+    [endOffset, fontSize],
+  ].map(([s, t]) => viewport.convertToViewportPoint(
+    e + along.x * s + up.x * t,
+    f + along.y * s + up.y * t
+  ));
+
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return {
+    id: createRedactionAreaId(),
+    page,
+    x: Math.min(...xs) / viewport.width,
+    y: Math.min(...ys) / viewport.height,
+    width: (Math.max(...xs) - Math.min(...xs)) / viewport.width,
+    height: (Math.max(...ys) - Math.min(...ys)) / viewport.height,
+  };
+};
+
+// Find every occurrence of a string or pattern using pdf.js text positions.
+// Matches are found within a single text run; a phrase broken across runs
+// is caught by the check after redaction instead.
+export async function findTextMatches(data: ArrayBuffer, query: string, options: TextSearchOptions): Promise<TextMatch[]> {
+  const pattern = buildSearchPattern(query, options);
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  const matches: TextMatch[] = [];
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+
+      for (const item of textContent.items) {
+        if (!isTextItem(item)) continue;
+        for (const match of item.str.matchAll(pattern)) {
+          if (!match[0]) continue;
+          const start = match.index ?? 0;
+          matches.push({
+            text: match[0],
+            area: getTextItemArea(item, start, start + match[0].length, viewport, i - 1),
+          });
+        }
+      }
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return matches;
+}
+
+// Collect the text of every page so redacted terms can be checked for
+const extractPageTexts = async (data: Uint8Array): Promise<string[]> => {
+  const pdf = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+  const texts: string[] = [];
+
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      texts.push(textContent.items.map(item => (isTextItem(item) ? item.str : '')).join(' '));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return texts;
+};
+
+// Replace every page that has a redaction with a flattened image of itself
+// with the areas painted black, so the text, vector art and annotations
+// under them are gone rather than merely hidden. Other pages are copied
+// unchanged into a fresh document, which also leaves the source metadata
+// behind. Afterwards the output's text is searched for each term.
+export async function redactPDF(
+  data: ArrayBuffer,
+  areas: RedactionArea[],
+  terms: RedactionTerm[],
+  dpi: number
+): Promise<RedactionOutput> {
+  const source = await PDFDocument.load(data.slice(0));
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(data.slice(0)), verbosity: 0 }).promise;
+  const output = await PDFDocument.create();
+  const redactedPages = new Set(areas.map(area => area.page));
+
+  try {
+    for (let i = 0; i < pdf.numPages; i++) {
+      if (!redactedPages.has(i)) {
+        const [copied] = await output.copyPages(source, [i]);
+        output.addPage(copied);
+        continue;
+      }
+
+      const page = await pdf.getPage(i + 1);
+      const viewport = page.getViewport({ scale: 1 });
+      const canvas = await renderPageToCanvas(page, dpi / 72);
+      page.cleanup();
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Failed to get canvas context');
+      ctx.fillStyle = '#000000';
+      for (const area of areas.filter(area => area.page === i)) {
+        ctx.fillRect(
+          Math.floor(area.x * canvas.width),
+          Math.floor(area.y * canvas.height),
+          Math.ceil(area.width * canvas.width) + 1,
+          Math.ceil(area.height * canvas.height) + 1
+        );
+      }
+
+      const jpegBytes = await new Promise<ArrayBuffer>((resolve, reject) => {
+        canvas.toBlob(
+          (b) => (b ? b.arrayBuffer().then(resolve, reject) : reject(new Error(`Failed to encode page ${i + 1}`))),
+          'image/jpeg',
+          0.9
+        );
+      });
+      const image = await output.embedJpg(jpegBytes);
+      const newPage = output.addPage([viewport.width, viewport.height]);
+      newPage.drawImage(image, { x: 0, y: 0, width: viewport.width, height: viewport.height });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const bytes = await output.save();
+  const pageTexts = await extractPageTexts(bytes.slice());
+  const checks = terms.map(term => {
+    const pattern = buildSearchPattern(term.query, term.options);
+    return {
+      term,
+      remainingPages: pageTexts
+        .map((text, index) => (text.search(pattern) >= 0 ? index + 1 : 0))
+        .filter(page => page > 0),
+    };
+  });
+
+  return { bytes, checks };
+}
@@ -0,0 +1,187 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, degrees } from 'pdf-lib';
+import { renderPagePreview } from './pdfRender';
+import { parsePageSelection } from './pageRanges';
+import { canEncodeText, getPageView, hexToRgb, rotatePoint, type Point } from './pageStamp';
+
+export type WatermarkPosition =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'middle-left' | 'center' | 'middle-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export interface WatermarkImage {
+  data: ArrayBuffer;
+  type: string;
+}
+
+export interface WatermarkOptions {
+  type: 'text' | 'image';
+  text: string;
+  font: StandardFonts;
+  fontSize: number;
+  // Hex color such as #ff0000
+  color: string;
+  // 0-1
+  opacity: number;
+  // Degrees counterclockwise
+  rotation: number;
+  position: WatermarkPosition;
+  tile: boolean;
+  image?: WatermarkImage;
+  // Image width as a fraction of the page width
+  imageScale: number;
+}
+
+export const WATERMARK_POSITIONS: WatermarkPosition[] = [
+  'top-left', 'top-center', 'top-right',
+  'middle-left', 'center', 'middle-right',
+  'bottom-left', 'bottom-center', 'bottom-right',
+];
+
+// Distance kept from the page edge for non-centered positions
+const EDGE_MARGIN = 36;
+
+// Center of the watermark in view space for a given anchor
+const getAnchor = (position: WatermarkPosition, view: { width: number; height: number }, size: Point): Point => {
+  const [vertical, horizontal] = position === 'center' ? ['middle', 'center'] : position.split('-');
+  const x = horizontal === 'left' ? EDGE_MARGIN + size.x / 2
+    : horizontal === 'right' ? view.width - EDGE_MARGIN - size.x / 2
+    : view.width / 2;
+  const y = vertical === 'top' ? view.height - EDGE_MARGIN - size.y / 2
+    : vertical === 'bottom' ? EDGE_MARGIN + size.y / 2
+    : view.height / 2;
+  return { x, y };
+};
+
+// Centers for a staggered grid that still covers the corners once rotated
+const getTileCenters = (view: { width: number; height: number }, size: Point): Point[] => {
+  const stepX = size.x + Math.max(size.y, 48) * 2;
+  const stepY = size.y * 4 + 24;
+  const reach = Math.hypot(view.width, view.height);
+  const centers: Point[] = [];
+
+  for (let row = 0, y = view.height / 2 - reach; y <= view.height / 2 + reach; row++, y += stepY) {
+    const offset = row % 2 === 0 ? 0 : stepX / 2;
+    for (let x = view.width / 2 - reach + offset; x <= view.width / 2 + reach; x += stepX) {
+      centers.push({ x, y });
+    }
+  }
+
+  // Keep only tiles whose center lands near the page
+  const pad = Math.max(size.x, size.y);
+  return centers.filter(({ x, y }) => x > -pad && x < view.width + pad && y > -pad && y < view.height + pad);
+};
+
+type WatermarkContent =
+  | { kind: 'text'; font: PDFFont; text: string }
+  | { kind: 'image'; image: PDFImage };
+
+function drawWatermark(page: PDFPage, content: WatermarkContent, options: WatermarkOptions) {
+  const view = getPageView(page);
+
+  let size: Point;
+  if (content.kind === 'text') {
+    size = {
+      x: content.font.widthOfTextAtSize(content.text, options.fontSize),
+      y: content.font.heightAtSize(options.fontSize, { descender: false }),
+    };
+  } else {
+    const width = view.width * options.imageScale;
+    size = { x: width, y: width * (content.image.height / content.image.width) };
+  }
+
+  const centers = options.tile
+    ? getTileCenters(view, size)
+    : [getAnchor(options.position, view, size)];
+
+  // pdf-lib rotates around the drawing origin, so offset the origin from the
+  // center by the rotated half size
+  const angle = options.rotation + view.rotation;
+  const halfSize = rotatePoint({ x: -size.x / 2, y: -size.y / 2 }, options.rotation);
+
+  for (const center of centers) {
+    const origin = view.toUserSpace({ x: center.x + halfSize.x, y: center.y + halfSize.y });
+
+    if (content.kind === 'text') {
+      page.drawText(content.text, {
+        x: origin.x,
+        y: origin.y,
+        size: options.fontSize,
+        font: content.font,
+        color: hexToRgb(options.color),
+        opacity: options.opacity,
+        rotate: degrees(angle),
+      });
+    } else {
+      page.drawImage(content.image, {
+        x: origin.x,
+        y: origin.y,
+        width: size.x,
+        height: size.y,
+        opacity: options.opacity,
+        rotate: degrees(angle),
+      });
+    }
+  }
+}
+
+async function embedWatermarkContent(pdfDoc: PDFDocument, options: WatermarkOptions): Promise<WatermarkContent> {
+  if (options.type === 'image') {
+    if (!options.image) throw new Error('Please choose a PNG or JPEG image for the watermark');
+    const image = options.image.type === 'image/png'
+      ? await pdfDoc.embedPng(options.image.data)
+      : await pdfDoc.embedJpg(options.image.data);
+    return { kind: 'image', image };
+  }
+
+  const text = options.text.trim();
+  if (!text) throw new Error('Please enter the watermark text');
+
+  const font = await pdfDoc.embedFont(options.font);
+  if (!canEncodeText(font, text)) {
+    throw new Error('The watermark text contains characters the selected font cannot display');
+  }
+  return { kind: 'text', font, text };
+}
+
+const getSelectedPages = (pdfDoc: PDFDocument, pageSelection: string) => {
+  const pageIndices = parsePageSelection(pageSelection, pdfDoc.getPageCount());
+  if (pageIndices.length === 0) throw new Error('The page selection does not match any pages');
+  return pageIndices;
+};
+
+// Stamp the watermark onto the selected pages; an empty selection means all pages
+export async function watermarkPDF(
+  data: ArrayBuffer,
+  options: WatermarkOptions,
+  pageSelection: string
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(data);
+  const pageIndices = getSelectedPages(pdfDoc, pageSelection);
+  const content = await embedWatermarkContent(pdfDoc, options);
+  pageIndices.forEach(index => drawWatermark(pdfDoc.getPage(index), content, options));
+  return pdfDoc.save();
+}
+
+export interface WatermarkPreview {
+  dataUrl: string;
+  pageNumber: number;
+}
+
+// Render the first selected page with the watermark applied, without
+// touching the rest of the document, for a quick preview while options change
+export async function renderWatermarkPreview(
+  data: ArrayBuffer,
+  options: WatermarkOptions,
+  pageSelection: string,
+  maxWidth = 400
+): Promise<WatermarkPreview> {
+  const source = await PDFDocument.load(data);
+  const [pageIndex] = getSelectedPages(source, pageSelection);
+  const previewDoc = await PDFDocument.create();
+  const [page] = await previewDoc.copyPages(source, [pageIndex]);
+  previewDoc.addPage(page);
+  drawWatermark(page, await embedWatermarkContent(previewDoc, options), options);
+
+  const { dataUrl } = await renderPagePreview(await previewDoc.save(), 1, maxWidth);
+  return { dataUrl, pageNumber: pageIndex + 1 };
+}
@@ -0,0 +1,523 @@
+import mammoth from 'mammoth';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb, type RGB } from 'pdf-lib';
+import { replaceUnencodable } from './pageStamp';
+
+// A4 in points with roughly 2 cm margins
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const BASE_FONT_SIZE = 11;
+const LINE_HEIGHT = 1.3;
+const PARAGRAPH_SPACING = 6;
+const LIST_INDENT = 18;
+const CELL_PADDING = 4;
+// Word documents size images in CSS pixels
+const POINTS_PER_PIXEL = 0.75;
+
+const HEADING_SIZES: Record<string, number> = { H1: 22, H2: 18, H3: 15, H4: 13, H5: 12, H6: 11 };
+const TEXT_COLOR = rgb(0, 0, 0);
+const LINK_COLOR = rgb(0.02, 0.27, 0.7);
+const BORDER_COLOR = rgb(0.6, 0.6, 0.6);
+
+// Legacy binary .doc files are OLE compound documents
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+export const isLegacyWordDocument = (data: ArrayBuffer) => {
+  const header = new Uint8Array(data, 0, Math.min(data.byteLength, OLE_SIGNATURE.length));
+  return OLE_SIGNATURE.every((byte, index) => header[index] === byte);
+};
+
+export interface WordToPDFConversion {
+  bytes: Uint8Array;
+  pageCount: number;
+  // Conversion notes from mammoth, such as unsupported styles
+  warnings: string[];
+}
+
+interface InlineStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  link: boolean;
+  size: number;
+  script?: 'sup' | 'sub';
+}
+
+type InlineItem =
+  | { kind: 'text'; text: string; style: InlineStyle }
+  | { kind: 'image'; image: PDFImage; width: number; height: number }
+  | { kind: 'break' };
+
+type Fragment =
+  | { kind: 'text'; text: string; style: InlineStyle; font: PDFFont; size: number; x: number; width: number }
+  | { kind: 'image'; image: PDFImage; x: number; width: number; height: number };
+
+// A block of content laid out at a fixed width. Items are placed top-down;
+// `baseline` is the offset of the first text baseline, used to align list
+// markers.
+interface LayoutItem {
+  height: number;
+  spaceBefore: number;
+  baseline?: number;
+  draw: (page: PDFPage, x: number, top: number) => void;
+}
+
+interface LayoutContext {
+  fonts: { regular: PDFFont; bold: PDFFont; italic: PDFFont; boldItalic: PDFFont };
+  images: Map<string, PDFImage>;
+}
+
+const BASE_STYLE: InlineStyle = {
+  bold: false,
+  italic: false,
+  underline: false,
+  strike: false,
+  link: false,
+  size: BASE_FONT_SIZE,
+};
+
+const BLOCK_TAGS = new Set([
+  'P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'TABLE', 'DIV', 'BLOCKQUOTE', 'HR', 'PRE',
+]);
+
+const isBlockNode = (node: Node) => node instanceof Element && BLOCK_TAGS.has(node.tagName);
+
+const getFont = (style: InlineStyle, ctx: LayoutContext) => (
+  style.bold && style.italic ? ctx.fonts.boldItalic
+    : style.bold ? ctx.fonts.bold
+    : style.italic ? ctx.fonts.italic
+    : ctx.fonts.regular
+);
+
+// Superscript and subscript text is drawn smaller and shifted off the baseline
+const getFontSize = (style: InlineStyle) => (style.script ? style.size * 0.7 : style.size);
+const getRise = (style: InlineStyle) => (
+  style.script === 'sup' ? style.size * 0.35 : style.script === 'sub' ? -style.size * 0.15 : 0
+);
+
+const sameStyle = (a: InlineStyle, b: InlineStyle) => (
+  a.bold === b.bold && a.italic === b.italic && a.underline === b.underline &&
+  a.strike === b.strike && a.link === b.link && a.size === b.size && a.script === b.script
+);
+
+const collectInlines = (node: Node, style: InlineStyle, ctx: LayoutContext, items: InlineItem[]) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent ?? '').replace(/\s+/g, ' ');
+    if (text) items.push({ kind: 'text', text, style });
+    return;
+  }
+  if (!(node instanceof Element)) return;
+
+  switch (node.tagName) {
+    case 'BR':
+      items.push({ kind: 'break' });
+      return;
+    case 'IMG': {
+      const image = ctx.images.get(node.getAttribute('src') ?? '');
+      if (image) {
+        const width = parseFloat(node.getAttribute('width') ?? '') || image.width;
+        const height = parseFloat(node.getAttribute('height') ?? '') || (image.height * width) / image.width;
+        items.push({ kind: 'image', image, width: width * POINTS_PER_PIXEL, height: height * POINTS_PER_PIXEL });
+      }
+      return;
+    }
+  }
+
+  const nextStyle: InlineStyle = { ...style };
+  switch (node.tagName) {
+    case 'STRONG': case 'B': nextStyle.bold = true; break;
+    case 'EM': case 'I': nextStyle.italic = true; break;
+    case 'U': nextStyle.underline = true; break;
+    case 'S': case 'DEL': case 'STRIKE': nextStyle.strike = true; break;
+    case 'SUP': nextStyle.script = 'sup'; break;
+    case 'SUB': nextStyle.script = 'sub'; break;
+    case 'A':
+      // mammoth emits empty anchors as bookmark targets
+      if (node.hasAttribute('href')) {
+        nextStyle.link = true;
+        nextStyle.underline = true;
+      }
+      break;
+  }
+  node.childNodes.forEach(child => collectInlines(child, nextStyle, ctx, items));
+};
+
+interface Line {
+  fragments: Fragment[];
+  ascent: number;
+  descent: number;
+}
+
+// Break inline content into lines no wider than `width`. Words wider than a
+// whole line are split between characters.
+const breakLines = (items: InlineItem[], width: number, ctx: LayoutContext) => {
+  const lines: Line[] = [];
+  let fragments: Fragment[] = [];
+  let x = 0;
+  let pendingSpace: { style: InlineStyle; width: number } | undefined;
+
+  const finishLine = () => {
+    const textFragments = fragments.filter(fragment => fragment.kind === 'text');
+    const size = Math.max(BASE_FONT_SIZE, ...textFragments.map(fragment => fragment.style.size));
+    const imageHeight = Math.max(0, ...fragments.map(fragment => (fragment.kind === 'image' ? fragment.height : 0)));
+    lines.push({
+      fragments,
+      ascent: Math.max(size * LINE_HEIGHT * 0.78, imageHeight),
+      descent: size * LINE_HEIGHT * 0.22,
+    });
+    fragments = [];
+    x = 0;
+    pendingSpace = undefined;
+  };
+
+  const addText = (text: string, style: InlineStyle, textWidth: number) => {
+    if (pendingSpace && fragments.length > 0) {
+      const last = fragments[fragments.length - 1];
+      if (last.kind === 'text' && sameStyle(last.style, pendingSpace.style)) {
+        last.text += ' ';
+        last.width += pendingSpace.width;
+      } else {
+        const font = getFont(pendingSpace.style, ctx);
+        fragments.push({ kind: 'text', text: ' ', style: pendingSpace.style, font, size: getFontSize(pendingSpace.style), x, width: pendingSpace.width });
+      }
+      x += pendingSpace.width;
+    }
+    pendingSpace = undefined;
+
+    const last = fragments[fragments.length - 1];
+    if (last?.kind === 'text' && sameStyle(last.style, style)) {
+      last.text += text;
+      last.width += textWidth;
+    } else {
+      fragments.push({ kind: 'text', text, style, font: getFont(style, ctx), size: getFontSize(style), x, width: textWidth });
+    }
+    x += textWidth;
+  };
+
+  for (const item of items) {
+    if (item.kind === 'break') {
+      finishLine();
+      continue;
+    }
+
+    if (item.kind === 'image') {
+      // Fit the line width and the page height, so a pasted scan stays on one page
+      const scale = Math.min(1, width / item.width, (PAGE_HEIGHT - 2 * MARGIN) / item.height);
+      const imageWidth = item.width * scale;
+      const spaceWidth = pendingSpace && fragments.length > 0 ? pendingSpace.width : 0;
+      if (fragments.length > 0 && x + spaceWidth + imageWidth > width) finishLine();
+      if (fragments.length > 0 && pendingSpace) x += pendingSpace.width;
+      pendingSpace = undefined;
+      fragments.push({ kind: 'image', image: item.image, x, width: imageWidth, height: item.height * scale });
+      x += imageWidth;
+      continue;
+    }
+
+    const font = getFont(item.style, ctx);
+    const size = getFontSize(item.style);
+    for (const token of replaceUnencodable(font, item.text.replace(/[\t\n]/g, ' ')).split(/( )/)) {
+      if (!token) continue;
+      if (token === ' ') {
+        if (fragments.length > 0) pendingSpace = { style: item.style, width: font.widthOfTextAtSize(' ', size) };
+        continue;
+      }
+
+      const tokenWidth = font.widthOfTextAtSize(token, size);
+      const spaceWidth = pendingSpace ? pendingSpace.width : 0;
+      if (fragments.length > 0 && x + spaceWidth + tokenWidth > width) finishLine();
+
+      if (tokenWidth <= width) {
+        addText(token, item.style, tokenWidth);
+        continue;
+      }
+
+      for (const char of Array.from(token)) {
+        const charWidth = font.widthOfTextAtSize(char, size);
+        if (fragments.length > 0 && x + charWidth > width) finishLine();
+        addText(char, item.style, charWidth);
+      }
+    }
+  }
+
+  if (fragments.length > 0) finishLine();
+  return lines;
+};
+
+const drawFragment = (page: PDFPage, fragment: Fragment, x: number, baseline: number) => {
+  const y = page.getHeight() - baseline;
+
+  if (fragment.kind === 'image') {
+    page.drawImage(fragment.image, { x: x + fragment.x, y, width: fragment.width, height: fragment.height });
+    return;
+  }
+
+  const color: RGB = fragment.style.link ? LINK_COLOR : TEXT_COLOR;
+  const textY = y + getRise(fragment.style);
+  page.drawText(fragment.text, { x: x + fragment.x, y: textY, size: fragment.size, font: fragment.font, color });
+
+  const thickness = Math.max(0.5, fragment.size * 0.05);
+  const decorations = [
+    fragment.style.underline ? textY - fragment.size * 0.12 : undefined,
+    fragment.style.strike ? textY + fragment.size * 0.3 : undefined,
+  ];
+  for (const lineY of decorations) {
+    if (lineY === undefined) continue;
+    page.drawLine({
+      start: { x: x + fragment.x, y: lineY },
+      end: { x: x + fragment.x + fragment.width, y: lineY },
+      thickness,
+      color,
+    });
+  }
+};
+
+// Lay out a run of inline content as one item per line so paragraphs can
+// break across pages
+const layoutParagraph = (
+  items: InlineItem[],
+  width: number,
+  spaceBefore: number,
+  ctx: LayoutContext,
+  align: 'left' | 'center' = 'left',
+): LayoutItem[] => {
+  const lines = breakLines(items, width, ctx);
+  return lines.map((line, index) => {
+    const lineWidth = line.fragments.reduce((right, fragment) => Math.max(right, fragment.x + fragment.width), 0);
+    const offset = align === 'center' ? Math.max(0, (width - lineWidth) / 2) : 0;
+    return {
+      height: line.ascent + line.descent,
+      spaceBefore: index === 0 ? spaceBefore : 0,
+      baseline: line.ascent,
+      draw: (page, x, top) => {
+        for (const fragment of line.fragments) drawFragment(page, fragment, x + offset, top + line.ascent);
+      },
+    };
+  });
+};
+
+// Shift items right, e.g. for list items and quotes
+const indentItems = (items: LayoutItem[], indent: number): LayoutItem[] => items.map(item => ({
+  ...item,
+  draw: (page, x, top) => item.draw(page, x + indent, top),
+}));
+
+const layoutList = (list: Element, width: number, style: InlineStyle, ctx: LayoutContext, spaceBefore: number) => {
+  const items: LayoutItem[] = [];
+  const ordered = list.tagName === 'OL';
+  const start = parseInt(list.getAttribute('start') ?? '1', 10) || 1;
+  const entries = Array.from(list.children).filter(child => child.tagName === 'LI');
+
+  entries.forEach((entry, index) => {
+    const content = layoutFlow(entry, width - LIST_INDENT, style, ctx);
+    if (content.length === 0) return;
+
+    const marker = ordered ? `${start + index}.` : '•';
+    const font = getFont({ ...style, bold: false, italic: false }, ctx);
+    const markerWidth = font.widthOfTextAtSize(marker, style.size);
+    const [first, ...rest] = indentItems(content, LIST_INDENT);
+
+    items.push({
+      ...first,
+      spaceBefore: index === 0 ? spaceBefore : 2,
+      draw: (page, x, top) => {
+        first.draw(page, x, top);
+        const baseline = top + (first.baseline ?? style.size);
+        page.drawText(marker, {
+          x: x + LIST_INDENT - markerWidth - 4,
+          y: page.getHeight() - baseline,
+          size: style.size,
+          font,
+          color: TEXT_COLOR,
+        });
+      },
+    });
+    items.push(...rest);
+  });
+
+  return items;
+};
+
+// Tables get equal-width columns (widened by colspan). Each row is one item,
+// so rows move to the next page whole; a row taller than a page overflows.
+const layoutTable = (table: Element, width: number, style: InlineStyle, ctx: LayoutContext, spaceBefore: number) => {
+  const rows = Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table);
+  const cellsByRow = rows.map(row => Array.from(row.children).filter(cell => cell.tagName === 'TD' || cell.tagName === 'TH'));
+  const spanOf = (cell: Element) => Math.max(1, parseInt(cell.getAttribute('colspan') ?? '1', 10) || 1);
+  const columnCount = Math.max(1, ...cellsByRow.map(cells => cells.reduce((sum, cell) => sum + spanOf(cell), 0)));
+  const columnWidth = width / columnCount;
+
+  return cellsByRow.map((cells, rowIndex): LayoutItem => {
+    let column = 0;
+    const laidOut = cells.map(cell => {
+      const span = Math.min(spanOf(cell), columnCount - column);
+      const cellStyle = cell.tagName === 'TH' ? { ...style, bold: true } : style;
+      const items = layoutFlow(cell, span * columnWidth - CELL_PADDING * 2, cellStyle, ctx);
+      const contentHeight = items.reduce((sum, item, index) => sum + (index > 0 ? item.spaceBefore : 0) + item.height, 0);
+      const result = { x: column * columnWidth, width: span * columnWidth, items, height: contentHeight + CELL_PADDING * 2 };
+      column += span;
+      return result;
+    });
+    const height = Math.max(BASE_FONT_SIZE * LINE_HEIGHT + CELL_PADDING * 2, ...laidOut.map(cell => cell.height));
+
+    return {
+      height,
+      spaceBefore: rowIndex === 0 ? spaceBefore : 0,
+      draw: (page, x, top) => {
+        for (const cell of laidOut) {
+          page.drawRectangle({
+            x: x + cell.x,
+            y: page.getHeight() - top - height,
+            width: cell.width,
+            height,
+            borderColor: BORDER_COLOR,
+            borderWidth: 0.5,
+          });
+          let y = top + CELL_PADDING;
+          cell.items.forEach((item, index) => {
+            if (index > 0) y += item.spaceBefore;
+            item.draw(page, x + cell.x + CELL_PADDING, y);
+            y += item.height;
+          });
+        }
+      },
+    };
+  });
+};
+
+const layoutBlock = (element: Element, width: number, style: InlineStyle, ctx: LayoutContext): LayoutItem[] => {
+  const inlines = (blockStyle: InlineStyle) => {
+    const items: InlineItem[] = [];
+    element.childNodes.forEach(child => collectInlines(child, blockStyle, ctx, items));
+    return items;
+  };
+
+  switch (element.tagName) {
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+      const size = HEADING_SIZES[element.tagName];
+      return layoutParagraph(inlines({ ...style, bold: true, size }), width, size * 0.8, ctx);
+    }
+    case 'P': {
+      const items = inlines(style);
+      // Empty paragraphs are blank lines in Word
+      if (items.length === 0) {
+        return [{ height: style.size * LINE_HEIGHT, spaceBefore: PARAGRAPH_SPACING, draw: () => undefined }];
+      }
+      const align = /text-align:\s*center/.test(element.getAttribute('style') ?? '') ? 'center' : 'left';
+      return layoutParagraph(items, width, PARAGRAPH_SPACING, ctx, align);
+    }
+    case 'UL': case 'OL':
+      return layoutList(element, width, style, ctx, PARAGRAPH_SPACING);
+    case 'TABLE':
+      return layoutTable(element, width, style, ctx, PARAGRAPH_SPACING);
+    case 'BLOCKQUOTE':
+      return indentItems(layoutFlow(element, width - LIST_INDENT, { ...style, italic: true }, ctx), LIST_INDENT);
+    case 'HR':
+      return [{
+        height: 1,
+        spaceBefore: PARAGRAPH_SPACING,
+        draw: (page, x, top) => page.drawLine({
+          start: { x, y: page.getHeight() - top },
+          end: { x: x + width, y: page.getHeight() - top },
+          thickness: 0.5,
+          color: BORDER_COLOR,
+        }),
+      }];
+    default:
+      return layoutFlow(element, width, style, ctx);
+  }
+};
+
+// Lay out an element whose children mix inline content with blocks, as
+// list items and table cells do. Runs of inline nodes become paragraphs.
+const layoutFlow = (element: Element, width: number, style: InlineStyle, ctx: LayoutContext): LayoutItem[] => {
+  const items: LayoutItem[] = [];
+  let inlineItems: InlineItem[] = [];
+
+  const flushInlines = () => {
+    const hasContent = inlineItems.some(item => item.kind !== 'text' || item.text.trim());
+    if (hasContent) items.push(...layoutParagraph(inlineItems, width, items.length > 0 ? PARAGRAPH_SPACING : 0, ctx));
+    inlineItems = [];
+  };
+
+  element.childNodes.forEach(child => {
+    if (isBlockNode(child)) {
+      flushInlines();
+      const blockItems = layoutBlock(child as Element, width, style, ctx);
+      // The first block sits flush with the top of its container
+      if (items.length === 0 && blockItems.length > 0) blockItems[0] = { ...blockItems[0], spaceBefore: 0 };
+      items.push(...blockItems);
+    } else {
+      collectInlines(child, style, ctx, inlineItems);
+    }
+  });
+  flushInlines();
+
+  return items;
+};
+
+// Embed every image referenced by the HTML up front so layout can stay
+// synchronous. mammoth inlines images as data URIs; formats pdf-lib can't
+// embed are skipped.
+const embedImages = async (root: Element, pdfDoc: PDFDocument) => {
+  const images = new Map<string, PDFImage>();
+
+  for (const img of Array.from(root.querySelectorAll('img'))) {
+    const src = img.getAttribute('src') ?? '';
+    const match = src.match(/^data:image\/(png|jpe?g);base64,(.*)$/);
+    if (!match || images.has(src)) continue;
+
+    try {
+      const bytes = Uint8Array.from(atob(match[2]), char => char.charCodeAt(0));
+      images.set(src, match[1] === 'png' ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes));
+    } catch (err) {
+      console.warn('Skipping image that could not be embedded', err);
+    }
+  }
+
+  return images;
+};
+
+// Convert a .docx file to PDF: mammoth turns the document into semantic
+// HTML, which is laid out on A4 pages with the standard Helvetica fonts.
+// Headings, lists, inline styles, tables and images are kept; Word's exact
+// fonts and page geometry are not.
+export async function convertWordToPDF(data: ArrayBuffer): Promise<WordToPDFConversion> {
+  const { value: html, messages } = await mammoth.convertToHtml({ arrayBuffer: data });
+  const root = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+
+  const pdfDoc = await PDFDocument.create();
+  const ctx: LayoutContext = {
+    fonts: {
+      regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+      bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+      italic: await pdfDoc.embedFont(StandardFonts.HelveticaOblique),
+      boldItalic: await pdfDoc.embedFont(StandardFonts.HelveticaBoldOblique),
+    },
+    images: await embedImages(root, pdfDoc),
+  };
+
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const bottom = PAGE_HEIGHT - MARGIN;
+  const items = layoutFlow(root, contentWidth, BASE_STYLE, ctx);
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = MARGIN;
+  for (const item of items) {
+    const atTop = y === MARGIN;
+    let space = atTop ? 0 : item.spaceBefore;
+    if (!atTop && y + space + item.height > bottom) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = MARGIN;
+      space = 0;
+    }
+    item.draw(page, MARGIN, y + space);
+    y += space + item.height;
+  }
+
+  return {
+    bytes: await pdfDoc.save(),
+    pageCount: pdfDoc.getPageCount(),
+    warnings: messages.map(message => message.message),
+  };
+}
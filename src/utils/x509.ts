@@ -0,0 +1,158 @@
+import { bytesToHex } from './pdfCrypto';
+import { ASN1_TAGS, contextTag, findChild, parseAsn1, readNumber, readOid, readString, readTime, type Asn1Node } from './asn1';
+
+export const OIDS = {
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  rsaPss: '1.2.840.113549.1.1.10',
+  sha1WithRsa: '1.2.840.113549.1.1.5',
+  sha256WithRsa: '1.2.840.113549.1.1.11',
+  sha384WithRsa: '1.2.840.113549.1.1.12',
+  sha512WithRsa: '1.2.840.113549.1.1.13',
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSha1: '1.2.840.10045.4.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  ecdsaWithSha384: '1.2.840.10045.4.3.3',
+  ecdsaWithSha512: '1.2.840.10045.4.3.4',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+} as const;
+
+export type HashName = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+const HASHES: Record<string, HashName> = {
+  [OIDS.sha1]: 'SHA-1',
+  [OIDS.sha256]: 'SHA-256',
+  [OIDS.sha384]: 'SHA-384',
+  [OIDS.sha512]: 'SHA-512',
+};
+
+const CURVES: Record<string, { name: string; size: number }> = {
+  '1.2.840.10045.3.1.7': { name: 'P-256', size: 32 },
+  '1.3.132.0.34': { name: 'P-384', size: 48 },
+  '1.3.132.0.35': { name: 'P-521', size: 66 },
+};
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '1.2.840.113549.1.9.1': 'E',
+};
+
+export function getHashName(oid: string): HashName {
+  const hash = HASHES[oid];
+  if (!hash) throw new Error(`Unsupported digest algorithm ${oid}`);
+  return hash;
+}
+
+export interface Certificate {
+  raw: Uint8Array;
+  // The DER Name and INTEGER elements, as a CMS IssuerAndSerialNumber needs them
+  issuerRaw: Uint8Array;
+  serialRaw: Uint8Array;
+  serialNumber: string;
+  issuer: string;
+  subject: string;
+  // The subject's common name, or the whole subject when it has none
+  commonName: string;
+  notBefore: Date;
+  notAfter: Date;
+  publicKeyInfo: Uint8Array;
+  keyType: 'RSA' | 'EC';
+  // Set for EC keys
+  curve?: { name: string; size: number };
+  selfSigned: boolean;
+}
+
+const readName = (name: Asn1Node) => name.children
+  .flatMap(rdn => rdn.children)
+  .map(attribute => {
+    const [type, value] = attribute.children;
+    const oid = readOid(type);
+    return { key: NAME_ATTRIBUTES[oid] ?? oid, value: readString(value) };
+  });
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+export function parseCertificate(der: Uint8Array): Certificate {
+  const certificate = parseAsn1(der);
+  const tbs = certificate.children[0];
+  if (!tbs || tbs.tag !== ASN1_TAGS.sequence) throw new Error('Not an X.509 certificate');
+
+  // The version is optional and explicitly tagged [0]
+  const fields = tbs.children[0].tag === contextTag(0) ? tbs.children.slice(1) : tbs.children;
+  const [serial, , issuer, validity, subject, publicKeyInfo] = fields;
+  const subjectAttributes = readName(subject);
+  const algorithm = publicKeyInfo.children[0];
+  const keyOid = readOid(algorithm.children[0]);
+  if (keyOid !== OIDS.rsaEncryption && keyOid !== OIDS.ecPublicKey) throw new Error('Only RSA and EC certificates are supported');
+
+  return {
+    raw: certificate.raw,
+    issuerRaw: issuer.raw,
+    serialRaw: serial.raw,
+    serialNumber: bytesToHex(serial.contents).toUpperCase(),
+    issuer: readName(issuer).map(({ key, value }) => `${key}=${value}`).join(', '),
+    subject: subjectAttributes.map(({ key, value }) => `${key}=${value}`).join(', '),
+    commonName: subjectAttributes.find(({ key }) => key === 'CN')?.value
+      ?? subjectAttributes.map(({ value }) => value).join(', '),
+    notBefore: readTime(validity.children[0]),
+    notAfter: readTime(validity.children[1]),
+    publicKeyInfo: publicKeyInfo.raw,
+    keyType: keyOid === OIDS.rsaEncryption ? 'RSA' : 'EC',
+    curve: keyOid === OIDS.ecPublicKey ? CURVES[readOid(algorithm.children[1])] : undefined,
+    selfSigned: sameBytes(issuer.raw, subject.raw),
+  };
+}
+
+export const isSameIssuerAndSerial = (certificate: Certificate, issuer: Asn1Node, serial: Asn1Node) => (
+  sameBytes(certificate.issuerRaw, issuer.raw) && sameBytes(certificate.serialRaw, serial.raw)
+);
+
+// ECDSA signatures are DER SEQUENCEs of r and s in CMS, but WebCrypto uses
+// the two values concatenated at the curve's size
+export function ecdsaDerToRaw(signature: Uint8Array, size: number): Uint8Array {
+  const [r, s] = parseAsn1(signature).children.map(value => {
+    const bytes = value.contents.subarray(Math.max(0, value.contents.length - size));
+    const padded = new Uint8Array(size);
+    padded.set(bytes, size - bytes.length);
+    return padded;
+  });
+  const raw = new Uint8Array(size * 2);
+  raw.set(r);
+  raw.set(s, size);
+  return raw;
+}
+
+// Parameters for WebCrypto's importKey and verify given a certificate and a
+// CMS signature algorithm
+export function getVerifyAlgorithm(certificate: Certificate, signatureAlgorithm: Asn1Node, hash: HashName) {
+  const oid = readOid(signatureAlgorithm.children[0]);
+  if (certificate.keyType === 'EC') {
+    if (!certificate.curve) throw new Error('Unsupported elliptic curve');
+    return {
+      importParams: { name: 'ECDSA', namedCurve: certificate.curve.name },
+      verifyParams: { name: 'ECDSA', hash },
+    };
+  }
+  if (oid === OIDS.rsaPss) {
+    // RSASSA-PSS-params: [0] hash, [1] mask generation, [2] salt length
+    const params = signatureAlgorithm.children[1];
+    const hashParam = params && findChild(params, contextTag(0));
+    const saltParam = params && findChild(params, contextTag(2));
+    const pssHash = hashParam ? getHashName(readOid(hashParam.children[0].children[0])) : 'SHA-1';
+    return {
+      importParams: { name: 'RSA-PSS', hash: pssHash },
+      verifyParams: { name: 'RSA-PSS', saltLength: saltParam ? readNumber(saltParam.children[0]) : 20 },
+    };
+  }
+  return {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+  };
+}
@@ -0,0 +1,126 @@
+importScripts('/tesseract-core.js');
+
+const TESSDATA_URL = 'https://tessdata.projectnaptha.com/4.0.0';
+
+let modulePromise = null;
+let tessModule = null;
+let api = null;
+let loadedLanguage = null;
+let currentJobId = null;
+
+// The Emscripten module is a thenable whose `then` hands back the module
+// itself, so awaiting it directly never settles
+function getModule() {
+  if (!modulePromise) {
+    modulePromise = new Promise((resolve) => {
+      self.TesseractCoreWASM({
+        TesseractProgress(percent) {
+          if (currentJobId !== null) {
+            self.postMessage({ id: currentJobId, type: 'progress', progress: percent / 100 });
+          }
+        },
+      }).then((module) => {
+        delete module.then;
+        tessModule = module;
+        resolve(module);
+      });
+    });
+  }
+  return modulePromise;
+}
+
+async function fetchTrainedData(language) {
+  const response = await fetch(`${TESSDATA_URL}/${language}.traineddata.gz`);
+  if (!response.ok) {
+    throw new Error(`Failed to download language data for ${language} (status ${response.status})`);
+  }
+  const data = new Uint8Array(await response.arrayBuffer());
+  // The browser has already decompressed it when the host sent Content-Encoding: gzip
+  if (data[0] !== 0x1f || data[1] !== 0x8b) return data;
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function loadLanguage(language) {
+  if (api && loadedLanguage === language) return;
+
+  const module = await getModule();
+  const languages = language.split('+');
+  for (const lang of languages) {
+    const path = `${lang}.traineddata`;
+    if (!module.FS.analyzePath(path).exists) {
+      module.FS.writeFile(path, await fetchTrainedData(lang));
+    }
+  }
+
+  if (api) {
+    api.End();
+    module.destroy(api);
+  }
+  api = new module.TessBaseAPI();
+  if (api.Init(null, language) !== 0) {
+    api = null;
+    throw new Error(`Tesseract could not initialize language ${language}`);
+  }
+  loadedLanguage = language;
+}
+
+// Tesseract binarizes internally, so hand it a single-channel luminance image
+function toGrayscale(data, width, height) {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0, j = 0; i < gray.length; i++, j += 4) {
+    gray[i] = (data[j] * 299 + data[j + 1] * 587 + data[j + 2] * 114) / 1000;
+  }
+  return gray;
+}
+
+function recognize({ data, width, height }) {
+  const module = tessModule;
+  const gray = toGrayscale(data, width, height);
+  const pointer = module._malloc(gray.length);
+
+  try {
+    module.HEAPU8.set(gray, pointer);
+    api.SetImage(pointer, width, height, 1, width);
+    api.Recognize(null);
+
+    const words = [];
+    const iterator = api.GetIterator();
+    const level = module.RIL_WORD;
+    if (iterator) {
+      iterator.Begin();
+      do {
+        if (iterator.Empty(level)) continue;
+        const text = iterator.GetUTF8Text(level);
+        if (!text || !text.trim()) continue;
+        words.push({
+          text: text.trim(),
+          confidence: iterator.Confidence(level),
+          bbox: iterator.getBoundingBox(level),
+        });
+      } while (iterator.Next(level));
+      module.destroy(iterator);
+    }
+
+    return { words, confidence: api.MeanTextConf() };
+  } finally {
+    api.Clear();
+    module._free(pointer);
+  }
+}
+
+self.onmessage = async (e) => {
+  const { id, language, image } = e.data;
+  currentJobId = id;
+
+  try {
+    await loadLanguage(language);
+    const result = recognize(image);
+    self.postMessage({ id, type: 'result', result });
+  } catch (error) {
+    console.error('Worker: OCR failed:', error);
+    self.postMessage({ id, type: 'error', error: error.message || String(error) });
+  } finally {
+    currentJobId = null;
+  }
+};
@@ -0,0 +1,72 @@
+import { pdfjsLib } from '../utils/pdfjs';
+import { pdfjsDataOptions } from '../utils/pdfjsData';
+import { renderSelectedPages, type ImageWorkerMessage, type ImageWorkerRequest } from '../utils/pageImages';
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+// pdf.js makes scratch canvases through the document by default, which
+// workers don't have
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+    if (!canvasAndContext.canvas) throw new Error('Canvas is not specified');
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// The default filter factory builds SVG filters in the document. Without one,
+// transfer functions and high-contrast colours are skipped.
+class NoFilterFactory {
+  addFilter() { return 'none'; }
+  addHCMFilter() { return 'none'; }
+  addAlphaFilter() { return 'none'; }
+  addLuminosityFilter() { return 'none'; }
+  addHighlightHCMFilter() { return 'none'; }
+  destroy() {}
+}
+
+const post = (message: ImageWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<ImageWorkerRequest>) => {
+  const { data, options } = e.data;
+
+  try {
+    const pdf = await pdfjsLib.getDocument({
+      data,
+      verbosity: 0,
+      // Font faces need document.fonts, so glyphs are drawn as paths. Fonts
+      // that aren't embedded take their outlines from the bundled font data.
+      disableFontFace: true,
+      ...pdfjsDataOptions,
+      isOffscreenCanvasSupported: true,
+      CanvasFactory: OffscreenCanvasFactory,
+      FilterFactory: NoFilterFactory,
+    }).promise;
+
+    try {
+      await renderSelectedPages(pdf, options, new OffscreenCanvas(1, 1), post);
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.error('Worker: PDF to images failed:', error);
+    post({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};